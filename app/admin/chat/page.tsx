@@ -0,0 +1,275 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { FaArrowLeft, FaFlag } from "react-icons/fa"
+import { MUTE_DURATIONS } from "@/app/lib/chat"
+
+interface Report {
+  id: string
+  messageId: string | null
+  messageText: string
+  roomId: string
+  authorId: string | null
+  authorName: string | null
+  reporterName: string | null
+  reason: string | null
+  createdAt: string
+}
+
+interface ChatMessage {
+  id: string
+  user_id: string
+  username: string
+  message: string
+  room_id: string
+  created_at: string
+}
+
+interface Mute {
+  playerId: string
+  username: string | null
+  mutedUntil: string
+  reason: string | null
+}
+
+// Moderator view for reported messages, recent chat and muted players
+export default function ChatModerationPage() {
+  const [reports, setReports] = useState<Report[]>([])
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [mutes, setMutes] = useState<Mute[]>([])
+  const [muteMinutes, setMuteMinutes] = useState(MUTE_DURATIONS[0].minutes)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAll = useCallback(async () => {
+    try {
+      const responses = await Promise.all([
+        fetch("/api/chat/reports"),
+        fetch("/api/chat/messages"),
+        fetch("/api/chat/mutes"),
+      ])
+      const [reportData, messageData, muteData] = await Promise.all(responses.map((response) => response.json()))
+
+      const failed = responses.find((response) => !response.ok)
+      if (failed) {
+        const data = [reportData, messageData, muteData][responses.indexOf(failed)]
+        throw new Error(data.error || "Failed to load moderation data")
+      }
+
+      setReports(reportData.reports)
+      setMessages(messageData.messages)
+      setMutes(muteData.mutes)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load moderation data")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAll()
+  }, [loadAll])
+
+  async function send(url: string, method: string, body: object, fallbackError: string) {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || fallbackError)
+      }
+
+      await loadAll()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteMessage = (messageId: string) =>
+    send(`/api/chat/messages/${messageId}`, "DELETE", {}, "Failed to delete message")
+
+  const mutePlayer = (playerId: string, reason?: string | null) =>
+    send("/api/chat/mutes", "POST", { playerId, minutes: muteMinutes, reason }, "Failed to mute player")
+
+  const unmutePlayer = (playerId: string) => send("/api/chat/mutes", "DELETE", { playerId }, "Failed to unmute player")
+
+  const dismissReport = (reportId: string) =>
+    send("/api/chat/reports", "DELETE", { reportId }, "Failed to dismiss report")
+
+  if (isLoading) {
+    return (
+      <div className="bg-white min-h-screen p-8 flex items-center justify-center font-[family-name:var(--font-geist-sans)]">
+        <p className="text-black">Loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-black bg-white min-h-screen p-8 font-[family-name:var(--font-geist-sans)]">
+      <div className="max-w-3xl mx-auto">
+        <header className="mb-8">
+          <div className="flex justify-between items-center">
+            <Link href="/explore" className="flex items-center text-black">
+              <FaArrowLeft className="mr-2" />
+              <span>Back to Games</span>
+            </Link>
+            <div className="flex">
+              <h1 className="text-2xl font-bold text-black">CSGames</h1>
+              <span className="text-black text-2xl">.dev</span>
+            </div>
+          </div>
+        </header>
+
+        <main>
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-3xl font-bold">Chat Moderation</h2>
+            <label className="text-sm flex items-center gap-2">
+              Mute for
+              <select
+                value={muteMinutes}
+                onChange={(e) => setMuteMinutes(Number(e.target.value))}
+                className="border-2 border-black rounded-lg px-2 py-1"
+              >
+                {MUTE_DURATIONS.map((duration) => (
+                  <option key={duration.minutes} value={duration.minutes}>
+                    {duration.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {error && <div className="bg-red-100 border border-red-400 text-red-700 p-3 rounded mb-6">{error}</div>}
+
+          <div className="border-2 border-black rounded-lg p-6 mb-6">
+            <h3 className="text-xl font-bold mb-4 flex items-center">
+              <FaFlag className="mr-2 text-red-500" />
+              Reports ({reports.length})
+            </h3>
+
+            {reports.length === 0 ? (
+              <p className="text-sm text-gray-500">No open reports.</p>
+            ) : (
+              <ul className="space-y-4">
+                {reports.map((report) => (
+                  <li key={report.id} className="border border-gray-200 rounded-lg p-3">
+                    <p className="text-sm text-gray-500">
+                      {report.authorName || "Unknown player"} in {report.roomId}, reported by{" "}
+                      {report.reporterName || "unknown player"} on {new Date(report.createdAt).toLocaleString()}
+                    </p>
+                    <p className="my-2">&ldquo;{report.messageText}&rdquo;</p>
+                    {report.reason && <p className="text-sm text-gray-600 mb-2">Reason: {report.reason}</p>}
+                    <div className="flex flex-wrap gap-2">
+                      {report.messageId && (
+                        <button
+                          onClick={() => deleteMessage(report.messageId!)}
+                          disabled={isSaving}
+                          className="px-3 py-1 rounded-md text-sm bg-red-600 text-white disabled:opacity-50"
+                        >
+                          Delete Message
+                        </button>
+                      )}
+                      {report.authorId && (
+                        <button
+                          onClick={() => mutePlayer(report.authorId!, report.reason)}
+                          disabled={isSaving}
+                          className="px-3 py-1 rounded-md text-sm bg-black text-white disabled:opacity-50"
+                        >
+                          Mute Author
+                        </button>
+                      )}
+                      <button
+                        onClick={() => dismissReport(report.id)}
+                        disabled={isSaving}
+                        className="px-3 py-1 rounded-md text-sm bg-gray-200 disabled:opacity-50"
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="border-2 border-black rounded-lg p-6 mb-6">
+            <h3 className="text-xl font-bold mb-4">Muted Players ({mutes.length})</h3>
+
+            {mutes.length === 0 ? (
+              <p className="text-sm text-gray-500">Nobody is muted.</p>
+            ) : (
+              <ul className="space-y-2">
+                {mutes.map((mute) => (
+                  <li key={mute.playerId} className="flex justify-between items-center text-sm">
+                    <span>
+                      <span className="font-medium">{mute.username || "Unknown player"}</span> until{" "}
+                      {new Date(mute.mutedUntil).toLocaleString()}
+                      {mute.reason && <span className="text-gray-500"> ({mute.reason})</span>}
+                    </span>
+                    <button
+                      onClick={() => unmutePlayer(mute.playerId)}
+                      disabled={isSaving}
+                      className="px-3 py-1 rounded-md text-sm bg-gray-200 disabled:opacity-50"
+                    >
+                      Unmute
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="border-2 border-black rounded-lg p-6 mb-6">
+            <h3 className="text-xl font-bold mb-4">Recent Messages</h3>
+
+            {messages.length === 0 ? (
+              <p className="text-sm text-gray-500">No messages.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {messages.map((message) => (
+                  <li key={message.id} className="py-2 flex justify-between items-start gap-4 text-sm">
+                    <div>
+                      <p className="text-gray-500">
+                        <span className="font-medium text-black">{message.username}</span> in {message.room_id} at{" "}
+                        {new Date(message.created_at).toLocaleString()}
+                      </p>
+                      <p className="break-words">{message.message}</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => deleteMessage(message.id)}
+                        disabled={isSaving}
+                        className="px-2 py-1 rounded-md text-xs bg-red-600 text-white disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        onClick={() => mutePlayer(message.user_id)}
+                        disabled={isSaving}
+                        className="px-2 py-1 rounded-md text-xs bg-black text-white disabled:opacity-50"
+                      >
+                        Mute
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  )
+}
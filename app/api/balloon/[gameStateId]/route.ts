@@ -0,0 +1,39 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getBalloonView, type BalloonState } from "@/app/lib/games/balloon"
+
+type RouteContext = { params: Promise<{ gameStateId: string }> }
+
+// Moves go through /api/games/[gameStateId]/move, this only serves the row
+// without its pop threshold, which players can't read from the table
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { gameStateId } = await params
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+    const { data: gameState, error } = await admin
+      .from("balloon_game_states")
+      .select("*")
+      .eq("id", gameStateId)
+      .single()
+
+    if (error || !gameState) {
+      return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(getBalloonView(gameState as BalloonState))
+  } catch (error) {
+    console.error("Error fetching balloon game:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,139 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import {
+  PUMPS_PER_TURN,
+  STARTING_SIZE,
+  TURN_TIMER,
+  createPopThreshold,
+  getBalloonView,
+  type BalloonState,
+} from "@/app/lib/games/balloon"
+
+// Creates the Balloon game for the lobby's current round and returns it without
+// the pop threshold. The seats are copied from the lobby's game_states row, a
+// board that was created before everyone sat down picks them up here as well.
+export async function POST(request: NextRequest) {
+  try {
+    const { lobbyId } = await request.json()
+
+    if (!lobbyId) {
+      return NextResponse.json({ error: "Lobby ID is required" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+
+    const { data: lobbyState, error: lobbyStateError } = await admin
+      .from("game_states")
+      .select("round, player1, player2, players, current_player")
+      .eq("lobby_id", lobbyId)
+      .order("round", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (lobbyStateError) {
+      console.error("Error loading lobby game:", lobbyStateError)
+      return NextResponse.json({ error: "Failed to load game" }, { status: 500 })
+    }
+
+    if (!lobbyState) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    const round = lobbyState.round ?? 1
+    const seats = lobbyState.player2
+      ? {
+          player1: lobbyState.player1,
+          player2: lobbyState.player2,
+          players: lobbyState.players,
+          current_player: lobbyState.current_player,
+          status: "playing",
+        }
+      : null
+
+    const { data: existing, error: existingError } = await admin
+      .from("balloon_game_states")
+      .select("*")
+      .eq("lobby_id", lobbyId)
+      .eq("round", round)
+      .maybeSingle()
+
+    if (existingError) {
+      console.error("Error fetching balloon game:", existingError)
+      return NextResponse.json({ error: "Failed to load game" }, { status: 500 })
+    }
+
+    let gameState = existing as BalloonState | null
+
+    if (!gameState) {
+      const { data: created, error: createError } = await admin
+        .from("balloon_game_states")
+        .insert({
+          lobby_id: lobbyId,
+          round,
+          player1: lobbyState.player1,
+          current_player: lobbyState.current_player ?? lobbyState.player1,
+          status: "waiting",
+          ...seats,
+          pop_threshold: createPopThreshold(),
+          size: STARTING_SIZE,
+          score: 0,
+          is_popped: false,
+          remaining_pumps: PUMPS_PER_TURN,
+          turn_timer: TURN_TIMER,
+        })
+        .select()
+        .single()
+
+      // Someone else opened the game at the same moment
+      if (createError?.code === "23505") {
+        const { data: raced } = await admin
+          .from("balloon_game_states")
+          .select("*")
+          .eq("lobby_id", lobbyId)
+          .eq("round", round)
+          .single()
+        gameState = raced
+      } else if (createError) {
+        console.error("Error creating balloon game:", createError)
+        return NextResponse.json({ error: "Failed to create game" }, { status: 500 })
+      } else {
+        gameState = created
+      }
+    } else if (gameState.status === "waiting" && seats) {
+      const { data: seated, error: seatError } = await admin
+        .from("balloon_game_states")
+        .update(seats)
+        .eq("id", gameState.id)
+        .eq("status", "waiting")
+        .select()
+        .maybeSingle()
+
+      if (seatError) {
+        console.error("Error seating balloon players:", seatError)
+        return NextResponse.json({ error: "Failed to join game" }, { status: 500 })
+      }
+
+      if (seated) gameState = seated
+    }
+
+    if (!gameState) {
+      return NextResponse.json({ error: "Failed to load game" }, { status: 500 })
+    }
+
+    return NextResponse.json(getBalloonView(gameState))
+  } catch (error) {
+    console.error("Error loading balloon game:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
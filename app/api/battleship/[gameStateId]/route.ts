@@ -0,0 +1,44 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getPlayerView, getSpectatorView, type BattleshipGameState } from "@/app/lib/games/battleship"
+
+type RouteContext = { params: Promise<{ gameStateId: string }> }
+
+// Moves go through /api/games/[gameStateId]/move, this only serves the fog-of-war view,
+// or the spectator view for anyone who is not playing
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { gameStateId } = await params
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+    const { data: gameState, error } = await admin
+      .from("battleship_game_states")
+      .select("*")
+      .eq("id", gameStateId)
+      .single()
+
+    if (error || !gameState) {
+      return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+    }
+
+    const userId = session.user.id
+    if (gameState.player1 !== userId && gameState.player2 !== userId) {
+      return NextResponse.json(getSpectatorView(gameState as BattleshipGameState))
+    }
+
+    return NextResponse.json(getPlayerView(gameState as BattleshipGameState, userId))
+  } catch (error) {
+    console.error("Error fetching battleship game:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,170 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import {
+  battleshipRules,
+  createEmptyBoard,
+  getPlayerView,
+  getSpectatorView,
+  placeFleetRandomly,
+  type BattleshipGameState,
+} from "@/app/lib/games/battleship"
+import { getGameById } from "@/app/lib/games/registry"
+
+// Creates the Battleship game for a lobby's current round and returns the caller's
+// view of it. Players are seated from the lobby, anyone else gets the spectator view.
+export async function POST(request: NextRequest) {
+  try {
+    const { lobbyId } = await request.json()
+
+    if (!lobbyId) {
+      return NextResponse.json({ error: "Lobby ID is required" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: lobby, error: lobbyError } = await admin.from("lobbies").select("game_id").eq("id", lobbyId).maybeSingle()
+
+    if (lobbyError) {
+      console.error("Error loading lobby:", lobbyError)
+      return NextResponse.json({ error: "Failed to load game" }, { status: 500 })
+    }
+
+    if (!lobby) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    if (getGameById(lobby.game_id)?.rules !== battleshipRules) {
+      return NextResponse.json({ error: "This lobby isn't playing Battleship" }, { status: 400 })
+    }
+
+    // Each rematch round of the lobby gets its own board
+    const { data: lobbyState, error: lobbyStateError } = await admin
+      .from("game_states")
+      .select("round, player1, player2, current_player, move_time_limit, game_time_limit, ai_opponent, ai_difficulty")
+      .eq("lobby_id", lobbyId)
+      .order("round", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (lobbyStateError) {
+      console.error("Error loading lobby game:", lobbyStateError)
+      return NextResponse.json({ error: "Failed to load game" }, { status: 500 })
+    }
+
+    if (!lobbyState) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    const round = lobbyState.round ?? 1
+    // Seats only ever come from the lobby, so whoever the round starts with fires
+    // first. The AI's fleet is placed right away and stays on the server like anyone's.
+    const seats = lobbyState.player2
+      ? {
+          player1: lobbyState.player1,
+          player2: lobbyState.player2,
+          current_player: lobbyState.current_player,
+          player2_board: lobbyState.ai_opponent ? placeFleetRandomly() : createEmptyBoard(),
+          player2_ready: !!lobbyState.ai_opponent,
+          ai_opponent: !!lobbyState.ai_opponent,
+          ai_difficulty: lobbyState.ai_opponent ? lobbyState.ai_difficulty : null,
+          // The clocks were picked when the lobby was started
+          move_time_limit: lobbyState.move_time_limit,
+          game_time_limit: lobbyState.game_time_limit,
+        }
+      : null
+
+    const { data: existing, error: existingError } = await admin
+      .from("battleship_game_states")
+      .select("*")
+      .eq("lobby_id", lobbyId)
+      .eq("round", round)
+      .maybeSingle()
+
+    if (existingError) {
+      console.error("Error fetching battleship game:", existingError)
+      return NextResponse.json({ error: "Failed to load game" }, { status: 500 })
+    }
+
+    let gameState = existing as BattleshipGameState | null
+
+    if (!gameState) {
+      const { data: created, error: createError } = await admin
+        .from("battleship_game_states")
+        .insert({
+          lobby_id: lobbyId,
+          round,
+          player1: lobbyState.player1,
+          player2: null,
+          player1_board: createEmptyBoard(),
+          player2_board: createEmptyBoard(),
+          player1_shots: createEmptyBoard(),
+          player2_shots: createEmptyBoard(),
+          player1_ready: false,
+          player2_ready: false,
+          ai_opponent: false,
+          ai_difficulty: null,
+          current_player: lobbyState.current_player ?? lobbyState.player1,
+          status: "setup",
+          winner: null,
+          ...seats,
+        })
+        .select()
+        .single()
+
+      // Someone else opened the game at the same moment
+      if (createError?.code === "23505") {
+        const { data: raced } = await admin
+          .from("battleship_game_states")
+          .select("*")
+          .eq("lobby_id", lobbyId)
+          .eq("round", round)
+          .single()
+        gameState = raced
+      } else if (createError) {
+        console.error("Error creating battleship game:", createError)
+        return NextResponse.json({ error: "Failed to create game" }, { status: 500 })
+      } else {
+        gameState = created
+      }
+    } else if (!gameState.player2 && seats) {
+      // The board was opened before the lobby started, take the seats it started with
+      const { data: seated, error: seatError } = await admin
+        .from("battleship_game_states")
+        .update(seats)
+        .eq("id", gameState.id)
+        .is("player2", null)
+        .select()
+        .maybeSingle()
+
+      if (seatError) {
+        console.error("Error seating battleship players:", seatError)
+        return NextResponse.json({ error: "Failed to join game" }, { status: 500 })
+      }
+
+      if (seated) gameState = seated
+    }
+
+    if (!gameState) {
+      return NextResponse.json({ error: "Failed to load game" }, { status: 500 })
+    }
+
+    const view = gameState as BattleshipGameState
+    const isPlayer = view.player1 === userId || view.player2 === userId
+    return NextResponse.json(isPlayer ? getPlayerView(view, userId) : getSpectatorView(view))
+  } catch (error) {
+    console.error("Error loading battleship game:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
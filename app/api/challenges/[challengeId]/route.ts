@@ -0,0 +1,201 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameById } from "@/app/lib/games/registry"
+import { getFreeSeat, getTeamForSeat } from "@/app/lib/games/lobby"
+import { syncLobbySeats } from "@/app/lib/games/server"
+import { DEFAULT_DISCONNECT_GRACE_PERIOD } from "@/app/lib/games/presence"
+import { DEFAULT_GAME_TIME_LIMIT, DEFAULT_MOVE_TIME_LIMIT } from "@/app/lib/games/clock"
+import { CHALLENGE_ACTIONS, deleteChallengeLobbies, isChallengeExpired, type Challenge } from "@/app/lib/games/challenges"
+
+type RouteContext = { params: Promise<{ challengeId: string }> }
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// The challenge if the signed in player is part of it, with expiry applied
+async function loadChallenge(admin: AdminClient, challengeId: string, userId: string) {
+  const { data, error } = await admin.from("challenges").select("*").eq("id", challengeId).maybeSingle()
+
+  if (error) throw error
+
+  const challenge = data as Challenge | null
+  if (!challenge || (challenge.challenger_id !== userId && challenge.challenged_id !== userId)) return null
+
+  if (isChallengeExpired(challenge)) {
+    const { data: expired } = await admin
+      .from("challenges")
+      .update({ status: "expired" })
+      .eq("id", challenge.id)
+      .eq("status", "pending")
+      .select("id")
+      .maybeSingle()
+
+    if (expired) {
+      const cleanupError = await deleteChallengeLobbies(admin, [challenge.lobby_id])
+      if (cleanupError) console.error("Error removing challenge lobby:", cleanupError)
+    }
+
+    return { ...challenge, status: "expired" } as Challenge
+  }
+
+  return challenge
+}
+
+// Seats the challenged player in the challenger's lobby and starts the game
+// with the default clocks, the same as a host starting it from the lobby page
+async function startChallenge(admin: AdminClient, challenge: Challenge) {
+  const game = getGameById(challenge.game_id)
+  if (!game || !challenge.lobby_id) return new Error("Challenge has no lobby")
+
+  const { data: members, error: membersError } = await admin
+    .from("lobby_members")
+    .select("player_id, seat")
+    .eq("lobby_id", challenge.lobby_id)
+
+  if (membersError) return membersError
+
+  if (!members?.some((member) => member.player_id === challenge.challenged_id)) {
+    const seat = getFreeSeat(members || [], game)
+    if (!seat) return new Error("Lobby is full")
+
+    const { error: seatError } = await admin.from("lobby_members").insert({
+      lobby_id: challenge.lobby_id,
+      player_id: challenge.challenged_id,
+      seat,
+      team: getTeamForSeat(seat, game),
+      is_ready: true,
+    })
+
+    if (seatError) return seatError
+  }
+
+  const syncError = await syncLobbySeats(admin, challenge.lobby_id)
+  if (syncError) return syncError
+
+  const now = new Date().toISOString()
+
+  const { data: started, error: startError } = await admin
+    .from("game_states")
+    .update({
+      status: "playing",
+      started_at: now,
+      move_time_limit: game.timed ? DEFAULT_MOVE_TIME_LIMIT : null,
+      game_time_limit: game.timed ? DEFAULT_GAME_TIME_LIMIT : null,
+      turn_started_at: game.timed ? now : null,
+      disconnect_grace_period: DEFAULT_DISCONNECT_GRACE_PERIOD,
+    })
+    .eq("lobby_id", challenge.lobby_id)
+    .eq("status", "waiting")
+    .select("id")
+
+  if (startError) return startError
+  if (!started?.length) return new Error("Game has already started")
+
+  return null
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { challengeId } = await params
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const challenge = await loadChallenge(createAdminClient(), challengeId, session.user.id)
+    if (!challenge) {
+      return NextResponse.json({ error: "Challenge not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ challenge })
+  } catch (error) {
+    console.error("Error loading challenge:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { action }. The challenged player can "accept" or "decline", the
+// challenger can "cancel". Accepting starts the game in the challenge lobby.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { challengeId } = await params
+    const { action } = await request.json()
+
+    if (!CHALLENGE_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Unknown challenge action" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const challenge = await loadChallenge(admin, challengeId, userId)
+    if (!challenge) {
+      return NextResponse.json({ error: "Challenge not found" }, { status: 404 })
+    }
+
+    if (challenge.status !== "pending") {
+      return NextResponse.json({ error: `This challenge was ${challenge.status}` }, { status: 400 })
+    }
+
+    const allowedPlayer = action === "cancel" ? challenge.challenger_id : challenge.challenged_id
+    if (userId !== allowedPlayer) {
+      return NextResponse.json({ error: "You can't do that with this challenge" }, { status: 403 })
+    }
+
+    const status = action === "accept" ? "accepted" : action === "decline" ? "declined" : "cancelled"
+
+    // Only answer a challenge that is still open, the other player may have
+    // cancelled or it may have run out in the meantime
+    const { data: answered, error: answerError } = await admin
+      .from("challenges")
+      .update({ status, responded_at: new Date().toISOString() })
+      .eq("id", challenge.id)
+      .eq("status", "pending")
+      .gt("expires_at", new Date().toISOString())
+      .select("id")
+      .maybeSingle()
+
+    if (answerError) {
+      console.error("Error answering challenge:", answerError)
+      return NextResponse.json({ error: "Failed to answer the challenge" }, { status: 500 })
+    }
+
+    if (!answered) {
+      return NextResponse.json({ error: "This challenge is no longer open" }, { status: 409 })
+    }
+
+    if (action !== "accept") {
+      const cleanupError = await deleteChallengeLobbies(admin, [challenge.lobby_id])
+      if (cleanupError) console.error("Error removing challenge lobby:", cleanupError)
+
+      return NextResponse.json({ success: true, status })
+    }
+
+    const startError = await startChallenge(admin, challenge)
+    if (startError) {
+      console.error("Error starting challenge:", startError)
+
+      // Put the challenge back so the players can try again
+      await admin.from("challenges").update({ status: "pending", responded_at: null }).eq("id", challenge.id)
+      return NextResponse.json({ error: "Failed to start the game" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, status, lobbyId: challenge.lobby_id })
+  } catch (error) {
+    console.error("Error answering challenge:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,186 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameById, getGameByKey } from "@/app/lib/games/registry"
+import { CHALLENGE_TIMEOUT, deleteChallengeLobbies, expireChallenges, type Challenge } from "@/app/lib/games/challenges"
+import { getUsername, notifyPlayers } from "@/app/lib/notifications"
+
+// The player's open challenges, sent and received, with the other player's name
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const expireError = await expireChallenges(admin, userId)
+    if (expireError) console.error("Error expiring challenges:", expireError)
+
+    const { data, error } = await admin
+      .from("challenges")
+      .select("*")
+      .or(`challenger_id.eq.${userId},challenged_id.eq.${userId}`)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      console.error("Error loading challenges:", error)
+      return NextResponse.json({ error: "Failed to load challenges" }, { status: 500 })
+    }
+
+    const challenges = (data || []) as Challenge[]
+    const otherIds = challenges.map((challenge) =>
+      challenge.challenger_id === userId ? challenge.challenged_id : challenge.challenger_id,
+    )
+
+    let profiles: { id: string; username: string | null }[] = []
+    if (otherIds.length > 0) {
+      const { data: rows } = await admin.from("profiles").select("id, username").in("id", otherIds)
+      profiles = rows || []
+    }
+
+    const toSummary = (challenge: Challenge, playerId: string) => ({
+      id: challenge.id,
+      playerId,
+      username: profiles.find((profile) => profile.id === playerId)?.username ?? null,
+      gameId: challenge.game_id,
+      gameTitle: getGameById(challenge.game_id)?.title ?? "Unknown Game",
+      lobbyId: challenge.lobby_id,
+      expiresAt: challenge.expires_at,
+    })
+
+    return NextResponse.json({
+      incoming: challenges
+        .filter((challenge) => challenge.challenged_id === userId)
+        .map((challenge) => toSummary(challenge, challenge.challenger_id)),
+      outgoing: challenges
+        .filter((challenge) => challenge.challenger_id === userId)
+        .map((challenge) => toSummary(challenge, challenge.challenged_id)),
+    })
+  } catch (error) {
+    console.error("Error loading challenges:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { playerId, game } with the registry key, e.g. "connect-four". The
+// lobby is created through the challenger's own session so they host it, and
+// only the challenged player is invited into it.
+export async function POST(request: NextRequest) {
+  try {
+    const { playerId, game: gameKey } = await request.json()
+
+    const game = getGameByKey(gameKey)
+    if (!game || game.singlePlayer || !game.rules) {
+      return NextResponse.json({ error: "You can't challenge someone to this game" }, { status: 400 })
+    }
+
+    if (!playerId || typeof playerId !== "string") {
+      return NextResponse.json({ error: "Player ID is required" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    if (playerId === userId) {
+      return NextResponse.json({ error: "You can't challenge yourself" }, { status: 400 })
+    }
+
+    const admin = createAdminClient()
+
+    const { data: profile } = await admin.from("profiles").select("id").eq("id", playerId).maybeSingle()
+    if (!profile) {
+      return NextResponse.json({ error: "Player not found" }, { status: 404 })
+    }
+
+    const expireError = await expireChallenges(admin, userId)
+    if (expireError) console.error("Error expiring challenges:", expireError)
+
+    const { data: existing } = await admin
+      .from("challenges")
+      .select("id")
+      .eq("challenger_id", userId)
+      .eq("challenged_id", playerId)
+      .eq("status", "pending")
+      .maybeSingle()
+
+    if (existing) {
+      return NextResponse.json({ error: "You already have a challenge waiting for them" }, { status: 409 })
+    }
+
+    const { data: lobbyId, error: lobbyError } = await supabase.rpc("create_lobby_with_game_state", {
+      game_id: game.id,
+    })
+
+    if (lobbyError || !lobbyId) {
+      console.error("Error creating challenge lobby:", lobbyError)
+      return NextResponse.json({ error: "Failed to create the lobby" }, { status: 500 })
+    }
+
+    // Nobody else should take the seat the challenge is holding
+    const { error: privateError } = await admin.from("lobbies").update({ visibility: "private" }).eq("id", lobbyId)
+    if (privateError) console.error("Error making challenge lobby private:", privateError)
+
+    const { error: inviteError } = await admin
+      .from("lobby_invites")
+      .upsert({ lobby_id: lobbyId, player_id: playerId, invited_by: userId }, { ignoreDuplicates: true })
+    if (inviteError) console.error("Error inviting challenged player:", inviteError)
+
+    const { data: challenge, error: challengeError } = await admin
+      .from("challenges")
+      .insert({
+        challenger_id: userId,
+        challenged_id: playerId,
+        game_id: game.id,
+        lobby_id: lobbyId,
+        expires_at: new Date(Date.now() + CHALLENGE_TIMEOUT).toISOString(),
+      })
+      .select("*")
+      .single()
+
+    if (challengeError) {
+      const cleanupError = await deleteChallengeLobbies(admin, [lobbyId])
+      if (cleanupError) console.error("Error removing challenge lobby:", cleanupError)
+
+      // Two challenges sent at once, the unique pending pair lets one through
+      if (challengeError.code === "23505") {
+        return NextResponse.json({ error: "You already have a challenge waiting for them" }, { status: 409 })
+      }
+
+      console.error("Error creating challenge:", challengeError)
+      return NextResponse.json({ error: "Failed to send the challenge" }, { status: 500 })
+    }
+
+    const notifyError = await notifyPlayers(admin, [playerId], {
+      type: "challenge",
+      title: `${await getUsername(admin, userId)} challenged you to ${game.title}`,
+      body: "Answer it before it runs out",
+      link: `/lobby/${lobbyId}`,
+      lobby_id: lobbyId,
+    })
+
+    if (notifyError) {
+      console.error("Error sending challenge notification:", notifyError)
+    }
+
+    return NextResponse.json({ challenge })
+  } catch (error) {
+    console.error("Error creating challenge:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
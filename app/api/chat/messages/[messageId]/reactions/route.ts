@@ -0,0 +1,76 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { isChatReaction } from "@/app/lib/chat"
+
+type RouteContext = { params: Promise<{ messageId: string }> }
+
+// Body is { reaction }, adds the player's reaction or takes it back if they
+// already reacted that way
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { messageId } = await params
+    const { reaction } = await request.json()
+
+    if (!isChatReaction(reaction)) {
+      return NextResponse.json({ error: "Unknown reaction" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+
+    // Read as the player, so they can only react in rooms they can see
+    const { data: message } = await supabase
+      .from("messages")
+      .select("id, room_id, deleted_at")
+      .eq("id", messageId)
+      .maybeSingle()
+
+    if (!message || message.deleted_at) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 })
+    }
+
+    const admin = createAdminClient()
+
+    const { data: removed, error: removeError } = await admin
+      .from("message_reactions")
+      .delete()
+      .eq("message_id", messageId)
+      .eq("user_id", userId)
+      .eq("reaction", reaction)
+      .select()
+
+    if (removeError) {
+      console.error("Error removing reaction:", removeError)
+      return NextResponse.json({ error: "Failed to update reaction" }, { status: 500 })
+    }
+
+    if (removed && removed.length > 0) {
+      return NextResponse.json({ reacted: false })
+    }
+
+    const { error } = await admin
+      .from("message_reactions")
+      .insert({ message_id: messageId, user_id: userId, reaction, room_id: message.room_id })
+
+    // A double click can add the same reaction twice, the primary key keeps one
+    if (error && error.code !== "23505") {
+      console.error("Error adding reaction:", error)
+      return NextResponse.json({ error: "Failed to update reaction" }, { status: 500 })
+    }
+
+    return NextResponse.json({ reacted: true })
+  } catch (error) {
+    console.error("Error updating reaction:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
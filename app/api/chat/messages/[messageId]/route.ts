@@ -0,0 +1,160 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { checkCanPost, checkMessage, isChatModerator } from "@/app/lib/chat-moderation"
+
+type RouteContext = { params: Promise<{ messageId: string }> }
+
+// Body is { message }, players edit their own messages. The edit goes through
+// the same checks as a new message, including room access and the rate limit,
+// and marks it as edited.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { messageId } = await params
+    const { message } = await request.json()
+
+    const checked = checkMessage(message)
+    if ("error" in checked) {
+      return NextResponse.json({ error: checked.error }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: existing } = await admin
+      .from("messages")
+      .select("user_id, room_id, deleted_at")
+      .eq("id", messageId)
+      .maybeSingle()
+
+    if (!existing || existing.deleted_at) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 })
+    }
+
+    if (existing.user_id !== userId) {
+      return NextResponse.json({ error: "You can only edit your own messages" }, { status: 403 })
+    }
+
+    // Players who lost access to the room, e.g. a spectator who took a seat,
+    // can't rewrite what they said there. Runs as the player, like posting.
+    const { data: canAccess, error: accessError } = await supabase.rpc("can_access_chat_room", {
+      p_room_id: existing.room_id,
+    })
+
+    if (accessError) {
+      console.error("Error checking chat room access:", accessError)
+      return NextResponse.json({ error: "Failed to edit message" }, { status: 500 })
+    }
+
+    if (!canAccess) {
+      return NextResponse.json({ error: "You can't post in this chat" }, { status: 403 })
+    }
+
+    const blocked = await checkCanPost(admin, userId)
+    if (blocked) {
+      return NextResponse.json({ error: blocked.error, mutedUntil: blocked.mutedUntil }, { status: blocked.status })
+    }
+
+    const { data: updated, error } = await admin
+      .from("messages")
+      .update({ message: checked.text, edited_at: new Date().toISOString() })
+      .eq("id", messageId)
+      .is("deleted_at", null)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error editing message:", error)
+      return NextResponse.json({ error: "Failed to edit message" }, { status: 500 })
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: updated })
+  } catch (error) {
+    console.error("Error editing message:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Players delete their own messages, which blanks them but keeps their replies.
+// Moderators delete anyone's message outright, which also closes every report
+// about it.
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { messageId } = await params
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: existing } = await admin.from("messages").select("user_id").eq("id", messageId).maybeSingle()
+    if (!existing) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 })
+    }
+
+    if (existing.user_id === userId) {
+      const { error } = await admin
+        .from("messages")
+        .update({ message: "", deleted_at: new Date().toISOString() })
+        .eq("id", messageId)
+
+      if (error) {
+        console.error("Error deleting message:", error)
+        return NextResponse.json({ error: "Failed to delete message" }, { status: 500 })
+      }
+
+      const { error: reactionError } = await admin.from("message_reactions").delete().eq("message_id", messageId)
+      if (reactionError) console.error("Error clearing reactions:", reactionError)
+
+      return NextResponse.json({ success: true })
+    }
+
+    if (!(await isChatModerator(admin, userId))) {
+      return NextResponse.json({ error: "You can only delete your own messages" }, { status: 403 })
+    }
+
+    // Reports lose their message_id once the message is gone, so close them first
+    const { error: reportError } = await admin
+      .from("message_reports")
+      .update({ resolved_at: new Date().toISOString(), resolved_by: userId })
+      .eq("message_id", messageId)
+      .is("resolved_at", null)
+
+    if (reportError) {
+      console.error("Error resolving reports:", reportError)
+      return NextResponse.json({ error: "Failed to delete message" }, { status: 500 })
+    }
+
+    const { error } = await admin.from("messages").delete().eq("id", messageId)
+
+    if (error) {
+      console.error("Error deleting message:", error)
+      return NextResponse.json({ error: "Failed to delete message" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting message:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
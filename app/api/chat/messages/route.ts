@@ -0,0 +1,100 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { ROOM_MESSAGE_LIMIT } from "@/app/lib/chat"
+import { isChatModerator, postChatMessage } from "@/app/lib/chat-moderation"
+
+// Latest messages across every room, or in ?roomId=, for the moderator view
+export async function GET(request: NextRequest) {
+  try {
+    const roomId = request.nextUrl.searchParams.get("roomId")
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+    if (!(await isChatModerator(admin, session.user.id))) {
+      return NextResponse.json({ error: "Only moderators can browse chat" }, { status: 403 })
+    }
+
+    let query = admin
+      .from("messages")
+      .select("*")
+      .is("deleted_at", null)
+      .order("created_at", { ascending: false })
+      .limit(ROOM_MESSAGE_LIMIT)
+    if (roomId) query = query.eq("room_id", roomId)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error("Error loading messages:", error)
+      return NextResponse.json({ error: "Failed to load messages" }, { status: 500 })
+    }
+
+    return NextResponse.json({ messages: data || [] })
+  } catch (error) {
+    console.error("Error loading messages:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { roomId, message, parentId? }. Room membership is checked here,
+// everything else about the message in postChatMessage.
+export async function POST(request: NextRequest) {
+  try {
+    const { roomId, message, parentId } = await request.json()
+
+    if (!roomId || typeof roomId !== "string") {
+      return NextResponse.json({ error: "Room ID is required" }, { status: 400 })
+    }
+
+    if (parentId !== undefined && parentId !== null && typeof parentId !== "string") {
+      return NextResponse.json({ error: "Parent message ID must be a string" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Sign in to chat" }, { status: 401 })
+    }
+
+    // Runs as the player, so the room check sees who they are
+    const { data: canAccess, error: accessError } = await supabase.rpc("can_access_chat_room", { p_room_id: roomId })
+
+    if (accessError) {
+      console.error("Error checking chat room access:", accessError)
+      return NextResponse.json({ error: "Failed to send message" }, { status: 500 })
+    }
+
+    if (!canAccess) {
+      return NextResponse.json({ error: "You can't post in this chat" }, { status: 403 })
+    }
+
+    const result = await postChatMessage(createAdminClient(), {
+      userId: session.user.id,
+      fallbackName: session.user.email?.split("@")[0] || "Player",
+      roomId,
+      message,
+      parentId,
+    })
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error, mutedUntil: result.mutedUntil }, { status: result.status })
+    }
+
+    return NextResponse.json({ message: result.message })
+  } catch (error) {
+    console.error("Error sending message:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
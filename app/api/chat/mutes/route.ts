@@ -0,0 +1,140 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { MAX_REPORT_REASON_LENGTH, MUTE_DURATIONS } from "@/app/lib/chat"
+import { isChatModerator } from "@/app/lib/chat-moderation"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// The signed in moderator's id, or the response to send back when it isn't one
+async function getModerator(admin: AdminClient) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  if (!(await isChatModerator(admin, session.user.id))) {
+    return { response: NextResponse.json({ error: "Only moderators can mute players" }, { status: 403 }) }
+  }
+
+  return { moderatorId: session.user.id as string }
+}
+
+// Players who are muted right now
+export async function GET() {
+  try {
+    const admin = createAdminClient()
+
+    const moderator = await getModerator(admin)
+    if (moderator.response) return moderator.response
+
+    const { data: mutes, error } = await admin
+      .from("chat_mutes")
+      .select("*")
+      .gt("muted_until", new Date().toISOString())
+      .order("muted_until", { ascending: true })
+
+    if (error) {
+      console.error("Error loading mutes:", error)
+      return NextResponse.json({ error: "Failed to load mutes" }, { status: 500 })
+    }
+
+    const playerIds = (mutes || []).map((mute) => mute.player_id)
+
+    let profiles: { id: string; username: string | null }[] = []
+    if (playerIds.length > 0) {
+      const { data } = await admin.from("profiles").select("id, username").in("id", playerIds)
+      profiles = data || []
+    }
+
+    return NextResponse.json({
+      mutes: (mutes || []).map((mute) => ({
+        playerId: mute.player_id,
+        username: profiles.find((profile) => profile.id === mute.player_id)?.username ?? null,
+        mutedUntil: mute.muted_until,
+        reason: mute.reason,
+      })),
+    })
+  } catch (error) {
+    console.error("Error loading mutes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { playerId, minutes, reason? } with minutes from MUTE_DURATIONS.
+// Muting someone who is already muted starts their mute over.
+export async function POST(request: NextRequest) {
+  try {
+    const { playerId, minutes, reason } = await request.json()
+
+    if (!playerId || typeof playerId !== "string") {
+      return NextResponse.json({ error: "Player ID is required" }, { status: 400 })
+    }
+
+    if (!MUTE_DURATIONS.some((duration) => duration.minutes === minutes)) {
+      return NextResponse.json({ error: "Unknown mute duration" }, { status: 400 })
+    }
+
+    const admin = createAdminClient()
+
+    const moderator = await getModerator(admin)
+    if (moderator.response) return moderator.response
+
+    if (playerId === moderator.moderatorId) {
+      return NextResponse.json({ error: "You can't mute yourself" }, { status: 400 })
+    }
+
+    const mutedUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString()
+
+    const { error } = await admin.from("chat_mutes").upsert({
+      player_id: playerId,
+      muted_until: mutedUntil,
+      reason: typeof reason === "string" ? reason.trim().slice(0, MAX_REPORT_REASON_LENGTH) || null : null,
+      muted_by: moderator.moderatorId,
+      created_at: new Date().toISOString(),
+    })
+
+    if (error) {
+      console.error("Error muting player:", error)
+      return NextResponse.json({ error: "Failed to mute player" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, mutedUntil })
+  } catch (error) {
+    console.error("Error muting player:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { playerId }, lifts their mute early
+export async function DELETE(request: NextRequest) {
+  try {
+    const { playerId } = await request.json()
+
+    if (!playerId || typeof playerId !== "string") {
+      return NextResponse.json({ error: "Player ID is required" }, { status: 400 })
+    }
+
+    const admin = createAdminClient()
+
+    const moderator = await getModerator(admin)
+    if (moderator.response) return moderator.response
+
+    const { error } = await admin.from("chat_mutes").delete().eq("player_id", playerId)
+
+    if (error) {
+      console.error("Error unmuting player:", error)
+      return NextResponse.json({ error: "Failed to unmute player" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error unmuting player:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
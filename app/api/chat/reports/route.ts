@@ -0,0 +1,167 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { MAX_REPORT_REASON_LENGTH } from "@/app/lib/chat"
+import { isChatModerator } from "@/app/lib/chat-moderation"
+
+// Open reports, oldest first, for the moderator view
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+    if (!(await isChatModerator(admin, session.user.id))) {
+      return NextResponse.json({ error: "Only moderators can see reports" }, { status: 403 })
+    }
+
+    const { data: reports, error } = await admin
+      .from("message_reports")
+      .select("*")
+      .is("resolved_at", null)
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      console.error("Error loading reports:", error)
+      return NextResponse.json({ error: "Failed to load reports" }, { status: 500 })
+    }
+
+    const playerIds = [
+      ...new Set((reports || []).flatMap((report) => [report.message_user_id, report.reported_by]).filter(Boolean)),
+    ]
+
+    let profiles: { id: string; username: string | null }[] = []
+    if (playerIds.length > 0) {
+      const { data } = await admin.from("profiles").select("id, username").in("id", playerIds)
+      profiles = data || []
+    }
+
+    const getUsername = (playerId: string | null) =>
+      profiles.find((profile) => profile.id === playerId)?.username ?? null
+
+    return NextResponse.json({
+      reports: (reports || []).map((report) => ({
+        id: report.id,
+        messageId: report.message_id,
+        messageText: report.message_text,
+        roomId: report.room_id,
+        authorId: report.message_user_id,
+        authorName: getUsername(report.message_user_id),
+        reporterName: getUsername(report.reported_by),
+        reason: report.reason,
+        createdAt: report.created_at,
+      })),
+    })
+  } catch (error) {
+    console.error("Error loading reports:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { messageId, reason? }. Players can only report messages they can read.
+export async function POST(request: NextRequest) {
+  try {
+    const { messageId, reason } = await request.json()
+
+    if (!messageId || typeof messageId !== "string") {
+      return NextResponse.json({ error: "Message ID is required" }, { status: 400 })
+    }
+
+    if (reason !== undefined && reason !== null && typeof reason !== "string") {
+      return NextResponse.json({ error: "Reason must be text" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Read as the player, so rooms they aren't in stay hidden
+    const { data: message } = await supabase
+      .from("messages")
+      .select("id, user_id, message, room_id")
+      .eq("id", messageId)
+      .maybeSingle()
+
+    if (!message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 })
+    }
+
+    if (message.user_id === session.user.id) {
+      return NextResponse.json({ error: "You can't report your own message" }, { status: 400 })
+    }
+
+    const { error } = await createAdminClient()
+      .from("message_reports")
+      .insert({
+        message_id: message.id,
+        message_text: message.message,
+        message_user_id: message.user_id,
+        room_id: message.room_id,
+        reported_by: session.user.id,
+        reason: reason?.trim().slice(0, MAX_REPORT_REASON_LENGTH) || null,
+      })
+
+    // Reporting the same message twice is fine, the first report stands
+    if (error && error.code !== "23505") {
+      console.error("Error reporting message:", error)
+      return NextResponse.json({ error: "Failed to report message" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error reporting message:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { reportId }, moderators dismiss a report without acting on it
+export async function DELETE(request: NextRequest) {
+  try {
+    const { reportId } = await request.json()
+
+    if (!reportId || typeof reportId !== "string") {
+      return NextResponse.json({ error: "Report ID is required" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+    if (!(await isChatModerator(admin, session.user.id))) {
+      return NextResponse.json({ error: "Only moderators can dismiss reports" }, { status: 403 })
+    }
+
+    const { error } = await admin
+      .from("message_reports")
+      .update({ resolved_at: new Date().toISOString(), resolved_by: session.user.id })
+      .eq("id", reportId)
+
+    if (error) {
+      console.error("Error dismissing report:", error)
+      return NextResponse.json({ error: "Failed to dismiss report" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error dismissing report:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { SEARCH_RESULT_LIMIT } from "@/app/lib/chat"
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// ?q= with optional roomId, userId, from and to (to is exclusive). Only rooms
+// the player can read are searched, newest matches first.
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const query = searchParams.get("q")?.trim()
+    const from = searchParams.get("from")
+    const to = searchParams.get("to")
+    const userId = searchParams.get("userId")
+
+    if (!query || query.length < 2) {
+      return NextResponse.json({ error: "Search for at least 2 characters" }, { status: 400 })
+    }
+
+    if ((from && Number.isNaN(Date.parse(from))) || (to && Number.isNaN(Date.parse(to)))) {
+      return NextResponse.json({ error: "Dates must be ISO timestamps" }, { status: 400 })
+    }
+
+    if (userId && !UUID_PATTERN.test(userId)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Runs as the player, so rooms they can't read stay out of the results
+    const { data, error } = await supabase.rpc("search_chat_messages", {
+      p_query: query,
+      p_room_id: searchParams.get("roomId") || null,
+      p_user_id: userId || null,
+      p_from: from || null,
+      p_to: to || null,
+      p_limit: SEARCH_RESULT_LIMIT,
+    })
+
+    if (error) {
+      console.error("Error searching chat:", error)
+      return NextResponse.json({ error: "Failed to search chat" }, { status: 500 })
+    }
+
+    return NextResponse.json({ results: data || [] })
+  } catch (error) {
+    console.error("Error searching chat:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
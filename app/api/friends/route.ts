@@ -0,0 +1,281 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameById } from "@/app/lib/games/registry"
+import {
+  ACTIVITY_WINDOW,
+  FRIENDSHIP_ACTIONS,
+  type FriendActivity,
+  type FriendsOverview,
+} from "@/app/lib/friends"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+interface Friendship {
+  requester_id: string
+  addressee_id: string
+  status: "pending" | "accepted"
+  created_at: string
+}
+
+// Status of each lobby's latest round and the title of the game it plays
+async function getLobbyStates(admin: AdminClient, lobbyIds: string[]) {
+  const states = new Map<string, { status: string; gameTitle: string }>()
+  if (lobbyIds.length === 0) return states
+
+  const [{ data: lobbies }, { data: rounds }] = await Promise.all([
+    admin.from("lobbies").select("id, game_id").in("id", lobbyIds),
+    admin
+      .from("game_states")
+      .select("lobby_id, status, round")
+      .in("lobby_id", lobbyIds)
+      .order("round", { ascending: false }),
+  ])
+
+  for (const lobby of lobbies || []) {
+    const latest = (rounds || []).find((round) => round.lobby_id === lobby.id)
+    if (!latest) continue
+
+    states.set(lobby.id, {
+      status: latest.status,
+      gameTitle: getGameById(lobby.game_id)?.title ?? "Unknown Game",
+    })
+  }
+
+  return states
+}
+
+async function getOverview(admin: AdminClient, userId: string): Promise<FriendsOverview> {
+  const { data, error } = await admin
+    .from("friendships")
+    .select("*")
+    .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`)
+
+  if (error) throw error
+
+  const friendships = (data || []) as Friendship[]
+  const otherId = (friendship: Friendship) =>
+    friendship.requester_id === userId ? friendship.addressee_id : friendship.requester_id
+
+  const friendIds = friendships.filter((friendship) => friendship.status === "accepted").map(otherId)
+  const allIds = friendships.map(otherId)
+
+  let profiles: { id: string; username: string | null; avatar_url: string | null }[] = []
+  if (allIds.length > 0) {
+    const { data: rows } = await admin.from("profiles").select("id, username, avatar_url").in("id", allIds)
+    profiles = rows || []
+  }
+
+  // Friends count as busy in whichever lobby they sent their latest heartbeat to
+  const latestLobby = new Map<string, string>()
+  let invites: { lobby_id: string; invited_by: string }[] = []
+  if (friendIds.length > 0) {
+    const [{ data: heartbeats }, { data: inviteRows }] = await Promise.all([
+      admin
+        .from("lobby_presence")
+        .select("lobby_id, player_id, last_seen_at")
+        .in("player_id", friendIds)
+        .gte("last_seen_at", new Date(Date.now() - ACTIVITY_WINDOW).toISOString())
+        .order("last_seen_at", { ascending: false }),
+      admin.from("lobby_invites").select("lobby_id, invited_by").eq("player_id", userId).in("invited_by", friendIds),
+    ])
+
+    for (const heartbeat of heartbeats || []) {
+      if (!latestLobby.has(heartbeat.player_id)) latestLobby.set(heartbeat.player_id, heartbeat.lobby_id)
+    }
+    invites = inviteRows || []
+  }
+
+  const { data: hostedRows } = await admin
+    .from("lobbies")
+    .select("id")
+    .eq("host_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(5)
+
+  const lobbyStates = await getLobbyStates(admin, [
+    ...new Set([
+      ...latestLobby.values(),
+      ...invites.map((invite) => invite.lobby_id),
+      ...(hostedRows || []).map((lobby) => lobby.id),
+    ]),
+  ])
+
+  const getActivity = (playerId: string): FriendActivity | null => {
+    const lobbyId = latestLobby.get(playerId)
+    const state = lobbyId ? lobbyStates.get(lobbyId) : undefined
+    if (!lobbyId || !state || (state.status !== "waiting" && state.status !== "playing")) return null
+
+    return { lobbyId, gameTitle: state.gameTitle, status: state.status }
+  }
+
+  const getInvite = (playerId: string) => {
+    const invite = invites.find(
+      (row) => row.invited_by === playerId && lobbyStates.get(row.lobby_id)?.status === "waiting",
+    )
+    return invite ? { lobbyId: invite.lobby_id, gameTitle: lobbyStates.get(invite.lobby_id)!.gameTitle } : null
+  }
+
+  const hostedLobby = (hostedRows || []).find((lobby) => lobbyStates.get(lobby.id)?.status === "waiting")
+
+  const toRequest = (friendship: Friendship) => ({
+    playerId: otherId(friendship),
+    username: profiles.find((profile) => profile.id === otherId(friendship))?.username ?? null,
+    createdAt: friendship.created_at,
+  })
+
+  return {
+    friends: friendIds.map((playerId) => {
+      const profile = profiles.find((row) => row.id === playerId)
+      return {
+        playerId,
+        username: profile?.username ?? null,
+        avatarUrl: profile?.avatar_url ?? null,
+        activity: getActivity(playerId),
+        invitedTo: getInvite(playerId),
+      }
+    }),
+    incoming: friendships
+      .filter((friendship) => friendship.status === "pending" && friendship.addressee_id === userId)
+      .map(toRequest),
+    outgoing: friendships
+      .filter((friendship) => friendship.status === "pending" && friendship.requester_id === userId)
+      .map(toRequest),
+    hostedLobby: hostedLobby
+      ? { lobbyId: hostedLobby.id, gameTitle: lobbyStates.get(hostedLobby.id)!.gameTitle }
+      : null,
+  }
+}
+
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json(await getOverview(createAdminClient(), session.user.id))
+  } catch (error) {
+    console.error("Error loading friends:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { action, playerId }. "request" sends a friend request, or accepts
+// theirs if they already sent one. The addressee can "accept" or "decline" a
+// request, and "remove" ends a friendship or takes back a request.
+export async function POST(request: NextRequest) {
+  try {
+    const { action, playerId } = await request.json()
+
+    if (!FRIENDSHIP_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Unknown friend action" }, { status: 400 })
+    }
+
+    if (!playerId || typeof playerId !== "string") {
+      return NextResponse.json({ error: "Player ID is required" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    if (playerId === userId) {
+      return NextResponse.json({ error: "You can't add yourself as a friend" }, { status: 400 })
+    }
+
+    const admin = createAdminClient()
+
+    const { data: existing, error: existingError } = await admin
+      .from("friendships")
+      .select("*")
+      .or(
+        `and(requester_id.eq.${userId},addressee_id.eq.${playerId}),and(requester_id.eq.${playerId},addressee_id.eq.${userId})`,
+      )
+      .maybeSingle()
+
+    if (existingError) {
+      console.error("Error loading friendship:", existingError)
+      return NextResponse.json({ error: "Failed to update friends" }, { status: 500 })
+    }
+
+    const friendship = existing as Friendship | null
+    const theyAsked = friendship?.status === "pending" && friendship.requester_id === playerId
+
+    if (action === "request" && !theyAsked) {
+      if (friendship) return NextResponse.json({ success: true, status: friendship.status })
+
+      const { data: profile } = await admin.from("profiles").select("id").eq("id", playerId).maybeSingle()
+      if (!profile) {
+        return NextResponse.json({ error: "Player not found" }, { status: 404 })
+      }
+
+      const { error } = await admin.from("friendships").insert({ requester_id: userId, addressee_id: playerId })
+
+      // Both players sent a request at the same time, the pair key lets one through
+      if (error?.code === "23505") {
+        return NextResponse.json({ error: "You already have a request with this player" }, { status: 409 })
+      }
+      if (error) {
+        console.error("Error sending friend request:", error)
+        return NextResponse.json({ error: "Failed to send the friend request" }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true, status: "pending" })
+    }
+
+    if (action === "request" || action === "accept") {
+      if (!theyAsked) {
+        return NextResponse.json({ error: "No friend request from this player" }, { status: 404 })
+      }
+
+      const { error } = await admin
+        .from("friendships")
+        .update({ status: "accepted", responded_at: new Date().toISOString() })
+        .eq("requester_id", playerId)
+        .eq("addressee_id", userId)
+        .eq("status", "pending")
+
+      if (error) {
+        console.error("Error accepting friend request:", error)
+        return NextResponse.json({ error: "Failed to accept the friend request" }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true, status: "accepted" })
+    }
+
+    if (action === "decline" && !theyAsked) {
+      return NextResponse.json({ error: "No friend request from this player" }, { status: 404 })
+    }
+
+    // Declining and removing both drop the row, whichever way it goes
+    if (friendship) {
+      const { error } = await admin
+        .from("friendships")
+        .delete()
+        .eq("requester_id", friendship.requester_id)
+        .eq("addressee_id", friendship.addressee_id)
+
+      if (error) {
+        console.error("Error removing friendship:", error)
+        return NextResponse.json({ error: "Failed to update friends" }, { status: 500 })
+      }
+    }
+
+    return NextResponse.json({ success: true, status: null })
+  } catch (error) {
+    console.error("Error updating friends:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
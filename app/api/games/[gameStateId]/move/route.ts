@@ -0,0 +1,162 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameRules } from "@/app/lib/games/registry"
+import { forfeitGame, getLobbyGameTitle, recordOutcome } from "@/app/lib/games/server"
+import { getGameOutcome, getSeatedPlayers, type BaseGameState } from "@/app/lib/games/engine"
+import { RUNNING_STATUSES, chargeClock, getTimedOutPlayer } from "@/app/lib/games/clock"
+import { isAIPlayer } from "@/app/lib/games/ai"
+import { notifyPlayers } from "@/app/lib/notifications"
+
+type RouteContext = { params: Promise<{ gameStateId: string }> }
+
+// Body is { game, move } where game picks the rule engine, e.g. "connect-four"
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { gameStateId } = await params
+    const { game, move } = await request.json()
+
+    const rules = getGameRules(game)
+    if (!rules) {
+      return NextResponse.json({ error: "Unknown game" }, { status: 400 })
+    }
+
+    if (!move || typeof move.type !== "string") {
+      return NextResponse.json({ error: "Move is required" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: gameState, error: gameStateError } = await admin
+      .from(rules.stateTable)
+      .select("*")
+      .eq("id", gameStateId)
+      .single()
+
+    if (gameStateError || !gameState) {
+      return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+    }
+
+    const state = gameState as BaseGameState
+
+    if (!getSeatedPlayers(state).includes(userId)) {
+      return NextResponse.json({ error: "Only players in the game can make moves" }, { status: 403 })
+    }
+
+    // game_states is shared by several games, so make sure the lobby is playing this one
+    if ((await getLobbyGameTitle(admin, state.lobby_id)) !== rules.title) {
+      return NextResponse.json({ error: "Game state does not belong to this game" }, { status: 400 })
+    }
+
+    const now = Date.now()
+
+    // A move that arrives after the clock ran out loses the game instead
+    const timedOut = getTimedOutPlayer(state, now)
+    if (timedOut) {
+      const forfeited = await forfeitGame(admin, rules, state, timedOut, "timeout")
+      return NextResponse.json(
+        {
+          error: timedOut === userId ? "Your time ran out" : "Your opponent's time ran out",
+          state: forfeited && (rules.view ? rules.view(forfeited, userId) : forfeited),
+        },
+        { status: 409 },
+      )
+    }
+
+    const outcome = rules.applyMove(state, move, userId)
+    if ("error" in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 400 })
+    }
+
+    // Only apply the move if nobody else wrote to the game since we read it. Some
+    // moves keep the turn, so checking the turn and status alone isn't enough.
+    const { data: updated, error: updateError } = await admin
+      .from(rules.stateTable)
+      .update({ ...outcome.update, ...chargeClock(state, userId, now) })
+      .eq("id", state.id)
+      .eq("version", state.version ?? 0)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error("Error applying move:", updateError)
+      return NextResponse.json({ error: "Failed to apply move" }, { status: 500 })
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: "The game changed before your move was applied" }, { status: 409 })
+    }
+
+    if (rules.movesTable && outcome.log) {
+      const { error: moveError } = await admin.from(rules.movesTable).insert({
+        game_state_id: state.id,
+        player_id: userId,
+        ...outcome.log,
+      })
+
+      if (moveError) {
+        console.error("Error recording move:", moveError)
+      }
+    }
+
+    let nextState = updated as BaseGameState
+
+    const followUp = rules.settle?.(nextState)
+    if (followUp) {
+      const { data: settled } = await admin
+        .from(rules.stateTable)
+        .update(followUp)
+        .eq("id", state.id)
+        .eq("status", nextState.status)
+        .select()
+        .maybeSingle()
+
+      if (settled) nextState = settled
+    }
+
+    if (nextState.status === "finished") {
+      const result = getGameOutcome(rules, nextState)
+      const recordError = result ? await recordOutcome(admin, nextState, result) : null
+
+      if (recordError) {
+        console.error("Error recording result:", recordError)
+      }
+    }
+
+    // Tell whoever plays next, unless the turn stayed with this player or went to the AI
+    const nextPlayer = nextState.current_player
+    if (
+      RUNNING_STATUSES.includes(nextState.status) &&
+      nextPlayer !== userId &&
+      !isAIPlayer(nextState, nextPlayer) &&
+      getSeatedPlayers(nextState).includes(nextPlayer)
+    ) {
+      const notifyError = await notifyPlayers(admin, [nextPlayer], {
+        type: "your-turn",
+        title: `It's your turn in ${rules.title}`,
+        link: `/game/${nextState.lobby_id}`,
+        lobby_id: nextState.lobby_id,
+      })
+
+      if (notifyError) {
+        console.error("Error sending turn notification:", notifyError)
+      }
+    }
+
+    return NextResponse.json({ state: rules.view ? rules.view(nextState, userId) : nextState })
+  } catch (error) {
+    console.error("Error making move:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
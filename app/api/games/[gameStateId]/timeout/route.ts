@@ -0,0 +1,74 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameRules } from "@/app/lib/games/registry"
+import { forfeitGame, getLobbyGameTitle } from "@/app/lib/games/server"
+import type { BaseGameState } from "@/app/lib/games/engine"
+import { getRemainingTime, getTimedOutPlayer } from "@/app/lib/games/clock"
+
+type RouteContext = { params: Promise<{ gameStateId: string }> }
+
+// Body is { game }. Either player can claim a timeout once the clock of the
+// player to move has run out, the server checks the clock itself.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { gameStateId } = await params
+    const { game } = await request.json()
+
+    const rules = getGameRules(game)
+    if (!rules) {
+      return NextResponse.json({ error: "Unknown game" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: gameState, error: gameStateError } = await admin
+      .from(rules.stateTable)
+      .select("*")
+      .eq("id", gameStateId)
+      .single()
+
+    if (gameStateError || !gameState) {
+      return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+    }
+
+    const state = gameState as BaseGameState
+
+    if (userId !== state.player1 && userId !== state.player2) {
+      return NextResponse.json({ error: "Only players in the game can claim a timeout" }, { status: 403 })
+    }
+
+    if ((await getLobbyGameTitle(admin, state.lobby_id)) !== rules.title) {
+      return NextResponse.json({ error: "Game state does not belong to this game" }, { status: 400 })
+    }
+
+    const timedOut = getTimedOutPlayer(state)
+    if (!timedOut) {
+      return NextResponse.json(
+        { error: "No clock has run out", remaining: getRemainingTime(state, state.current_player) },
+        { status: 400 },
+      )
+    }
+
+    const forfeited = await forfeitGame(admin, rules, state, timedOut, "timeout")
+    if (!forfeited) {
+      return NextResponse.json({ error: "The game changed before the timeout was applied" }, { status: 409 })
+    }
+
+    return NextResponse.json({ state: rules.view ? rules.view(forfeited, userId) : forfeited })
+  } catch (error) {
+    console.error("Error claiming timeout:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,17 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
 import crypto from 'crypto';
+import {
+  DEFAULT_INVITE_CODE_EXPIRY_HOURS,
+  INVITE_CODE_EXPIRY_HOURS,
+  INVITE_CODE_MAX_USES,
+} from '@/app/lib/games/lobby';
 
 // Create a Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 
+// How many fresh codes to try before giving up on finding an unused one
+const MAX_CODE_ATTEMPTS = 5;
+
+// Body is { lobbyId, expiresInHours?, maxUses? }, both limits have to be one
+// of the options in lib/games/lobby
 export async function POST(req: NextRequest) {
   try {
     // Create a Supabase admin client to bypass RLS
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { lobbyId } = await req.json();
+    const { lobbyId, expiresInHours = DEFAULT_INVITE_CODE_EXPIRY_HOURS, maxUses = null } = await req.json();
 
     // Validate request
     if (!lobbyId) {
@@ -21,10 +33,29 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (!INVITE_CODE_EXPIRY_HOURS.includes(expiresInHours) || !INVITE_CODE_MAX_USES.includes(maxUses)) {
+      return NextResponse.json(
+        { error: 'Invalid code limits' },
+        { status: 400 }
+      );
+    }
+
+    const authClient = createRouteHandlerClient({ cookies });
+    const {
+      data: { session },
+    } = await authClient.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     // Check if lobby exists
     const { data: lobby, error: lobbyError } = await supabase
       .from('lobbies')
-      .select('id, created_by')
+      .select('id, created_by, host_id, visibility')
       .eq('id', lobbyId)
       .single();
 
@@ -38,8 +69,58 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Generate a unique 6-character code
-    const code = crypto.randomBytes(3).toString('hex').toUpperCase();
+    // Codes let people past the password and into private lobbies, so only
+    // seated players hand them out, and only the host for private lobbies
+    const hostId = lobby.host_id ?? lobby.created_by;
+    if (session.user.id !== hostId) {
+      if (lobby.visibility === 'private') {
+        return NextResponse.json(
+          { error: 'Only the host can invite players to a private lobby' },
+          { status: 403 }
+        );
+      }
+
+      const { data: member } = await supabase
+        .from('lobby_members')
+        .select('player_id')
+        .eq('lobby_id', lobbyId)
+        .eq('player_id', session.user.id)
+        .maybeSingle();
+
+      if (!member) {
+        return NextResponse.json(
+          { error: 'Only players in the lobby can invite others' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Generate a 6-character code no live code is using yet
+    let code: string | null = null;
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS && !code; attempt++) {
+      const candidate = crypto.randomBytes(3).toString('hex').toUpperCase();
+
+      const { data: existing, error: existingError } = await supabase
+        .from('invite_codes')
+        .select('id')
+        .eq('code', candidate)
+        .eq('is_active', true)
+        .limit(1);
+
+      if (existingError) {
+        console.error('Error checking invite code:', existingError);
+        break;
+      }
+
+      if (!existing?.length) code = candidate;
+    }
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Failed to create invitation code' },
+        { status: 500 }
+      );
+    }
 
     // Store the invitation code in Supabase
     const { data: invite, error: inviteError } = await supabase
@@ -47,13 +128,21 @@ export async function POST(req: NextRequest) {
       .insert({
         code,
         lobby_id: lobbyId,
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+        created_by: session.user.id,
+        expires_at: new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString(),
+        max_uses: maxUses,
         is_active: true
       })
-      .select()
+      .select('id, expires_at, max_uses')
       .single();
 
-      console.log("Invite has been made, code: " + invite)
+    // Someone else took the same code between the check and the insert
+    if (inviteError?.code === '23505') {
+      return NextResponse.json(
+        { error: 'That code was just taken, try again' },
+        { status: 409 }
+      );
+    }
 
     if (inviteError) {
       console.error('Error creating invite code:', inviteError);
@@ -78,7 +167,10 @@ export async function POST(req: NextRequest) {
                     'https://csgames.dev';
                     
     return NextResponse.json({
+      id: invite.id,
       code,
+      expiresAt: invite.expires_at,
+      maxUses: invite.max_uses,
       fullUrl: `${baseUrl}/join/${code}`,
       lobbyUrl: `${baseUrl}/lobby/${lobbyId}`,
     });
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
 
 // Create a Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -20,11 +22,27 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Find the invitation code in the database
+    // Redemptions are recorded against the player, so codes need a sign in
+    const authClient = createRouteHandlerClient({ cookies });
+    const {
+      data: { session },
+    } = await authClient.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to use this invitation code' },
+        { status: 401 }
+      );
+    }
+
+    // Find the invitation code in the database, old codes can share the text
+    // of a newer one once they stopped being active
     const { data: invite, error: inviteError } = await supabase
       .from('invite_codes')
       .select('id, lobby_id, expires_at, is_active')
-      .eq('code', code)
+      .eq('code', String(code).toUpperCase())
+      .order('created_at', { ascending: false })
+      .limit(1)
       .single();
 
     if (inviteError) {
@@ -67,7 +85,7 @@ export async function POST(req: NextRequest) {
     // Get lobby information
     const { data: lobby, error: lobbyError } = await supabase
       .from('lobbies')
-      .select('id, game_id')
+      .select('id, game_id, visibility, has_password')
       .eq('id', invite.lobby_id)
       .single();
 
@@ -78,6 +96,46 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Counts the use, unless the code ran out while we were looking at it
+    const { data: redeemed, error: redeemError } = await supabase.rpc('redeem_invite_code', {
+      p_invite_code_id: invite.id,
+      p_player_id: session.user.id,
+    });
+
+    if (redeemError) {
+      console.error('Error redeeming invite code:', redeemError);
+      return NextResponse.json(
+        { error: 'Failed to accept the invitation' },
+        { status: 500 }
+      );
+    }
+
+    if (!redeemed) {
+      return NextResponse.json(
+        { error: 'Invitation code has been used up' },
+        { status: 400 }
+      );
+    }
+
+    // A code counts as an invite, so it gets the player into private lobbies
+    // and past the password
+    if (lobby.visibility === 'private' || lobby.has_password) {
+      const { error: allowError } = await supabase
+        .from('lobby_invites')
+        .upsert(
+          { lobby_id: lobby.id, player_id: session.user.id },
+          { ignoreDuplicates: true }
+        );
+
+      if (allowError) {
+        console.error('Error adding invited player:', allowError);
+        return NextResponse.json(
+          { error: 'Failed to accept the invitation' },
+          { status: 500 }
+        );
+      }
+    }
+
     // Get game information if available
     let gameName = "Game";
     if (lobby.game_id) {
@@ -1,6 +1,8 @@
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
 import { cookies } from "next/headers"
 import { type NextRequest, NextResponse } from "next/server"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { getGameByKey } from "@/app/lib/games/registry"
 
 type LeaderboardData = {
   id: string; 
@@ -10,8 +12,24 @@ type LeaderboardData = {
   win_percentage: number;
   rank: number;
   total_time: number;
+  // Only set on per-game leaderboards
+  rating?: number;
+  rating_change?: number;
 }
 
+type RatingRow = {
+  player_id: string
+  username: string
+  rating: number
+  games_played: number
+  wins: number
+  win_percentage: number
+  rating_change: number
+  rank: number
+}
+
+const TIMEFRAME_DAYS: Record<string, number> = { week: 7, month: 30 }
+
 // Cache
 type CacheEntry = {
   data: unknown
@@ -21,6 +39,46 @@ type CacheEntry = {
 
 const cache: Record<string, CacheEntry> = {}
 
+const RATING_SORTS = ["rating", "wins", "games", "winrate"]
+
+// Players per page of a per-game leaderboard, get_rating_leaderboard caps it at 100
+const RATING_PAGE_SIZE = 100
+
+// Per-game leaderboard built from player_ratings by get_rating_leaderboard, one
+// page at a time. rating_change is the sum of the rating deltas inside the
+// timeframe, and week/month only list players who played. Pass playerId to get
+// just that player's entry, ranked against everyone.
+async function getRatingLeaderboard(
+  supabase: SupabaseClient,
+  gameId: number,
+  timeframe: string,
+  sortBy: string,
+  { page = 1, playerId = null }: { page?: number; playerId?: string | null } = {},
+): Promise<LeaderboardData[]> {
+  const { data, error } = await supabase.rpc("get_rating_leaderboard", {
+    p_game_id: gameId,
+    p_days: TIMEFRAME_DAYS[timeframe] ?? null,
+    p_sort: sortBy,
+    p_player_id: playerId,
+    p_limit: RATING_PAGE_SIZE,
+    p_offset: (page - 1) * RATING_PAGE_SIZE,
+  })
+
+  if (error) throw error
+
+  return ((data || []) as RatingRow[]).map((row) => ({
+    id: row.player_id,
+    username: row.username,
+    wins: row.wins,
+    games_played: row.games_played,
+    win_percentage: row.win_percentage,
+    rank: Number(row.rank),
+    total_time: 0,
+    rating: row.rating,
+    rating_change: Number(row.rating_change),
+  }))
+}
+
 const REFRESH_THRESHOLD = 10 // Refresh after 10 req
 const CACHE_TTL = 5 * 60 * 1000 // 5 mins in milliseconds
 
@@ -30,7 +88,22 @@ export async function GET(request: NextRequest) {
     const timeframe = searchParams.get("timeframe") || "all"
     const userId = searchParams.get("userId")
     const sortBy = searchParams.get("sort") || "wins"    
-    const cacheKey = `${timeframe}-${sortBy}`
+    const gameKey = searchParams.get("game")
+    // Per-game leaderboards are paged, the overall one comes back whole
+    const page = Math.max(1, Math.floor(Number(searchParams.get("page"))) || 1)
+    const cacheKey = `${timeframe}-${sortBy}-${gameKey ?? "all"}-${page}`
+
+    // Ratings are kept per game, so rating sorts and game filters share one path
+    const game = gameKey ? getGameByKey(gameKey) : null
+    if (gameKey && !game?.rules) {
+      return NextResponse.json({ error: "Unknown game" }, { status: 400 })
+    }
+    if (sortBy === "rating" && !game) {
+      return NextResponse.json({ error: "Ratings are per game, pass a game to sort by rating" }, { status: 400 })
+    }
+    if (game && !RATING_SORTS.includes(sortBy)) {
+      return NextResponse.json({ error: "This sort is not available for a single game" }, { status: 400 })
+    }
 
     const convertLeaderboardData = (data: Array<Omit<LeaderboardData, "id"> & { id: string | number }>): LeaderboardData[] => {
       return data.map(entry => ({
@@ -53,6 +126,14 @@ export async function GET(request: NextRequest) {
     if (userId) {
       const cookieStore = cookies()
       const supabase = createRouteHandlerClient({ cookies: () => cookieStore })
+
+      if (game) {
+        const [entry] = await getRatingLeaderboard(supabase, game.id, timeframe, sortBy, { playerId: userId })
+        if (!entry) {
+          return NextResponse.json({ error: "User not found in leaderboard" }, { status: 404 })
+        }
+        return NextResponse.json(entry)
+      }
       
       const { data: leaderboardData, error } = await supabase.rpc('get_leaderboard', {
         time_filter: timeframe,
@@ -88,6 +169,12 @@ export async function GET(request: NextRequest) {
     console.log(`Fetching fresh data for ${cacheKey}`)
     const cookieStore = cookies()
     const supabase = createRouteHandlerClient({ cookies: () => cookieStore })
+
+    if (game) {
+      const data = await getRatingLeaderboard(supabase, game.id, timeframe, sortBy, { page })
+      cache[cacheKey] = { data, refreshCount: 1, lastUpdated: Date.now() }
+      return NextResponse.json(data)
+    }
     
     const { data: leaderboardData, error } = await supabase.rpc('get_leaderboard', {
       time_filter: timeframe,
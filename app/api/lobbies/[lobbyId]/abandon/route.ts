@@ -0,0 +1,118 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameRulesByTitle } from "@/app/lib/games/registry"
+import { forfeitGame, getLobbyGameTitle } from "@/app/lib/games/server"
+import { getOpponent, getSeatedPlayers, type BaseGameState } from "@/app/lib/games/engine"
+import { getGraceRemaining } from "@/app/lib/games/presence"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+
+// Lets a player claim the win once their opponent's heartbeats have been
+// missing for longer than the lobby's grace period.
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: lobbyState, error: lobbyStateError } = await admin
+      .from("game_states")
+      .select("round, status, started_at, disconnect_grace_period")
+      .eq("lobby_id", lobbyId)
+      .order("round", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (lobbyStateError || !lobbyState) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    if (lobbyState.status === "finished") {
+      return NextResponse.json({ error: "Game is already over" }, { status: 409 })
+    }
+
+    if (lobbyState.status === "waiting" || !lobbyState.started_at) {
+      return NextResponse.json({ error: "Game has not started yet" }, { status: 400 })
+    }
+
+    if (!lobbyState.disconnect_grace_period) {
+      return NextResponse.json({ error: "This lobby does not forfeit absent players" }, { status: 400 })
+    }
+
+    const rules = getGameRulesByTitle(await getLobbyGameTitle(admin, lobbyId))
+    if (!rules) {
+      return NextResponse.json({ error: "This game cannot be forfeited" }, { status: 400 })
+    }
+
+    const { data: gameState, error: gameStateError } = await admin
+      .from(rules.stateTable)
+      .select("*")
+      .eq("lobby_id", lobbyId)
+      .eq("round", lobbyState.round)
+      .maybeSingle()
+
+    if (gameStateError || !gameState) {
+      return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+    }
+
+    const state = gameState as BaseGameState
+
+    if (userId !== state.player1 && userId !== state.player2) {
+      return NextResponse.json({ error: "Only players in the game can claim a forfeit" }, { status: 403 })
+    }
+
+    if (state.status === "finished") {
+      return NextResponse.json({ error: "Game is already over" }, { status: 409 })
+    }
+
+    // With more seats there is no single opponent to hand the win to
+    if (getSeatedPlayers(state).length > 2) {
+      return NextResponse.json({ error: "Forfeits only apply to two-player games" }, { status: 400 })
+    }
+
+    const opponent = getOpponent(state, userId)
+    if (!opponent) {
+      return NextResponse.json({ error: "There is no opponent to forfeit" }, { status: 400 })
+    }
+
+    // The caller is clearly still here, so count this as their heartbeat too
+    const now = new Date()
+    await admin.from("lobby_presence").upsert({ lobby_id: lobbyId, player_id: userId, last_seen_at: now.toISOString() })
+
+    const { data: seen } = await admin
+      .from("lobby_presence")
+      .select("last_seen_at")
+      .eq("lobby_id", lobbyId)
+      .eq("player_id", opponent)
+      .maybeSingle()
+
+    // An opponent who never showed up has been absent since the game started
+    const lastSeenAt = new Date(seen?.last_seen_at ?? lobbyState.started_at).getTime()
+    const remaining = getGraceRemaining(now.getTime() - lastSeenAt, lobbyState.disconnect_grace_period)
+
+    if (remaining > 0) {
+      return NextResponse.json({ error: "Your opponent can still reconnect", remaining }, { status: 400 })
+    }
+
+    const forfeited = await forfeitGame(admin, rules, state, opponent, "disconnect")
+    if (!forfeited) {
+      return NextResponse.json({ error: "The game changed before the forfeit was applied" }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true, winner: forfeited.winner })
+  } catch (error) {
+    console.error("Error claiming forfeit:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,103 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { hashLobbyPassword } from "@/app/lib/games/server"
+import { MAX_LOBBY_PASSWORD_LENGTH, isLobbyVisibility } from "@/app/lib/games/lobby"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+
+// Body is { visibility?, password? }, leaving a field out keeps it as it is.
+// A password string sets the join password, null or "" removes it.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const { visibility, password } = await request.json()
+
+    if (visibility !== undefined && !isLobbyVisibility(visibility)) {
+      return NextResponse.json({ error: "Unknown lobby visibility" }, { status: 400 })
+    }
+
+    if (password !== undefined && password !== null && typeof password !== "string") {
+      return NextResponse.json({ error: "Invalid password" }, { status: 400 })
+    }
+
+    if (typeof password === "string" && password.length > MAX_LOBBY_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Passwords can be at most ${MAX_LOBBY_PASSWORD_LENGTH} characters` },
+        { status: 400 },
+      )
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+
+    const { data: lobby, error: lobbyError } = await admin
+      .from("lobbies")
+      .select("id, created_by, host_id")
+      .eq("id", lobbyId)
+      .single()
+
+    if (lobbyError || !lobby) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    if ((lobby.host_id ?? lobby.created_by) !== session.user.id) {
+      return NextResponse.json({ error: "Only the host can change who can join" }, { status: 403 })
+    }
+
+    const updates: { visibility?: string; has_password?: boolean } = {}
+    if (visibility !== undefined) updates.visibility = visibility
+
+    if (password !== undefined) {
+      if (password) {
+        const { error: passwordError } = await admin
+          .from("lobby_passwords")
+          .upsert({ lobby_id: lobbyId, password_hash: hashLobbyPassword(password), updated_at: new Date().toISOString() })
+
+        if (passwordError) {
+          console.error("Error setting lobby password:", passwordError)
+          return NextResponse.json({ error: "Failed to set the password" }, { status: 500 })
+        }
+      } else {
+        const { error: passwordError } = await admin.from("lobby_passwords").delete().eq("lobby_id", lobbyId)
+
+        if (passwordError) {
+          console.error("Error removing lobby password:", passwordError)
+          return NextResponse.json({ error: "Failed to remove the password" }, { status: 500 })
+        }
+      }
+
+      updates.has_password = !!password
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 })
+    }
+
+    const { data: updated, error: updateError } = await admin
+      .from("lobbies")
+      .update(updates)
+      .eq("id", lobbyId)
+      .select("visibility, has_password")
+      .single()
+
+    if (updateError) {
+      console.error("Error updating lobby access:", updateError)
+      return NextResponse.json({ error: "Failed to update the lobby" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, visibility: updated.visibility, hasPassword: updated.has_password })
+  } catch (error) {
+    console.error("Error updating lobby access:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,100 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameById } from "@/app/lib/games/registry"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+
+// Body is { enabled, difficulty? }. The host switches a waiting lobby between
+// playing people and playing the AI, which needs the host to be seated alone.
+// The difficulty has to be one of the game's aiDifficulties, leaving it out
+// keeps the game's default.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const { enabled, difficulty } = await request.json()
+
+    if (typeof enabled !== "boolean") {
+      return NextResponse.json({ error: "enabled must be true or false" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: lobby, error: lobbyError } = await admin
+      .from("lobbies")
+      .select("id, created_by, host_id, game_id")
+      .eq("id", lobbyId)
+      .single()
+
+    if (lobbyError || !lobby) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    if ((lobby.host_id ?? lobby.created_by) !== userId) {
+      return NextResponse.json({ error: "Only the host can choose the opponent" }, { status: 403 })
+    }
+
+    const game = getGameById(lobby.game_id)
+    if (!game?.supportsAI) {
+      return NextResponse.json({ error: "This game has no AI opponent" }, { status: 400 })
+    }
+
+    if (
+      enabled &&
+      difficulty !== undefined &&
+      difficulty !== null &&
+      !game.aiDifficulties?.some((option) => option.value === difficulty)
+    ) {
+      return NextResponse.json({ error: "Unknown difficulty" }, { status: 400 })
+    }
+
+    if (enabled) {
+      const { data: members, error: membersError } = await admin
+        .from("lobby_members")
+        .select("player_id")
+        .eq("lobby_id", lobbyId)
+
+      if (membersError) {
+        console.error("Error loading lobby members:", membersError)
+        return NextResponse.json({ error: "Failed to load lobby" }, { status: 500 })
+      }
+
+      if ((members || []).some((member) => member.player_id !== userId)) {
+        return NextResponse.json({ error: "Other players are already seated" }, { status: 409 })
+      }
+    }
+
+    const { data: updated, error: updateError } = await admin
+      .from("game_states")
+      .update({ ai_opponent: enabled, ai_difficulty: enabled ? (difficulty ?? game.defaultAIDifficulty ?? null) : null })
+      .eq("lobby_id", lobbyId)
+      .eq("status", "waiting")
+      .select("ai_opponent, ai_difficulty")
+      .maybeSingle()
+
+    if (updateError) {
+      console.error("Error updating AI opponent:", updateError)
+      return NextResponse.json({ error: "Failed to update the opponent" }, { status: 500 })
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: "Game has already started" }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, aiOpponent: updated.ai_opponent, aiDifficulty: updated.ai_difficulty })
+  } catch (error) {
+    console.error("Error updating AI opponent:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,145 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import type { InviteCodeUsage } from "@/app/lib/games/lobby"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// The signed in player and whether they host the lobby, or the response to
+// send back when they can't look at its codes
+async function getViewer(admin: AdminClient, lobbyId: string) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  const { data: lobby, error: lobbyError } = await admin
+    .from("lobbies")
+    .select("created_by, host_id")
+    .eq("id", lobbyId)
+    .single()
+
+  if (lobbyError || !lobby) {
+    return { response: NextResponse.json({ error: "Lobby not found" }, { status: 404 }) }
+  }
+
+  const userId: string = session.user.id
+  return { userId, isHost: (lobby.host_id ?? lobby.created_by) === userId }
+}
+
+// The lobby's codes that still work, with who redeemed them. The host sees
+// every code, other players only the ones they made.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const admin = createAdminClient()
+
+    const viewer = await getViewer(admin, lobbyId)
+    if (viewer.response) return viewer.response
+
+    let query = admin
+      .from("invite_codes")
+      .select("id, code, created_by, expires_at, max_uses, use_count")
+      .eq("lobby_id", lobbyId)
+      .eq("is_active", true)
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false })
+
+    if (!viewer.isHost) query = query.eq("created_by", viewer.userId)
+
+    const { data: codes, error } = await query
+
+    if (error) {
+      console.error("Error loading invite codes:", error)
+      return NextResponse.json({ error: "Failed to load invite codes" }, { status: 500 })
+    }
+
+    const codeIds = (codes || []).map((code) => code.id)
+    let redemptions: { invite_code_id: string; player_id: string; redeemed_at: string }[] = []
+    if (codeIds.length > 0) {
+      const { data } = await admin
+        .from("invite_code_redemptions")
+        .select("invite_code_id, player_id, redeemed_at")
+        .in("invite_code_id", codeIds)
+        .order("redeemed_at", { ascending: true })
+      redemptions = data || []
+    }
+
+    const playerIds = [...new Set(redemptions.map((redemption) => redemption.player_id))]
+    let profiles: { id: string; username: string | null }[] = []
+    if (playerIds.length > 0) {
+      const { data } = await admin.from("profiles").select("id, username").in("id", playerIds)
+      profiles = data || []
+    }
+
+    const usage: InviteCodeUsage[] = (codes || []).map((code) => ({
+      id: code.id,
+      code: code.code,
+      createdBy: code.created_by,
+      expiresAt: code.expires_at,
+      maxUses: code.max_uses,
+      useCount: code.use_count,
+      redemptions: redemptions
+        .filter((redemption) => redemption.invite_code_id === code.id)
+        .map((redemption) => ({
+          playerId: redemption.player_id,
+          username: profiles.find((profile) => profile.id === redemption.player_id)?.username ?? null,
+          redeemedAt: redemption.redeemed_at,
+        })),
+    }))
+
+    return NextResponse.json({ codes: usage })
+  } catch (error) {
+    console.error("Error loading invite codes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { codeId }, stops the code from working. Players who already joined
+// with it keep their seat.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const { codeId } = await request.json()
+
+    if (!codeId || typeof codeId !== "string") {
+      return NextResponse.json({ error: "Code ID is required" }, { status: 400 })
+    }
+
+    const admin = createAdminClient()
+
+    const viewer = await getViewer(admin, lobbyId)
+    if (viewer.response) return viewer.response
+
+    let query = admin
+      .from("invite_codes")
+      .update({ is_active: false, revoked_at: new Date().toISOString() })
+      .eq("id", codeId)
+      .eq("lobby_id", lobbyId)
+      .eq("is_active", true)
+
+    if (!viewer.isHost) query = query.eq("created_by", viewer.userId)
+
+    const { data: revoked, error } = await query.select("id").maybeSingle()
+
+    if (error) {
+      console.error("Error revoking invite code:", error)
+      return NextResponse.json({ error: "Failed to revoke the code" }, { status: 500 })
+    }
+
+    if (!revoked) {
+      return NextResponse.json({ error: "Code not found or already inactive" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error revoking invite code:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,164 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getLobbyGameTitle } from "@/app/lib/games/server"
+import { getUsername, notifyPlayers } from "@/app/lib/notifications"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// The signed in host's id, or the response to send back when it isn't them
+async function getHost(admin: AdminClient, lobbyId: string) {
+  const supabase = createRouteHandlerClient({ cookies })
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  const { data: lobby, error: lobbyError } = await admin
+    .from("lobbies")
+    .select("created_by, host_id")
+    .eq("id", lobbyId)
+    .single()
+
+  if (lobbyError || !lobby) {
+    return { response: NextResponse.json({ error: "Lobby not found" }, { status: 404 }) }
+  }
+
+  if ((lobby.host_id ?? lobby.created_by) !== session.user.id) {
+    return { response: NextResponse.json({ error: "Only the host can manage invites" }, { status: 403 }) }
+  }
+
+  return { hostId: session.user.id as string }
+}
+
+// Players the host invited, with their usernames
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const admin = createAdminClient()
+
+    const host = await getHost(admin, lobbyId)
+    if (host.response) return host.response
+
+    const { data: invites, error } = await admin
+      .from("lobby_invites")
+      .select("player_id, created_at")
+      .eq("lobby_id", lobbyId)
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      console.error("Error loading lobby invites:", error)
+      return NextResponse.json({ error: "Failed to load invites" }, { status: 500 })
+    }
+
+    const playerIds = (invites || []).map((invite) => invite.player_id)
+    let profiles: { id: string; username: string | null }[] = []
+    if (playerIds.length > 0) {
+      const { data } = await admin.from("profiles").select("id, username").in("id", playerIds)
+      profiles = data || []
+    }
+
+    return NextResponse.json({
+      invites: (invites || []).map((invite) => ({
+        playerId: invite.player_id,
+        username: profiles.find((profile) => profile.id === invite.player_id)?.username ?? null,
+        createdAt: invite.created_at,
+      })),
+    })
+  } catch (error) {
+    console.error("Error loading lobby invites:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { playerId }, lets that player into the lobby without the password
+// even when it's private
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const { playerId } = await request.json()
+
+    if (!playerId || typeof playerId !== "string") {
+      return NextResponse.json({ error: "Player ID is required" }, { status: 400 })
+    }
+
+    const admin = createAdminClient()
+
+    const host = await getHost(admin, lobbyId)
+    if (host.response) return host.response
+
+    if (playerId === host.hostId) {
+      return NextResponse.json({ error: "You can't invite yourself" }, { status: 400 })
+    }
+
+    const { data: profile } = await admin.from("profiles").select("id").eq("id", playerId).maybeSingle()
+    if (!profile) {
+      return NextResponse.json({ error: "Player not found" }, { status: 404 })
+    }
+
+    const { error } = await admin
+      .from("lobby_invites")
+      .upsert({ lobby_id: lobbyId, player_id: playerId, invited_by: host.hostId }, { ignoreDuplicates: true })
+
+    if (error) {
+      console.error("Error inviting player:", error)
+      return NextResponse.json({ error: "Failed to invite player" }, { status: 500 })
+    }
+
+    const [hostName, gameTitle] = await Promise.all([
+      getUsername(admin, host.hostId),
+      getLobbyGameTitle(admin, lobbyId),
+    ])
+
+    const notifyError = await notifyPlayers(admin, [playerId], {
+      type: "invite",
+      title: `${hostName} invited you to their ${gameTitle ?? "game"} lobby`,
+      link: `/lobby/${lobbyId}`,
+      lobby_id: lobbyId,
+    })
+
+    if (notifyError) {
+      console.error("Error sending invite notification:", notifyError)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error inviting player:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { playerId }, takes them off the allow-list. Players already seated
+// keep their seat, the host can kick them from the lobby.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const { playerId } = await request.json()
+
+    if (!playerId || typeof playerId !== "string") {
+      return NextResponse.json({ error: "Player ID is required" }, { status: 400 })
+    }
+
+    const admin = createAdminClient()
+
+    const host = await getHost(admin, lobbyId)
+    if (host.response) return host.response
+
+    const { error } = await admin.from("lobby_invites").delete().eq("lobby_id", lobbyId).eq("player_id", playerId)
+
+    if (error) {
+      console.error("Error removing invite:", error)
+      return NextResponse.json({ error: "Failed to remove invite" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error removing invite:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,204 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameById } from "@/app/lib/games/registry"
+import { getLobbyAccessDenial, syncLobbySeats } from "@/app/lib/games/server"
+import { LOBBY_MEMBER_ACTIONS, getFreeSeat, getTeamForSeat, type LobbyMember } from "@/app/lib/games/lobby"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// Frees a seat and moves everyone's seats onto the game state
+async function removeMember(admin: AdminClient, lobbyId: string, playerId: string) {
+  const { error } = await admin.from("lobby_members").delete().eq("lobby_id", lobbyId).eq("player_id", playerId)
+
+  if (error) {
+    console.error("Error removing lobby member:", error)
+    return NextResponse.json({ error: "Failed to update the lobby" }, { status: 500 })
+  }
+
+  const syncError = await syncLobbySeats(admin, lobbyId)
+  if (syncError) console.error("Error syncing lobby seats:", syncError)
+
+  return NextResponse.json({ success: true })
+}
+
+// Body is { action, playerId?, password? }. Players "join", "leave" and mark
+// themselves "ready" or "unready" while the lobby is waiting, joining a
+// password-protected lobby takes the password. The host can "kick" a player or
+// "transfer" the lobby to one, both take the other player's id.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const { action, playerId, password } = await request.json()
+
+    if (!LOBBY_MEMBER_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Unknown lobby action" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: lobby, error: lobbyError } = await admin
+      .from("lobbies")
+      .select("id, game_id, created_by, host_id, visibility, has_password")
+      .eq("id", lobbyId)
+      .single()
+
+    if (lobbyError || !lobby) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    const game = getGameById(lobby.game_id)
+    if (!game || game.singlePlayer) {
+      return NextResponse.json({ error: "This lobby has no seats to take" }, { status: 400 })
+    }
+
+    const { data: gameState, error: gameStateError } = await admin
+      .from("game_states")
+      .select("status, ai_opponent")
+      .eq("lobby_id", lobbyId)
+      .order("round", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (gameStateError || !gameState) {
+      return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+    }
+
+    // Seats only change before the first round starts
+    if (gameState.status !== "waiting") {
+      return NextResponse.json({ error: "Game has already started" }, { status: 400 })
+    }
+
+    const { data: memberRows, error: membersError } = await admin
+      .from("lobby_members")
+      .select("*")
+      .eq("lobby_id", lobbyId)
+
+    if (membersError) {
+      console.error("Error loading lobby members:", membersError)
+      return NextResponse.json({ error: "Failed to load lobby" }, { status: 500 })
+    }
+
+    const members = (memberRows || []) as LobbyMember[]
+    const hostId: string = lobby.host_id ?? lobby.created_by
+    const me = members.find((member) => member.player_id === userId)
+
+    if (action === "join") {
+      if (me) return NextResponse.json({ success: true, seat: me.seat })
+
+      if (gameState.ai_opponent) {
+        return NextResponse.json({ error: "This lobby is playing against the AI" }, { status: 400 })
+      }
+
+      const denial = await getLobbyAccessDenial(admin, lobby, userId, typeof password === "string" ? password : undefined)
+      if (denial) {
+        return NextResponse.json(denial, { status: 403 })
+      }
+
+      const seat = getFreeSeat(members, game)
+      if (!seat) {
+        return NextResponse.json({ error: "Lobby is full" }, { status: 409 })
+      }
+
+      const { error: joinError } = await admin.from("lobby_members").insert({
+        lobby_id: lobbyId,
+        player_id: userId,
+        seat,
+        team: getTeamForSeat(seat, game),
+      })
+
+      // Two players can go for the same seat, the unique seat key lets one through
+      if (joinError?.code === "23505") {
+        return NextResponse.json({ error: "That seat was just taken, try again" }, { status: 409 })
+      }
+      if (joinError) {
+        console.error("Error joining lobby:", joinError)
+        return NextResponse.json({ error: "Failed to join lobby" }, { status: 500 })
+      }
+
+      const syncError = await syncLobbySeats(admin, lobbyId)
+      if (syncError) console.error("Error syncing lobby seats:", syncError)
+
+      return NextResponse.json({ success: true, seat })
+    }
+
+    if (!me) {
+      return NextResponse.json({ error: "You are not in this lobby" }, { status: 403 })
+    }
+
+    if (action === "ready" || action === "unready") {
+      const { error: readyError } = await admin
+        .from("lobby_members")
+        .update({ is_ready: action === "ready" })
+        .eq("lobby_id", lobbyId)
+        .eq("player_id", userId)
+
+      if (readyError) {
+        console.error("Error updating ready state:", readyError)
+        return NextResponse.json({ error: "Failed to update ready state" }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === "leave") {
+      if (userId === hostId) {
+        return NextResponse.json({ error: "Hand the lobby to another player before leaving" }, { status: 400 })
+      }
+
+      return removeMember(admin, lobbyId, userId)
+    }
+
+    // Kicking and transferring are up to the host
+    if (userId !== hostId) {
+      return NextResponse.json({ error: "Only the host can do that" }, { status: 403 })
+    }
+
+    const target = members.find((member) => member.player_id === playerId)
+    if (!target || target.player_id === userId) {
+      return NextResponse.json({ error: "Pick another player in the lobby" }, { status: 400 })
+    }
+
+    if (action === "kick") {
+      // Kicked players need a new invite to come back
+      await admin.from("lobby_invites").delete().eq("lobby_id", lobbyId).eq("player_id", target.player_id)
+
+      return removeMember(admin, lobbyId, target.player_id)
+    }
+
+    // Only hand over the lobby if nobody else did in the meantime
+    const { data: transferred, error: transferError } = await admin
+      .from("lobbies")
+      .update({ host_id: target.player_id })
+      .eq("id", lobbyId)
+      .eq("host_id", hostId)
+      .select("id")
+      .maybeSingle()
+
+    if (transferError) {
+      console.error("Error transferring lobby:", transferError)
+      return NextResponse.json({ error: "Failed to transfer the lobby" }, { status: 500 })
+    }
+
+    if (!transferred) {
+      return NextResponse.json({ error: "The host changed before the transfer" }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error updating lobby members:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
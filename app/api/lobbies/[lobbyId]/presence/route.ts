@@ -0,0 +1,81 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import type { PresenceSnapshot } from "@/app/lib/games/presence"
+import { getSeatedPlayers } from "@/app/lib/games/engine"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+
+// Heartbeat sent every few seconds from the lobby and game pages. Only the
+// lobby's players are recorded, anyone may read how long ago each was seen.
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+
+    const { data: gameState, error: gameStateError } = await admin
+      .from("game_states")
+      .select("player1, player2, players, status, disconnect_grace_period")
+      .eq("lobby_id", lobbyId)
+      .order("round", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (gameStateError) {
+      console.error("Error loading lobby players:", gameStateError)
+      return NextResponse.json({ error: "Failed to load lobby" }, { status: 500 })
+    }
+
+    if (!gameState) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    const playerIds = getSeatedPlayers(gameState)
+
+    if (playerIds.includes(session.user.id)) {
+      const { error: heartbeatError } = await admin
+        .from("lobby_presence")
+        .upsert({ lobby_id: lobbyId, player_id: session.user.id, last_seen_at: new Date().toISOString() })
+
+      if (heartbeatError) {
+        console.error("Error recording heartbeat:", heartbeatError)
+      }
+    }
+
+    const { data: seen, error: seenError } = await admin
+      .from("lobby_presence")
+      .select("player_id, last_seen_at")
+      .eq("lobby_id", lobbyId)
+      .in("player_id", playerIds)
+
+    if (seenError) {
+      console.error("Error loading presence:", seenError)
+      return NextResponse.json({ error: "Failed to load presence" }, { status: 500 })
+    }
+
+    const now = Date.now()
+    const snapshot: PresenceSnapshot = {
+      status: gameState.status,
+      gracePeriod: gameState.disconnect_grace_period,
+      players: (seen || []).map((row) => ({
+        playerId: row.player_id,
+        absentMs: Math.max(0, now - new Date(row.last_seen_at).getTime()),
+      })),
+    }
+
+    return NextResponse.json(snapshot)
+  } catch (error) {
+    console.error("Error updating presence:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
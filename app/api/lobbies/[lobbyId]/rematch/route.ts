@@ -0,0 +1,178 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameRulesByTitle } from "@/app/lib/games/registry"
+import { getLobbyGameTitle } from "@/app/lib/games/server"
+import { getStartingPlayer } from "@/app/lib/games/rematch"
+import { getSeatedPlayers, type GameRules } from "@/app/lib/games/engine"
+import { getUsername, notifyPlayers } from "@/app/lib/notifications"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+type AdminClient = ReturnType<typeof createAdminClient>
+
+const ACTIONS = ["request", "accept", "decline"]
+
+interface FinishedRound {
+  lobby_id: string
+  round: number
+  player1: string
+  player2: string | null
+  players: string[] | null
+  ai_opponent: boolean | null
+  ai_difficulty: string | null
+  move_time_limit: number | null
+  game_time_limit: number | null
+  disconnect_grace_period: number | null
+}
+
+// Adds the next round to the lobby with the same players and settings, and
+// the other player going first
+async function startNextRound(admin: AdminClient, previous: FinishedRound, rules: GameRules) {
+  const round = previous.round + 1
+  const now = new Date().toISOString()
+  const timed = !!previous.move_time_limit || !!previous.game_time_limit
+
+  const { error } = await admin.from("game_states").insert({
+    lobby_id: previous.lobby_id,
+    round,
+    player1: previous.player1,
+    player2: previous.player2,
+    players: previous.players,
+    ai_opponent: previous.ai_opponent ?? false,
+    ai_difficulty: previous.ai_difficulty,
+    current_player: getStartingPlayer(round, getSeatedPlayers(previous)),
+    status: "playing",
+    winner: null,
+    started_at: now,
+    move_time_limit: previous.move_time_limit,
+    game_time_limit: previous.game_time_limit,
+    disconnect_grace_period: previous.disconnect_grace_period,
+    turn_started_at: timed ? now : null,
+    ...rules.createRound?.(),
+  })
+
+  // Both players may accept at once, the unique round index only lets one insert through
+  if (error && error.code !== "23505") throw error
+
+  return round
+}
+
+// Body is { action } with "request", "accept" or "decline". Requests are made
+// on the lobby's latest round once it is finished, and accepting one starts
+// the next round straight away.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const { action } = await request.json()
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Unknown rematch action" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+
+    const { data: current, error: currentError } = await admin
+      .from("game_states")
+      .select("*")
+      .eq("lobby_id", lobbyId)
+      .order("round", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (currentError || !current) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    const seated = getSeatedPlayers(current)
+    if (!seated.includes(userId)) {
+      return NextResponse.json({ error: "Only players in the game can ask for a rematch" }, { status: 403 })
+    }
+
+    if (current.status !== "finished") {
+      return NextResponse.json({ error: "The current game is not over yet" }, { status: 400 })
+    }
+
+    const rules = getGameRulesByTitle(await getLobbyGameTitle(admin, lobbyId))
+    if (!rules) {
+      return NextResponse.json({ error: "Rematches are not available for this game" }, { status: 400 })
+    }
+
+    if (seated.length < 2 && !current.ai_opponent) {
+      return NextResponse.json({ error: "There is no opponent to play" }, { status: 400 })
+    }
+
+    // In bigger lobbies any other player's answer settles the request
+    const requestedBy: string | null = current.rematch_requested_by
+    const opponentAsked = !!requestedBy && requestedBy !== userId && !current.rematch_declined
+
+    if (action === "decline") {
+      if (!opponentAsked) {
+        return NextResponse.json({ error: "There is no rematch request to decline" }, { status: 400 })
+      }
+
+      const { error: declineError } = await admin
+        .from("game_states")
+        .update({ rematch_declined: true })
+        .eq("id", current.id)
+        .eq("rematch_requested_by", requestedBy)
+
+      if (declineError) {
+        console.error("Error declining rematch:", declineError)
+        return NextResponse.json({ error: "Failed to decline the rematch" }, { status: 500 })
+      }
+
+      return NextResponse.json({ status: "declined" })
+    }
+
+    // The AI never says no, and a request from both sides is as good as an accept
+    if (current.ai_opponent || opponentAsked) {
+      const round = await startNextRound(admin, current as FinishedRound, rules)
+      return NextResponse.json({ status: "started", round })
+    }
+
+    if (action === "accept") {
+      return NextResponse.json({ error: "There is no rematch request to accept" }, { status: 400 })
+    }
+
+    const { error: requestError } = await admin
+      .from("game_states")
+      .update({ rematch_requested_by: userId, rematch_declined: false })
+      .eq("id", current.id)
+
+    if (requestError) {
+      console.error("Error requesting rematch:", requestError)
+      return NextResponse.json({ error: "Failed to request a rematch" }, { status: 500 })
+    }
+
+    const notifyError = await notifyPlayers(
+      admin,
+      seated.filter((playerId) => playerId !== userId),
+      {
+        type: "rematch",
+        title: `${await getUsername(admin, userId)} wants a rematch of ${rules.title}`,
+        link: `/game/${lobbyId}`,
+        lobby_id: lobbyId,
+      },
+    )
+
+    if (notifyError) {
+      console.error("Error sending rematch notification:", notifyError)
+    }
+
+    return NextResponse.json({ status: "requested" })
+  } catch (error) {
+    console.error("Error handling rematch:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,135 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameById } from "@/app/lib/games/registry"
+import { getStartBlocker } from "@/app/lib/games/lobby"
+import { AI_PLAYER_ID } from "@/app/lib/games/ai"
+import { DEFAULT_DISCONNECT_GRACE_PERIOD, DISCONNECT_GRACE_PERIOD_RANGE } from "@/app/lib/games/presence"
+import {
+  DEFAULT_GAME_TIME_LIMIT,
+  DEFAULT_MOVE_TIME_LIMIT,
+  GAME_TIME_LIMIT_RANGE,
+  MOVE_TIME_LIMIT_RANGE,
+  parseTimeLimit,
+} from "@/app/lib/games/clock"
+
+type RouteContext = { params: Promise<{ lobbyId: string }> }
+
+// Lets the lobby host move a lobby from waiting to playing once enough players
+// are seated and all of them are ready. The optional
+// body is { moveTimeLimit, gameTimeLimit, disconnectGracePeriod } in seconds,
+// null turns a clock or auto-forfeits off.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lobbyId } = await params
+    const body = await request.json().catch(() => ({}))
+
+    const moveTimeLimit = parseTimeLimit(body.moveTimeLimit, MOVE_TIME_LIMIT_RANGE, DEFAULT_MOVE_TIME_LIMIT)
+    const gameTimeLimit = parseTimeLimit(body.gameTimeLimit, GAME_TIME_LIMIT_RANGE, DEFAULT_GAME_TIME_LIMIT)
+    if (moveTimeLimit === "invalid" || gameTimeLimit === "invalid") {
+      return NextResponse.json({ error: "Invalid time control" }, { status: 400 })
+    }
+
+    const gracePeriod = parseTimeLimit(
+      body.disconnectGracePeriod,
+      DISCONNECT_GRACE_PERIOD_RANGE,
+      DEFAULT_DISCONNECT_GRACE_PERIOD,
+    )
+    if (gracePeriod === "invalid") {
+      return NextResponse.json({ error: "Invalid reconnection grace period" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+
+    const { data: lobby, error: lobbyError } = await admin
+      .from("lobbies")
+      .select("id, created_by, host_id, game_id")
+      .eq("id", lobbyId)
+      .single()
+
+    if (lobbyError || !lobby) {
+      return NextResponse.json({ error: "Lobby not found" }, { status: 404 })
+    }
+
+    const hostId: string = lobby.host_id ?? lobby.created_by
+    if (hostId !== session.user.id) {
+      return NextResponse.json({ error: "Only the host can start the game" }, { status: 403 })
+    }
+
+    const game = getGameById(lobby.game_id)
+    if (!game) {
+      return NextResponse.json({ error: "Unknown game" }, { status: 400 })
+    }
+
+    const { data: gameState, error: gameStateError } = await admin
+      .from("game_states")
+      .select("id, status, ai_opponent")
+      .eq("lobby_id", lobbyId)
+      .order("round", { ascending: false })
+      .limit(1)
+      .single()
+
+    if (gameStateError || !gameState) {
+      return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+    }
+
+    if (gameState.status !== "waiting") {
+      return NextResponse.json({ error: "Game has already started" }, { status: 400 })
+    }
+
+    const { data: members, error: membersError } = await admin
+      .from("lobby_members")
+      .select("player_id, is_ready")
+      .eq("lobby_id", lobbyId)
+
+    if (membersError) {
+      console.error("Error loading lobby members:", membersError)
+      return NextResponse.json({ error: "Failed to load lobby" }, { status: 500 })
+    }
+
+    const blocker = getStartBlocker(members || [], hostId, game, !!gameState.ai_opponent)
+    if (blocker) {
+      return NextResponse.json({ error: blocker }, { status: 400 })
+    }
+
+    const now = new Date().toISOString()
+
+    // The AI moves when the client asks it to, so games against it are untimed
+    const timed = game.timed && !gameState.ai_opponent
+
+    const { error: updateError } = await admin
+      .from("game_states")
+      .update({
+        status: "playing",
+        started_at: now,
+        move_time_limit: timed ? moveTimeLimit : null,
+        game_time_limit: timed ? gameTimeLimit : null,
+        turn_started_at: timed ? now : null,
+        disconnect_grace_period: gameState.ai_opponent ? null : gracePeriod,
+        // The AI takes the second seat once the game is underway
+        ...(gameState.ai_opponent ? { player2: AI_PLAYER_ID, players: null } : {}),
+      })
+      .eq("id", gameState.id)
+      .eq("status", "waiting")
+
+    if (updateError) {
+      console.error("Error starting game:", updateError)
+      return NextResponse.json({ error: "Failed to start game" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error starting game:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameById } from "@/app/lib/games/registry"
+
+// Body is { gameId, aiDifficulty? }. Creates a lobby hosted by the player, and
+// with aiDifficulty set its game is against the AI at that difficulty, which
+// has to be one of the game's aiDifficulties. The host can still change the
+// opponent from the lobby page until the game starts.
+export async function POST(request: NextRequest) {
+  try {
+    const { gameId, aiDifficulty } = await request.json()
+
+    const game = getGameById(gameId)
+    if (!game) {
+      return NextResponse.json({ error: "Unknown game" }, { status: 400 })
+    }
+
+    const playsAI = aiDifficulty !== undefined && aiDifficulty !== null
+    if (playsAI && !game.aiDifficulties?.some((option) => option.value === aiDifficulty)) {
+      return NextResponse.json({ error: "Unknown difficulty" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Runs as the player, so the lobby trigger seats them as its host
+    const { data: lobbyId, error: lobbyError } = await supabase.rpc("create_lobby_with_game_state", {
+      game_id: game.id,
+    })
+
+    if (lobbyError || !lobbyId) {
+      console.error("Error creating lobby:", lobbyError)
+      return NextResponse.json({ error: "Failed to create the lobby" }, { status: 500 })
+    }
+
+    if (playsAI) {
+      const { error: aiError } = await createAdminClient()
+        .from("game_states")
+        .update({ ai_opponent: true, ai_difficulty: aiDifficulty })
+        .eq("lobby_id", lobbyId)
+        .eq("status", "waiting")
+
+      if (aiError) {
+        console.error("Error setting AI opponent:", aiError)
+        return NextResponse.json({ error: "Failed to set up the AI opponent" }, { status: 500 })
+      }
+    }
+
+    return NextResponse.json({ lobbyId })
+  } catch (error) {
+    console.error("Error creating lobby:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
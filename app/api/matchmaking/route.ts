@@ -0,0 +1,156 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameByKey } from "@/app/lib/games/registry"
+import {
+  findMatch,
+  getPlayerRating,
+  getQueuePosition,
+  getRatingWindow,
+  type QueueEntry,
+} from "@/app/lib/games/matchmaking"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// Reports the player's queue state and tries to pair them while they wait.
+// A matched entry is removed once its lobby has been handed out.
+async function pollQueue(admin: AdminClient, supabase: SupabaseClient, playerId: string) {
+  const { data: entry, error } = await admin
+    .from("matchmaking_queue")
+    .select("*")
+    .eq("player_id", playerId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!entry) return { status: "idle" }
+
+  let queueEntry = entry as QueueEntry
+
+  if (queueEntry.status === "waiting") {
+    const { data: refreshed } = await admin
+      .from("matchmaking_queue")
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq("player_id", playerId)
+      .select("*")
+      .maybeSingle()
+
+    if (refreshed) queueEntry = refreshed as QueueEntry
+
+    const lobbyId = await findMatch(admin, supabase, queueEntry)
+    if (lobbyId) queueEntry = { ...queueEntry, status: "matched", lobby_id: lobbyId }
+  }
+
+  if (queueEntry.status === "matched" && queueEntry.lobby_id) {
+    await admin.from("matchmaking_queue").delete().eq("player_id", playerId)
+    return { status: "matched", lobbyId: queueEntry.lobby_id }
+  }
+
+  const waitedMs = Date.now() - new Date(queueEntry.created_at).getTime()
+
+  return {
+    status: "waiting",
+    gameId: queueEntry.game_id,
+    position: await getQueuePosition(admin, queueEntry),
+    waitedSeconds: Math.floor(waitedMs / 1000),
+    ratingWindow: getRatingWindow(waitedMs),
+  }
+}
+
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json(await pollQueue(createAdminClient(), supabase, session.user.id))
+  } catch (error) {
+    console.error("Error polling matchmaking queue:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { game } with the registry key, e.g. "connect-four"
+export async function POST(request: NextRequest) {
+  try {
+    const { game: gameKey } = await request.json()
+
+    const game = getGameByKey(gameKey)
+    if (!game || game.singlePlayer || !game.rules) {
+      return NextResponse.json({ error: "Quick Match is not available for this game" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const admin = createAdminClient()
+    const now = new Date().toISOString()
+
+    // Re-queueing restarts the wait, including after switching games
+    const { error: queueError } = await admin.from("matchmaking_queue").upsert({
+      player_id: userId,
+      game_id: game.id,
+      rating: await getPlayerRating(admin, userId, game.id),
+      status: "waiting",
+      lobby_id: null,
+      created_at: now,
+      last_seen_at: now,
+      matched_at: null,
+    })
+
+    if (queueError) {
+      console.error("Error joining queue:", queueError)
+      return NextResponse.json({ error: "Failed to join the queue" }, { status: 500 })
+    }
+
+    return NextResponse.json(await pollQueue(admin, supabase, userId))
+  } catch (error) {
+    console.error("Error joining matchmaking queue:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+
+    // Too late to cancel once a lobby exists, hand it out instead
+    const { error } = await admin
+      .from("matchmaking_queue")
+      .delete()
+      .eq("player_id", session.user.id)
+      .eq("status", "waiting")
+
+    if (error) {
+      console.error("Error leaving queue:", error)
+      return NextResponse.json({ error: "Failed to leave the queue" }, { status: 500 })
+    }
+
+    return NextResponse.json(await pollQueue(admin, supabase, session.user.id))
+  } catch (error) {
+    console.error("Error leaving matchmaking queue:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { NOTIFICATION_TYPES, isNotificationType, type NotificationType } from "@/app/lib/notifications"
+
+// Whether each notification type is on for the player
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data, error } = await createAdminClient()
+      .from("notification_preferences")
+      .select("type, enabled")
+      .eq("player_id", session.user.id)
+
+    if (error) {
+      console.error("Error loading notification preferences:", error)
+      return NextResponse.json({ error: "Failed to load notification preferences" }, { status: 500 })
+    }
+
+    const preferences = Object.fromEntries(
+      NOTIFICATION_TYPES.map(({ value }) => [value, data?.find((row) => row.type === value)?.enabled ?? true]),
+    ) as Record<NotificationType, boolean>
+
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    console.error("Error loading notification preferences:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Body is { type, enabled }
+export async function PUT(request: NextRequest) {
+  try {
+    const { type, enabled } = await request.json()
+
+    if (!isNotificationType(type)) {
+      return NextResponse.json({ error: "Unknown notification type" }, { status: 400 })
+    }
+
+    if (typeof enabled !== "boolean") {
+      return NextResponse.json({ error: "Enabled must be true or false" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { error } = await createAdminClient()
+      .from("notification_preferences")
+      .upsert({ player_id: session.user.id, type, enabled, updated_at: new Date().toISOString() })
+
+    if (error) {
+      console.error("Error saving notification preference:", error)
+      return NextResponse.json({ error: "Failed to save notification preference" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error saving notification preference:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
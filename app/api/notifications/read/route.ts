@@ -0,0 +1,44 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+
+// Body is { ids } to mark those notifications read, or {} for all of them
+export async function POST(request: NextRequest) {
+  try {
+    const { ids } = await request.json()
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== "string"))) {
+      return NextResponse.json({ error: "Notification IDs must be a list" }, { status: 400 })
+    }
+
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    let query = createAdminClient()
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("player_id", session.user.id)
+      .is("read_at", null)
+
+    if (ids) query = query.in("id", ids)
+
+    const { error } = await query
+
+    if (error) {
+      console.error("Error marking notifications read:", error)
+      return NextResponse.json({ error: "Failed to mark notifications read" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error marking notifications read:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
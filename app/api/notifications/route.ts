@@ -0,0 +1,46 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { NOTIFICATION_LIMIT } from "@/app/lib/notifications"
+
+// The player's latest notifications, newest first, and how many are unread
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+    const userId = session.user.id
+
+    const [{ data: notifications, error }, { count, error: countError }] = await Promise.all([
+      admin
+        .from("notifications")
+        .select("*")
+        .eq("player_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_LIMIT),
+      admin
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("player_id", userId)
+        .is("read_at", null),
+    ])
+
+    if (error || countError) {
+      console.error("Error loading notifications:", error || countError)
+      return NextResponse.json({ error: "Failed to load notifications" }, { status: 500 })
+    }
+
+    return NextResponse.json({ notifications: notifications || [], unreadCount: count ?? 0 })
+  } catch (error) {
+    console.error("Error loading notifications:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,12 +1,21 @@
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
 import { cookies } from "next/headers"
 import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameRulesByTitle } from "@/app/lib/games/registry"
+import { getLobbyGameTitle, recordOutcome } from "@/app/lib/games/server"
+import { getGameOutcome, getSeatedPlayers, type BaseGameState } from "@/app/lib/games/engine"
 
+// Body is { lobbyId, gameStateId, winnerId }. winnerId is only a claim, the winner
+// is always derived from the stored game, and null claims a draw. The state table
+// comes from the lobby's game, so games with their own table, e.g. Balloon, are
+// looked up where they live.
 export async function POST(request: NextRequest) {
   try {
-    const { gameStateId, winnerId } = await request.json()
+    const body = await request.json()
+    const { lobbyId, gameStateId } = body
 
-    if (!gameStateId || !winnerId) {
+    if (!lobbyId || !gameStateId || !("winnerId" in body)) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
     }
 
@@ -19,43 +28,46 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const { data: gameState, error: gameStateError } = await supabase
-      .from("game_states")
-      .select("id, status, winner, player1, player2")
+    const admin = createAdminClient()
+
+    const rules = getGameRulesByTitle(await getLobbyGameTitle(admin, lobbyId))
+    if (!rules) {
+      return NextResponse.json({ error: "Results for this game cannot be verified" }, { status: 400 })
+    }
+
+    const { data: gameState, error: gameStateError } = await admin
+      .from(rules.stateTable)
+      .select("*")
       .eq("id", gameStateId)
+      .eq("lobby_id", lobbyId)
       .single()
 
     if (gameStateError || !gameState) {
       return NextResponse.json({ error: "Game state not found" }, { status: 404 })
     }
 
-    // Must match these criterias to count as a "VALID" win
-    if (gameState.status === "finished") {
-      return NextResponse.json({ error: "Game is already finished" }, { status: 400 })
-    }
+    const state = gameState as BaseGameState
 
-    if (winnerId !== gameState.player1 && winnerId !== gameState.player2) {
-      return NextResponse.json({ error: "Winner must be a player in the game" }, { status: 400 })
+    if (!getSeatedPlayers(state).includes(session.user.id)) {
+      return NextResponse.json({ error: "Only players in the game can record a win" }, { status: 403 })
     }
 
-    if (session.user.id !== gameState.player1 && session.user.id !== gameState.player2) {
-      return NextResponse.json({ error: "Only players in the game can record a win" }, { status: 403 })
+    const outcome = getGameOutcome(rules, state)
+    if (!outcome) {
+      return NextResponse.json({ error: "Game is not over yet" }, { status: 400 })
     }
 
-    // Update the game state to record win
-    const { error: updateError } = await supabase
-      .from("game_states")
-      .update({
-        status: "finished",
-        winner: winnerId,
-      })
-      .eq("id", gameStateId)
+    if ((body.winnerId ?? null) !== outcome.winner) {
+      return NextResponse.json({ error: "Claimed result does not match the game" }, { status: 400 })
+    }
 
-    if (updateError) {
+    const recordError = await recordOutcome(admin, state, outcome)
+    if (recordError) {
+      console.error("Error recording result:", recordError)
       return NextResponse.json({ error: "Failed to update game state" }, { status: 500 })
     }
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, winner: outcome.winner, isDraw: outcome.isDraw })
   } catch (error) {
     console.error("Error recording win:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
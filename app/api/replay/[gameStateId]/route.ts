@@ -0,0 +1,90 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getGameByTitle } from "@/app/lib/games/registry"
+import { getLobbyGameTitle } from "@/app/lib/games/server"
+import type { BaseGameState, LoggedMove } from "@/app/lib/games/engine"
+
+type RouteContext = { params: Promise<{ gameStateId: string }> }
+
+// gameStateId is the lobby's game_states row, which every game has even when its
+// board lives in its own table. Only finished games can be replayed, so hidden
+// information like ship layouts is never revealed early.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { gameStateId } = await params
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+    const { data: lobbyState, error: lobbyStateError } = await admin
+      .from("game_states")
+      .select("*")
+      .eq("id", gameStateId)
+      .single()
+
+    if (lobbyStateError || !lobbyState) {
+      return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+    }
+
+    const game = getGameByTitle(await getLobbyGameTitle(admin, lobbyState.lobby_id))
+    const rules = game?.rules
+    if (!game || !rules?.replay || !rules.movesTable) {
+      return NextResponse.json({ error: "Replays are not available for this game" }, { status: 400 })
+    }
+
+    let state = lobbyState as BaseGameState
+    if (rules.stateTable !== "game_states") {
+      const { data: gameState } = await admin
+        .from(rules.stateTable)
+        .select("*")
+        .eq("lobby_id", lobbyState.lobby_id)
+        .eq("round", lobbyState.round)
+        .maybeSingle()
+
+      if (!gameState) {
+        return NextResponse.json({ error: "Game state not found" }, { status: 404 })
+      }
+      state = gameState as BaseGameState
+    }
+
+    if (state.status !== "finished") {
+      return NextResponse.json({ error: "Only finished games can be replayed" }, { status: 400 })
+    }
+
+    const { data: moves, error: movesError } = await admin
+      .from(rules.movesTable)
+      .select("*")
+      .eq("game_state_id", state.id)
+      .order("created_at", { ascending: true })
+
+    if (movesError) {
+      console.error("Error fetching moves:", movesError)
+      return NextResponse.json({ error: "Failed to load the move history" }, { status: 500 })
+    }
+
+    const playerIds = [state.player1, state.player2].filter((id): id is string => !!id)
+    const { data: players } = await admin.from("profiles").select("id, username").in("id", playerIds)
+
+    return NextResponse.json({
+      game: game.key,
+      title: game.title,
+      player1: state.player1,
+      player2: state.player2,
+      winner: lobbyState.winner ?? state.winner,
+      isDraw: !!lobbyState.is_draw,
+      players: players || [],
+      frames: rules.replay(state, (moves || []) as LoggedMove[]),
+    })
+  } catch (error) {
+    console.error("Error loading replay:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -5,15 +5,15 @@ import { useEffect, useState, useRef } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
 import type { Database } from '../../types/supabase';
+import { GENERAL_ROOM, MAX_MESSAGE_LENGTH, ROOM_MESSAGE_LIMIT } from '../../lib/chat';
 
 // Define types based on the Database type
 type Message = Database['public']['Tables']['messages']['Row'];
-type NewMessage = Database['public']['Tables']['messages']['Insert'];
 
 export default function Chat() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [username, setUsername] = useState<string>('');
+  const [sendError, setSendError] = useState<string | null>(null);
   const [userId, setUserId] = useState<string>('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [isSupabaseReady, setIsSupabaseReady] = useState<boolean>(false);
@@ -37,16 +37,9 @@ export default function Chat() {
         
         if (currentUser) {
           setUserId(currentUser.id);
-          // Set username from user email or user metadata
-          const metadata = currentUser.user_metadata as { name?: string; full_name?: string; } | null;
-          setUsername(metadata?.name || 
-                     metadata?.full_name || 
-                     currentUser.email?.split('@')[0] || 
-                     `User${Math.floor(Math.random() * 1000)}`);
         } else {
-          // Generate anonymous user if not logged in
+          // Guests can read the chat, the server only takes messages from signed in players
           setUserId(crypto.randomUUID());
-          setUsername(`Guest${Math.floor(Math.random() * 1000)}`);
         }
       } catch (error) {
         console.error('Error getting user session:', error);
@@ -63,11 +56,6 @@ export default function Chat() {
           
           if (currentUser) {
             setUserId(currentUser.id);
-            const metadata = currentUser.user_metadata as { name?: string; full_name?: string; } | null;
-            setUsername(metadata?.name || 
-                       metadata?.full_name || 
-                       currentUser.email?.split('@')[0] || 
-                       `User${Math.floor(Math.random() * 1000)}`);
           }
         }
       );
@@ -87,11 +75,23 @@ export default function Chat() {
     const channel = supabase
       .channel('public:messages')
       .on('postgres_changes', 
-        { event: 'INSERT', schema: 'public', table: 'messages' }, 
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `room_id=eq.${GENERAL_ROOM}` }, 
         (payload: { new: Message }) => {
           setMessages(prevMessages => [...prevMessages, payload.new]);
         }
       )
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `room_id=eq.${GENERAL_ROOM}` },
+        (payload: { new: Message }) => {
+          setMessages(prevMessages => prevMessages.map(msg => (msg.id === payload.new.id ? payload.new : msg)));
+        }
+      )
+      .on('postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload: { old: Partial<Message> }) => {
+          setMessages(prevMessages => prevMessages.filter(msg => msg.id !== payload.old.id));
+        }
+      )
       .subscribe();
     
     return () => {
@@ -113,13 +113,14 @@ export default function Chat() {
       const { data, error } = await supabase
         .from('messages')
         .select('*')
-        .order('created_at', { ascending: true })
-        .limit(50);
+        .eq('room_id', GENERAL_ROOM)
+        .order('created_at', { ascending: false })
+        .limit(ROOM_MESSAGE_LIMIT);
       
       if (error) {
         console.error('Error fetching messages:', error);
       } else {
-        setMessages(data || []);
+        setMessages((data || []).reverse());
       }
     } catch (error) {
       console.error('Failed to fetch messages:', error);
@@ -131,23 +132,23 @@ export default function Chat() {
     
     if (!newMessage.trim() || !supabase) return;
 
-    const message: NewMessage = {
-      user_id: userId,
-      username: username,
-      message: newMessage,
-      room_id: 'general', // Default room
-    };
-
     try {
-      // Insert the message into Supabase
-      const { error } = await supabase
-        .from('messages')
-        .insert([message]);
-
-      if (error) {
-        console.error('Error sending message:', error);
+      // The server checks the message and stores it, realtime brings it back
+      const response = await fetch('/api/chat/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ roomId: GENERAL_ROOM, message: newMessage }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSendError(data.error || 'Failed to send message');
       } else {
         setNewMessage('');
+        setSendError(null);
       }
     } catch (error) {
       console.error('Failed to send message:', error);
@@ -195,9 +196,12 @@ export default function Chat() {
                 <span className="font-medium">{msg.username}</span>
                 <span className="text-xs opacity-70">
                   {formatTime(msg.created_at)}
+                  {msg.edited_at && !msg.deleted_at && ' (edited)'}
                 </span>
               </div>
-              <p>{msg.message}</p>
+              <p className={msg.deleted_at ? 'italic opacity-70' : ''}>
+                {msg.deleted_at ? 'Message deleted' : msg.message}
+              </p>
             </div>
           ))
         )}
@@ -210,6 +214,7 @@ export default function Chat() {
           value={newMessage}
           onChange={(e) => setNewMessage(e.target.value)}
           placeholder="Type a message..."
+          maxLength={MAX_MESSAGE_LENGTH}
           className="flex-1 p-2 border border-gray-300 rounded-md"
         />
         <button 
@@ -220,6 +225,7 @@ export default function Chat() {
           Send
         </button>
       </form>
+      {sendError && <p className="text-sm text-red-600 mt-2">{sendError}</p>}
     </div>
   );
 }
\ No newline at end of file
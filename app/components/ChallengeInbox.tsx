@@ -0,0 +1,152 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+
+const POLLING_INTERVAL = 15000;
+
+interface IncomingChallenge {
+  id: string;
+  playerId: string;
+  username: string | null;
+  gameTitle: string;
+  lobbyId: string | null;
+  expiresAt: string;
+}
+
+// Pops up challenges sent to the signed in player on whatever page they are on
+export default function ChallengeInbox() {
+  const router = useRouter();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [challenges, setChallenges] = useState<IncomingChallenge[]>([]);
+  const [answering, setAnswering] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const supabase = createClientComponentClient();
+
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user.id ?? null));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadChallenges = useCallback(async () => {
+    try {
+      const response = await fetch('/api/challenges');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setChallenges(data.incoming || []);
+    } catch (err) {
+      console.error('Error loading challenges:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setChallenges([]);
+      return;
+    }
+
+    const supabase = createClientComponentClient();
+    loadChallenges();
+
+    const channel = supabase
+      .channel(`challenges:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'challenges', filter: `challenged_id=eq.${userId}` },
+        () => loadChallenges()
+      )
+      .subscribe();
+
+    const interval = setInterval(loadChallenges, POLLING_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, loadChallenges]);
+
+  // Drop challenges from the list as soon as they run out
+  useEffect(() => {
+    if (challenges.length === 0) return;
+
+    const interval = setInterval(() => {
+      setChallenges((current) => current.filter((challenge) => new Date(challenge.expiresAt).getTime() > Date.now()));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [challenges.length]);
+
+  const answer = async (challenge: IncomingChallenge, action: 'accept' | 'decline') => {
+    setAnswering(challenge.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/challenges/${challenge.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to answer the challenge');
+
+      setChallenges((current) => current.filter((item) => item.id !== challenge.id));
+      if (action === 'accept' && data.lobbyId) {
+        router.push(`/game/${data.lobbyId}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      loadChallenges();
+    } finally {
+      setAnswering(null);
+    }
+  };
+
+  if (challenges.length === 0 && !error) return null;
+
+  return (
+    <div className="fixed top-16 right-4 z-50 space-y-2 w-80 text-black">
+      {challenges.map((challenge) => (
+        <div key={challenge.id} className="bg-white border-2 border-black rounded-lg shadow-lg p-4">
+          <p className="font-semibold">
+            {challenge.username || 'Someone'} challenged you to {challenge.gameTitle}!
+          </p>
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => answer(challenge, 'accept')}
+              disabled={answering === challenge.id}
+              className="flex-1 px-3 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => answer(challenge, 'decline')}
+              disabled={answering === challenge.id}
+              className="flex-1 px-3 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ))}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 p-2 rounded text-sm">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
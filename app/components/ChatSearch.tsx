@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import type { Database } from '../types/supabase';
+
+type Message = Database['public']['Tables']['messages']['Row'];
+
+interface ChatSearchProps {
+  roomId: string;
+  // Who can be picked in the author filter
+  users: { id: string; username: string }[];
+  onSelect: (message: Message) => void;
+}
+
+// Local midnight of a yyyy-mm-dd date input, `days` later
+function toStartOfDay(date: string, days = 0): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + days).toISOString();
+}
+
+// Searches one chat room through /api/chat/search
+export default function ChatSearch({ roomId, users, onSelect }: ChatSearchProps) {
+  const [query, setQuery] = useState('');
+  const [authorId, setAuthorId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [results, setResults] = useState<Message[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ q: query.trim(), roomId });
+      if (authorId) params.set('userId', authorId);
+      if (fromDate) params.set('from', toStartOfDay(fromDate));
+      // The end date counts as a whole day
+      if (toDate) params.set('to', toStartOfDay(toDate, 1));
+
+      const response = await fetch(`/api/chat/search?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to search chat');
+
+      setResults(data.results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search chat');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="text-black text-sm">
+      <form onSubmit={handleSearch} className="space-y-2 mb-3">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search messages..."
+            className="flex-1 border border-gray-300 rounded-md px-2 py-1"
+          />
+          <button
+            type="submit"
+            disabled={isSearching || query.trim().length < 2}
+            className="px-3 py-1 rounded-md bg-slate-600 text-white disabled:opacity-50"
+          >
+            {isSearching ? '...' : 'Search'}
+          </button>
+        </div>
+        <select
+          value={authorId}
+          onChange={(e) => setAuthorId(e.target.value)}
+          className="w-full border border-gray-300 rounded-md px-2 py-1"
+        >
+          <option value="">From anyone</option>
+          {users.map((user) => (
+            <option key={user.id} value={user.id}>
+              From {user.username}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2 items-center text-xs text-gray-500">
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="flex-1 border border-gray-300 rounded-md px-1 py-1 text-black"
+            aria-label="From date"
+          />
+          to
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="flex-1 border border-gray-300 rounded-md px-1 py-1 text-black"
+            aria-label="To date"
+          />
+        </div>
+      </form>
+
+      {error && <p className="text-red-500 text-xs mb-2">{error}</p>}
+
+      {results && results.length === 0 && <p className="text-gray-400 text-center">No messages found.</p>}
+
+      {results && results.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {results.map((message) => (
+            <li key={message.id}>
+              <button onClick={() => onSelect(message)} className="w-full text-left py-2 hover:bg-gray-50">
+                <span className="font-semibold">{message.username}</span>
+                <span className="text-xs text-gray-400 ml-2">{new Date(message.created_at).toLocaleString()}</span>
+                <p className="break-words text-gray-700">{message.message}</p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
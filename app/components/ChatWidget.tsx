@@ -3,21 +3,29 @@
 import type React from 'react';
 
 import { useState, useEffect, useRef } from 'react';
-import { FaComments, FaTimes, FaSmile, FaHeart, FaThumbsUp, FaLaugh, FaFire } from 'react-icons/fa';
+import { FaComments, FaTimes, FaSmile, FaHeart, FaThumbsUp, FaLaugh, FaFire, FaUserFriends, FaFlag, FaReply, FaEdit, FaTrash, FaSearch } from 'react-icons/fa';
 import { supabase } from '../lib/supabaseClient';
 import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
 import type { Database } from '../types/supabase';
 import { useChat } from '../contexts/ChatContext';
+import FriendsList from './FriendsList';
+import ChatSearch from './ChatSearch';
+import {
+  GENERAL_ROOM,
+  MAX_MESSAGE_LENGTH,
+  ROOM_MESSAGE_LIMIT,
+  flattenThreads,
+  summarizeReactions,
+  type ChatReaction,
+} from '../lib/chat';
 import EmojiPicker from 'emoji-picker-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Confetti from 'react-confetti';
 import { useWindowSize } from 'react-use';
 
 // Define types based on the Database type
-type Message = Database['public']['Tables']['messages']['Row'] & {
-  reactions?: Record<string, number>;
-};
-type NewMessage = Database['public']['Tables']['messages']['Insert'];
+type Message = Database['public']['Tables']['messages']['Row'];
+type MessageReaction = Database['public']['Tables']['message_reactions']['Row'];
 
 // Animation presets for messages
 const messageAnimations = [
@@ -27,13 +35,20 @@ const messageAnimations = [
 ];
 
 // Reaction options
-const REACTIONS = [
+const REACTIONS: { emoji: string; icon: React.ReactNode; name: ChatReaction }[] = [
   { emoji: '❤️', icon: <FaHeart className="text-red-500" />, name: 'heart' },
   { emoji: '👍', icon: <FaThumbsUp className="text-blue-500" />, name: 'thumbsUp' },
   { emoji: '😂', icon: <FaLaugh className="text-yellow-500" />, name: 'laugh' },
   { emoji: '🔥', icon: <FaFire className="text-orange-500" />, name: 'fire' },
 ];
 
+// How many messages either side of a search result are loaded with it
+const CONTEXT_SIZE = Math.floor(ROOM_MESSAGE_LIMIT / 2);
+
+function isSameReaction(a: Partial<MessageReaction>, b: Partial<MessageReaction>) {
+  return a.message_id === b.message_id && a.user_id === b.user_id && a.reaction === b.reaction;
+}
+
 export default function ChatWidget() {
   const { isChatVisible, toggleChat, hideChat } = useChat();
   const [messages, setMessages] = useState<Message[]>([]);
@@ -42,18 +57,32 @@ export default function ChatWidget() {
   const [showConfetti, setShowConfetti] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [typingTimeout, setTypingTimeout] = useState<NodeJS.Timeout | null>(null);
-  const [messageReactions, setMessageReactions] = useState<Record<string, Record<string, number>>>({});
+  const [reactionRows, setReactionRows] = useState<MessageReaction[]>([]);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [showReactionMenu, setShowReactionMenu] = useState<string | null>(null);
   const [chatTheme, setChatTheme] = useState<'light' | 'dark' | 'funky'>('light');
   const [userColor, setUserColor] = useState('');
+  const [activeTab, setActiveTab] = useState<'chat' | 'friends' | 'search'>('chat');
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [reportedIds, setReportedIds] = useState<string[]>([]);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Set after jumping to a search result, until the latest messages are loaded again
+  const [isViewingHistory, setIsViewingHistory] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
-  const [username, setUsername] = useState<string>('');
   const [userId, setUserId] = useState<string>('');
   const [isSupabaseReady, setIsSupabaseReady] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatRef = useRef<HTMLDivElement>(null);
   const emojiPickerRef = useRef<HTMLDivElement>(null);
   const reactionMenuRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const isViewingHistoryRef = useRef(false);
+  // Distance from the bottom to keep when older messages are added on top
+  const keepScrollRef = useRef<number | null>(null);
+  const scrollTargetRef = useRef<string | null>(null);
 
   const { width, height } = useWindowSize();
 
@@ -113,18 +142,9 @@ export default function ChatWidget() {
 
         if (currentUser) {
           setUserId(currentUser.id);
-          // Set username from user email or user metadata
-          const metadata = currentUser.user_metadata as { name?: string; full_name?: string } | null;
-          setUsername(
-            metadata?.name ||
-              metadata?.full_name ||
-              currentUser.email?.split('@')[0] ||
-              `User${Math.floor(Math.random() * 1000)}`,
-          );
         } else {
-          // Generate anonymous user if not logged in
+          // Guests can read the chat, the server only takes messages from signed in players
           setUserId(crypto.randomUUID());
-          setUsername(`Anonymous${Math.floor(Math.random() * 1000)}`);
         }
       } catch (error) {
         console.error('Error getting user session:', error);
@@ -142,13 +162,6 @@ export default function ChatWidget() {
 
         if (currentUser) {
           setUserId(currentUser.id);
-          const metadata = currentUser.user_metadata as { name?: string; full_name?: string } | null;
-          setUsername(
-            metadata?.name ||
-              metadata?.full_name ||
-              currentUser.email?.split('@')[0] ||
-              `User${Math.floor(Math.random() * 1000)}`,
-          );
         }
       });
 
@@ -166,8 +179,11 @@ export default function ChatWidget() {
     // Subscribe to new messages
     const channel = supabase
       .channel('public:messages')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, (payload: { new: Message }) => {
-        setMessages((prevMessages) => [...prevMessages, payload.new]);
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `room_id=eq.${GENERAL_ROOM}` }, (payload: { new: Message }) => {
+        // Further back in history the new message isn't next to the loaded ones
+        if (!isViewingHistoryRef.current) {
+          setMessages((prevMessages) => (prevMessages.some((msg) => msg.id === payload.new.id) ? prevMessages : [...prevMessages, payload.new]));
+        }
         
         // Check for trigger words
         const msgText = payload.new.message.toLowerCase();
@@ -181,6 +197,20 @@ export default function ChatWidget() {
           }
         }
       })
+      // Edits and deletes by the author only blank the message, moderators remove it
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages', filter: `room_id=eq.${GENERAL_ROOM}` }, (payload: { new: Message }) => {
+        setMessages((prevMessages) => prevMessages.map((msg) => (msg.id === payload.new.id ? payload.new : msg)));
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages' }, (payload: { old: Partial<Message> }) => {
+        setMessages((prevMessages) => prevMessages.filter((msg) => msg.id !== payload.old.id));
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: `room_id=eq.${GENERAL_ROOM}` }, (payload: { new: MessageReaction }) => {
+        setReactionRows((prevRows) => (prevRows.some((row) => isSameReaction(row, payload.new)) ? prevRows : [...prevRows, payload.new]));
+      })
+      // Delete events can't be filtered, rows from other rooms just aren't found
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'message_reactions' }, (payload: { old: Partial<MessageReaction> }) => {
+        setReactionRows((prevRows) => prevRows.filter((row) => !isSameReaction(row, payload.old)));
+      })
       .subscribe();
     
     return () => {
@@ -190,74 +220,170 @@ export default function ChatWidget() {
     };
   }, [isChatVisible, isSupabaseReady]);
 
-  // Scroll to bottom when messages change or when chat opens
   useEffect(() => {
-    if (isChatVisible) {
-      scrollToBottom();
-    }
-  }, [messages, isChatVisible]);
+    isViewingHistoryRef.current = isViewingHistory;
+  }, [isViewingHistory]);
 
-  // Set up automatic message deletion after 24 hours
+  // Scroll to bottom when messages change or when chat opens, unless older
+  // messages were added on top or a search result was jumped to
   useEffect(() => {
-    if (!isSupabaseReady || !supabase) return;
+    if (!isChatVisible) return;
 
-    // Function to delete old messages
-    const deleteOldMessages = async () => {
-      try {
-        // Calculate timestamp for 24 hours ago
-        const twentyFourHoursAgo = new Date();
-        twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
+    const container = messagesContainerRef.current;
+    if (container && keepScrollRef.current !== null) {
+      container.scrollTop = container.scrollHeight - keepScrollRef.current;
+      keepScrollRef.current = null;
+      return;
+    }
 
-        const { error } = await supabase!.from('messages').delete().lt('created_at', twentyFourHoursAgo.toISOString());
+    if (scrollTargetRef.current) {
+      document.getElementById(`chat-message-${scrollTargetRef.current}`)?.scrollIntoView({ block: 'center' });
+      scrollTargetRef.current = null;
+      return;
+    }
 
-        if (error) {
-          console.error('Error deleting old messages:', error);
-        } else {
-          console.log('Successfully deleted messages older than 24 hours');
-          // Refresh messages if chat is visible
-          if (isChatVisible) {
-            fetchMessages();
-          }
-        }
-      } catch (error) {
-        console.error('Failed to delete old messages:', error);
-      }
-    };
+    if (!isViewingHistoryRef.current) {
+      scrollToBottom();
+    }
+  }, [messages, isChatVisible]);
+
+  // Reactions for newly loaded messages, keeping the ones already loaded
+  const fetchReactions = async (messageIds: string[]) => {
+    if (!supabase || messageIds.length === 0) return;
 
-    // Run once when component mounts
-    deleteOldMessages();
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .select('*')
+      .in('message_id', messageIds);
 
-    // Set up interval to check and delete old messages every hour
-    const interval = setInterval(deleteOldMessages, 60 * 60 * 1000);
+    if (error) {
+      console.error('Error fetching reactions:', error);
+      return;
+    }
 
-    return () => clearInterval(interval);
-  }, [isSupabaseReady, isChatVisible]);
+    setReactionRows((prevRows) => [...prevRows.filter((row) => !messageIds.includes(row.message_id)), ...(data || [])]);
+  };
 
+  // The latest page of messages, retention on the server decides how far back it goes
   const fetchMessages = async () => {
     if (!supabase) return;
 
     try {
-      // Calculate timestamp for 24 hours ago
-      const twentyFourHoursAgo = new Date();
-      twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
-
       const { data, error } = await supabase
         .from('messages')
         .select('*')
-        .gte('created_at', twentyFourHoursAgo.toISOString())
-        .order('created_at', { ascending: true })
-        .limit(50);
+        .eq('room_id', GENERAL_ROOM)
+        .order('created_at', { ascending: false })
+        .limit(ROOM_MESSAGE_LIMIT);
 
       if (error) {
         console.error('Error fetching messages:', error);
-      } else {
-        setMessages(data || []);
+        return;
       }
+
+      const latest = (data || []).reverse();
+      setMessages(latest);
+      setHasOlder(latest.length === ROOM_MESSAGE_LIMIT);
+      setIsViewingHistory(false);
+      setReactionRows([]);
+      await fetchReactions(latest.map((msg) => msg.id));
     } catch (error) {
       console.error('Failed to fetch messages:', error);
     }
   };
 
+  // The page before the oldest loaded message, when scrolled to the top
+  const fetchOlderMessages = async () => {
+    if (!supabase || !hasOlder || isLoadingOlder || messages.length === 0) return;
+
+    setIsLoadingOlder(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('room_id', GENERAL_ROOM)
+        .lt('created_at', messages[0].created_at)
+        .order('created_at', { ascending: false })
+        .limit(ROOM_MESSAGE_LIMIT);
+
+      if (error) {
+        console.error('Error fetching older messages:', error);
+        return;
+      }
+
+      const older = (data || []).reverse();
+      const container = messagesContainerRef.current;
+      if (container) keepScrollRef.current = container.scrollHeight - container.scrollTop;
+
+      setMessages((prevMessages) => [...older, ...prevMessages]);
+      setHasOlder(older.length === ROOM_MESSAGE_LIMIT);
+      await fetchReactions(older.map((msg) => msg.id));
+    } catch (error) {
+      console.error('Failed to fetch older messages:', error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  // Loads the messages around a search result and scrolls to it
+  const jumpToMessage = async (target: Message) => {
+    if (!supabase) return;
+
+    setActiveTab('chat');
+
+    try {
+      const [before, after] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('room_id', GENERAL_ROOM)
+          .lte('created_at', target.created_at)
+          .order('created_at', { ascending: false })
+          .limit(CONTEXT_SIZE),
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('room_id', GENERAL_ROOM)
+          .gt('created_at', target.created_at)
+          .order('created_at', { ascending: true })
+          .limit(CONTEXT_SIZE),
+      ]);
+
+      if (before.error || after.error) {
+        console.error('Error fetching messages around result:', before.error || after.error);
+        return;
+      }
+
+      const around = [...(before.data || []).reverse(), ...(after.data || [])];
+      scrollTargetRef.current = target.id;
+      setMessages(around);
+      setHasOlder((before.data || []).length === CONTEXT_SIZE);
+      setIsViewingHistory((after.data || []).length === CONTEXT_SIZE);
+      setHighlightedId(target.id);
+      setTimeout(() => setHighlightedId((current) => (current === target.id ? null : current)), 3000);
+      setReactionRows([]);
+      await fetchReactions(around.map((msg) => msg.id));
+    } catch (error) {
+      console.error('Failed to jump to message:', error);
+    }
+  };
+
+  // Everyone with a loaded message, for the search author filter
+  const getChatUsers = () => {
+    const users = new Map<string, string>();
+    for (const msg of messages) {
+      if (!msg.deleted_at) users.set(msg.user_id, msg.username);
+    }
+    return [...users].map(([id, username]) => ({ id, username }));
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 40) {
+      fetchOlderMessages();
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -273,21 +399,34 @@ export default function ChatWidget() {
       }
     }
 
-    const message: NewMessage = {
-      user_id: userId,
-      username: username,
-      message: newMessage,
-      room_id: 'general', // Default room
-    };
+    setSendError(null);
 
     try {
-      // Insert the message into Supabase
-      const { error } = await supabase.from('messages').insert([message]);
-
-      if (error) {
-        console.error('Error sending message:', error);
+      // The server checks the message and stores it, realtime brings it back
+      const response = editingId
+        ? await fetch(`/api/chat/messages/${editingId}`, {
+            method: 'PATCH',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ message: newMessage }),
+          })
+        : await fetch('/api/chat/messages', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ roomId: GENERAL_ROOM, message: newMessage, parentId: replyTo?.id }),
+          });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSendError(data.error || 'Failed to send message');
       } else {
         setNewMessage('');
+        setReplyTo(null);
+        setEditingId(null);
         
         // Check for trigger words
         const msgText = newMessage.toLowerCase();
@@ -355,21 +494,83 @@ export default function ChatWidget() {
     setShowReactionMenu(prev => prev === messageId ? null : messageId);
   };
 
-  const addReaction = (messageId: string, reactionName: string) => {
-    setMessageReactions(prev => {
-      const messageReactions = prev[messageId] || {};
-      const currentCount = messageReactions[reactionName] || 0;
-      
-      return {
-        ...prev,
-        [messageId]: {
-          ...messageReactions,
-          [reactionName]: currentCount + 1
-        }
-      };
-    });
-    
+  const toggleReaction = async (messageId: string, reaction: ChatReaction) => {
+    setShowReactionMenu(null);
+
+    try {
+      const response = await fetch(`/api/chat/messages/${messageId}/reactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reaction }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to react');
+
+      // Realtime sends the same change, this just doesn't wait for it
+      const row = { message_id: messageId, user_id: userId, reaction, room_id: GENERAL_ROOM, created_at: new Date().toISOString() };
+      setReactionRows((prev) => {
+        const rest = prev.filter((existing) => !isSameReaction(existing, row));
+        return data.reacted ? [...rest, row] : rest;
+      });
+    } catch (error) {
+      setSendError(error instanceof Error ? error.message : 'Failed to react');
+    }
+  };
+
+  const startReply = (msg: Message) => {
+    setShowReactionMenu(null);
+    setEditingId(null);
+    setReplyTo(msg);
+  };
+
+  const startEdit = (msg: Message) => {
+    setShowReactionMenu(null);
+    setReplyTo(null);
+    setEditingId(msg.id);
+    setNewMessage(msg.message);
+  };
+
+  const cancelCompose = () => {
+    if (editingId) setNewMessage('');
+    setReplyTo(null);
+    setEditingId(null);
+  };
+
+  const deleteMessage = async (messageId: string) => {
+    setShowReactionMenu(null);
+
+    try {
+      const response = await fetch(`/api/chat/messages/${messageId}`, { method: 'DELETE' });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to delete message');
+    } catch (error) {
+      setSendError(error instanceof Error ? error.message : 'Failed to delete message');
+    }
+  };
+
+  const reportMessage = async (messageId: string) => {
     setShowReactionMenu(null);
+
+    try {
+      const response = await fetch('/api/chat/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to report message');
+
+      setReportedIds((prev) => [...prev, messageId]);
+    } catch (error) {
+      setSendError(error instanceof Error ? error.message : 'Failed to report message');
+    }
   };
 
   const getChatThemeClasses = () => {
@@ -482,10 +683,28 @@ export default function ChatWidget() {
                 transition={{ delay: 0.1 }}
               >
                 <span className="mr-2">💬</span>
-                Game Chat
+                {activeTab === 'chat' ? 'Game Chat' : activeTab === 'search' ? 'Search Chat' : 'Friends'}
                 {showConfetti && <span className="ml-2">🎉</span>}
               </motion.h3>
               <div className="flex space-x-2">
+                <motion.button
+                  onClick={() => setActiveTab(prev => prev === 'search' ? 'chat' : 'search')}
+                  className='text-white hover:text-gray-200 px-2 py-1 rounded-md text-xs'
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  aria-label={activeTab === 'search' ? 'Show chat' : 'Search chat'}
+                >
+                  {activeTab === 'search' ? <FaComments size={16} /> : <FaSearch size={16} />}
+                </motion.button>
+                <motion.button
+                  onClick={() => setActiveTab(prev => prev === 'chat' ? 'friends' : 'chat')}
+                  className='text-white hover:text-gray-200 px-2 py-1 rounded-md text-xs'
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  aria-label={activeTab === 'chat' ? 'Show friends' : 'Show chat'}
+                >
+                  {activeTab === 'chat' ? <FaUserFriends size={16} /> : <FaComments size={16} />}
+                </motion.button>
                 <motion.button
                   onClick={() => setChatTheme(prev => prev === 'light' ? 'dark' : prev === 'dark' ? 'funky' : 'light')}
                   className='text-white hover:text-gray-200 px-2 py-1 rounded-md text-xs'
@@ -506,174 +725,282 @@ export default function ChatWidget() {
               </div>
             </div>
 
-            {/* Chat messages */}
-            <div className={`flex-1 overflow-y-auto p-4 max-h-96 ${chatTheme === 'light' ? 'bg-gradient-to-b from-slate-50 to-white' : chatTheme === 'dark' ? 'bg-gray-800' : 'bg-gradient-to-b from-fuchsia-900/30 to-purple-900/30'}`}>
-              {!isSupabaseReady ? (
-                <motion.div
-                  className='text-center text-gray-400 my-4'
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: 0.2 }}
-                >
-                  <div className='flex justify-center items-center space-x-2'>
-                    <div
-                      className='w-2 h-2 bg-slate-400 rounded-full animate-bounce'
-                      style={{ animationDelay: '0ms' }}
-                    ></div>
-                    <div
-                      className='w-2 h-2 bg-slate-400 rounded-full animate-bounce'
-                      style={{ animationDelay: '150ms' }}
-                    ></div>
-                    <div
-                      className='w-2 h-2 bg-slate-400 rounded-full animate-bounce'
-                      style={{ animationDelay: '300ms' }}
-                    ></div>
-                  </div>
-                  <p className='mt-2'>Connecting to chat service...</p>
-                </motion.div>
-              ) : messages.length === 0 ? (
-                <motion.div
-                  className='text-center text-gray-400 my-4'
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.2 }}
-                >
-                  No messages yet. Start the conversation!
-                </motion.div>
-              ) : (
-                messages.map((msg, index) => {
-                  const isOwnMessage = msg.user_id === userId;
-                  const messageAnimation = getMessageAnimation(msg.message);
-                  const reactions = messageReactions[msg.id as string] || {};
-                  
-                  return (
+            {/* Friends panel */}
+            {activeTab === 'friends' && (
+              <div className='flex-1 overflow-y-auto p-4 max-h-96 bg-white'>
+                <FriendsList compact />
+              </div>
+            )}
+
+            {activeTab === 'search' && (
+              <div className='flex-1 overflow-y-auto p-4 max-h-96 bg-white'>
+                <ChatSearch roomId={GENERAL_ROOM} users={getChatUsers()} onSelect={jumpToMessage} />
+              </div>
+            )}
+
+            {activeTab === 'chat' && (
+              <>
+                {/* Chat messages */}
+                <div
+                  ref={messagesContainerRef}
+                  onScroll={handleMessagesScroll}
+                  className={`flex-1 overflow-y-auto p-4 max-h-96 ${chatTheme === 'light' ? 'bg-gradient-to-b from-slate-50 to-white' : chatTheme === 'dark' ? 'bg-gray-800' : 'bg-gradient-to-b from-fuchsia-900/30 to-purple-900/30'}`}>
+                  {!isSupabaseReady ? (
                     <motion.div
-                      key={msg.id}
-                      className={`mb-3 p-3 rounded-lg ${getMessageThemeClasses(isOwnMessage)} max-w-[80%] ${isOwnMessage ? 'ml-auto' : 'mr-auto'} relative`}
-                      initial={{ opacity: 0, y: 20, scale: 0.9, ...messageAnimation.initial }}
-                      animate={{ 
-                        opacity: 1, 
-                        y: 0, 
-                        scale: 1,
-                        ...messageAnimation.animate
-                      }}
-                      transition={messageAnimations[index % messageAnimations.length]}
-                      onDoubleClick={(e) => toggleReactionMenu(msg.id as string, e)}
+                      className='text-center text-gray-400 my-4'
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ delay: 0.2 }}
                     >
-                      <div className='flex justify-between mb-1 text-xs'>
-                        <span className={`font-bold ${isOwnMessage ? 'text-slate-100' : chatTheme === 'dark' ? 'text-slate-300' : 'text-slate-700'}`}
-                             style={isOwnMessage ? {} : { color: userColor }}>
-                          {msg.username}
-                        </span>
-                        <span className={`opacity-70 ${isOwnMessage ? 'text-slate-200' : chatTheme === 'dark' ? 'text-slate-400' : 'text-slate-500'}`}>
-                          {formatTime(msg.created_at)}
-                        </span>
+                      <div className='flex justify-center items-center space-x-2'>
+                        <div
+                          className='w-2 h-2 bg-slate-400 rounded-full animate-bounce'
+                          style={{ animationDelay: '0ms' }}
+                        ></div>
+                        <div
+                          className='w-2 h-2 bg-slate-400 rounded-full animate-bounce'
+                          style={{ animationDelay: '150ms' }}
+                        ></div>
+                        <div
+                          className='w-2 h-2 bg-slate-400 rounded-full animate-bounce'
+                          style={{ animationDelay: '300ms' }}
+                        ></div>
                       </div>
-                      <p className={`text-sm ${isOwnMessage ? 'text-white' : chatTheme === 'dark' ? 'text-white' : 'text-slate-700'}`}>
-                        {msg.message}
-                      </p>
+                      <p className='mt-2'>Connecting to chat service...</p>
+                    </motion.div>
+                  ) : messages.length === 0 ? (
+                    <motion.div
+                      className='text-center text-gray-400 my-4'
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: 0.2 }}
+                    >
+                      No messages yet. Start the conversation!
+                    </motion.div>
+                  ) : (
+                    <>
+                    {isLoadingOlder && (
+                      <p className='text-center text-xs text-gray-400 mb-2'>Loading earlier messages...</p>
+                    )}
+                    {flattenThreads(messages).map(({ message: msg, isReply }, index) => {
+                      const isOwnMessage = msg.user_id === userId;
+                      const isDeleted = !!msg.deleted_at;
+                      const messageAnimation = isDeleted ? {} : getMessageAnimation(msg.message);
+                      const reactions = summarizeReactions(reactionRows, msg.id, userId);
+                  
+                      return (
+                        <motion.div
+                          key={msg.id}
+                          id={`chat-message-${msg.id}`}
+                          className={`mb-3 p-3 rounded-lg ${getMessageThemeClasses(isOwnMessage)} ${highlightedId === msg.id ? 'ring-2 ring-yellow-400' : ''} ${isReply ? 'ml-8 mr-auto max-w-[75%] border-l-4 border-slate-400' : `max-w-[80%] ${isOwnMessage ? 'ml-auto' : 'mr-auto'}`} relative`}
+                          initial={{ opacity: 0, y: 20, scale: 0.9, ...messageAnimation.initial }}
+                          animate={{ 
+                            opacity: 1, 
+                            y: 0, 
+                            scale: 1,
+                            ...messageAnimation.animate
+                          }}
+                          transition={messageAnimations[index % messageAnimations.length]}
+                          onDoubleClick={(e) => !isDeleted && toggleReactionMenu(msg.id, e)}
+                        >
+                          <div className='flex justify-between mb-1 text-xs'>
+                            <span className={`font-bold ${isOwnMessage ? 'text-slate-100' : chatTheme === 'dark' ? 'text-slate-300' : 'text-slate-700'}`}
+                                 style={isOwnMessage ? {} : { color: userColor }}>
+                              {msg.username}
+                            </span>
+                            <span className={`opacity-70 ${isOwnMessage ? 'text-slate-200' : chatTheme === 'dark' ? 'text-slate-400' : 'text-slate-500'}`}>
+                              {formatTime(msg.created_at)}
+                              {msg.edited_at && !isDeleted && ' (edited)'}
+                            </span>
+                          </div>
+                          {msg.parent_id && !isReply && (
+                            <p className='text-xs opacity-70 mb-1'>Replying to an earlier message</p>
+                          )}
+                          <p className={`text-sm ${isDeleted ? 'italic opacity-70' : ''} ${isOwnMessage ? 'text-white' : chatTheme === 'dark' ? 'text-white' : 'text-slate-700'}`}>
+                            {isDeleted ? 'Message deleted' : msg.message}
+                          </p>
                       
-                      {/* Reaction display */}
-                      {Object.keys(reactions).length > 0 && (
-                        <div className="flex mt-1 space-x-1">
-                          {Object.entries(reactions).map(([reaction, count]) => (
-                            <div key={reaction} className="bg-white/30 rounded-full px-2 py-0.5 text-xs flex items-center">
-                              <span className="mr-1">{REACTIONS.find(r => r.name === reaction)?.emoji}</span>
-                              <span>{count}</span>
+                          {/* Reaction display */}
+                          {Object.keys(reactions).length > 0 && (
+                            <div className="flex mt-1 space-x-1">
+                              {REACTIONS.filter(reaction => reactions[reaction.name]).map(reaction => (
+                                <button
+                                  key={reaction.name}
+                                  onClick={() => toggleReaction(msg.id, reaction.name)}
+                                  className={`rounded-full px-2 py-0.5 text-xs flex items-center ${reactions[reaction.name]?.mine ? 'bg-white/60 ring-1 ring-white' : 'bg-white/30'}`}
+                                >
+                                  <span className="mr-1">{reaction.emoji}</span>
+                                  <span>{reactions[reaction.name]?.count}</span>
+                                </button>
+                              ))}
                             </div>
-                          ))}
-                        </div>
-                      )}
+                          )}
                       
-                      {/* Reaction menu */}
-                      <AnimatePresence>
-                        {showReactionMenu === msg.id && (
-                          <motion.div 
-                            className="absolute -top-10 right-0 bg-white shadow-lg rounded-full p-1 flex space-x-1 z-10"
-                            initial={{ opacity: 0, y: 10 }}
-                            animate={{ opacity: 1, y: 0 }}
-                            exit={{ opacity: 0, y: 10 }}
-                            ref={reactionMenuRef}
-                          >
-                            {REACTIONS.map(reaction => (
-                              <motion.button
-                                key={reaction.name}
-                                className="hover:bg-gray-100 p-1.5 rounded-full"
-                                whileHover={{ scale: 1.2 }}
-                                whileTap={{ scale: 0.9 }}
-                                onClick={() => addReaction(msg.id as string, reaction.name)}
+                          {/* Reaction menu */}
+                          <AnimatePresence>
+                            {showReactionMenu === msg.id && (
+                              <motion.div 
+                                className="absolute -top-10 right-0 bg-white shadow-lg rounded-full p-1 flex space-x-1 z-10"
+                                initial={{ opacity: 0, y: 10 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0, y: 10 }}
+                                ref={reactionMenuRef}
                               >
-                                {reaction.emoji}
-                              </motion.button>
-                            ))}
-                          </motion.div>
-                        )}
-                      </AnimatePresence>
-                    </motion.div>
-                  );
-                })
-              )}
-              <div ref={messagesEndRef} />
-            </div>
-
-            {/* Message input */}
-            <motion.form
-              onSubmit={handleSubmit}
-              className={`border-t ${chatTheme === 'light' ? 'border-gray-200' : chatTheme === 'dark' ? 'border-gray-700' : 'border-purple-700'} p-3 flex gap-2 ${chatTheme === 'light' ? 'bg-white' : chatTheme === 'dark' ? 'bg-gray-800' : 'bg-gradient-to-r from-purple-900/50 to-fuchsia-900/50'}`}
-              initial={{ y: 20, opacity: 0 }}
-              animate={{ y: 0, opacity: 1 }}
-              transition={{ delay: 0.3 }}
-            >
-              <div className='flex-1 relative'>
-                <input
-                  type='text'
-                  value={newMessage}
-                  onChange={handleTyping}
-                  placeholder='Type a message... (try "wow!" or "rainbow")'
-                  className={`w-full p-2 pr-10 border ${chatTheme === 'dark' ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-black'} rounded-md focus:ring-2 focus:ring-slate-400 focus:border-slate-400 transition-all`}
-                />
-                <motion.button
-                  type='button'
-                  onClick={toggleEmojiPicker}
-                  className='absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-gray-700'
-                  whileHover={{ scale: 1.1 }}
-                  whileTap={{ scale: 0.9 }}
+                                {REACTIONS.map(reaction => (
+                                  <motion.button
+                                    key={reaction.name}
+                                    className="hover:bg-gray-100 p-1.5 rounded-full"
+                                    whileHover={{ scale: 1.2 }}
+                                    whileTap={{ scale: 0.9 }}
+                                    onClick={() => toggleReaction(msg.id, reaction.name)}
+                                  >
+                                    {reaction.emoji}
+                                  </motion.button>
+                                ))}
+                                <motion.button
+                                  className="hover:bg-gray-100 p-1.5 rounded-full text-slate-600"
+                                  whileHover={{ scale: 1.2 }}
+                                  whileTap={{ scale: 0.9 }}
+                                  onClick={() => startReply(msg)}
+                                  title="Reply"
+                                >
+                                  <FaReply />
+                                </motion.button>
+                                {isOwnMessage && (
+                                  <>
+                                    <motion.button
+                                      className="hover:bg-gray-100 p-1.5 rounded-full text-slate-600"
+                                      whileHover={{ scale: 1.2 }}
+                                      whileTap={{ scale: 0.9 }}
+                                      onClick={() => startEdit(msg)}
+                                      title="Edit message"
+                                    >
+                                      <FaEdit />
+                                    </motion.button>
+                                    <motion.button
+                                      className="hover:bg-gray-100 p-1.5 rounded-full text-red-500"
+                                      whileHover={{ scale: 1.2 }}
+                                      whileTap={{ scale: 0.9 }}
+                                      onClick={() => deleteMessage(msg.id)}
+                                      title="Delete message"
+                                    >
+                                      <FaTrash />
+                                    </motion.button>
+                                  </>
+                                )}
+                                {!isOwnMessage && !reportedIds.includes(msg.id) && (
+                                  <motion.button
+                                    className="hover:bg-gray-100 p-1.5 rounded-full text-red-500"
+                                    whileHover={{ scale: 1.2 }}
+                                    whileTap={{ scale: 0.9 }}
+                                    onClick={() => reportMessage(msg.id)}
+                                    title="Report message"
+                                  >
+                                    <FaFlag />
+                                  </motion.button>
+                                )}
+                              </motion.div>
+                            )}
+                          </AnimatePresence>
+                        </motion.div>
+                      );
+                    })}
+                    </>
+                  )}
+                  <div ref={messagesEndRef} />
+                </div>
+
+                {isViewingHistory && (
+                  <button
+                    type='button'
+                    onClick={fetchMessages}
+                    className={`px-3 py-1 text-xs text-center underline ${chatTheme === 'dark' ? 'bg-gray-700 text-gray-200' : 'bg-slate-100 text-slate-600'}`}
+                  >
+                    Jump to latest messages
+                  </button>
+                )}
+
+                {sendError && (
+                  <div className='px-3 py-1 text-xs bg-red-100 text-red-700 flex justify-between'>
+                    <span>{sendError}</span>
+                    <button type='button' onClick={() => setSendError(null)} className='underline'>
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+
+                {(replyTo || editingId) && (
+                  <div className={`px-3 py-1 text-xs flex justify-between ${chatTheme === 'dark' ? 'bg-gray-700 text-gray-200' : 'bg-slate-100 text-slate-600'}`}>
+                    <span className='truncate'>
+                      {editingId ? 'Editing your message' : `Replying to ${replyTo?.username}: ${replyTo?.message}`}
+                    </span>
+                    <button type='button' onClick={cancelCompose} className='underline ml-2'>
+                      Cancel
+                    </button>
+                  </div>
+                )}
+
+                {/* Message input */}
+                <motion.form
+                  onSubmit={handleSubmit}
+                  className={`border-t ${chatTheme === 'light' ? 'border-gray-200' : chatTheme === 'dark' ? 'border-gray-700' : 'border-purple-700'} p-3 flex gap-2 ${chatTheme === 'light' ? 'bg-white' : chatTheme === 'dark' ? 'bg-gray-800' : 'bg-gradient-to-r from-purple-900/50 to-fuchsia-900/50'}`}
+                  initial={{ y: 20, opacity: 0 }}
+                  animate={{ y: 0, opacity: 1 }}
+                  transition={{ delay: 0.3 }}
                 >
-                  <FaSmile size={18} />
-                </motion.button>
-
-                {/* Emoji Picker */}
-                <AnimatePresence>
-                  {showEmojiPicker && (
-                    <motion.div
-                      className='absolute bottom-12 right-0 z-50 max-h-64 overflow-y-auto bg-white rounded-lg shadow-lg'
-                      ref={emojiPickerRef}
-                      initial={{ opacity: 0, scale: 0.9, y: 10 }}
-                      animate={{ opacity: 1, scale: 1, y: 0 }}
-                      exit={{ opacity: 0, scale: 0.9, y: 10 }}
-                      transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                  <div className='flex-1 relative'>
+                    <input
+                      type='text'
+                      value={newMessage}
+                      onChange={handleTyping}
+                      placeholder='Type a message... (try "wow!" or "rainbow")'
+                      maxLength={MAX_MESSAGE_LENGTH}
+                      className={`w-full p-2 pr-10 border ${chatTheme === 'dark' ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-black'} rounded-md focus:ring-2 focus:ring-slate-400 focus:border-slate-400 transition-all`}
+                    />
+                    <motion.button
+                      type='button'
+                      onClick={toggleEmojiPicker}
+                      className='absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-gray-700'
+                      whileHover={{ scale: 1.1 }}
+                      whileTap={{ scale: 0.9 }}
                     >
-                      <EmojiPicker onEmojiClick={handleEmojiClick} />
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </div>
+                      <FaSmile size={18} />
+                    </motion.button>
+
+                    {/* Emoji Picker */}
+                    <AnimatePresence>
+                      {showEmojiPicker && (
+                        <motion.div
+                          className='absolute bottom-12 right-0 z-50 max-h-64 overflow-y-auto bg-white rounded-lg shadow-lg'
+                          ref={emojiPickerRef}
+                          initial={{ opacity: 0, scale: 0.9, y: 10 }}
+                          animate={{ opacity: 1, scale: 1, y: 0 }}
+                          exit={{ opacity: 0, scale: 0.9, y: 10 }}
+                          transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                        >
+                          <EmojiPicker onEmojiClick={handleEmojiClick} />
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
+                  </div>
 
-              <motion.button
-                type='submit'
-                className={`px-3 py-2 ${chatTheme === 'light' ? 'bg-slate-600 hover:bg-slate-700' : chatTheme === 'dark' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600'} text-white rounded-md text-sm transition-colors`}
-                disabled={!newMessage.trim() || !supabase}
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-              >
-                Send
-              </motion.button>
-            </motion.form>
+                  <motion.button
+                    type='submit'
+                    className={`px-3 py-2 ${chatTheme === 'light' ? 'bg-slate-600 hover:bg-slate-700' : chatTheme === 'dark' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600'} text-white rounded-md text-sm transition-colors`}
+                    disabled={!newMessage.trim() || !supabase}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    Send
+                  </motion.button>
+                </motion.form>
             
-            {/* Help text for special commands */}
-            <div className={`px-3 py-1 text-xs ${chatTheme === 'light' ? 'bg-gray-100 text-gray-600' : chatTheme === 'dark' ? 'bg-gray-800 text-gray-400' : 'bg-purple-900/30 text-purple-200'}`}>
-              Try typing special words like &quot;wow&quot;, &quot;rainbow&quot;, &quot;important&quot;, or use /theme light|dark|funky
-            </div>
+                {/* Help text for special commands */}
+                <div className={`px-3 py-1 text-xs ${chatTheme === 'light' ? 'bg-gray-100 text-gray-600' : chatTheme === 'dark' ? 'bg-gray-800 text-gray-400' : 'bg-purple-900/30 text-purple-200'}`}>
+                  Try typing special words like &quot;wow&quot;, &quot;rainbow&quot;, &quot;important&quot;, or use /theme light|dark|funky
+                </div>
+              </>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -3,13 +3,20 @@
 
 import { ReactNode } from 'react';
 import { ChatProvider } from '../contexts/ChatContext';
+import { PresenceProvider } from '../contexts/PresenceContext';
 import ChatWidget from './ChatWidget';
+import ChallengeInbox from './ChallengeInbox';
+import NotificationBell from './NotificationBell';
 
 export default function ClientLayout({ children }: { children: ReactNode }) {
   return (
-    <ChatProvider>
-      {children}
-      <ChatWidget />
-    </ChatProvider>
+    <PresenceProvider>
+      <ChatProvider>
+        {children}
+        <ChatWidget />
+        <NotificationBell />
+        <ChallengeInbox />
+      </ChatProvider>
+    </PresenceProvider>
   );
 }
\ No newline at end of file
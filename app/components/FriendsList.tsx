@@ -0,0 +1,309 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { useOnlinePresence } from '../contexts/PresenceContext';
+import { getFriendStatus, type FriendStatus, type FriendshipAction, type FriendsOverview } from '../lib/friends';
+
+const POLLING_INTERVAL = 15000;
+
+const STATUS_LABELS: Record<FriendStatus, { label: string; dot: string }> = {
+  'in-game': { label: 'In a game', dot: 'bg-orange-500' },
+  'in-lobby': { label: 'In a lobby', dot: 'bg-yellow-500' },
+  online: { label: 'Online', dot: 'bg-green-500' },
+  offline: { label: 'Offline', dot: 'bg-gray-400' },
+};
+
+interface SearchUser {
+  id: string;
+  username: string;
+}
+
+interface FriendsListProps {
+  // The chat widget panel leaves out searching and removing friends
+  compact?: boolean;
+}
+
+// Friends with what they are up to, plus pending friend requests
+export default function FriendsList({ compact = false }: FriendsListProps) {
+  const { userId, onlineIds } = useOnlinePresence();
+  const [overview, setOverview] = useState<FriendsOverview | null>(null);
+  const [invitedIds, setInvitedIds] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchUser[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFriends = useCallback(async () => {
+    try {
+      const response = await fetch('/api/friends');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load friends');
+
+      setOverview(data);
+    } catch (err) {
+      console.error('Error loading friends:', err);
+    }
+  }, []);
+
+  // Requests arrive in real time, what friends are doing is polled
+  useEffect(() => {
+    if (!userId) return;
+
+    const supabase = createClientComponentClient();
+    loadFriends();
+
+    const channel = supabase
+      .channel(`friendships:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'friendships', filter: `addressee_id=eq.${userId}` },
+        () => loadFriends()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'friendships', filter: `requester_id=eq.${userId}` },
+        () => loadFriends()
+      )
+      .subscribe();
+
+    const interval = setInterval(loadFriends, POLLING_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, loadFriends]);
+
+  useEffect(() => {
+    if (compact || query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/users/search?q=${encodeURIComponent(query.trim())}&limit=5`);
+        const data = await response.json();
+        if (response.ok) setResults((data.users || []).filter((user: SearchUser) => user.id !== userId));
+      } catch (err) {
+        console.error('Error searching users:', err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [compact, query, userId]);
+
+  const send = async (url: string, body: object, fallbackError: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || fallbackError);
+
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateFriendship = async (action: FriendshipAction, playerId: string) => {
+    if (await send('/api/friends', { action, playerId }, 'Failed to update friends')) {
+      if (action === 'request') {
+        setQuery('');
+        setResults([]);
+      }
+      loadFriends();
+    }
+  };
+
+  const inviteToLobby = async (lobbyId: string, playerId: string) => {
+    if (await send(`/api/lobbies/${lobbyId}/invites`, { playerId }, 'Failed to invite friend')) {
+      setInvitedIds((current) => [...current, playerId]);
+    }
+  };
+
+  if (!userId) {
+    return <p className="text-sm text-gray-500 text-center py-4">Sign in to see your friends.</p>;
+  }
+
+  if (!overview) {
+    return <p className="text-sm text-gray-500 text-center py-4">Loading friends...</p>;
+  }
+
+  const statusOrder: FriendStatus[] = ['in-game', 'in-lobby', 'online', 'offline'];
+  const friends = [...overview.friends].sort(
+    (a, b) => statusOrder.indexOf(getFriendStatus(a, onlineIds)) - statusOrder.indexOf(getFriendStatus(b, onlineIds))
+  );
+
+  return (
+    <div className="space-y-4 text-black">
+      {!compact && (
+        <div>
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Find players to add"
+            className="w-full border-2 border-black rounded-lg px-3 py-2"
+          />
+          {results.length > 0 && (
+            <ul className="mt-1 border border-gray-300 rounded-lg bg-white divide-y">
+              {results.map((user) => (
+                <li key={user.id} className="flex justify-between items-center px-3 py-2">
+                  <span>{user.username}</span>
+                  <button
+                    onClick={() => updateFriendship('request', user.id)}
+                    disabled={isSaving}
+                    className="px-3 py-1 rounded-md text-sm bg-black text-white disabled:opacity-50"
+                  >
+                    Add Friend
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {overview.incoming.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Friend Requests</h4>
+          <ul className="space-y-2">
+            {overview.incoming.map((request) => (
+              <li key={request.playerId} className="flex justify-between items-center text-sm">
+                <span>{request.username || 'Unknown player'}</span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => updateFriendship('accept', request.playerId)}
+                    disabled={isSaving}
+                    className="px-2 py-1 rounded-md bg-green-600 text-white text-xs disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => updateFriendship('decline', request.playerId)}
+                    disabled={isSaving}
+                    className="px-2 py-1 rounded-md bg-gray-200 text-xs disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold mb-2">Friends ({friends.length})</h4>
+        {friends.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No friends yet.{' '}
+            {compact && (
+              <Link href="/friends" className="underline">
+                Find some
+              </Link>
+            )}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {friends.map((friend) => {
+              const status = getFriendStatus(friend, onlineIds);
+              const hostedLobby = overview.hostedLobby;
+              const canInvite =
+                !!hostedLobby && friend.activity?.lobbyId !== hostedLobby.lobbyId && !invitedIds.includes(friend.playerId);
+
+              return (
+                <li key={friend.playerId} className="text-sm">
+                  <div className="flex justify-between items-center">
+                    <Link href={`/profile?userId=${friend.playerId}`} className="font-medium hover:underline">
+                      {friend.username || 'Unknown player'}
+                    </Link>
+                    <span className="flex items-center text-xs text-gray-600">
+                      <span className={`inline-block w-2 h-2 rounded-full mr-1 ${STATUS_LABELS[status].dot}`}></span>
+                      {STATUS_LABELS[status].label}
+                      {friend.activity && ` · ${friend.activity.gameTitle}`}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {friend.activity?.status === 'playing' && (
+                      <Link
+                        href={`/game/${friend.activity.lobbyId}`}
+                        className="px-2 py-1 rounded-md border border-gray-300 text-xs hover:bg-gray-100"
+                      >
+                        Watch
+                      </Link>
+                    )}
+                    {friend.invitedTo && (
+                      <Link
+                        href={`/lobby/${friend.invitedTo.lobbyId}`}
+                        className="px-2 py-1 rounded-md bg-green-600 text-white text-xs hover:bg-green-700"
+                      >
+                        Join their {friend.invitedTo.gameTitle} lobby
+                      </Link>
+                    )}
+                    {canInvite && (
+                      <button
+                        onClick={() => inviteToLobby(hostedLobby.lobbyId, friend.playerId)}
+                        disabled={isSaving}
+                        className="px-2 py-1 rounded-md border border-gray-300 text-xs hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        Invite to {hostedLobby.gameTitle}
+                      </button>
+                    )}
+                    {invitedIds.includes(friend.playerId) && <span className="text-xs text-green-600">Invited!</span>}
+                    {!compact && (
+                      <button
+                        onClick={() => updateFriendship('remove', friend.playerId)}
+                        disabled={isSaving}
+                        className="px-2 py-1 rounded-md text-xs text-red-600 hover:underline disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {!compact && overview.outgoing.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Sent Requests</h4>
+          <ul className="space-y-2">
+            {overview.outgoing.map((request) => (
+              <li key={request.playerId} className="flex justify-between items-center text-sm">
+                <span>{request.username || 'Unknown player'}</span>
+                <button
+                  onClick={() => updateFriendship('remove', request.playerId)}
+                  disabled={isSaving}
+                  className="px-2 py-1 rounded-md text-xs text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  DEFAULT_INVITE_CODE_EXPIRY_HOURS,
+  INVITE_CODE_EXPIRY_HOURS,
+  INVITE_CODE_MAX_USES,
+  type InviteCodeUsage,
+} from '@/app/lib/games/lobby';
+
+const POLLING_INTERVAL = 5000;
 
 interface InviteModalProps {
   lobbyId: string;
@@ -8,28 +16,63 @@ interface InviteModalProps {
 }
 
 interface InviteResponse {
+  id: string;
   code: string;
   fullUrl: string;
   lobbyUrl: string;
 }
 
+function formatExpiryOption(hours: number) {
+  if (hours % 24 === 0) return `${hours / 24} ${hours === 24 ? 'day' : 'days'}`;
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+}
+
+function formatTimeLeft(expiresAt: string) {
+  const minutes = Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes}m left`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h left`;
+  return `${Math.round(minutes / (24 * 60))}d left`;
+}
+
 export default function InviteModal({ lobbyId, onClose }: InviteModalProps) {
   const [inviteCode, setInviteCode] = useState<InviteResponse | null>(null);
+  const [activeCodes, setActiveCodes] = useState<InviteCodeUsage[]>([]);
+  const [expiresInHours, setExpiresInHours] = useState(DEFAULT_INVITE_CODE_EXPIRY_HOURS);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copyMessage, setCopyMessage] = useState<string | null>(null);
 
+  const loadCodes = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/lobbies/${lobbyId}/invite-codes`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load codes');
+
+      setActiveCodes(data.codes);
+    } catch (err) {
+      console.error('Error loading invite codes:', err);
+    }
+  }, [lobbyId]);
+
+  // Keep the usage counts live while the modal is open
+  useEffect(() => {
+    loadCodes();
+    const interval = setInterval(loadCodes, POLLING_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadCodes]);
+
   const generateCode = async () => {
     setIsLoading(true);
     setError(null);
-    
+
     try {
       const response = await fetch('/api/invite', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ lobbyId }),
+        body: JSON.stringify({ lobbyId, expiresInHours, maxUses }),
       });
 
       if (!response.ok) {
@@ -39,6 +82,7 @@ export default function InviteModal({ lobbyId, onClose }: InviteModalProps) {
 
       const data = await response.json();
       setInviteCode(data);
+      loadCodes();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Something went wrong');
     } finally {
@@ -46,6 +90,30 @@ export default function InviteModal({ lobbyId, onClose }: InviteModalProps) {
     }
   };
 
+  const revokeCode = async (codeId: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/lobbies/${lobbyId}/invite-codes`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ codeId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to revoke code');
+      }
+
+      if (inviteCode?.id === codeId) setInviteCode(null);
+      loadCodes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
   const copyToClipboard = (text: string, type: 'code' | 'url') => {
     navigator.clipboard.writeText(text);
     setCopyMessage(`${type === 'code' ? 'Code' : 'URL'} copied!`);
@@ -57,22 +125,54 @@ export default function InviteModal({ lobbyId, onClose }: InviteModalProps) {
       <div className="bg-white p-6 rounded-lg shadow-lg max-w-md w-full border-2 border-black">
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-xl font-semibold text-black">Invite Players</h3>
-          <button 
+          <button
             className="text-gray-500 hover:text-black"
             onClick={onClose}
           >
             ✕
           </button>
         </div>
-        
+
         {!inviteCode ? (
-          <button
-            onClick={generateCode}
-            disabled={isLoading}
-            className="bg-black text-white px-4 py-2 rounded-lg w-full"
-          >
-            {isLoading ? 'Generating...' : 'Generate Invite Code'}
-          </button>
+          <div className="space-y-3">
+            <div className="flex gap-2 text-sm text-black">
+              <label className="flex-1">
+                <span className="block text-gray-600 mb-1">Expires after</span>
+                <select
+                  value={expiresInHours}
+                  onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                  className="w-full border border-gray-300 rounded px-2 py-1 bg-white"
+                >
+                  {INVITE_CODE_EXPIRY_HOURS.map((hours) => (
+                    <option key={hours} value={hours}>
+                      {formatExpiryOption(hours)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex-1">
+                <span className="block text-gray-600 mb-1">Uses</span>
+                <select
+                  value={maxUses ?? ''}
+                  onChange={(e) => setMaxUses(e.target.value ? Number(e.target.value) : null)}
+                  className="w-full border border-gray-300 rounded px-2 py-1 bg-white"
+                >
+                  {INVITE_CODE_MAX_USES.map((uses) => (
+                    <option key={uses ?? 'unlimited'} value={uses ?? ''}>
+                      {uses === null ? 'No limit' : uses === 1 ? '1 player' : `${uses} players`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <button
+              onClick={generateCode}
+              disabled={isLoading}
+              className="bg-black text-white px-4 py-2 rounded-lg w-full"
+            >
+              {isLoading ? 'Generating...' : 'Generate Invite Code'}
+            </button>
+          </div>
         ) : (
           <div className="space-y-4">
             <div>
@@ -89,7 +189,7 @@ export default function InviteModal({ lobbyId, onClose }: InviteModalProps) {
                 </button>
               </div>
             </div>
-            
+
             <div>
               <p className="text-sm text-gray-600 mb-1">Share Link:</p>
               <div className="flex items-center">
@@ -104,22 +204,52 @@ export default function InviteModal({ lobbyId, onClose }: InviteModalProps) {
                 </button>
               </div>
             </div>
-            
+
             {copyMessage && (
               <div className="bg-green-100 border border-green-400 text-green-700 p-2 rounded text-center text-sm">
                 {copyMessage}
               </div>
             )}
-            
+
             <button
-              onClick={generateCode}
+              onClick={() => setInviteCode(null)}
               className="text-sm text-blue-500 hover:text-blue-700 underline"
             >
               Generate New Code
             </button>
           </div>
         )}
-        
+
+        {activeCodes.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-200">
+            <p className="text-sm font-semibold text-black mb-2">Active Codes</p>
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+              {activeCodes.map((activeCode) => (
+                <li key={activeCode.id} className="text-sm text-black">
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono">{activeCode.code}</span>
+                    <span className="text-gray-600">
+                      {activeCode.useCount}
+                      {activeCode.maxUses !== null && `/${activeCode.maxUses}`} used · {formatTimeLeft(activeCode.expiresAt)}
+                    </span>
+                    <button
+                      onClick={() => revokeCode(activeCode.id)}
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                  {activeCode.redemptions.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Joined: {activeCode.redemptions.map((redemption) => redemption.username || 'Unknown player').join(', ')}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 p-2 rounded mt-2 text-sm">
             {error}
@@ -128,4 +258,4 @@ export default function InviteModal({ lobbyId, onClose }: InviteModalProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
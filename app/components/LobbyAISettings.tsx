@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import type { AIDifficulty } from '@/app/lib/games/ai';
+
+interface LobbyAISettingsProps {
+  lobbyId: string;
+  aiOpponent: boolean;
+  aiDifficulty: string | null;
+  difficulties: AIDifficulty[];
+  defaultDifficulty?: string;
+  // The AI can only be picked while nobody else is seated
+  canPlayAI: boolean;
+  onChange: () => void;
+}
+
+// Host-only choice between playing people and playing the computer
+export default function LobbyAISettings({
+  lobbyId,
+  aiOpponent,
+  aiDifficulty,
+  difficulties,
+  defaultDifficulty,
+  canPlayAI,
+  onChange,
+}: LobbyAISettingsProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateOpponent = async (enabled: boolean, difficulty?: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/lobbies/${lobbyId}/ai`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ enabled, difficulty }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update the opponent');
+
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the opponent');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedDifficulty = aiDifficulty ?? defaultDifficulty;
+
+  return (
+    <div className="mt-4 p-3 sm:p-4 border-2 border-black rounded-lg bg-gray-50">
+      <h3 className="text-base sm:text-lg font-bold mb-2">Opponent</h3>
+
+      <div className="flex flex-wrap gap-2 mb-2">
+        <button
+          onClick={() => updateOpponent(false)}
+          disabled={isSaving || !aiOpponent}
+          className={`px-3 py-1 rounded-md text-sm border-2 border-black transition-colors ${
+            !aiOpponent ? 'bg-black text-white' : 'bg-white hover:bg-gray-100 disabled:opacity-50'
+          }`}
+        >
+          Other players
+        </button>
+        <button
+          onClick={() => updateOpponent(true, selectedDifficulty)}
+          disabled={isSaving || aiOpponent || !canPlayAI}
+          title={canPlayAI ? undefined : 'Only possible while you are the only player seated'}
+          className={`px-3 py-1 rounded-md text-sm border-2 border-black transition-colors ${
+            aiOpponent ? 'bg-black text-white' : 'bg-white hover:bg-gray-100 disabled:opacity-50'
+          }`}
+        >
+          Computer
+        </button>
+      </div>
+
+      {aiOpponent && difficulties.length > 0 && (
+        <>
+          <p className="text-sm font-medium mt-3 mb-2">Difficulty</p>
+          <div className="flex flex-wrap gap-2">
+            {difficulties.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => updateOpponent(true, option.value)}
+                disabled={isSaving || option.value === selectedDifficulty}
+                title={option.description}
+                className={`px-3 py-1 rounded-md text-sm border-2 border-black transition-colors ${
+                  option.value === selectedDifficulty ? 'bg-black text-white' : 'bg-white hover:bg-gray-100 disabled:opacity-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs sm:text-sm mt-2 text-gray-600">
+            {difficulties.find((option) => option.value === selectedDifficulty)?.description}
+          </p>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { LOBBY_VISIBILITIES, MAX_LOBBY_PASSWORD_LENGTH, type LobbyVisibility } from '@/app/lib/games/lobby';
+
+interface LobbyAccessSettingsProps {
+  lobbyId: string;
+  visibility: LobbyVisibility;
+  hasPassword: boolean;
+  onChange: () => void;
+}
+
+interface LobbyInvite {
+  playerId: string;
+  username: string | null;
+}
+
+interface SearchUser {
+  id: string;
+  username: string;
+}
+
+// Host-only controls for who can find and join the lobby
+export default function LobbyAccessSettings({ lobbyId, visibility, hasPassword, onChange }: LobbyAccessSettingsProps) {
+  const [password, setPassword] = useState('');
+  const [invites, setInvites] = useState<LobbyInvite[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchUser[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/lobbies/${lobbyId}/invites`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load invites');
+
+      setInvites(data.invites);
+    } catch (err) {
+      console.error('Error loading invites:', err);
+    }
+  }, [lobbyId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/users/search?q=${encodeURIComponent(query.trim())}&limit=5`);
+        const data = await response.json();
+        if (response.ok) setResults(data.users || []);
+      } catch (err) {
+        console.error('Error searching users:', err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const send = async (url: string, method: string, body: object, fallbackError: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || fallbackError);
+
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateAccess = async (body: { visibility?: LobbyVisibility; password?: string | null }) => {
+    if (await send(`/api/lobbies/${lobbyId}/access`, 'POST', body, 'Failed to update the lobby')) {
+      setPassword('');
+      onChange();
+    }
+  };
+
+  const invitePlayer = async (playerId: string) => {
+    if (await send(`/api/lobbies/${lobbyId}/invites`, 'POST', { playerId }, 'Failed to invite player')) {
+      setQuery('');
+      setResults([]);
+      loadInvites();
+    }
+  };
+
+  const removeInvite = async (playerId: string) => {
+    if (await send(`/api/lobbies/${lobbyId}/invites`, 'DELETE', { playerId }, 'Failed to remove invite')) {
+      loadInvites();
+    }
+  };
+
+  return (
+    <div className="mt-4 p-3 sm:p-4 border-2 border-black rounded-lg bg-gray-50">
+      <h3 className="text-base sm:text-lg font-bold mb-2">Who Can Join</h3>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {LOBBY_VISIBILITIES.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => updateAccess({ visibility: option.value })}
+            disabled={isSaving || option.value === visibility}
+            title={option.description}
+            className={`px-3 py-1 rounded-md text-sm border-2 border-black transition-colors ${
+              option.value === visibility ? 'bg-black text-white' : 'bg-white hover:bg-gray-100 disabled:opacity-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs sm:text-sm mb-4 text-gray-600">
+        {LOBBY_VISIBILITIES.find((option) => option.value === visibility)?.description}
+      </p>
+
+      {visibility !== 'private' && (
+        <div className="mb-4">
+          <p className="text-sm font-medium mb-2">{hasPassword ? 'A password is needed to join' : 'No password'}</p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              maxLength={MAX_LOBBY_PASSWORD_LENGTH}
+              placeholder={hasPassword ? 'New password' : 'Set a password'}
+              className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-1 text-sm bg-white"
+            />
+            <button
+              onClick={() => updateAccess({ password })}
+              disabled={isSaving || !password}
+              className="bg-black text-white px-3 py-1 rounded-md text-sm disabled:opacity-50"
+            >
+              Save
+            </button>
+            {hasPassword && (
+              <button
+                onClick={() => updateAccess({ password: null })}
+                disabled={isSaving}
+                className="px-3 py-1 rounded-md text-sm border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className="text-sm font-medium mb-2">Invited players</p>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by username"
+          className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm bg-white"
+        />
+        {results.length > 0 && (
+          <ul className="mt-1 border border-gray-300 rounded-md bg-white divide-y">
+            {results.map((user) => (
+              <li key={user.id}>
+                <button
+                  onClick={() => invitePlayer(user.id)}
+                  disabled={isSaving}
+                  className="w-full text-left px-2 py-1 text-sm hover:bg-gray-100 disabled:opacity-50"
+                >
+                  {user.username}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {invites.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {invites.map((invite) => (
+              <li key={invite.playerId} className="flex justify-between items-center text-sm">
+                <span>{invite.username || 'Unknown player'}</span>
+                <button
+                  onClick={() => removeInvite(invite.playerId)}
+                  disabled={isSaving}
+                  className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
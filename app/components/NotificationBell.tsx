@@ -0,0 +1,168 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { FaBell } from 'react-icons/fa';
+import { useOnlinePresence } from '../contexts/PresenceContext';
+import type { Notification } from '../lib/notifications';
+
+const POLLING_INTERVAL = 30000;
+
+// Bell with the signed in player's notifications, shown on every page. It sits
+// bottom left, the top right corner belongs to game badges and challenge toasts.
+export default function NotificationBell() {
+  const router = useRouter();
+  const { userId } = useOnlinePresence();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const bellRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setNotifications(data.notifications || []);
+      setUnreadCount(data.unreadCount || 0);
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    const supabase = createClientComponentClient();
+    loadNotifications();
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `player_id=eq.${userId}` },
+        () => loadNotifications()
+      )
+      .subscribe();
+
+    const interval = setInterval(loadNotifications, POLLING_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, loadNotifications]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    function handleClickOutside(event: MouseEvent) {
+      if (bellRef.current && !bellRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const markRead = async (ids?: string[]) => {
+    const now = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((item) => (!item.read_at && (!ids || ids.includes(item.id)) ? { ...item, read_at: now } : item))
+    );
+    setUnreadCount((count) => (ids ? Math.max(0, count - ids.length) : 0));
+
+    try {
+      await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+      loadNotifications();
+    }
+  };
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    if (notification.link) {
+      setIsOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  if (!userId) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 text-black font-[family-name:var(--font-geist-sans)]" ref={bellRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative bg-white border-2 border-black rounded-full p-2 hover:bg-gray-100 transition-colors"
+        aria-label="Notifications"
+      >
+        <FaBell />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 w-80 bg-white border-2 border-black rounded-lg shadow-lg">
+          <div className="flex justify-between items-center px-4 py-2 border-b border-gray-200">
+            <h3 className="font-semibold">Notifications</h3>
+            {unreadCount > 0 && (
+              <button onClick={() => markRead()} className="text-xs text-gray-600 hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">Nothing here yet.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => openNotification(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.read_at ? '' : 'bg-blue-50'}`}
+                  >
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    {notification.body && <p className="text-xs text-gray-600">{notification.body}</p>}
+                    <p className="text-xs text-gray-400 mt-1">{new Date(notification.created_at).toLocaleString()}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="px-4 py-2 border-t border-gray-200 text-right">
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                router.push('/settings');
+              }}
+              className="text-xs text-gray-600 hover:underline"
+            >
+              Notification settings
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,9 +8,21 @@ import type { User } from "@supabase/auth-helpers-nextjs"
 import type { UserProfile } from "@/app/types/supabase"
 import Link from "next/link"
 import { useSearchParams } from "next/navigation"
+import { getGameById } from "@/app/lib/games/registry"
+import ChallengeModal from "@/comps/ChallengeModal"
 
 const supabase = createClientComponentClient()
 
+const RECENT_GAMES_LIMIT = 10
+
+interface FinishedGame {
+  id: string
+  gameId: number | null
+  winner: string | null
+  isDraw: boolean
+  endedAt: string | null
+}
+
 export default function ProfileContent() {
   const searchParams = useSearchParams()
   const userId = searchParams.get('userId')
@@ -28,6 +40,8 @@ export default function ProfileContent() {
   })
   const [stats, setStats] = useState<{ games_played: number; wins: number } | null>(null)
   const [totalHours, setTotalHours] = useState<number>(0)
+  const [finishedGames, setFinishedGames] = useState<FinishedGame[]>([])
+  const [showChallenge, setShowChallenge] = useState(false)
 
   // Check for user session
   useEffect(() => {
@@ -149,6 +163,47 @@ export default function ProfileContent() {
     fetchTotalHours()
   }, [profile?.id])
 
+  // Fetch the most recent finished games, which link to their replays
+  useEffect(() => {
+    const fetchFinishedGames = async () => {
+      if (!profile?.id) return
+      try {
+        const { data, error } = await supabase
+          .from("game_states")
+          .select("id, winner, is_draw, ended_at, lobbies(game_id)")
+          .eq("status", "finished")
+          .or(`player1.eq.${profile.id},player2.eq.${profile.id}`)
+          .order("ended_at", { ascending: false })
+          .limit(RECENT_GAMES_LIMIT)
+
+        if (error) throw error
+
+        setFinishedGames(
+          (data || []).map((game) => {
+            const lobby = Array.isArray(game.lobbies) ? game.lobbies[0] : game.lobbies
+            return {
+              id: game.id,
+              gameId: lobby?.game_id ?? null,
+              winner: game.winner,
+              isDraw: !!game.is_draw,
+              endedAt: game.ended_at,
+            }
+          }),
+        )
+      } catch (error) {
+        console.error("Error fetching finished games:", error)
+      }
+    }
+
+    fetchFinishedGames()
+  }, [profile?.id])
+
+  const getResult = (game: FinishedGame) => {
+    if (game.isDraw) return "Draw"
+    if (!game.winner) return "Finished"
+    return game.winner === profile?.id ? "Won" : "Lost"
+  }
+
   const handleSave = async () => {
     if (!user) return
     setIsSaving(true)
@@ -301,6 +356,15 @@ export default function ProfileContent() {
                       </>
                     )}
                   </motion.button>
+                ) : user && profile ? (
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setShowChallenge(true)}
+                    className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded-lg"
+                  >
+                    <FaGamepad /> Challenge
+                  </motion.button>
                 ) : null}
               </div>
 
@@ -399,12 +463,47 @@ export default function ProfileContent() {
                       <p className="text-black">{profile?.favorite_game || "No favorite game set"}</p>
                     )}
                   </div>
+
+                  <div className="bg-gray-100 p-4 rounded-lg mt-6">
+                    <h3 className="text-lg font-bold text-black mb-2">Recent Games</h3>
+                    {finishedGames.length === 0 ? (
+                      <p className="text-black">No finished games yet</p>
+                    ) : (
+                      <ul className="divide-y divide-gray-300">
+                        {finishedGames.map((game) => {
+                          const definition = getGameById(game.gameId)
+
+                          return (
+                            <li key={game.id} className="flex justify-between items-center py-2">
+                              <div>
+                                <p className="text-black font-medium">{definition?.title || "Unknown game"}</p>
+                                <p className="text-xs text-gray-600">
+                                  {getResult(game)}
+                                  {game.endedAt ? ` · ${new Date(game.endedAt).toLocaleDateString()}` : ""}
+                                </p>
+                              </div>
+                              {definition?.rules?.replay && (
+                                <Link href={`/replay/${game.id}`} className="text-sm text-black underline">
+                                  Watch replay
+                                </Link>
+                              )}
+                            </li>
+                          )
+                        })}
+                      </ul>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
           </motion.div>
         </main>
       </div>
+
+      <ChallengeModal
+        player={showChallenge && profile ? { id: profile.id, username: profile.username } : null}
+        onClose={() => setShowChallenge(false)}
+      />
     </div>
   )
 }
@@ -0,0 +1,206 @@
+'use client';
+
+import type React from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '../types/supabase';
+import { MAX_MESSAGE_LENGTH, ROOM_MESSAGE_LIMIT } from '../lib/chat';
+
+type Message = Database['public']['Tables']['messages']['Row'];
+
+interface RoomChatProps {
+  roomId: string;
+  title: string;
+  userId: string | null;
+}
+
+// Chat for a single lobby or game room, the database decides who gets to read
+// and post in it
+export default function RoomChat({ roomId, title, userId }: RoomChatProps) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [newMessage, setNewMessage] = useState('');
+  const [reportedIds, setReportedIds] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const loadMessages = useCallback(async () => {
+    const supabase = createClientComponentClient();
+
+    const { data, error: loadError } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false })
+      .limit(ROOM_MESSAGE_LIMIT);
+
+    if (loadError) {
+      console.error('Error fetching room messages:', loadError);
+      return;
+    }
+
+    setMessages((data || []).reverse());
+  }, [roomId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const supabase = createClientComponentClient();
+    loadMessages();
+
+    const channel = supabase
+      .channel(`room:${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `room_id=eq.${roomId}` },
+        (payload: { new: Message }) => {
+          setMessages((current) =>
+            current.some((message) => message.id === payload.new.id) ? current : [...current, payload.new]
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `room_id=eq.${roomId}` },
+        (payload: { new: Message }) => {
+          setMessages((current) => current.map((message) => (message.id === payload.new.id ? payload.new : message)));
+        }
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages' }, (payload: { old: Partial<Message> }) => {
+        setMessages((current) => current.filter((message) => message.id !== payload.old.id));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, userId, loadMessages]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMessage.trim() || !userId) return;
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/chat/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ roomId, message: newMessage }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to send message');
+
+      setNewMessage('');
+      setMessages((current) =>
+        current.some((message) => message.id === data.message.id) ? current : [...current, data.message]
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const reportMessage = async (messageId: string) => {
+    try {
+      const response = await fetch('/api/chat/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to report message');
+
+      setReportedIds((current) => [...current, messageId]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to report message');
+    }
+  };
+
+  const deleteMessage = async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/chat/messages/${messageId}`, { method: 'DELETE' });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to delete message');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete message');
+    }
+  };
+
+  if (!userId) return null;
+
+  return (
+    <div className="border-2 border-black rounded-lg bg-white text-black">
+      <h3 className="font-semibold px-4 py-2 border-b border-gray-200">{title}</h3>
+
+      <div className="h-48 overflow-y-auto px-4 py-2 space-y-2">
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center mt-6">No messages yet. Say hi!</p>
+        ) : (
+          messages.map((message) => (
+            <div key={message.id} className="text-sm">
+              <span className={`font-semibold ${message.user_id === userId ? 'text-blue-600' : ''}`}>
+                {message.username}
+              </span>
+              <span className="text-xs text-gray-400 ml-2">
+                {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {message.edited_at && !message.deleted_at && ' (edited)'}
+              </span>
+              {message.user_id === userId && !message.deleted_at && (
+                <button onClick={() => deleteMessage(message.id)} className="text-xs text-gray-400 ml-2 hover:underline">
+                  Delete
+                </button>
+              )}
+              {message.user_id !== userId && !message.deleted_at &&
+                (reportedIds.includes(message.id) ? (
+                  <span className="text-xs text-gray-400 ml-2">Reported</span>
+                ) : (
+                  <button onClick={() => reportMessage(message.id)} className="text-xs text-gray-400 ml-2 hover:underline">
+                    Report
+                  </button>
+                ))}
+              {message.deleted_at ? (
+                <p className="italic text-gray-400">Message deleted</p>
+              ) : (
+                <p className="break-words">{message.message}</p>
+              )}
+            </div>
+          ))
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 p-2 border-t border-gray-200">
+        <input
+          type="text"
+          value={newMessage}
+          onChange={(e) => setNewMessage(e.target.value)}
+          placeholder="Type a message..."
+          maxLength={MAX_MESSAGE_LENGTH}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!newMessage.trim() || isSending}
+          className="px-4 py-2 bg-black text-white rounded-md text-sm disabled:opacity-50"
+        >
+          Send
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-600 px-4 pb-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+interface AIOpponentProps {
+  // The board's live game_states row, a new object whenever it is refetched
+  gameState: {
+    status: string
+    current_player: string
+    player2: string | null
+    ai_opponent?: boolean | null
+  }
+  // Asks the server to play the AI's turn, the server picks the move
+  onMove: () => Promise<void>
+}
+
+// Takes the AI's turns for games on game_states. It has to sit inside the game
+// component, which keeps its state up to date, rather than on the game page.
+export default function AIOpponent({ gameState, onMove }: AIOpponentProps) {
+  const [isAIThinking, setIsAIThinking] = useState(false)
+  const onMoveRef = useRef(onMove)
+
+  useEffect(() => {
+    onMoveRef.current = onMove
+  })
+
+  // Runs again for every new state, so a move that failed is retried on the next poll
+  useEffect(() => {
+    if (!gameState.ai_opponent || gameState.status !== "playing") return
+    if (gameState.current_player !== gameState.player2) return
+
+    let isActive = true
+    setIsAIThinking(true)
+
+    const timeout = setTimeout(async () => {
+      try {
+        await onMoveRef.current()
+      } catch (err: unknown) {
+        console.error("Error in AI move:", err)
+      } finally {
+        if (isActive) setIsAIThinking(false)
+      }
+    }, Math.random() * 1000 + 500)
+
+    return () => {
+      isActive = false
+      clearTimeout(timeout)
+      setIsAIThinking(false)
+    }
+  }, [gameState])
+
+  if (!isAIThinking) return null
+
+  return <div className="mb-4 text-sm text-gray-600 animate-pulse">Computer is thinking...</div>
+}
@@ -8,7 +8,10 @@ import { useState, useCallback, useEffect, useRef } from "react"
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import GameLoading from "./game-loading"
 import GameError from "./game-error"
+import RematchPanel from "./rematch-panel"
 import type { RealtimeChannel } from "@supabase/supabase-js"
+import { getSeatedPlayers, type GameMove } from "@/app/lib/games/engine"
+import { PUMPS_PER_TURN } from "@/app/lib/games/balloon"
 
 interface Profile {
   id: string
@@ -24,11 +27,13 @@ interface GameState {
   current_player: string
   remaining_pumps: number
   turn_timer: number
-  pop_threshold: number
   status: 'waiting' | 'playing' | 'waiting_turn' | 'finished'
   winner: string | null
   player1: string
   player2: string | null
+  // Turn order when more than two players are seated
+  players: string[] | null
+  eliminated: string[] | null
   created_at: string
 }
 
@@ -47,6 +52,35 @@ interface MatchHistory {
   created_at: string
 }
 
+// Moves are validated and applied by the server
+async function sendMove(gameStateId: string, move: GameMove): Promise<GameState> {
+  const response = await fetch(`/api/games/${gameStateId}/move`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ game: "balloon", move })
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to make move")
+  }
+
+  return data.state
+}
+
+// The game without its pop threshold, null if the server could not load it
+async function fetchBalloonGame(gameStateId: string): Promise<GameState | null> {
+  const response = await fetch(`/api/balloon/${gameStateId}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    console.error("Error fetching balloon game:", data.error)
+    return null
+  }
+
+  return data
+}
+
 interface BalloonGameProps {
   lobbyId: string
   currentUser: User | null
@@ -105,13 +139,14 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
               table: "balloon_game_states", 
               filter: `id=eq.${gameId}`
             },
-            async payload => {
+            async () => {
               if (!isActive) return
-              console.log('Received game state update:', payload)
-              const newState = payload.new as GameState
+              // The pop threshold is not readable from the table, so refetch through the server
+              const newState = await fetchBalloonGame(gameId)
+              if (!isActive || !newState) return
               setGameState(newState)
 
-              const updatedPlayerIds = [newState.player1, newState.player2].filter(Boolean)
+              const updatedPlayerIds = getSeatedPlayers(newState)
               if (updatedPlayerIds.length > 0) {
                 const { data: updatedProfiles } = await retryRequest(async () =>
                   supabase
@@ -142,13 +177,7 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
       if (!gameStateIdRef.current || !isActive) return
 
       try {
-        const { data, error } = await supabase
-          .from("balloon_game_states")
-          .select("*")
-          .eq("id", gameStateIdRef.current)
-          .single()
-
-        if (error) throw error
+        const data = await fetchBalloonGame(gameStateIdRef.current)
         if (isActive && data) {
           setGameState(data)
         }
@@ -164,97 +193,16 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
           return
         }
 
-        // Check if game state exists - with retry
-        const { data: freshGameState, error: gameStateError } = await retryRequest(async () => 
-          supabase
-            .from("balloon_game_states")
-            .select("*")
-            .eq("lobby_id", lobbyId)
-            .single()
-        )
-
-        if (gameStateError && gameStateError.code !== "PGRST116") {
-          throw gameStateError
-        }
-
-        let gameStateData = freshGameState
-
-        // Initialize new game state if none exists
-        if (!gameStateData) {
-          console.log('Creating new game state...')
-          try {
-            const { data: newGameState, error: createError } = await retryRequest(async () =>
-              supabase
-                .from("balloon_game_states")
-                .insert({
-                  lobby_id: lobbyId,
-                  player1: currentUser.id,
-                  current_player: currentUser.id,
-                  pop_threshold: Math.floor(Math.random() * 100) + 50,
-                  size: 24,
-                  score: 0,
-                  is_popped: false,
-                  remaining_pumps: 3,
-                  turn_timer: 10,
-                  status: "waiting"
-                })
-                .select()
-                .single()
-            )
+        // The server creates the board, picks the pop threshold and seats the lobby's players
+        const response = await fetch("/api/balloon", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ lobbyId }),
+        })
 
-            if (createError) {
-              if (createError.code === '23505') { // Unique violation
-                console.log('Game already exists, fetching existing game...')
-                const { data: existingGame, error: fetchError } = await retryRequest(async () =>
-                  supabase
-                    .from("balloon_game_states")
-                    .select("*")
-                    .eq("lobby_id", lobbyId)
-                    .single()
-                )
-                if (fetchError) throw fetchError
-                gameStateData = existingGame
-              } else {
-                console.error('Error creating game:', createError)
-                throw createError
-              }
-            } else {
-              console.log('Created new game state:', newGameState)
-              gameStateData = newGameState
-            }
-          } catch (err) {
-            console.error('Error in game creation/fetch:', err)
-            throw err
-          }
-        }
-        // Join as player 2 if possible
-        else if (!gameStateData.player2 && gameStateData.player1 !== currentUser.id) {
-          console.log('Joining as player 2...')
-          const { data: updatedState, error: joinError } = await retryRequest(async () =>
-            supabase.rpc("join_balloon_game", {
-              p_game_state_id: gameStateData.id,
-              p_player2: currentUser.id
-            })
-          )
-
-          if (joinError) {
-            const { data: latestState, error: fetchError } = await supabase
-              .from("balloon_game_states")
-              .select("*")
-              .eq("id", gameStateData.id)
-              .single()
-
-            if (fetchError) throw fetchError
-
-            if (latestState.player2 === currentUser.id) {
-              gameStateData = latestState
-            } else {
-              throw joinError
-            }
-          } else {
-            console.log('Joined game as player 2:', updatedState)
-            gameStateData = updatedState
-          }
+        const gameStateData = await response.json()
+        if (!response.ok) {
+          throw new Error(gameStateData.error || "Failed to load game")
         }
 
         if (isActive) {
@@ -265,7 +213,7 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
         }
 
         // Get plr profiles
-        const playerIds = [gameStateData.player1, gameStateData.player2].filter(Boolean)
+        const playerIds = getSeatedPlayers(gameStateData)
         if (playerIds.length > 0) {
           console.log('Fetching player profiles...')
           const { data: profiles, error: profileError } = await retryRequest(async () =>
@@ -357,34 +305,10 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
     if (!gameState || !currentUser || gameState.is_popped || gameState.current_player !== currentUser.id) return
 
     try {
-      const { data, error } = await supabase.rpc("pump_balloon", {
-        game_state_id: gameState.id
-      })
-
-      if (error) throw error
+      const data = await sendMove(gameState.id, { type: "pump" })
 
       if (data) {
         setGameState(data)
-        
-        // Record the win-
-        if (data.is_popped) {
-          const winnerId = data.player1 === currentUser.id ? data.player2 : data.player1
-          try {
-            const response = await fetch('/api/record-win', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                gameStateId: data.id,
-                winnerId
-              })
-            })
-            if (!response.ok) {
-              throw new Error('Failed to record win')
-            }
-          } catch (err) {
-            console.error('Error recording win:', err)
-          }
-        }
       }
 
       if (data?.is_popped && data.score > highScore) {
@@ -393,56 +317,32 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
     } catch (err) {
       console.error("Error pumping balloon:", err)
     }
-  }, [gameState, currentUser, highScore, supabase])
+  }, [gameState, currentUser, highScore])
 
   const handleEndTurn = useCallback(async () => {
     if (!gameState || !currentUser || gameState.current_player !== currentUser.id) return
 
     try {
-      const nextPlayer = gameState.player1 === currentUser.id ? gameState.player2! : gameState.player1
-      
-      setGameState({
-        ...gameState,
-        current_player: nextPlayer,
-        remaining_pumps: 3,
-        status: "playing" as const
-      })
-
-      const { error } = await supabase
-        .from("balloon_game_states")
-        .update({
-          current_player: nextPlayer,
-          remaining_pumps: 3,
-          status: "playing"
-        })
-        .eq("id", gameState.id)
-
-      if (error) {
-        setGameState(gameState)
-        throw error
-      }
+      const data = await sendMove(gameState.id, { type: "end_turn" })
+      setGameState(data)
     } catch (err) {
       console.error("Error ending turn:", err)
     }
-  }, [gameState, currentUser, supabase])
+  }, [gameState, currentUser])
 
   const handleManualRefresh = useCallback(async () => {
+    if (!gameStateIdRef.current) return
+
     setIsRefreshing(true)
     try {
-      const { data, error } = await supabase
-        .from("balloon_game_states")
-        .select("*")
-        .eq("id", gameStateIdRef.current)
-        .single()
-
-      if (error) throw error
-      setGameState(data)
+      const data = await fetchBalloonGame(gameStateIdRef.current)
+      if (data) setGameState(data)
     } catch (err) {
       console.error("Error refreshing game state:", err)
     } finally {
       setIsRefreshing(false)
     }
-  }, [supabase])
+  }, [])
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -466,6 +366,7 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
   if (error || !gameState) return <GameError error={error || "Game not found"} />
 
   const isMyTurn = gameState.current_player === currentUser?.id
+  const seatedPlayers = getSeatedPlayers(gameState)
 
   return (
     <div className="bg-white min-h-screen p-4 md:p-8 font-[family-name:var(--font-geist-sans)]">
@@ -511,39 +412,35 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
           </div>
         </div>
 
-        <div className="grid grid-cols-2 gap-4 mb-6">
-          <div
-            className={`p-3 rounded-lg border-2 transition-all duration-300 ${
-              gameState.current_player === gameState.player1 && !gameState.is_popped
-                ? "border-black shadow-md scale-105"
-                : "border-gray-200"
-            }`}
-          >
-            <div className="flex items-center">
-              <div>
-                <p className="font-bold">{getPlayerName(gameState.player1)}</p>
-                <p className="text-xs text-gray-500">{gameState.player1 === currentUser?.id ? "(You)" : ""}</p>
-              </div>
-            </div>
-          </div>
-          <div
-            className={`p-3 rounded-lg border-2 transition-all duration-300 ${
-              gameState.current_player === gameState.player2 && !gameState.is_popped
-                ? "border-black shadow-md scale-105"
-                : "border-gray-200"
-            }`}
-          >
-            <div className="flex items-center">
-              <div>
-                <p className="font-bold">
-                  {gameState.player2 ? getPlayerName(gameState.player2) : "Waiting for opponent..."}
-                </p>
-                {gameState.player2 && (
-                  <p className="text-xs text-gray-500">{gameState.player2 === currentUser?.id ? "(You)" : ""}</p>
-                )}
+        <div className={`grid gap-4 mb-6 ${seatedPlayers.length > 2 ? "grid-cols-2 md:grid-cols-4" : "grid-cols-2"}`}>
+          {seatedPlayers.map((playerId) => {
+            const isOut = !!gameState.eliminated?.includes(playerId)
+
+            return (
+              <div
+                key={playerId}
+                className={`p-3 rounded-lg border-2 transition-all duration-300 ${
+                  gameState.current_player === playerId && !gameState.is_popped
+                    ? "border-black shadow-md scale-105"
+                    : "border-gray-200"
+                } ${isOut ? "opacity-50" : ""}`}
+              >
+                <div className="flex items-center">
+                  <div>
+                    <p className="font-bold">{getPlayerName(playerId)}</p>
+                    <p className="text-xs text-gray-500">
+                      {isOut ? "Popped a balloon" : playerId === currentUser?.id ? "(You)" : ""}
+                    </p>
+                  </div>
+                </div>
               </div>
+            )
+          })}
+          {!gameState.player2 && (
+            <div className="p-3 rounded-lg border-2 border-gray-200">
+              <p className="font-bold">Waiting for opponent...</p>
             </div>
-          </div>
+          )}
         </div>
 
         <div className="flex flex-col items-center justify-center space-y-8">
@@ -591,7 +488,13 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
             {isMyTurn && !gameState.is_popped && gameState.status === "playing" && gameState.player2 && (
               <button
                 onClick={handleEndTurn}
-                className="px-6 py-3 rounded-lg text-white font-bold bg-blue-500 hover:bg-blue-600"
+                disabled={gameState.remaining_pumps >= PUMPS_PER_TURN}
+                title={gameState.remaining_pumps >= PUMPS_PER_TURN ? "Pump at least once before ending your turn" : undefined}
+                className={`px-6 py-3 rounded-lg text-white font-bold ${
+                  gameState.remaining_pumps >= PUMPS_PER_TURN
+                    ? "bg-gray-400 cursor-not-allowed"
+                    : "bg-blue-500 hover:bg-blue-600"
+                }`}
               >
                 End Turn
               </button>
@@ -608,6 +511,10 @@ export default function BalloonGame({ lobbyId, currentUser }: BalloonGameProps)
             </div>
           )}
 
+          {gameState.status === "finished" && (
+            <RematchPanel lobbyId={lobbyId} currentUserId={currentUser?.id} getPlayerName={getPlayerName} />
+          )}
+
           {!gameState.player2 && (
             <div className="text-center">
               <p className="text-lg font-bold text-gray-600">
@@ -0,0 +1,100 @@
+"use client"
+
+import { HIT, MISS, SHIP, SUNK, type Board } from "@/app/lib/games/battleship"
+import type { ReplayBoardProps } from "@/app/lib/games/components"
+
+interface BattleshipBoardProps {
+  board: Board
+  keyPrefix: string
+  // Color of untouched water, e.g. "bg-blue-200" for your own fleet
+  emptyClassName: string
+  // Fill for intact ship cells, undefined leaves them uncolored
+  getShipColor?: (row: number, col: number) => string | undefined
+  // Replaces the cell color, e.g. while previewing a ship placement
+  getHighlightClassName?: (row: number, col: number) => string | null
+  getCellClassName?: (row: number, col: number) => string
+  hitAnimation?: { row: number; col: number; isHit: boolean } | null
+  onCellClick?: (row: number, col: number) => void
+  onCellHover?: (row: number, col: number) => void
+}
+
+function getCellColorClassName(cell: number, emptyClassName: string) {
+  if (cell === SHIP) return "bg-opacity-90"
+  if (cell === HIT) return "bg-red-500"
+  if (cell === SUNK) return "bg-red-800"
+  if (cell === MISS) return "bg-gray-300"
+  return emptyClassName
+}
+
+export default function BattleshipBoard({
+  board,
+  keyPrefix,
+  emptyClassName,
+  getShipColor,
+  getHighlightClassName,
+  getCellClassName,
+  hitAnimation = null,
+  onCellClick,
+  onCellHover,
+}: BattleshipBoardProps) {
+  return (
+    <div className="grid grid-cols-10 gap-1">
+      {board.map((row, rowIndex) =>
+        row.map((cell, colIndex) => (
+          <div
+            key={`${keyPrefix}-${rowIndex}-${colIndex}`}
+            className={`aspect-square rounded-sm flex items-center justify-center ${
+              getCellClassName?.(rowIndex, colIndex) ?? ""
+            } ${
+              getHighlightClassName?.(rowIndex, colIndex) ?? getCellColorClassName(cell, emptyClassName)
+            } ${
+              hitAnimation && hitAnimation.row === rowIndex && hitAnimation.col === colIndex
+                ? hitAnimation.isHit
+                  ? "animate-hit"
+                  : "animate-miss"
+                : ""
+            }`}
+            onClick={() => onCellClick?.(rowIndex, colIndex)}
+            onMouseEnter={() => onCellHover?.(rowIndex, colIndex)}
+            style={{
+              backgroundColor: cell === SHIP ? getShipColor?.(rowIndex, colIndex) : undefined,
+            }}
+          >
+            {(cell === HIT || cell === SUNK) && <div className="w-2 h-2 bg-white rounded-full"></div>}
+            {cell === MISS && <div className="w-2 h-2 bg-gray-500 rounded-full"></div>}
+          </div>
+        )),
+      )}
+    </div>
+  )
+}
+
+// Both fleets side by side, each showing the shots fired at it
+export function BattleshipReplayBoard({ position, player1, player2, getPlayerName }: ReplayBoardProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+      <div>
+        <h3 className="text-lg font-bold mb-2">{getPlayerName(player1)}&apos;s Fleet</h3>
+        <div className="bg-blue-100 p-2 rounded-lg">
+          <BattleshipBoard
+            board={position.player1_board as Board}
+            keyPrefix="player1"
+            emptyClassName="bg-blue-200"
+            getShipColor={() => "#4B5563"}
+          />
+        </div>
+      </div>
+      <div>
+        <h3 className="text-lg font-bold mb-2">{getPlayerName(player2)}&apos;s Fleet</h3>
+        <div className="bg-red-100 p-2 rounded-lg">
+          <BattleshipBoard
+            board={position.player2_board as Board}
+            keyPrefix="player2"
+            emptyClassName="bg-red-200"
+            getShipColor={() => "#4B5563"}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
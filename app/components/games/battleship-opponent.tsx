@@ -0,0 +1,56 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { BattleshipPlayerView } from "@/app/lib/games/battleship"
+import { BATTLESHIP_DIFFICULTIES } from "@/app/lib/games/battleship-bot"
+
+interface BattleshipAIOpponentProps {
+  gameState: BattleshipPlayerView
+  // Asks the server to fire the AI's shot, the server picks the cell
+  onMove: () => Promise<void>
+}
+
+// Battleship's version of AIOpponent, its turns live in battleship_game_states
+// and its running status is "in_progress"
+export default function BattleshipAIOpponent({ gameState, onMove }: BattleshipAIOpponentProps) {
+  const [isAIThinking, setIsAIThinking] = useState(false)
+  const onMoveRef = useRef(onMove)
+
+  useEffect(() => {
+    onMoveRef.current = onMove
+  })
+
+  // Runs again for every new view, so a shot that failed is retried on the next poll
+  useEffect(() => {
+    if (!gameState.ai_opponent || gameState.status !== "in_progress") return
+    if (gameState.current_player !== gameState.player2) return
+
+    let isActive = true
+    setIsAIThinking(true)
+
+    const timeout = setTimeout(async () => {
+      try {
+        await onMoveRef.current()
+      } catch (err: unknown) {
+        console.error("Error in AI shot:", err)
+      } finally {
+        if (isActive) setIsAIThinking(false)
+      }
+    }, Math.random() * 1000 + 500)
+
+    return () => {
+      isActive = false
+      clearTimeout(timeout)
+      setIsAIThinking(false)
+    }
+  }, [gameState])
+
+  const difficulty = BATTLESHIP_DIFFICULTIES.find((option) => option.value === gameState.ai_difficulty)
+
+  return (
+    <div className="mb-4 flex justify-between items-center text-sm text-gray-600">
+      <span>Playing the computer{difficulty ? ` on ${difficulty.label}` : ""}</span>
+      {isAIThinking && <span className="animate-pulse">Computer is aiming...</span>}
+    </div>
+  )
+}
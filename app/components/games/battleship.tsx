@@ -6,46 +6,27 @@ import { useRouter } from "next/navigation"
 import { FaArrowLeft, FaRedo, FaSync, FaRandom, FaCheck, FaVolumeUp, FaVolumeMute } from "react-icons/fa"
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import type { User, RealtimeChannel } from "@supabase/supabase-js"
+import {
+  BOARD_SIZE,
+  EMPTY,
+  SHIP,
+  HIT,
+  SUNK,
+  SHIPS,
+  canPlaceShip,
+  type BattleshipPlayerView,
+} from "@/app/lib/games/battleship"
+import BattleshipBoard from "./battleship-board"
+import BattleshipAIOpponent from "./battleship-opponent"
+import TurnTimer from "./turn-timer"
+import RematchPanel from "./rematch-panel"
 
 interface BattleshipGameProps {
   lobbyId: string
   currentUser: User | null
 }
 
-// Game constants
-const BOARD_SIZE = 10
-const EMPTY = 0
-const SHIP = 1
-const MISS = 2
-const HIT = 3
-const SUNK = 4
-
-// Ship types and sizes
-const SHIPS = [
-  { name: "Carrier", size: 5, color: "#6366F1" },
-  { name: "Battleship", size: 4, color: "#8B5CF6" },
-  { name: "Cruiser", size: 3, color: "#EC4899" },
-  { name: "Submarine", size: 3, color: "#F43F5E" },
-  { name: "Destroyer", size: 2, color: "#F97316" },
-]
-
-interface GameState {
-  id: string
-  lobby_id: string
-  player1: string
-  player2: string
-  player1_board: number[][]
-  player2_board: number[][]
-  player1_shots: number[][]
-  player2_shots: number[][]
-  player1_ready: boolean
-  player2_ready: boolean
-  current_player: string
-  status: "setup" | "in_progress" | "finished"
-  winner: string | null
-  created_at?: string
-  last_updated?: string
-}
+type GameState = BattleshipPlayerView
 
 interface Profile {
   id: string
@@ -176,6 +157,7 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
   // Polling interval
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const gameStateIdRef = useRef<string | null>(null)
+  const lastStatusRef = useRef<GameState["status"] | null>(null)
 
   // Initialize audio elements
   useEffect(() => {
@@ -238,173 +220,25 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
           return
         }
 
-        // Check if game state exists for this lobby
-        const { data: existingGameState, error: existingGameError } = await supabase
-          .from("battleship_game_states")
-          .select("*")
-          .eq("lobby_id", lobbyId)
-          .single()
-
-        if (existingGameError && existingGameError.code !== "PGRST116") {
-          throw existingGameError
+        // The server creates or joins the game and only returns our own fleet
+        const response = await fetch("/api/battleship", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ lobbyId }),
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || "Failed to load game")
         }
 
-        let gameStateData: GameState
-
-        if (!existingGameState) {
-          // Create new game state
-          const { data: newGameState, error: newGameError } = await supabase
-            .from("battleship_game_states")
-            .insert({
-              lobby_id: lobbyId,
-              player1: currentUser.id,
-              player1_board: Array(BOARD_SIZE).fill(Array(BOARD_SIZE).fill(EMPTY)),
-              player2_board: Array(BOARD_SIZE).fill(Array(BOARD_SIZE).fill(EMPTY)),
-              player1_shots: Array(BOARD_SIZE).fill(Array(BOARD_SIZE).fill(EMPTY)),
-              player2_shots: Array(BOARD_SIZE).fill(Array(BOARD_SIZE).fill(EMPTY)),
-              player1_ready: false,
-              player2_ready: false,
-              current_player: currentUser.id,
-              status: "setup",
-              winner: null,
-            })
-            .select()
-            .single()
-
-          if (newGameError) {
-            throw newGameError
-          }
-
-          gameStateData = newGameState
-        } else if (existingGameState.player1 === currentUser.id || existingGameState.player2 === currentUser.id) {
-          // Player is already in the game
-          gameStateData = existingGameState
-        } else if (!existingGameState.player2) {
-          // Join as player 2
-          const { data: updatedGameState, error: updateError } = await supabase
-            .from("battleship_game_states")
-            .update({
-              player2: currentUser.id,
-            })
-            .eq("id", existingGameState.id)
-            .select()
-            .single()
-
-          if (updateError) {
-            throw updateError
-          }
-
-          gameStateData = updatedGameState
-        } else {
-          // Game is full
-          throw new Error("Game is full")
-        }
+        const gameStateData: GameState = await response.json()
 
         console.log("Game state:", gameStateData)
         if (isActive) {
-          setGameState(gameStateData)
-          gameStateIdRef.current = gameStateData.id
-
-          // Set game phase based on status
-          if (gameStateData.status === "setup") {
-            setPlacementPhase(true)
-
-            // Check if player is ready
-            if (gameStateData.player1 === currentUser.id && gameStateData.player1_ready) {
-              setIsReady(true)
-
-              // Load player's board
-              if (gameStateData.player1_board) {
-                setMyBoard(gameStateData.player1_board)
-
-                // Reconstruct placed ships and ship cells
-                reconstructPlacedShips(gameStateData.player1_board)
-              }
-
-              // Check if waiting for opponent
-              if (!gameStateData.player2_ready) {
-                setWaitingForOpponent(true)
-              }
-            } else if (gameStateData.player2 === currentUser.id && gameStateData.player2_ready) {
-              setIsReady(true)
-
-              // Load player's board
-              if (gameStateData.player2_board) {
-                setMyBoard(gameStateData.player2_board)
-
-                // Reconstruct placed ships and ship cells
-                reconstructPlacedShips(gameStateData.player2_board)
-              }
-
-              // Check if waiting for opponent
-              if (!gameStateData.player1_ready) {
-                setWaitingForOpponent(true)
-              }
-            }
-
-            // If both players are ready, game should be in progress
-            if (gameStateData.player1_ready && gameStateData.player2_ready) {
-              setPlacementPhase(false)
-              setWaitingForOpponent(gameStateData.current_player !== currentUser.id)
-            }
-          } else if (gameStateData.status === "in_progress") {
-            setPlacementPhase(false)
-            setIsReady(true)
-
-            // Load boards
-            if (gameStateData.player1 === currentUser.id) {
-              setMyBoard(gameStateData.player1_board)
-              setOpponentBoard(createOpponentBoardView(gameStateData.player2_board, gameStateData.player1_shots))
-              setMyShots(gameStateData.player1_shots)
-              setOpponentShots(gameStateData.player2_shots)
-
-              // Reconstruct ship cells
-              reconstructPlacedShips(gameStateData.player1_board)
-              reconstructOpponentShipCells(gameStateData.player2_board, gameStateData.player1_shots)
-            } else {
-              setMyBoard(gameStateData.player2_board)
-              setOpponentBoard(createOpponentBoardView(gameStateData.player1_board, gameStateData.player2_shots))
-              setMyShots(gameStateData.player2_shots)
-              setOpponentShots(gameStateData.player1_shots)
-
-              // Reconstruct ship cells
-              reconstructPlacedShips(gameStateData.player2_board)
-              reconstructOpponentShipCells(gameStateData.player1_board, gameStateData.player2_shots)
-            }
-
-            setWaitingForOpponent(gameStateData.current_player !== currentUser.id)
-          } else if (gameStateData.status === "finished") {
-            setPlacementPhase(false)
-            setIsReady(true)
-            setGameOver(true)
-            setWinner(gameStateData.winner)
-
-            // Load boards
-            if (gameStateData.player1 === currentUser.id) {
-              setMyBoard(gameStateData.player1_board)
-              setOpponentBoard(gameStateData.player2_board) // Show full board at game end
-              setMyShots(gameStateData.player1_shots)
-              setOpponentShots(gameStateData.player2_shots)
-
-              // Reconstruct ship cells
-              reconstructPlacedShips(gameStateData.player1_board)
-              reconstructOpponentShipCells(gameStateData.player2_board, gameStateData.player1_shots)
-            } else {
-              setMyBoard(gameStateData.player2_board)
-              setOpponentBoard(gameStateData.player1_board) // Show full board at game end
-              setMyShots(gameStateData.player2_shots)
-              setOpponentShots(gameStateData.player1_shots)
-
-              // Reconstruct ship cells
-              reconstructPlacedShips(gameStateData.player2_board)
-              reconstructOpponentShipCells(gameStateData.player1_board, gameStateData.player2_shots)
-            }
-
-            setTimeout(() => {
-              setShowWinnerMessage(true)
-              playSound("gameOver")
-            }, 500)
-          }
+          applyGameView(gameStateData)
         }
 
         // Fetch player profiles
@@ -446,52 +280,12 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
               table: "battleship_game_states",
               filter: `id=eq.${gameStateData.id}`,
             },
-            async (payload) => {
-              console.log("Game state changed:", payload)
+            async () => {
+              console.log("Game state changed")
               if (!isActive) return
 
-              const newState = payload.new as GameState
-              setGameState(newState)
-
-              // Update boards immediately when state changes
-              if (newState.player1 === currentUser?.id) {
-                setMyBoard(newState.player1_board)
-                setMyShots(newState.player1_shots)
-                setOpponentShots(newState.player2_shots)
-                if (newState.status === "finished") {
-                  setOpponentBoard(newState.player2_board)
-                } else {
-                  setOpponentBoard(createOpponentBoardView(newState.player2_board, newState.player1_shots))
-                }
-              } else {
-                setMyBoard(newState.player2_board)
-                setMyShots(newState.player2_shots)
-                setOpponentShots(newState.player1_shots)
-                if (newState.status === "finished") {
-                  setOpponentBoard(newState.player1_board)
-                } else {
-                  setOpponentBoard(createOpponentBoardView(newState.player1_board, newState.player2_shots))
-                }
-              }
-
-              // Update waiting state
-              setWaitingForOpponent(newState.current_player !== currentUser?.id)
-
-              // Handle game phase changes
-              if (newState.status === "in_progress" && placementPhase) {
-                setPlacementPhase(false)
-                playSound("gameStart")
-              }
-
-              // Check for game over
-              if (newState.status === "finished" && !gameOver) {
-                setGameOver(true)
-                setWinner(newState.winner)
-                setTimeout(() => {
-                  setShowWinnerMessage(true)
-                  playSound("gameOver")
-                }, 500)
-              }
+              // Boards are not readable from the table, so refetch our view
+              await fetchLatestGameState()
 
               // Fetch latest moves after state change
               const { data: latestMoves } = await supabase
@@ -570,27 +364,55 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
     }
   }, [lobbyId, router, supabase, currentUser])
 
-  // Create opponent board view (hiding ships that haven't been hit)
-  function createOpponentBoardView(opponentBoard: number[][], myShots: number[][]): number[][] {
-    const boardView = Array(BOARD_SIZE)
-      .fill(0)
-      .map(() => Array(BOARD_SIZE).fill(0))
+  // Apply the server's view of the game to local state
+  function applyGameView(view: GameState) {
+    const previousStatus = lastStatusRef.current
+    lastStatusRef.current = view.status
 
-    for (let row = 0; row < BOARD_SIZE; row++) {
-      for (let col = 0; col < BOARD_SIZE; col++) {
-        if (myShots[row][col] === MISS) {
-          boardView[row][col] = MISS
-        } else if (myShots[row][col] === HIT && opponentBoard[row][col] === SHIP) {
-          boardView[row][col] = HIT
-        } else if (myShots[row][col] === HIT && opponentBoard[row][col] === SUNK) {
-          boardView[row][col] = SUNK
-        } else {
-          boardView[row][col] = EMPTY
-        }
+    setGameState(view)
+    gameStateIdRef.current = view.id
+
+    // Spectators never place or fire, so treat them as ready and always waiting
+    const amReady = view.is_spectator || (view.player1 === currentUser?.id ? view.player1_ready : view.player2_ready)
+
+    // Keep the local placement until the fleet has been submitted
+    if (amReady || view.status !== "setup") {
+      setMyBoard(view.my_board)
+      if (previousStatus === null) {
+        reconstructPlacedShips(view.my_board)
       }
     }
+    setMyShots(view.my_shots)
+    setOpponentShots(view.opponent_shots)
+    setOpponentBoard(view.opponent_board)
+
+    if (view.status === "setup") {
+      setPlacementPhase(true)
+      setIsReady(amReady)
+      setWaitingForOpponent(amReady)
+      return
+    }
 
-    return boardView
+    setPlacementPhase(false)
+    setIsReady(true)
+    setWaitingForOpponent(view.current_player !== currentUser?.id)
+
+    if (previousStatus === "setup" && view.status === "in_progress") {
+      playSound("gameStart")
+    }
+
+    if (view.status === "finished") {
+      setGameOver(true)
+      setWinner(view.winner)
+      reconstructOpponentShipCells(view.opponent_board)
+
+      if (previousStatus !== "finished") {
+        setTimeout(() => {
+          setShowWinnerMessage(true)
+          playSound("gameOver")
+        }, 500)
+      }
+    }
   }
 
   // Reconstruct placed ships from board
@@ -691,14 +513,13 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
     setCurrentShipIndex(SHIPS.length)
   }
 
-  // Reconstruct opponent ship cells
-  function reconstructOpponentShipCells(opponentBoard: number[][], myShots: number[][]) {
+  // Reconstruct opponent ship cells once their board is revealed
+  function reconstructOpponentShipCells(opponentBoard: number[][]) {
     const shipCells: { [key: string]: number } = {}
 
-    // Identify hit ship cells
     for (let row = 0; row < BOARD_SIZE; row++) {
       for (let col = 0; col < BOARD_SIZE; col++) {
-        if ((opponentBoard[row][col] === SHIP || opponentBoard[row][col] === SUNK) && myShots[row][col] === HIT) {
+        if (opponentBoard[row][col] === SHIP || opponentBoard[row][col] === HIT || opponentBoard[row][col] === SUNK) {
           shipCells[`${row},${col}`] = 0
         }
       }
@@ -735,44 +556,19 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
 
       console.log('Fetching latest game state...')
 
-      const { data, error } = await supabase
-        .from("battleship_game_states")
-        .select("*")
-        .eq("id", gameStateIdRef.current)
-        .single()
+      const response = await fetch(`/api/battleship/${gameStateIdRef.current}`)
 
-      if (error) {
-        console.error("Error fetching latest game state:", error)
+      if (!response.ok) {
+        const errorData = await response.json()
+        console.error("Error fetching latest game state:", errorData.error)
         return
       }
 
-      console.log('Received updated game state:', data)
+      const data: GameState = await response.json()
 
-      // Update all relevant state
-      setGameState(data)
-      
-      // Update boards based on player
-      if (data.player1 === currentUser?.id) {
-        setMyBoard(data.player1_board)
-        setMyShots(data.player1_shots)
-        setOpponentShots(data.player2_shots)
-        if (data.status === "finished") {
-          setOpponentBoard(data.player2_board)
-        } else {
-          setOpponentBoard(createOpponentBoardView(data.player2_board, data.player1_shots))
-        }
-      } else {
-        setMyBoard(data.player2_board)
-        setMyShots(data.player2_shots)
-        setOpponentShots(data.player1_shots)
-        if (data.status === "finished") {
-          setOpponentBoard(data.player1_board)
-        } else {
-          setOpponentBoard(createOpponentBoardView(data.player1_board, data.player2_shots))
-        }
-      }
+      console.log('Received updated game state:', data)
 
-      setWaitingForOpponent(data.current_player !== currentUser?.id)
+      applyGameView(data)
     } catch (err) {
       console.error("Error in fetchLatestGameState:", err)
     }
@@ -844,22 +640,25 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
     setWaitingForOpponent(true)
 
     try {
-      // Update game state in database
-      const { error } = await supabase.rpc("battleship_mark_player_ready", {
-        p_game_state_id: gameState.id,
-        p_player_id: currentUser?.id,
-        p_board: myBoard,
+      // The server validates the placement before storing it
+      const response = await fetch(`/api/games/${gameState.id}/move`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ game: "battleship", move: { type: "place", board: myBoard } }),
       })
 
-      if (error) {
-        console.error("Error marking player as ready:", error)
+      const data = await response.json()
+
+      if (!response.ok) {
+        console.error("Error marking player as ready:", data.error)
         setIsReady(false)
         setWaitingForOpponent(false)
         return
       }
 
-      // Fetch updated game state
-      fetchLatestGameState()
+      applyGameView(data.state)
     } catch (err) {
       console.error("Error in markAsReady:", err)
       setIsReady(false)
@@ -867,39 +666,9 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
     }
   }
 
-  // Check if ship placement is valid on a specific board
-  function isValidPlacementOnBoard(
-    row: number,
-    col: number,
-    size: number,
-    orientation: "horizontal" | "vertical",
-    board: number[][],
-  ): boolean {
-    // Check if ship fits on board
-    if (orientation === "horizontal" && col + size > BOARD_SIZE) return false
-    if (orientation === "vertical" && row + size > BOARD_SIZE) return false
-
-    // Check if ship overlaps with another ship or is adjacent to another ship
-    for (
-      let r = Math.max(0, row - 1);
-      r <= Math.min(BOARD_SIZE - 1, row + (orientation === "vertical" ? size : 1));
-      r++
-    ) {
-      for (
-        let c = Math.max(0, col - 1);
-        c <= Math.min(BOARD_SIZE - 1, col + (orientation === "horizontal" ? size : 1));
-        c++
-      ) {
-        if (board[r][c] !== EMPTY) return false
-      }
-    }
-
-    return true
-  }
-
   // Check if ship placement is valid
   function isValidPlacement(row: number, col: number, size: number, orientation: "horizontal" | "vertical"): boolean {
-    return isValidPlacementOnBoard(row, col, size, orientation, myBoard)
+    return canPlaceShip(myBoard, row, col, size, orientation)
   }
 
   // Handle hover for ship placement preview
@@ -951,84 +720,54 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
       // Log current state before making move
       console.log('Making move:', { row, col, gameStateId: gameState.id, playerId: currentUser?.id })
 
-      // Make move in database
-      const { data, error } = await supabase.rpc("battleship_make_move", {
-        p_game_state_id: gameState.id,
-        p_player_id: currentUser?.id,
-        p_row: row,
-        p_col: col,
+      // The server resolves hit, miss and sunk against the hidden board
+      const response = await fetch(`/api/games/${gameState.id}/move`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ game: "battleship", move: { type: "shot", row, col } }),
       })
 
-      console.log('Move result:', { data, error }) // Add logging
-
-      if (error) {
-        console.error("Error making move:", error)
-        
-        // Enhanced error logging for the fallback case
-        if (error.code === '42883') {
-          console.log("Using fallback move method")
-          const isPlayer1 = gameState.player1 === currentUser?.id
-          
-          // Create deep copies to avoid mutation issues
-          const newShots = JSON.parse(JSON.stringify(
-            isPlayer1 ? gameState.player1_shots : gameState.player2_shots
-          ))
-          const opponentBoard = isPlayer1 ? gameState.player2_board : gameState.player1_board
-          
-          const isHit = opponentBoard[row][col] === SHIP
-          newShots[row][col] = isHit ? HIT : MISS
-
-          console.log('Fallback update data:', {
-            shots: newShots,
-            nextPlayer: isPlayer1 ? gameState.player2 : gameState.player1
-          })
-
-          // Update game state
-          const { error: updateError } = await supabase
-            .from("battleship_game_states")
-            .update({
-              [isPlayer1 ? 'player1_shots' : 'player2_shots']: newShots,
-              current_player: isPlayer1 ? gameState.player2 : gameState.player1,
-              last_updated: new Date().toISOString() // Add timestamp to force update
-            })
-            .eq("id", gameState.id)
-
-          if (updateError) {
-            console.error("Fallback update error:", updateError)
-            setWaitingForOpponent(false)
-            return
-          }
+      const data = await response.json()
 
-          // Record move
-          const { error: moveError } = await supabase
-            .from("battleship_moves")
-            .insert({
-              game_state_id: gameState.id,
-              player_id: currentUser?.id,
-              row: row,
-              col: col,
-              is_hit: isHit,
-              created_at: new Date().toISOString()
-            })
+      console.log('Move result:', data)
 
-          if (moveError) {
-            console.error("Move recording error:", moveError)
-          }
-
-          // Force immediate state refresh
-          await fetchLatestGameState()
-        }
-      } else {
-        // If move succeeded, force refresh state
+      if (!response.ok) {
+        console.error("Error making move:", data.error)
         await fetchLatestGameState()
+        return
       }
+
+      applyGameView(data.state)
     } catch (err) {
       console.error("Error in handleShot:", err)
-    } finally {
       setWaitingForOpponent(false)
     }
   }
 
+  // The server fires the AI's shot, we only tell it we are waiting for one
+  async function requestAIShot() {
+    if (!gameState) return
+
+    const response = await fetch(`/api/games/${gameState.id}/move`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ game: "battleship", move: { type: "ai" } }),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      console.error("Error making AI move:", data.error)
+      return
+    }
+
+    applyGameView(data.state)
+  }
+
   // Place ships randomly
   function placeShipsRandomly() {
     if (!placementPhase || isReady) return
@@ -1052,7 +791,7 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
         const row = Math.floor(Math.random() * BOARD_SIZE)
         const col = Math.floor(Math.random() * BOARD_SIZE)
 
-        if (isValidPlacementOnBoard(row, col, ship.size, orientation, newBoard)) {
+        if (canPlaceShip(newBoard, row, col, ship.size, orientation)) {
           if (orientation === "horizontal") {
             for (let i = 0; i < ship.size; i++) {
               newBoard[row][col + i] = SHIP
@@ -1205,15 +944,19 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
               <span className="text-sm md:text-base">
                 {gameOver
                   ? "Game Over"
-                  : placementPhase
-                    ? isReady
-                      ? "Waiting for opponent"
-                      : "Place your ships"
-                    : waitingForOpponent
-                      ? "Opponent's turn"
-                      : isMyTurn()
-                        ? "Your turn"
-                        : "Opponent's turn"}
+                  : gameState.is_spectator
+                    ? placementPhase
+                      ? "Placing ships"
+                      : `${getPlayerName(gameState.current_player)}'s turn`
+                    : placementPhase
+                      ? isReady
+                        ? "Waiting for opponent"
+                        : "Place your ships"
+                      : waitingForOpponent
+                        ? "Opponent's turn"
+                        : isMyTurn()
+                          ? "Your turn"
+                          : "Opponent's turn"}
               </span>
             </div>
           </div>
@@ -1259,68 +1002,73 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
         {gameOver && showWinnerMessage && (
           <div className="mb-6 p-4 bg-gray-100 rounded-lg text-center animate-fadeIn">
             {winner ? (
-              <p className="text-lg font-bold animate-winner">
-                {winner === currentUser?.id ? "You won! 🎉" : `${getPlayerName(winner)} won!`}
-              </p>
+              <>
+                <p className="text-lg font-bold animate-winner">
+                  {winner === currentUser?.id ? "You won! 🎉" : `${getPlayerName(winner)} won!`}
+                </p>
+                {gameState.forfeited_by && (
+                  <p className="text-sm text-gray-600">
+                    {gameState.forfeited_by === currentUser?.id ? "You" : getPlayerName(gameState.forfeited_by)}{" "}
+                    {gameState.forfeit_reason === "disconnect" ? "left the game" : "ran out of time"}
+                  </p>
+                )}
+              </>
             ) : (
               <p className="text-lg font-bold">Game ended in a draw!</p>
             )}
             <PlayAgainButton/>
+            <RematchPanel lobbyId={lobbyId} currentUserId={currentUser?.id} getPlayerName={getPlayerName} />
           </div>
         )}
 
+        {gameState.ai_opponent && !gameState.is_spectator && (
+          <BattleshipAIOpponent gameState={gameState} onMove={requestAIShot} />
+        )}
+
+        <TurnTimer
+          state={gameState}
+          gameKey="battleship"
+          currentUserId={currentUser?.id}
+          getPlayerName={getPlayerName}
+        />
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
           {/* My Board */}
           <div>
-            <h3 className="text-lg font-bold mb-2">Your Fleet</h3>
+            <h3 className="text-lg font-bold mb-2">
+              {gameState.is_spectator ? `${getPlayerName(gameState.player1)}'s Fleet` : "Your Fleet"}
+            </h3>
             <div className="bg-blue-100 p-2 rounded-lg">
-              <div className="grid grid-cols-10 gap-1">
-                {myBoard.map((row, rowIndex) =>
-                  row.map((cell, colIndex) => (
-                    <div
-                      key={`my-${rowIndex}-${colIndex}`}
-                      className={`aspect-square rounded-sm flex items-center justify-center cursor-pointer transition-all duration-200 ${
-                        placementPhase &&
-                        !isReady &&
-                        isValidPlacement(rowIndex, colIndex, SHIPS[currentShipIndex]?.size || 0, shipOrientation)
-                          ? "hover:bg-blue-300"
-                          : ""
-                      } ${
-                        isHoverCell(rowIndex, colIndex)
-                          ? isValidPlacement(
-                              hoverPosition?.row || 0,
-                              hoverPosition?.col || 0,
-                              SHIPS[currentShipIndex]?.size || 0,
-                              shipOrientation,
-                            )
-                            ? "bg-blue-300"
-                            : "bg-red-300"
-                          : cell === SHIP
-                            ? "bg-opacity-90"
-                            : cell === HIT
-                              ? "bg-red-500"
-                              : cell === MISS
-                                ? "bg-gray-300"
-                                : "bg-blue-200"
-                      } ${
-                        hitAnimation && hitAnimation.row === rowIndex && hitAnimation.col === colIndex
-                          ? hitAnimation.isHit
-                            ? "animate-hit"
-                            : "animate-miss"
-                          : ""
-                      }`}
-                      onClick={() => handleCellClick(rowIndex, colIndex)}
-                      onMouseEnter={() => handleCellHover(rowIndex, colIndex)}
-                      style={{
-                        backgroundColor: cell === SHIP ? getShipColor(rowIndex, colIndex) : undefined,
-                      }}
-                    >
-                      {cell === HIT && <div className="w-2 h-2 bg-white rounded-full"></div>}
-                      {cell === MISS && <div className="w-2 h-2 bg-gray-500 rounded-full"></div>}
-                    </div>
-                  )),
-                )}
-              </div>
+              <BattleshipBoard
+                board={myBoard}
+                keyPrefix="my"
+                emptyClassName="bg-blue-200"
+                getShipColor={getShipColor}
+                getHighlightClassName={(row, col) =>
+                  isHoverCell(row, col)
+                    ? isValidPlacement(
+                        hoverPosition?.row || 0,
+                        hoverPosition?.col || 0,
+                        SHIPS[currentShipIndex]?.size || 0,
+                        shipOrientation,
+                      )
+                      ? "bg-blue-300"
+                      : "bg-red-300"
+                    : null
+                }
+                getCellClassName={(row, col) =>
+                  `cursor-pointer transition-all duration-200 ${
+                    placementPhase &&
+                    !isReady &&
+                    isValidPlacement(row, col, SHIPS[currentShipIndex]?.size || 0, shipOrientation)
+                      ? "hover:bg-blue-300"
+                      : ""
+                  }`
+                }
+                hitAnimation={hitAnimation}
+                onCellClick={(row, col) => handleCellClick(row, col)}
+                onCellHover={handleCellHover}
+              />
             </div>
 
             {/* Ship status */}
@@ -1338,47 +1086,23 @@ export default function BattleshipGame({ lobbyId, currentUser }: BattleshipGameP
 
           {/* Opponent's Board */}
           <div>
-            <h3 className="text-lg font-bold mb-2">Enemy Waters</h3>
+            <h3 className="text-lg font-bold mb-2">
+              {gameState.is_spectator && gameState.player2 ? `${getPlayerName(gameState.player2)}'s Fleet` : "Enemy Waters"}
+            </h3>
             <div className="bg-red-100 p-2 rounded-lg">
-              <div className="grid grid-cols-10 gap-1">
-                {opponentBoard.map((row, rowIndex) =>
-                  row.map((cell, colIndex) => (
-                    <div
-                      key={`opponent-${rowIndex}-${colIndex}`}
-                      className={`aspect-square rounded-sm flex items-center justify-center ${
-                        !placementPhase &&
-                        isMyTurn() &&
-                        !gameOver &&
-                        !waitingForOpponent &&
-                        myShots[rowIndex][colIndex] === EMPTY
-                          ? "cursor-pointer hover:bg-red-300"
-                          : ""
-                      } ${
-                        cell === SHIP 
-                          ? "bg-opacity-90" 
-                          : cell === HIT 
-                            ? "bg-red-500" 
-                            : cell === MISS 
-                              ? "bg-gray-300" 
-                              : "bg-red-200"
-                      } ${
-                        hitAnimation && hitAnimation.row === rowIndex && hitAnimation.col === colIndex
-                          ? hitAnimation.isHit
-                            ? "animate-hit"
-                            : "animate-miss"
-                          : ""
-                      }`}
-                      onClick={() => handleCellClick(rowIndex, colIndex, true)}
-                      style={{
-                        backgroundColor: gameOver && cell === SHIP ? getShipColor(rowIndex, colIndex, true) : undefined,
-                      }}
-                    >
-                      {cell === HIT && <div className="w-2 h-2 bg-white rounded-full"></div>}
-                      {cell === MISS && <div className="w-2 h-2 bg-gray-500 rounded-full"></div>}
-                    </div>
-                  )),
-                )}
-              </div>
+              <BattleshipBoard
+                board={opponentBoard}
+                keyPrefix="opponent"
+                emptyClassName="bg-red-200"
+                getShipColor={(row, col) => (gameOver ? getShipColor(row, col, true) : undefined)}
+                getCellClassName={(row, col) =>
+                  !placementPhase && isMyTurn() && !gameOver && !waitingForOpponent && myShots[row][col] === EMPTY
+                    ? "cursor-pointer hover:bg-red-300"
+                    : ""
+                }
+                hitAnimation={hitAnimation}
+                onCellClick={(row, col) => handleCellClick(row, col, true)}
+              />
             </div>
 
             {/* Ship status */}
@@ -0,0 +1,83 @@
+"use client"
+
+import type { ReplayBoardProps } from "@/app/lib/games/components"
+
+// Colors for the pieces
+export const EMPTY_COLOR = "#ffffff"
+export const PLAYER1_COLOR = "#e53e3e"
+export const PLAYER2_COLOR = "#ecc94b"
+
+export function getPlayerColor(playerNumber: number) {
+  if (playerNumber === 1) return PLAYER1_COLOR
+  if (playerNumber === 2) return PLAYER2_COLOR
+  return EMPTY_COLOR
+}
+
+interface ConnectFourBoardProps {
+  board: number[][]
+  gravityFlipped: boolean
+  winningCells?: Array<[number, number]>
+  invalidMoveColumn?: number | null
+  // Leave these out to render a board that can only be looked at, e.g. in a replay
+  isColumnPlayable?: (column: number) => boolean
+  onColumnClick?: (column: number) => void
+  onColumnHover?: (column: number | null) => void
+}
+
+export default function ConnectFourBoard({
+  board,
+  gravityFlipped,
+  winningCells = [],
+  invalidMoveColumn = null,
+  isColumnPlayable = () => false,
+  onColumnClick,
+  onColumnHover,
+}: ConnectFourBoardProps) {
+  function isWinningCell(rowIndex: number, colIndex: number): boolean {
+    return winningCells.some(([row, col]) => row === rowIndex && col === colIndex)
+  }
+
+  return (
+    <div className="grid grid-cols-7 gap-1 md:gap-2">
+      {board.map((row: number[], rowIndex: number) =>
+        row.map((cell: number, colIndex: number) => (
+          <div
+            key={`${rowIndex}-${colIndex}`}
+            className={`aspect-square bg-blue-700 rounded-full flex items-center justify-center relative overflow-hidden transition-transform duration-200
+              ${isColumnPlayable(colIndex) ? "hover:scale-105" : ""}
+              ${invalidMoveColumn === colIndex ? "animate-shake" : ""}`}
+            onClick={() => onColumnClick?.(colIndex)} // Pass the raw colIndex without adjustments
+            onMouseEnter={() => onColumnHover?.(colIndex)}
+            onMouseLeave={() => onColumnHover?.(null)}
+            style={{ cursor: isColumnPlayable(colIndex) ? "pointer" : "default" }}
+          >
+            <div
+              className={`w-[85%] h-[85%] rounded-full transition-all duration-300`}
+              style={{
+                transform: gravityFlipped ? "rotate(180deg)" : "",
+                backgroundColor: getPlayerColor(cell),
+                boxShadow: isWinningCell(rowIndex, colIndex)
+                  ? "0 0 10px 2px rgba(255, 255, 255, 0.7), inset 0 2px 4px 0 rgba(0, 0, 0, 0.1)"
+                  : "inset 0 2px 4px 0 rgba(0, 0, 0, 0.1)",
+              }}
+            ></div>
+          </div>
+        )),
+      )}
+    </div>
+  )
+}
+
+export function ConnectFourReplayBoard({ position }: ReplayBoardProps) {
+  const gravityFlipped = !!position.gravity_flipped
+
+  return (
+    <div
+      className={`bg-blue-600 p-2 md:p-4 rounded-lg mx-auto max-w-md md:max-w-lg transition-all duration-500 ${
+        gravityFlipped ? "rotate-180" : ""
+      }`}
+    >
+      <ConnectFourBoard board={position.board as number[][]} gravityFlipped={gravityFlipped} />
+    </div>
+  )
+}
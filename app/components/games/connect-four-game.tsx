@@ -6,12 +6,18 @@ import { useRouter } from "next/navigation"
 import { FaArrowLeft, FaRedo, FaSync } from "react-icons/fa"
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import type { User, RealtimeChannel } from "@supabase/supabase-js"
+import { getLandingRow } from "@/app/lib/games/connect-four"
+import type { ForfeitReason, GameMove } from "@/app/lib/games/engine"
+import ConnectFourBoard, { PLAYER1_COLOR, PLAYER2_COLOR } from "./connect-four-board"
+import TurnTimer from "./turn-timer"
+import AIOpponent from "./ai-opponent"
+import RematchPanel from "./rematch-panel"
 
 interface GameState {
   id: string
   lobby_id: string
   board: number[][]
-  status: "pending" | "in_progress" | "finished"
+  status: "waiting" | "playing" | "finished"
   winner: string | null
   player1: string
   player2: string
@@ -20,6 +26,15 @@ interface GameState {
   gravity_flipped: boolean
   player1_used_flip: boolean
   player2_used_flip: boolean
+  move_time_limit: number | null
+  game_time_limit: number | null
+  turn_started_at: string | null
+  player1_time_used: number
+  player2_time_used: number
+  forfeited_by: string | null
+  forfeit_reason: ForfeitReason | null
+  ai_opponent: boolean | null
+  ai_difficulty: string | null
 }
 
 interface Profile {
@@ -32,11 +47,6 @@ interface ConnectFourGameProps {
   currentUser: User | null
 }
 
-// Colors for the pieces
-const EMPTY_COLOR = "#ffffff"
-const PLAYER1_COLOR = "#e53e3e"
-const PLAYER2_COLOR = "#ecc94b"
-
 const POLLING_INTERVAL = 3000
 
 function GameLoading() {
@@ -117,6 +127,8 @@ export default function ConnectFourGame({ lobbyId, currentUser }: ConnectFourGam
           .from("game_states")
           .select("*")
           .eq("lobby_id", lobbyId)
+          .order("round", { ascending: false })
+          .limit(1)
           .single()
 
         if (gameStateError) {
@@ -397,10 +409,35 @@ export default function ConnectFourGame({ lobbyId, currentUser }: ConnectFourGam
     setTimeout(() => setIsRefreshing(false), 500)
   }
 
-  // Check if column is full
+  // Check if column is full, the last free cell depends on the gravity direction
   function isColumnFull(columnIndex: number): boolean {
     if (!gameState) return true
-    return gameState.board[0][columnIndex] !== 0
+    return getLandingRow(gameState.board, columnIndex, gameState.gravity_flipped) === -1
+  }
+
+  // Moves are validated and applied by the server
+  async function sendMove(gameStateId: string, move: GameMove): Promise<GameState> {
+    const response = await fetch(`/api/games/${gameStateId}/move`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ game: "connect-four", move }),
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to make move")
+    }
+
+    return data.state
+  }
+
+  // The server picks and plays the AI's move
+  async function requestAIMove() {
+    if (!gameState) return
+    await sendMove(gameState.id, { type: "ai" })
+    await fetchLatestGameState()
   }
 
   // Handle click
@@ -423,19 +460,14 @@ export default function ConnectFourGame({ lobbyId, currentUser }: ConnectFourGam
       console.log(`Making move in column ${columnIndex}`);
 
       // Make the move with THE EXACT column index without any adjustment
-      const { error } = await supabase.rpc("make_move", {
-        game_state_id: gameState.id,
-        column_index: columnIndex
-      });
+      await sendMove(gameState.id, { type: "drop", column: columnIndex });
 
-      if (error) {
-        console.error("Error making move:", error);
-      } else {
-        // Wait for move to be processed
-        await fetchLatestGameState();
-      }
+      // Wait for move to be processed
+      await fetchLatestGameState();
     } catch (err) {
       console.error("Error making move:", err);
+      setInvalidMoveColumn(columnIndex);
+      setTimeout(() => setInvalidMoveColumn(null), 800);
     }
   }
 
@@ -452,21 +484,8 @@ export default function ConnectFourGame({ lobbyId, currentUser }: ConnectFourGam
     try {
       setIsFlipping(true);
       
-      const { error } = await supabase
-        .from("game_states")
-        .update({
-          gravity_flipped: !gameState.gravity_flipped,
-          ...(gameState.player1 === currentUser.id 
-            ? { player1_used_flip: true }
-            : { player2_used_flip: true }),
-          // Change turns after flip
-          current_player: gameState.player1 === currentUser.id 
-            ? gameState.player2 
-            : gameState.player1
-        })
-        .eq("id", gameState.id);
-
-      if (error) throw error;
+      // The server flips gravity and lets the pieces settle
+      await sendMove(gameState.id, { type: "flip" });
       
       // Wait for flip animation
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -485,21 +504,10 @@ export default function ConnectFourGame({ lobbyId, currentUser }: ConnectFourGam
     return player?.username || "Unknown player"
   }
 
-  function getPlayerColor(playerNumber: number) {
-    if (playerNumber === 1) return PLAYER1_COLOR
-    if (playerNumber === 2) return PLAYER2_COLOR
-    return EMPTY_COLOR
-  }
-
   function isMyTurn() {
     return gameState && gameState.current_player === currentUser?.id
   }
   
-  // Check if a cell is part of the winning combination
-  function isWinningCell(rowIndex: number, colIndex: number): boolean {
-    return winningCells.some(([row, col]) => row === rowIndex && col === colIndex)
-  }
-
   if (loading) {
     return <GameLoading />
   }
@@ -590,16 +598,36 @@ export default function ConnectFourGame({ lobbyId, currentUser }: ConnectFourGam
         {gameOver && showWinnerMessage && (
           <div className="mb-6 p-4 bg-gray-100 rounded-lg text-center animate-fadeIn">
             {winner ? (
-              <p className="text-lg font-bold animate-winner">
-                {winner === currentUser?.id ? "You won! 🎉" : `${getPlayerName(winner)} won!`}
-              </p>
+              <>
+                <p className="text-lg font-bold animate-winner">
+                  {winner === currentUser?.id ? "You won! 🎉" : `${getPlayerName(winner)} won!`}
+                </p>
+                {gameState.forfeited_by && (
+                  <p className="text-sm text-gray-600">
+                    {gameState.forfeited_by === currentUser?.id ? "You" : getPlayerName(gameState.forfeited_by)}{" "}
+                    {gameState.forfeit_reason === "disconnect" ? "left the game" : "ran out of time"}
+                  </p>
+                )}
+              </>
             ) : (
               <p className="text-lg font-bold">Game ended in a draw!</p>
             )}
             <PlayAgainButton/>
+            <RematchPanel lobbyId={lobbyId} currentUserId={currentUser?.id} getPlayerName={getPlayerName} />
           </div>
         )}
 
+        {gameState.ai_opponent && gameState.player1 === currentUser?.id && (
+          <AIOpponent gameState={gameState} onMove={requestAIMove} />
+        )}
+
+        <TurnTimer
+          state={gameState}
+          gameKey="connect-four"
+          currentUserId={currentUser?.id}
+          getPlayerName={getPlayerName}
+        />
+
         <div className="grid grid-cols-2 gap-4 mb-6">
           <div
             className={`p-3 rounded-lg border-2 transition-all duration-300 ${gameState.current_player === gameState.player1 && !gameOver ? "border-black shadow-md scale-105" : "border-gray-200"}`}
@@ -656,33 +684,15 @@ export default function ConnectFourGame({ lobbyId, currentUser }: ConnectFourGam
             </div>
           )}
 
-          <div className="grid grid-cols-7 gap-1 md:gap-2">
-            {board.map((row: number[], rowIndex: number) =>
-              row.map((cell: number, colIndex: number) => (
-                <div
-                  key={`${rowIndex}-${colIndex}`}
-                  className={`aspect-square bg-blue-700 rounded-full flex items-center justify-center relative overflow-hidden transition-transform duration-200 
-                    ${isMyTurn() && !gameOver && !isColumnFull(colIndex) ? "hover:scale-105" : ""} 
-                    ${invalidMoveColumn === colIndex ? "animate-shake" : ""}`}
-                  onClick={() => handleColumnClick(colIndex)} // Pass the raw colIndex without adjustments
-                  onMouseEnter={() => setHoverColumn(colIndex)}
-                  onMouseLeave={() => setHoverColumn(null)}
-                  style={{ cursor: isMyTurn() && !gameOver && !isColumnFull(colIndex) ? "pointer" : "default" }}
-                >
-                  <div
-                    className={`w-[85%] h-[85%] rounded-full transition-all duration-300`}
-                    style={{
-                      transform: gameState.gravity_flipped ? "rotate(180deg)" : "",
-                      backgroundColor: getPlayerColor(cell),
-                      boxShadow: isWinningCell(rowIndex, colIndex) 
-                        ? "0 0 10px 2px rgba(255, 255, 255, 0.7), inset 0 2px 4px 0 rgba(0, 0, 0, 0.1)" 
-                        : "inset 0 2px 4px 0 rgba(0, 0, 0, 0.1)",
-                    }}
-                  ></div>
-                </div>
-              )),
-            )}
-          </div>
+          <ConnectFourBoard
+            board={board}
+            gravityFlipped={gameState.gravity_flipped}
+            winningCells={winningCells}
+            invalidMoveColumn={invalidMoveColumn}
+            isColumnPlayable={(column) => !!isMyTurn() && !gameOver && !isColumnFull(column)}
+            onColumnClick={handleColumnClick}
+            onColumnHover={setHoverColumn}
+          />
         </div>
       </main>
     </div>
@@ -0,0 +1,68 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { formatClock } from "@/app/lib/games/clock"
+import { getGraceRemaining } from "@/app/lib/games/presence"
+import type { LobbyPresence } from "./use-presence"
+
+// How often the forfeit is claimed again while the server still sees the opponent
+const CLAIM_RETRY_INTERVAL = 3000
+
+interface OpponentPresenceProps {
+  lobbyId: string
+  currentUserId?: string
+  opponentId: string | null
+  // From usePresence on the game page, which also counts the spectators
+  presence: LobbyPresence
+}
+
+// Shows whether the opponent is still connected. Once they have been gone for
+// the lobby's grace period the server is asked to forfeit them.
+export default function OpponentPresence({ lobbyId, currentUserId, opponentId, presence }: OpponentPresenceProps) {
+  const { onlineIds, snapshot, receivedAt } = presence
+  const [now, setNow] = useState(() => Date.now())
+  const lastClaimRef = useRef(0)
+
+  const isOnline = !!opponentId && onlineIds.includes(opponentId)
+  const isOver = snapshot?.status === "finished"
+  const gracePeriod = snapshot?.gracePeriod ?? null
+  const opponentSeen = snapshot?.players.find((player) => player.playerId === opponentId)
+
+  // Absent players the server has never heard from are timed from the first snapshot
+  const absentMs = (opponentSeen?.absentMs ?? 0) + Math.max(0, now - receivedAt)
+  const remaining = gracePeriod ? getGraceRemaining(absentMs, gracePeriod) : null
+  const isCountingDown = !isOnline && !isOver && remaining !== null
+
+  useEffect(() => {
+    if (!isCountingDown) return
+
+    const interval = setInterval(() => setNow(Date.now()), 500)
+    return () => clearInterval(interval)
+  }, [isCountingDown])
+
+  useEffect(() => {
+    if (!isCountingDown || remaining === null || remaining > 0) return
+    if (now - lastClaimRef.current < CLAIM_RETRY_INTERVAL) return
+    lastClaimRef.current = now
+
+    fetch(`/api/lobbies/${lobbyId}/abandon`, { method: "POST" }).catch((err) =>
+      console.error("Error claiming forfeit:", err),
+    )
+  }, [isCountingDown, remaining, now, lobbyId])
+
+  if (!opponentId || !currentUserId || !snapshot || isOver) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-20 bg-white border border-gray-200 shadow-md rounded-lg px-3 py-2 text-sm text-black">
+      <div className="flex items-center">
+        <span className={`inline-block w-2 h-2 rounded-full mr-2 ${isOnline ? "bg-green-500" : "bg-red-500 animate-pulse"}`}></span>
+        <span>{isOnline ? "Opponent connected" : "Opponent disconnected"}</span>
+      </div>
+      {isCountingDown && remaining !== null && (
+        <p className="text-xs text-gray-600 mt-1">
+          {remaining > 0 ? `They forfeit in ${formatClock(remaining)} unless they rejoin` : "Claiming the win..."}
+        </p>
+      )}
+    </div>
+  )
+}
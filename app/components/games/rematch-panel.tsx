@@ -0,0 +1,188 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { FaRedo } from "react-icons/fa"
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
+import { getSeriesScore, type RoundSummary } from "@/app/lib/games/rematch"
+import { getSeatedPlayers } from "@/app/lib/games/engine"
+
+const POLLING_INTERVAL = 3000
+
+interface RematchPanelProps {
+  lobbyId: string
+  currentUserId?: string
+  getPlayerName: (playerId: string) => string
+}
+
+// Game-over controls for playing the same opponent again in the same lobby,
+// with the score of every round played there so far
+export default function RematchPanel({ lobbyId, currentUserId, getPlayerName }: RematchPanelProps) {
+  const [rounds, setRounds] = useState<RoundSummary[]>([])
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const shownRoundRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    let isActive = true
+    const supabase = createClientComponentClient()
+
+    async function loadRounds() {
+      const { data, error: roundsError } = await supabase
+        .from("game_states")
+        .select("round, status, winner, is_draw, player1, player2, players, ai_opponent, rematch_requested_by, rematch_declined")
+        .eq("lobby_id", lobbyId)
+        .order("round", { ascending: true })
+
+      if (roundsError) {
+        console.error("Error loading rounds:", roundsError)
+        return
+      }
+      if (!isActive || !data?.length) return
+
+      // A newer round means the rematch was accepted, reload to play it
+      const latestRound = data[data.length - 1].round
+      if (shownRoundRef.current === null) {
+        shownRoundRef.current = latestRound
+      } else if (latestRound > shownRoundRef.current) {
+        window.location.reload()
+        return
+      }
+
+      setRounds(data)
+    }
+
+    loadRounds()
+
+    const channel = supabase
+      .channel(`rematch:${lobbyId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "game_states", filter: `lobby_id=eq.${lobbyId}` },
+        () => loadRounds(),
+      )
+      .subscribe()
+
+    const interval = setInterval(loadRounds, POLLING_INTERVAL)
+
+    return () => {
+      isActive = false
+      clearInterval(interval)
+      supabase.removeChannel(channel)
+    }
+  }, [lobbyId])
+
+  async function sendAction(action: "request" | "accept" | "decline") {
+    setIsSending(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/lobbies/${lobbyId}/rematch`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Rematch failed")
+
+      if (data.status === "started") {
+        window.location.reload()
+      }
+    } catch (err) {
+      console.error("Error sending rematch action:", err)
+      setError(err instanceof Error ? err.message : "Rematch failed")
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const current = rounds[rounds.length - 1]
+  if (!current || current.status !== "finished" || !currentUserId) return null
+
+  const series = getSeriesScore(rounds)
+  const seated = getSeatedPlayers(current)
+  const draws = series.draws > 0 ? ` (${series.draws} ${series.draws === 1 ? "draw" : "draws"})` : ""
+
+  // Everyone's wins side by side, for spectators and lobbies with more than two seats
+  const fullScore = seated.map((playerId) => `${getPlayerName(playerId)} ${series.wins[playerId] ?? 0}`).join(" · ")
+
+  // Spectators only get the score, the players decide on a rematch
+  if (!seated.includes(currentUserId)) {
+    if (rounds.length < 2 || seated.length < 2) return null
+
+    return (
+      <div className="mt-4 pt-4 border-t border-gray-200">
+        <p className="text-sm font-medium">
+          Series: {fullScore}
+          {draws}
+        </p>
+      </div>
+    )
+  }
+
+  const others = seated.filter((playerId) => playerId !== currentUserId)
+  const opponentId = others.length === 1 ? others[0] : null
+  const opponentName = current.ai_opponent
+    ? "AI"
+    : opponentId
+      ? getPlayerName(opponentId)
+      : others.length > 1
+        ? "the other players"
+        : "Opponent"
+  const requestedBy = current.rematch_requested_by
+  const requestedByMe = requestedBy === currentUserId
+  const requestedByOpponent = !!requestedBy && requestedBy !== currentUserId
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      {rounds.length > 1 && (
+        <p className="text-sm font-medium mb-3">
+          Series:{" "}
+          {others.length > 1
+            ? fullScore
+            : `You ${series.wins[currentUserId] ?? 0} – ${(opponentId && series.wins[opponentId]) || 0} ${opponentName}`}
+          {draws}
+        </p>
+      )}
+
+      {requestedByOpponent && !current.rematch_declined ? (
+        <div>
+          <p className="text-sm mb-2">{getPlayerName(requestedBy)} wants a rematch!</p>
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={() => sendAction("accept")}
+              disabled={isSending}
+              className="px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => sendAction("decline")}
+              disabled={isSending}
+              className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ) : requestedByMe ? (
+        <p className="text-sm text-gray-600">
+          {current.rematch_declined
+            ? `Rematch declined by ${opponentName}`
+            : `Waiting for ${opponentName} to accept the rematch...`}
+        </p>
+      ) : (
+        <button
+          onClick={() => sendAction("request")}
+          disabled={isSending}
+          className="px-4 py-2 rounded-lg flex items-center mx-auto transition-all duration-300 transform hover:scale-105 bg-white border-2 border-black text-black hover:bg-gray-100 disabled:opacity-50"
+        >
+          <FaRedo className="mr-2" />
+          Rematch
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { motion } from "framer-motion"
+import type { ReplayBoardProps } from "@/app/lib/games/components"
+
+// Colors for the pieces
+export const PLAYER1_COLOR = "#e53e3e" // Red
+export const PLAYER2_COLOR = "#3182ce" // Blue
+
+export function isCellEmpty(cell: string | number | null | undefined) {
+  return cell === "" || cell === 0 || cell === null || cell === undefined
+}
+
+interface TicTacToeBoardProps {
+  board: (string | number | null)[][]
+  player1: string
+  winningLine?: number[][] | null
+  // Whether the viewer may place a mark right now, false for replays
+  canPlay?: boolean
+  shouldAnimateCell?: (rowIndex: number, colIndex: number) => boolean
+  onCellClick?: (rowIndex: number, colIndex: number) => void
+}
+
+export default function TicTacToeBoard({
+  board,
+  player1,
+  winningLine = null,
+  canPlay = false,
+  shouldAnimateCell = () => false,
+  onCellClick,
+}: TicTacToeBoardProps) {
+  function isCellInWinningLine(rowIndex: number, colIndex: number) {
+    if (!winningLine) return false
+
+    return winningLine.some(([row, col]) => row === rowIndex && col === colIndex)
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {Array.isArray(board) && board.length === 3
+        ? board.map((row, rowIndex: number) =>
+            row.map((cell, colIndex: number) => {
+              const isWinningCell = isCellInWinningLine(rowIndex, colIndex)
+              const isEmpty = isCellEmpty(cell)
+              const shouldAnimate = shouldAnimateCell(rowIndex, colIndex)
+
+              return (
+                <motion.div
+                  key={`${rowIndex}-${colIndex}`}
+                  className={`aspect-square bg-white rounded-md flex items-center justify-center relative overflow-hidden border-2 ${
+                    isWinningCell ? "border-green-500" : "border-gray-200"
+                  }`}
+                  onClick={() => onCellClick?.(rowIndex, colIndex)}
+                  whileHover={canPlay && isEmpty ? { scale: 1.05, backgroundColor: "#f9fafb" } : {}}
+                  whileTap={canPlay && isEmpty ? { scale: 0.95 } : {}}
+                  style={{ cursor: canPlay && isEmpty ? "pointer" : "default" }}
+                >
+                  {!isEmpty && (
+                    <div
+                      className={`w-full h-full flex items-center justify-center font-bold text-3xl md:text-5xl ${
+                        shouldAnimate ? "animate-cell" : ""
+                      } ${isWinningCell ? "animate-winning-cell" : ""}`}
+                      style={{
+                        color: cell === player1 || cell === 1 ? PLAYER1_COLOR : PLAYER2_COLOR,
+                      }}
+                    >
+                      {cell === player1 || cell === 1 ? "X" : "O"}
+                    </div>
+                  )}
+                </motion.div>
+              )
+            }),
+          )
+        : // Fallback if board is not properly structured
+          Array(3)
+            .fill(null)
+            .map((_, rowIndex) =>
+              Array(3)
+                .fill(null)
+                .map((_, colIndex) => (
+                  <motion.div
+                    key={`${rowIndex}-${colIndex}`}
+                    className="aspect-square bg-white rounded-md flex items-center justify-center relative overflow-hidden border-2 border-gray-200"
+                    onClick={() => onCellClick?.(rowIndex, colIndex)}
+                    whileHover={canPlay ? { scale: 1.05, backgroundColor: "#f9fafb" } : {}}
+                    style={{ cursor: canPlay ? "pointer" : "default" }}
+                  />
+                )),
+            )}
+    </div>
+  )
+}
+
+export function TicTacToeReplayBoard({ position, player1 }: ReplayBoardProps) {
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg mx-auto max-w-md">
+      <TicTacToeBoard board={position.board as (string | null)[][]} player1={player1} />
+    </div>
+  )
+}
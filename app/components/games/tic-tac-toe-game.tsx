@@ -7,6 +7,12 @@ import { FaArrowLeft, FaRedo, FaSync } from "react-icons/fa"
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import type { User, RealtimeChannel } from "@supabase/supabase-js"
 import { motion } from "framer-motion"
+import TicTacToeBoard, { PLAYER1_COLOR, PLAYER2_COLOR, isCellEmpty } from "./tic-tac-toe-board"
+import TurnTimer from "./turn-timer"
+import AIOpponent from "./ai-opponent"
+import RematchPanel from "./rematch-panel"
+import type { ForfeitReason } from "@/app/lib/games/engine"
+import { DEFAULT_TIC_TAC_TOE_DIFFICULTY, TIC_TAC_TOE_DIFFICULTIES } from "@/app/lib/games/tic-tac-toe-bot"
 
 interface GameState {
   id: string
@@ -18,6 +24,15 @@ interface GameState {
   player2: string
   current_player: string
   created_at?: string
+  move_time_limit: number | null
+  game_time_limit: number | null
+  turn_started_at: string | null
+  player1_time_used: number
+  player2_time_used: number
+  forfeited_by: string | null
+  forfeit_reason: ForfeitReason | null
+  ai_opponent: boolean | null
+  ai_difficulty: string | null
 }
 
 interface Profile {
@@ -30,11 +45,14 @@ interface TicTacToeGameProps {
   currentUser: User | null
 }
 
-// Colors for the pieces
-const PLAYER1_COLOR = "#e53e3e" // Red
-const PLAYER2_COLOR = "#3182ce" // Blue
 const POLLING_INTERVAL = 3000
 
+// Games from before difficulties existed play at the default level
+function getDifficultyLabel(difficulty: string | null) {
+  const value = difficulty ?? DEFAULT_TIC_TAC_TOE_DIFFICULTY
+  return TIC_TAC_TOE_DIFFICULTIES.find((option) => option.value === value)?.label ?? value
+}
+
 function GameLoading() {
   return <div>Loading...</div>
 }
@@ -95,6 +113,8 @@ export default function TicTacToeGame({ lobbyId, currentUser }: TicTacToeGamePro
           .from("game_states")
           .select("*")
           .eq("lobby_id", lobbyId)
+          .order("round", { ascending: false })
+          .limit(1)
           .single()
 
         if (gameStateError) {
@@ -390,6 +410,26 @@ export default function TicTacToeGame({ lobbyId, currentUser }: TicTacToeGamePro
     setTimeout(() => setIsRefreshing(false), 500)
   }
 
+  // The server picks and plays the AI's move
+  async function requestAIMove() {
+    if (!gameState) return
+
+    const response = await fetch(`/api/games/${gameState.id}/move`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ game: "tic-tac-toe", move: { type: "ai" } }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      console.error("Error making AI move:", errorData.error)
+    }
+
+    await fetchLatestGameState()
+  }
+
   // Function to handle cell click
   async function handleCellClick(rowIndex: number, colIndex: number) {
     console.log(`Cell clicked: row ${rowIndex}, col ${colIndex}`)
@@ -430,15 +470,18 @@ export default function TicTacToeGame({ lobbyId, currentUser }: TicTacToeGamePro
       // Update board locally first for immediate feedback
       updateBoardLocally(rowIndex, colIndex)
 
-      // Make the move using a server function
-      const { error } = await supabase.rpc("make_tic_tac_toe_move", {
-        game_state_id: gameState.id,
-        row_index: rowIndex,
-        col_index: colIndex,
+      // The server validates the move and checks for a winner
+      const response = await fetch(`/api/games/${gameState.id}/move`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ game: "tic-tac-toe", move: { type: "place", row: rowIndex, col: colIndex } }),
       })
 
-      if (error) {
-        console.error("Error making move:", error)
+      if (!response.ok) {
+        const errorData = await response.json()
+        console.error("Error making move:", errorData.error)
         // Don't alert the user, just log the error
         // Revert the local change by fetching the latest state
         fetchLatestGameState()
@@ -514,10 +557,6 @@ export default function TicTacToeGame({ lobbyId, currentUser }: TicTacToeGamePro
     return winningLine.some(([row, col]) => row === rowIndex && col === colIndex)
   }
 
-  function isCellEmpty(cell: string | number | null | undefined) {
-    return cell === "" || cell === 0 || cell === null || cell === undefined
-  }
-
   function shouldAnimateCell(rowIndex: number, colIndex: number) {
     // Only animate if this is the last move or part of the winning line
     const isLastMoveCell = lastMove?.row === rowIndex && lastMove?.col === colIndex
@@ -591,16 +630,36 @@ export default function TicTacToeGame({ lobbyId, currentUser }: TicTacToeGamePro
         {gameOver && (
           <div className="mb-6 p-4 bg-gray-100 rounded-lg text-center">
             {winner ? (
-              <p className="text-lg font-bold">
-                {winner === currentUser?.id ? "You won! 🎉" : `${getPlayerName(winner)} won!`}
-              </p>
+              <>
+                <p className="text-lg font-bold">
+                  {winner === currentUser?.id ? "You won! 🎉" : `${getPlayerName(winner)} won!`}
+                </p>
+                {gameState.forfeited_by && (
+                  <p className="text-sm text-gray-600">
+                    {gameState.forfeited_by === currentUser?.id ? "You" : getPlayerName(gameState.forfeited_by)}{" "}
+                    {gameState.forfeit_reason === "disconnect" ? "left the game" : "ran out of time"}
+                  </p>
+                )}
+              </>
             ) : (
               <p className="text-lg font-bold">Game ended in a draw!</p>
             )}
             <PlayAgainButton/>
+            <RematchPanel lobbyId={lobbyId} currentUserId={currentUser?.id} getPlayerName={getPlayerName} />
           </div>
         )}
 
+        {gameState.ai_opponent && gameState.player1 === currentUser?.id && (
+          <AIOpponent gameState={gameState} onMove={requestAIMove} />
+        )}
+
+        <TurnTimer
+          state={gameState}
+          gameKey="tic-tac-toe"
+          currentUserId={currentUser?.id}
+          getPlayerName={getPlayerName}
+        />
+
         <div className="grid grid-cols-2 gap-4 mb-6">
           <div
             className={`p-3 rounded-lg border-2 ${gameState.current_player === gameState.player1 && !gameOver && isPlaying ? "border-black" : "border-gray-200"}`}
@@ -630,7 +689,13 @@ export default function TicTacToeGame({ lobbyId, currentUser }: TicTacToeGamePro
               </div>
               <div>
                 <p className="font-bold">{getPlayerName(gameState.player2)}</p>
-                <p className="text-xs text-gray-500">{gameState.player2 === currentUser?.id ? "(You)" : ""}</p>
+                <p className="text-xs text-gray-500">
+                  {gameState.player2 === currentUser?.id
+                    ? "(You)"
+                    : gameState.ai_opponent
+                      ? `${getDifficultyLabel(gameState.ai_difficulty)} computer`
+                      : ""}
+                </p>
               </div>
             </div>
           </div>
@@ -643,64 +708,14 @@ export default function TicTacToeGame({ lobbyId, currentUser }: TicTacToeGamePro
             boxShadow: "0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)",
           }}
         >
-          <div className="grid grid-cols-3 gap-3">
-            {Array.isArray(board) && board.length === 3
-              ? board.map((row: (string | number)[], rowIndex: number) =>
-                  row.map((cell: string | number, colIndex: number) => {
-                    const isWinningCell = isCellInWinningLine(rowIndex, colIndex)
-                    const isEmpty = isCellEmpty(cell)
-                    const shouldAnimate = shouldAnimateCell(rowIndex, colIndex)
-
-                    return (
-                      <motion.div
-                        key={`${rowIndex}-${colIndex}`}
-                        className={`aspect-square bg-white rounded-md flex items-center justify-center relative overflow-hidden border-2 ${
-                          isWinningCell ? "border-green-500" : "border-gray-200"
-                        }`}
-                        onClick={() => handleCellClick(rowIndex, colIndex)}
-                        whileHover={
-                          isMyTurn() && isEmpty && !gameOver && isPlaying
-                            ? { scale: 1.05, backgroundColor: "#f9fafb" }
-                            : {}
-                        }
-                        whileTap={isMyTurn() && isEmpty && !gameOver && isPlaying ? { scale: 0.95 } : {}}
-                        style={{ cursor: isMyTurn() && isEmpty && !gameOver && isPlaying ? "pointer" : "default" }}
-                      >
-                        {!isEmpty && (
-                          <div
-                            className={`w-full h-full flex items-center justify-center font-bold text-3xl md:text-5xl ${
-                              shouldAnimate ? "animate-cell" : ""
-                            } ${isWinningCell ? "animate-winning-cell" : ""}`}
-                            style={{
-                              color: cell === gameState.player1 || cell === 1 ? PLAYER1_COLOR : PLAYER2_COLOR,
-                            }}
-                          >
-                            {cell === gameState.player1 || cell === 1 ? "X" : "O"}
-                          </div>
-                        )}
-                      </motion.div>
-                    )
-                  }),
-                )
-              : // Fallback if board is not properly structured
-                Array(3)
-                  .fill(null)
-                  .map((_, rowIndex) =>
-                    Array(3)
-                      .fill(null)
-                      .map((_, colIndex) => (
-                        <motion.div
-                          key={`${rowIndex}-${colIndex}`}
-                          className="aspect-square bg-white rounded-md flex items-center justify-center relative overflow-hidden border-2 border-gray-200"
-                          onClick={() => handleCellClick(rowIndex, colIndex)}
-                          whileHover={
-                            isMyTurn() && !gameOver && isPlaying ? { scale: 1.05, backgroundColor: "#f9fafb" } : {}
-                          }
-                          style={{ cursor: isMyTurn() && !gameOver && isPlaying ? "pointer" : "default" }}
-                        />
-                      )),
-                  )}
-          </div>
+          <TicTacToeBoard
+            board={board}
+            player1={gameState.player1}
+            winningLine={winningLine}
+            canPlay={!!isMyTurn() && !gameOver && isPlaying}
+            shouldAnimateCell={shouldAnimateCell}
+            onCellClick={handleCellClick}
+          />
 
           {/* Winning line animation */}
           {winningLine && (
@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { FaClock } from "react-icons/fa"
+import { formatClock, getRemainingTime, getTimedOutPlayer, isClockRunning, type ClockState } from "@/app/lib/games/clock"
+
+// How often an expired clock is reported again while the server disagrees, e.g. with clock skew
+const CLAIM_RETRY_INTERVAL = 3000
+const LOW_TIME = 10 * 1000
+
+interface TurnTimerProps {
+  state: ClockState & { id: string }
+  // Registry key passed to the timeout endpoint, e.g. "connect-four"
+  gameKey: string
+  currentUserId?: string
+  getPlayerName: (playerId: string) => string
+}
+
+// Counts down the clocks stored on the game state. The server owns the clocks,
+// this only shows them and asks the server to end the game once one runs out.
+export default function TurnTimer({ state, gameKey, currentUserId, getPlayerName }: TurnTimerProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const lastClaimRef = useRef(0)
+
+  const running = isClockRunning(state)
+  const hasLimit = !!state.move_time_limit || !!state.game_time_limit
+  const isPlayer = !!currentUserId && (currentUserId === state.player1 || currentUserId === state.player2)
+
+  useEffect(() => {
+    if (!running || !hasLimit) return
+
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [running, hasLimit])
+
+  // Spectators only watch the clocks, the players claim the timeout
+  useEffect(() => {
+    if (!isPlayer || !getTimedOutPlayer(state, now) || now - lastClaimRef.current < CLAIM_RETRY_INTERVAL) return
+    lastClaimRef.current = now
+
+    fetch(`/api/games/${state.id}/timeout`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ game: gameKey }),
+    }).catch((err) => console.error("Error claiming timeout:", err))
+  }, [isPlayer, state, now, gameKey])
+
+  if (!running || !hasLimit) return null
+
+  const players = [state.player1, state.player2].filter((player): player is string => !!player)
+  const move = getRemainingTime(state, state.current_player, now).move
+
+  return (
+    <div className="mb-6 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+      {move !== null && (
+        <div className={`flex items-center justify-center mb-2 font-bold ${move <= LOW_TIME ? "text-red-600 animate-pulse" : ""}`}>
+          <FaClock className="mr-2" />
+          <span>
+            {state.current_player === currentUserId ? "Your move" : `${getPlayerName(state.current_player)}'s move`}:{" "}
+            {formatClock(move)}
+          </span>
+        </div>
+      )}
+      {state.game_time_limit && (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          {players.map((player) => {
+            const game = getRemainingTime(state, player, now).game ?? 0
+            return (
+              <div
+                key={player}
+                className={`flex justify-between px-2 py-1 rounded ${
+                  player === state.current_player ? "bg-white shadow-sm" : "text-gray-500"
+                } ${game <= LOW_TIME ? "text-red-600" : ""}`}
+              >
+                <span className="truncate mr-2">{player === currentUserId ? "You" : getPlayerName(player)}</span>
+                <span className="font-mono">{formatClock(game)}</span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
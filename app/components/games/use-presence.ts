@@ -0,0 +1,76 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
+import {
+  PRESENCE_HEARTBEAT_INTERVAL,
+  getPresenceChannelName,
+  type PresenceSnapshot,
+} from "@/app/lib/games/presence"
+
+export interface LobbyPresence {
+  // Players currently joined to the lobby's realtime channel
+  onlineIds: string[]
+  snapshot: PresenceSnapshot | null
+  // When the snapshot arrived, so absences can keep counting up between heartbeats
+  receivedAt: number
+}
+
+// Joins the lobby's presence channel and keeps the server heartbeat going for
+// as long as the page is open
+export function usePresence(lobbyId: string | null, userId: string | null | undefined): LobbyPresence {
+  const [onlineIds, setOnlineIds] = useState<string[]>([])
+  const [snapshot, setSnapshot] = useState<PresenceSnapshot | null>(null)
+  const [receivedAt, setReceivedAt] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!lobbyId || !userId) return
+
+    let isActive = true
+    const supabase = createClientComponentClient()
+
+    const channel = supabase.channel(getPresenceChannelName(lobbyId), {
+      config: { presence: { key: userId } },
+    })
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        if (isActive) setOnlineIds(Object.keys(channel.presenceState()))
+      })
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED") {
+          await channel.track({ online_at: new Date().toISOString() })
+        }
+      })
+
+    async function sendHeartbeat() {
+      try {
+        const response = await fetch(`/api/lobbies/${lobbyId}/presence`, { method: "POST" })
+        const data = await response.json()
+
+        if (!response.ok) {
+          console.error("Error sending heartbeat:", data.error)
+          return
+        }
+
+        if (isActive) {
+          setSnapshot(data)
+          setReceivedAt(Date.now())
+        }
+      } catch (err) {
+        console.error("Error sending heartbeat:", err)
+      }
+    }
+
+    sendHeartbeat()
+    const interval = setInterval(sendHeartbeat, PRESENCE_HEARTBEAT_INTERVAL)
+
+    return () => {
+      isActive = false
+      clearInterval(interval)
+      supabase.removeChannel(channel)
+    }
+  }, [lobbyId, userId])
+
+  return { onlineIds, snapshot, receivedAt }
+}
@@ -0,0 +1,74 @@
+// app/contexts/PresenceContext.tsx
+'use client';
+
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import { ONLINE_PRESENCE_CHANNEL } from '../lib/friends';
+
+interface PresenceContextType {
+  // The signed in user, null for guests
+  userId: string | null;
+  // Everyone with a page open right now
+  onlineIds: string[];
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+// Keeps the signed in user in the site-wide presence channel on every page,
+// which is what friends lists read online status from
+export function PresenceProvider({ children }: { children: ReactNode }) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [onlineIds, setOnlineIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const supabase = createClientComponentClient();
+
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user.id ?? null));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setOnlineIds([]);
+      return;
+    }
+
+    const supabase = createClientComponentClient();
+    const channel = supabase.channel(ONLINE_PRESENCE_CHANNEL, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineIds(Object.keys(channel.presenceState()));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  return (
+    <PresenceContext.Provider value={{ userId, onlineIds }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
+
+export function useOnlinePresence() {
+  const context = useContext(PresenceContext);
+  if (!context) {
+    throw new Error('useOnlinePresence must be used within a PresenceProvider');
+  }
+  return context;
+}
@@ -2,12 +2,24 @@
 
 import Link from "next/link"
 import { useState, useEffect } from "react"
-import { FaArrowLeft, FaPlus, FaTrophy, FaHandshake, FaLightbulb, FaSearch } from "react-icons/fa"
+import {
+  FaArrowLeft,
+  FaPlus,
+  FaTrophy,
+  FaHandshake,
+  FaLightbulb,
+  FaSearch,
+  FaBolt,
+  FaEye,
+  FaUserFriends,
+} from "react-icons/fa"
 import { createClientComponentClient, type User } from "@supabase/auth-helpers-nextjs"
 import UsernameModal from "@/comps/set-username"
 import SuggestionModal from "@/comps/SuggestionModal"
+import QuickMatchModal from "@/comps/QuickMatchModal"
 import { motion } from "framer-motion"
 import { useRouter } from "next/navigation"
+import { formatPlayerCount, gameRegistry, getGameById, type GameDefinition } from "@/app/lib/games/registry"
 
 type UserProfile = {
   id: string
@@ -28,6 +40,9 @@ type Lobby = {
   needsPlayer: boolean
   createdAt: string
   singlePlayer?: boolean
+  // Match already being played, offered to spectators instead of joined
+  isLive?: boolean
+  player2?: string
 }
 
 type ActiveGame = {
@@ -38,6 +53,18 @@ type ActiveGame = {
   yourTurn: boolean
 }
 
+type LiveMatchRow = {
+  id: string
+  lobby_id: string
+  player1: string
+  player2: string
+  started_at: string | null
+  lobbies: {
+    game_id: number
+    created_at: string
+  }
+}
+
 type GameState = {
   id: string
   lobby_id: string
@@ -58,82 +85,29 @@ type GameState = {
 
 const supabase = createClientComponentClient()
 
-// Currently we're just using demo games, because we don't have any actual functioning games implemented yet (keep in mind the "yet", they are being worked on as we speak)
-const currentGames = [
-  {
-    id: 3,
-    title: "Connect Four",
-    description: "Vertical strategy game where players drop colored discs.",
-    image: "/connect.svg?height=200&width=300",
-    players: "2 players",
-    singlePlayer: false,
-  },
-  {
-    id: 2,
-    title: "Tic Tac Toe",
-    description: "Simple game of X's and O's on a 3x3 grid.",
-    image: "/tictac.svg?height=200&width=300",
-    players: "2 players",
-    singlePlayer: false,
-  },
-  {
-    id: 7,
-    title: "Balloon Game",
-    description: "Take turns pumping a balloon - but don't let it pop!",
-    image: "/balloon.svg?height=200&width=300",
-    players: "2 players", 
-    singlePlayer: false,
-  },
-  {
-    id: 4,
-    title: "Battleship",
-    description: "Naval combat strategy game with hidden ship placement.",
-    image: "/battleship.svg?height=200&width=300",
-    players: "2 players",
-    singlePlayer: false,
-  },
-  {
-    id: 5,
-    title: "Minesweeper",
-    description: "Classic puzzle game where you clear a minefield without detonating any mines.",
-    image: "/minesweeper.svg?height=200&width=300",
-    players: "1 player",
-    singlePlayer: true,
-  },
-  {
-    id: 6,
-    title: "Sliding Puzzle",
-    description: "Classic sliding tile puzzle. Rearrange the tiles to solve the puzzle.",
-    image: "/sliding.svg?height=200&width=300",
-    players: "1 player",
-    singlePlayer: true,
-  },
-  {
-    id: 8,
-    title: "Corruptle",
-    description: "Guess the daily five-letter word in six tries. Each guess gives you hints!",
-    image: "/corrupt.svg?height=200&width=300",
-    players: "1 player",
-    singlePlayer: true,
-  },
-]
-
 export default function ExplorePage() {
   const [searchTerm, setSearchTerm] = useState("")
   const [showUsernameModal, setShowUsernameModal] = useState(false)
   const [showSuggestionModal, setShowSuggestionModal] = useState(false)
+  const [quickMatchGame, setQuickMatchGame] = useState<GameDefinition | null>(null)
+  // The AI difficulty picked on each game's card, games without one are against people
+  const [aiDifficulties, setAiDifficulties] = useState<Record<number, string>>({})
   const [user, setUser] = useState<User | null>(null)
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [activeLobbies, setActiveLobbies] = useState<Lobby[]>([])
+  const [liveMatches, setLiveMatches] = useState<Lobby[]>([])
   const [activeGames, setActiveGames] = useState<ActiveGame[]>([])
   const [showLobbies, setShowLobbies] = useState(false)
   const [showAllGames, setShowAllGames] = useState(true)
   const [lobbiesToShow, setLobbiesToShow] = useState(3)
   const router = useRouter()
 
+  // Open lobbies first, then the matches that can be watched
+  const lobbyList = [...activeLobbies, ...liveMatches]
+
   // Filter games based on search
-  const filteredGames = currentGames.filter((game) => game.title.toLowerCase().includes(searchTerm.toLowerCase()))
+  const filteredGames = gameRegistry.filter((game) => game.title.toLowerCase().includes(searchTerm.toLowerCase()))
 
   useEffect(() => {
     async function runCleanup() {
@@ -216,8 +190,9 @@ export default function ExplorePage() {
           }
         }
 
-        // Fetch all active lobbies
+        // Fetch all active lobbies and the matches people can watch
         fetchActiveLobbies()
+        fetchLiveMatches(session.user.id)
 
         // Set up sub for lobby changes
         const lobbySubscription = supabase
@@ -227,6 +202,7 @@ export default function ExplorePage() {
           })
           .on("postgres_changes", { event: "*", schema: "public", table: "game_states" }, () => {
             fetchActiveLobbies()
+            fetchLiveMatches(session.user.id)
           })
           .subscribe()
 
@@ -270,10 +246,12 @@ export default function ExplorePage() {
             id,
             game_id,
             created_by,
-            created_at
+            created_at,
+            visibility
           )
         `)
         .eq("status", "waiting")
+        .eq("lobbies.visibility", "public")
         .order("created_at", { ascending: false })
         .limit(10)
 
@@ -391,6 +369,71 @@ export default function ExplorePage() {
     }
   }
 
+  // Multiplayer matches between two people in public lobbies that are still going, for spectators
+  async function fetchLiveMatches(userId: string) {
+    try {
+      const { data, error } = await supabase
+        .from("game_states")
+        .select(`
+          id,
+          lobby_id,
+          player1,
+          player2,
+          started_at,
+          lobbies!inner(
+            game_id,
+            created_at,
+            visibility
+          )
+        `)
+        .eq("status", "playing")
+        .eq("lobbies.visibility", "public")
+        .eq("ai_opponent", false)
+        .not("player2", "is", null)
+        .order("started_at", { ascending: false })
+        .limit(10)
+
+      if (error) {
+        console.error("Error fetching live matches:", error)
+        return
+      }
+
+      // The user's own matches are already listed under their active games
+      const rows = (data as unknown as LiveMatchRow[]).filter(
+        (row) => row.player1 !== userId && row.player2 !== userId && !getGameById(row.lobbies?.game_id)?.singlePlayer,
+      )
+
+      const playerIds = rows.flatMap((row) => [row.player1, row.player2])
+
+      let playerProfiles: { id: string; username: string | null }[] = []
+      if (playerIds.length > 0) {
+        const { data: profiles } = await supabase.from("profiles").select("id, username").in("id", playerIds)
+        playerProfiles = profiles || []
+      }
+
+      const getUsername = (playerId: string) =>
+        playerProfiles.find((p) => p.id === playerId)?.username || "Unknown Player"
+
+      setLiveMatches(
+        rows.map((row) => ({
+          id: row.lobby_id,
+          gameStateId: row.id,
+          gameId: row.lobbies.game_id,
+          gameTitle: getGameById(row.lobbies.game_id)?.title || "Unknown Game",
+          player1: getUsername(row.player1),
+          player1Id: row.player1,
+          player2Id: row.player2,
+          needsPlayer: false,
+          createdAt: row.started_at || row.lobbies.created_at,
+          isLive: true,
+          player2: getUsername(row.player2),
+        })),
+      )
+    } catch (err) {
+      console.error("Error in fetchLiveMatches:", err)
+    }
+  }
+
   // Handle username setting
   function handleUsernameSet(username: string) {
     // Update the local state with new username
@@ -418,24 +461,29 @@ export default function ExplorePage() {
     }
 
     // Find the game to check if it's single-player
-    const game = currentGames.find((g) => g.id === gameId)
+    const game = getGameById(gameId)
 
     try {
-      // Use the new function to create a lobby with game state in one go
-      const { data, error } = await supabase.rpc("create_lobby_with_game_state", { game_id: gameId })
-
-      if (error) {
-        console.error("Error creating lobby:", error)
+      // The lobby and its game state are created together, with the AI opponent if one was picked
+      const response = await fetch("/api/lobbies", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ gameId, aiDifficulty: aiDifficulties[gameId] || null }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        console.error("Error creating lobby:", data.error)
         alert("Failed to create lobby. Please try again.")
         return
       }
 
       // For single-player games, go directly to the game page
       if (game?.singlePlayer) {
-        window.location.href = `/game/${data}`
+        window.location.href = `/game/${data.lobbyId}`
       } else {
         // For multiplayer games, go to the lobby page
-        window.location.href = `/lobby/${data}`
+        window.location.href = `/lobby/${data.lobbyId}`
       }
     } catch (err) {
       console.error("Error creating lobby:", err)
@@ -618,6 +666,8 @@ export default function ExplorePage() {
         userId={user?.id}
       />
 
+      <QuickMatchModal game={quickMatchGame} onClose={() => setQuickMatchGame(null)} />
+
       <motion.header
         className="max-w-6xl mx-auto mb-6 sm:mb-8"
         initial={{ y: -20, opacity: 0 }}
@@ -676,6 +726,16 @@ export default function ExplorePage() {
                 <FaHandshake />
               </motion.div>
             </Link>
+            <Link href="/friends">
+              <motion.div
+                className="flex items-center justify-center w-10 h-10 bg-black text-white rounded-full"
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.95 }}
+                title="Friends"
+              >
+                <FaUserFriends />
+              </motion.div>
+            </Link>
             <Link href="/leaderboard">
               <motion.div
                 className="flex items-center justify-center w-10 h-10 bg-black text-white rounded-full"
@@ -775,7 +835,7 @@ export default function ExplorePage() {
         </motion.div>
 
         {/* Collapsible Active Lobbies section */}
-        {activeLobbies.length > 0 && (
+        {lobbyList.length > 0 && (
           <motion.div
             className="mb-12"
             initial={{ opacity: 0, y: 20 }}
@@ -798,7 +858,7 @@ export default function ExplorePage() {
                 animate={{ opacity: 1 }}
                 transition={{ staggerChildren: 0.1 }}
               >
-                {activeLobbies.slice(0, lobbiesToShow).map((lobby, index) => (
+                {lobbyList.slice(0, lobbiesToShow).map((lobby, index) => (
                   <motion.div
                     key={lobby.id}
                     className="border-2 border-black rounded-lg overflow-hidden"
@@ -819,18 +879,41 @@ export default function ExplorePage() {
                       <h4 className="font-bold">{lobby.gameTitle}</h4>
                     </div>
                     <div className="p-4">
-                      <p className="text-gray-700 mb-2">Created by: {lobby.player1}</p>
-                      <p className="text-sm text-gray-500 mb-4">
-                        {lobby.needsPlayer ? "Waiting for opponent" : "Ready to start"}
-                      </p>
-                      <Link href={`/lobby/${lobby.id}`}>
+                      {lobby.isLive ? (
+                        <>
+                          <p className="text-gray-700 mb-2">
+                            {lobby.player1} vs {lobby.player2}
+                          </p>
+                          <p className="text-sm text-red-600 mb-4 flex items-center">
+                            <span className="inline-block w-2 h-2 rounded-full bg-red-600 mr-2 animate-pulse"></span>
+                            Live now
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <p className="text-gray-700 mb-2">Created by: {lobby.player1}</p>
+                          <p className="text-sm text-gray-500 mb-4">
+                            {lobby.needsPlayer ? "Waiting for opponent" : "Ready to start"}
+                          </p>
+                        </>
+                      )}
+                      <Link href={lobby.isLive ? `/game/${lobby.id}` : `/lobby/${lobby.id}`}>
                         <motion.button
                           className="w-full flex items-center justify-center bg-black text-white p-2 rounded-lg"
                           whileHover={{ scale: 1.02, backgroundColor: "#1f2937" }}
                           whileTap={{ scale: 0.98 }}
                           transition={{ type: "spring", stiffness: 400, damping: 17 }}
                         >
-                          {lobby.needsPlayer ? "Join Game" : "View Lobby"}
+                          {lobby.isLive ? (
+                            <>
+                              <FaEye className="mr-2" />
+                              Watch
+                            </>
+                          ) : lobby.needsPlayer ? (
+                            "Join Game"
+                          ) : (
+                            "View Lobby"
+                          )}
                         </motion.button>
                       </Link>
                     </div>
@@ -838,7 +921,7 @@ export default function ExplorePage() {
                 ))}
               </motion.div>
             )}
-            {showLobbies && activeLobbies.length > lobbiesToShow && (
+            {showLobbies && lobbyList.length > lobbiesToShow && (
               <div className="flex justify-center mt-4">
                 <button
                   className="px-4 py-2 border border-black rounded hover:bg-gray-100 transition"
@@ -896,8 +979,25 @@ export default function ExplorePage() {
                   <div className="p-3 sm:p-4 flex-grow flex flex-col">
                     <h3 className="text-lg sm:text-xl font-bold text-black">{game.title}</h3>
                     <p className="text-sm sm:text-base text-gray-700 mb-2 min-h-[40px]">{game.description}</p>
-                    <p className="text-xs sm:text-sm text-gray-500 mb-3 sm:mb-4">{game.players}</p>
+                    <p className="text-xs sm:text-sm text-gray-500 mb-3 sm:mb-4">{formatPlayerCount(game)}</p>
                     <div className="mt-auto">
+                      {game.supportsAI && game.aiDifficulties && (
+                        <label className="flex items-center justify-between gap-2 mb-2 text-sm text-gray-700">
+                          <span className="font-medium">Opponent</span>
+                          <select
+                            value={aiDifficulties[game.id] ?? ""}
+                            onChange={(e) => setAiDifficulties((prev) => ({ ...prev, [game.id]: e.target.value }))}
+                            className="border border-gray-300 rounded-md px-2 py-1 bg-white text-black"
+                          >
+                            <option value="">Other players</option>
+                            {game.aiDifficulties.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                Computer ({option.label})
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
                       <motion.button
                         onClick={() => createLobby(game.id)}
                         className="w-full flex items-center justify-center bg-black text-white p-2 rounded-lg text-sm sm:text-base"
@@ -908,6 +1008,18 @@ export default function ExplorePage() {
                         <FaPlus className="mr-2" />
                         Create Lobby
                       </motion.button>
+                      {!game.singlePlayer && game.rules && (
+                        <motion.button
+                          onClick={() => setQuickMatchGame(game)}
+                          className="w-full flex items-center justify-center bg-white text-black border-2 border-black p-2 rounded-lg text-sm sm:text-base mt-2"
+                          whileHover={{ scale: 1.02, backgroundColor: "#f3f4f6" }}
+                          whileTap={{ scale: 0.98 }}
+                          transition={{ type: "spring", stiffness: 400, damping: 17 }}
+                        >
+                          <FaBolt className="mr-2" />
+                          Quick Match
+                        </motion.button>
+                      )}
                     </div>
                   </div>
                 </motion.div>
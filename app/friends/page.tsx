@@ -0,0 +1,44 @@
+"use client"
+
+import Link from "next/link"
+import { motion } from "framer-motion"
+import { FaArrowLeft, FaUserFriends } from "react-icons/fa"
+import FriendsList from "@/app/components/FriendsList"
+
+export default function FriendsPage() {
+  return (
+    <div className="text-black bg-white min-h-screen p-8 font-[family-name:var(--font-geist-sans)]">
+      <div className="max-w-2xl mx-auto">
+        <header className="mb-8">
+          <div className="flex justify-between items-center">
+            <Link href="/explore" className="flex items-center text-black">
+              <FaArrowLeft className="mr-2" />
+              <span>Back to Games</span>
+            </Link>
+            <Link href="/explore">
+              <div className="flex">
+                <h1 className="text-2xl font-bold text-black">CSGames</h1>
+                <span className="text-black text-2xl">.dev</span>
+              </div>
+            </Link>
+          </div>
+        </header>
+
+        <main>
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="border-2 border-black rounded-lg p-6"
+          >
+            <h2 className="text-3xl font-bold mb-6 flex items-center">
+              <FaUserFriends className="mr-3" />
+              Friends
+            </h2>
+            <FriendsList />
+          </motion.div>
+        </main>
+      </div>
+    </div>
+  )
+}
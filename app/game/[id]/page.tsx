@@ -5,36 +5,16 @@ import { useEffect, useState } from "react"
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import type { User } from "@supabase/supabase-js"
 import { useRouter } from "next/navigation"
-import ConnectFourGame from "@/app/components/games/connect-four-game"
-import TicTacToeGame from "@/app/components/games/tic-tac-toe-game"
-import MinesweeperGame from "@/app/components/games/minesweep"
-import BattleshipGame from "@/app/components/games/battleship"
-import BalloonGame from "@/app/components/games/balloon-game"
 import GameLoading from "@/app/components/games/game-loading"
 import Link from "next/link"
-import { FaGamepad, FaArrowLeft } from "react-icons/fa"
-import TicTacToeAIOpponent from "@/app/components/games/tic-tac-toe-opponent"
-import SlidingPuzzle from "@/app/components/games/sliding-puzzle"
-import WordleGame from "@/app/components/games/wordle-game"
-
-interface TicTacToeGameState {
-  id: string
-  lobby_id: string
-  board: (string | null)[][]
-  current_player: string
-  player1: string
-  player2: string
-  status: "waiting" | "playing" | "completed"
-  winner: string | null
-  ai_opponent: boolean
-}
-
-interface Game {
-  id: string
-  title: string
-  singlePlayer?: boolean
-  [key: string]: unknown
-}
+import { FaGamepad, FaArrowLeft, FaEye } from "react-icons/fa"
+import OpponentPresence from "@/app/components/games/opponent-presence"
+import { usePresence } from "@/app/components/games/use-presence"
+import { getGameById } from "@/app/lib/games/registry"
+import { getGameComponent } from "@/app/lib/games/components"
+import { getSeatedPlayers } from "@/app/lib/games/engine"
+import { getGameRoomId, getSpectatorRoomId } from "@/app/lib/chat"
+import RoomChat from "@/app/components/RoomChat"
 
 interface Lobby {
   id: string
@@ -45,6 +25,9 @@ interface Lobby {
 interface GameState {
   id: string
   lobby_id: string
+  player1: string
+  player2: string | null
+  players?: string[] | null
   ai_opponent?: boolean
   started_at?: string
   ended_at?: string
@@ -58,7 +41,6 @@ export default function GamePage({ params: paramsPromise }: { params: Promise<{
 
   const [currentUser, setCurrentUser] = useState<User | null>(null)
   const [lobby, setLobby] = useState<Lobby | null>(null)
-  const [game, setGame] = useState<Game | null>(null)
   const [gameState, setGameState] = useState<GameState | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -125,35 +107,21 @@ export default function GamePage({ params: paramsPromise }: { params: Promise<{
 
         if (isActive) setLobby(lobbyData)
 
-        // Enhanced game data fetching
-        if (lobbyData?.game_id) {
-          const { data: gameData, error: gameError } = await supabase
-            .from("games")
-            .select("*")
-            .eq("id", lobbyData.game_id)
-            .single()
-
-          if (gameError) {
-            if (gameError.code === "PGRST116") {
-              throw new Error("The requested game type no longer exists.")
-            }
-            throw gameError
-          }
-
-          if (!gameData) {
-            throw new Error("Game configuration not found. Please try a different game.")
-          }
-
-          if (isActive) setGame(gameData)
-        } else {
+        if (!lobbyData.game_id) {
           throw new Error("Invalid game configuration. Please create a new game.")
         }
 
+        if (!getGameById(lobbyData.game_id)) {
+          throw new Error("The requested game type no longer exists.")
+        }
+
         // Enhanced game state fetching
         const { data: gameStateData, error: gameStateError } = await supabase
           .from("game_states")
           .select("*")
           .eq("lobby_id", params.id)
+          .order("round", { ascending: false })
+          .limit(1)
           .single()
 
         if (gameStateError) {
@@ -167,6 +135,12 @@ export default function GamePage({ params: paramsPromise }: { params: Promise<{
           throw new Error("Unable to load game progress. Please return to the lobby.")
         }
 
+        // Solo games have nothing to follow, only their player may open them
+        const isPlayer = getSeatedPlayers(gameStateData).includes(session.user.id)
+        if (getGameById(lobbyData.game_id)?.singlePlayer && !isPlayer) {
+          throw new Error("This game can't be watched. Only multiplayer matches can be spectated.")
+        }
+
         if (isActive) setGameState(gameStateData)
       } catch (err: unknown) {
         console.error("Error loading game:", err)
@@ -184,25 +158,10 @@ export default function GamePage({ params: paramsPromise }: { params: Promise<{
     }
   }, [params.id, router, supabase])
 
-  // Handle AI moves for Tic Tac Toe
-  async function handleAIMove(row: number, col: number) {
-    if (!gameState || !currentUser) return
-
-    try {
-      // Make the move using a server function
-      const { error } = await supabase.rpc("make_ai_tic_tac_toe_move", {
-        game_state_id: gameState.id,
-        row_index: row,
-        col_index: col,
-      })
-
-      if (error) {
-        console.error("Error making AI move:", error)
-      }
-    } catch (err) {
-      console.error("Error in handleAIMove:", err)
-    }
-  }
+  const game = lobby ? getGameById(lobby.game_id) : null
+  const GameComponent = game ? getGameComponent(game.key) : null
+  // Everyone with the page open joins the presence channel, players and spectators alike
+  const presence = usePresence(gameState && !game?.singlePlayer ? params.id : null, currentUser?.id)
 
   // Render loading state
   if (loading) {
@@ -210,7 +169,7 @@ export default function GamePage({ params: paramsPromise }: { params: Promise<{
   }
 
   // Render error state with enhanced UI
-  if (error || !lobby || !game || !gameState) {
+  if (error || !lobby || !game || !GameComponent || !gameState) {
     return (
       <div className="bg-gradient-to-b from-white to-gray-50 min-h-screen font-[family-name:var(--font-geist-sans)]">
         <header className="max-w-4xl mx-auto p-8">
@@ -316,33 +275,44 @@ export default function GamePage({ params: paramsPromise }: { params: Promise<{
     )
   }
 
-  // Render the appropriate game based on game.title and whether it's an AI opp
+  const seated = getSeatedPlayers(gameState)
+  const isPlayer = !!currentUser && seated.includes(currentUser.id)
+  const spectatorCount = presence.onlineIds.filter((id) => !seated.includes(id)).length
+
+  // Render the lobby's game from the registry and whether it's an AI opp
   return (
     <div className="relative">
-      <div className="absolute top-4 right-4 bg-black text-white px-3 py-1 rounded-lg font-mono z-10">
-        Time: {formatTime(elapsedTime)}
+      <div className="absolute top-4 right-4 flex items-center gap-2 z-10">
+        {!isPlayer && (
+          <div className="bg-blue-600 text-white px-3 py-1 rounded-lg text-sm">Spectating</div>
+        )}
+        {spectatorCount > 0 && (
+          <div className="bg-gray-100 text-black px-3 py-1 rounded-lg text-sm flex items-center" title="People watching">
+            <FaEye className="mr-1" />
+            {spectatorCount}
+          </div>
+        )}
+        <div className="bg-black text-white px-3 py-1 rounded-lg font-mono">Time: {formatTime(elapsedTime)}</div>
       </div>
-      {game.title === "Balloon Game" && <BalloonGame lobbyId={lobby.id} currentUser={currentUser} />}
-
-      {game.title === "Connect Four" && <ConnectFourGame lobbyId={lobby.id} currentUser={currentUser} />}
-
-      {game.title === "Tic Tac Toe" && (
-        <>
-          <TicTacToeGame lobbyId={lobby.id} currentUser={currentUser} />
-          {gameState.ai_opponent && (
-            <TicTacToeAIOpponent
-              gameState={gameState as unknown as TicTacToeGameState}
-              currentUser={currentUser}
-              onMove={handleAIMove}
-            />
-          )}
-        </>
+      <GameComponent lobbyId={lobby.id} currentUser={currentUser} />
+      {!game.singlePlayer && !gameState.ai_opponent && isPlayer && seated.length === 2 && (
+        <OpponentPresence
+          lobbyId={lobby.id}
+          currentUserId={currentUser?.id}
+          opponentId={currentUser?.id === gameState.player1 ? gameState.player2 : gameState.player1}
+          presence={presence}
+        />
+      )}
+      {/* Players and spectators talk in separate rooms so nobody can coach from the stands */}
+      {!game.singlePlayer && !gameState.ai_opponent && (
+        <div className="max-w-4xl mx-auto px-8 pb-8">
+          <RoomChat
+            roomId={isPlayer ? getGameRoomId(lobby.id) : getSpectatorRoomId(lobby.id)}
+            title={isPlayer ? "Game Chat" : "Spectator Chat"}
+            userId={currentUser?.id ?? null}
+          />
+        </div>
       )}
-
-      {game.title === "Minesweeper" && <MinesweeperGame lobbyId={lobby.id} currentUser={currentUser} />}
-      {game.title === "Battleship" && <BattleshipGame lobbyId={lobby.id} currentUser={currentUser} />}
-      {game.title === "Sliding Puzzle" && <SlidingPuzzle lobbyId={lobby.id} currentUser={currentUser} />}
-      {game.title === "Corruptle" && <WordleGame />}
     </div>
   )
 }
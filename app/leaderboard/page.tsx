@@ -4,6 +4,7 @@ import Link from "next/link"
 import { useState, useEffect } from "react"
 import { FaArrowLeft, FaTrophy, FaSync } from "react-icons/fa"
 import { motion } from "framer-motion"
+import { gameRegistry } from "@/app/lib/games/registry"
 
 interface LeaderboardEntry {
   id: string
@@ -13,6 +14,22 @@ interface LeaderboardEntry {
   win_percentage: number
   rank: number
   total_time: number // in seconds
+  // Only set on per-game rating tables
+  rating?: number
+  rating_change?: number
+}
+
+// Only games with a server-side rule engine have verified results to rank
+const rankedGames = gameRegistry.filter((game) => game.rules)
+
+function formatRatingChange(change: number): string {
+  return change > 0 ? `+${change}` : `${change}`
+}
+
+function getRatingChangeColor(change: number): string {
+  if (change > 0) return "text-green-600"
+  if (change < 0) return "text-red-600"
+  return "text-gray-500"
 }
 
 function formatPlayTime(seconds: number): string {
@@ -31,11 +48,12 @@ export default function LeaderboardPage() {
   const [error, setError] = useState<string | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [timeframe, setTimeframe] = useState<"all" | "month" | "week">("all")
-  const [sortBy, setSortBy] = useState<"wins" | "games" | "winrate" | "playtime">("wins")
+  const [sortBy, setSortBy] = useState<"wins" | "games" | "winrate" | "playtime" | "rating">("wins")
+  const [ratedGame, setRatedGame] = useState(rankedGames[0]?.key ?? "")
 
   useEffect(() => {
     fetchLeaderboard()
-  }, [timeframe, sortBy])
+  }, [timeframe, sortBy, ratedGame])
 
   async function fetchLeaderboard() {
     try {
@@ -43,7 +61,9 @@ export default function LeaderboardPage() {
       setError(null)
 
       // Fetch leaderboard data from the API
-      const response = await fetch(`/api/leaderboard?timeframe=${timeframe}&sort=${sortBy}`)
+      // Ratings are kept per game
+      const gameFilter = sortBy === "rating" ? `&game=${ratedGame}` : ""
+      const response = await fetch(`/api/leaderboard?timeframe=${timeframe}&sort=${sortBy}${gameFilter}`)
 
       if (!response.ok) {
         throw new Error("Failed to fetch leaderboard data")
@@ -182,7 +202,7 @@ export default function LeaderboardPage() {
         >
           <div>
             <h2 className="text-3xl font-bold text-black mb-2">Leaderboard</h2>
-            <p className="text-gray-600">Players with the most wins across all games</p>
+            <p className="text-gray-600">Players with the most wins across {rankedGames.map((game) => game.title).join(", ")}</p>
           </div>
 
           <div className="flex items-center mt-4 md:mt-0">
@@ -241,11 +261,31 @@ export default function LeaderboardPage() {
                 >
                   Time
                 </button>
+                <button
+                  onClick={() => setSortBy("rating")}
+                  className={`px-3 py-1 ${sortBy === "rating" ? "bg-black text-white" : "bg-white text-black"}`}
+                >
+                  Rating
+                </button>
               </div>
             </div>
           </div>
         </motion.div>
 
+        {sortBy === "rating" && (
+          <div className="flex flex-wrap border-2 border-black rounded-lg overflow-hidden mb-8 w-fit">
+            {rankedGames.map((game) => (
+              <button
+                key={game.key}
+                onClick={() => setRatedGame(game.key)}
+                className={`px-3 py-1 ${ratedGame === game.key ? "bg-black text-white" : "bg-white text-black"}`}
+              >
+                {game.title}
+              </button>
+            ))}
+          </div>
+        )}
+
         {isLoading && !isRefreshing ? (
           <LeaderboardSkeleton />
         ) : error ? (
@@ -287,7 +327,8 @@ export default function LeaderboardPage() {
                         <h3 className="text-xl font-bold">{entry.username}</h3>
                       </Link>
                       <p className="text-3xl font-bold my-2">
-                        {sortBy === "wins" ? `${entry.wins} wins` :
+                        {sortBy === "rating" ? `${entry.rating ?? 0}` :
+                         sortBy === "wins" ? `${entry.wins} wins` :
                          sortBy === "games" ? `${entry.games_played} games` :
                          sortBy === "winrate" ? `${Math.round(entry.win_percentage)}%` :
                          formatPlayTime(entry.total_time)}
@@ -295,9 +336,15 @@ export default function LeaderboardPage() {
                       <p className="text-gray-600 text-sm">
                         {entry.games_played} games played • {Math.round(entry.win_percentage)}% win rate
                       </p>
-                      <p className="text-gray-600 text-sm mt-1">
-                        {formatPlayTime(entry.total_time)} total play time
-                      </p>
+                      {sortBy === "rating" ? (
+                        <p className={`text-sm mt-1 ${getRatingChangeColor(entry.rating_change ?? 0)}`}>
+                          {formatRatingChange(entry.rating_change ?? 0)} rating
+                        </p>
+                      ) : (
+                        <p className="text-gray-600 text-sm mt-1">
+                          {formatPlayTime(entry.total_time)} total play time
+                        </p>
+                      )}
                     </div>
                   </motion.div>
                 ))}
@@ -318,12 +365,19 @@ export default function LeaderboardPage() {
                       <th className="px-6 py-3 text-right text-sm font-bold">Wins</th>
                       <th className="px-6 py-3 text-right text-sm font-bold">Games</th>
                       <th className="px-6 py-3 text-right text-sm font-bold">Win Rate</th>
-                      <th className="px-6 py-3 text-right text-sm font-bold">Play Time</th>
+                      {sortBy === "rating" ? (
+                        <>
+                          <th className="px-6 py-3 text-right text-sm font-bold">Rating</th>
+                          <th className="px-6 py-3 text-right text-sm font-bold">Change</th>
+                        </>
+                      ) : (
+                        <th className="px-6 py-3 text-right text-sm font-bold">Play Time</th>
+                      )}
                     </tr>
                   </thead>
                   <tbody>                    {leaderboard.length === 0 ? (
                       <tr>
-                        <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                        <td colSpan={sortBy === "rating" ? 7 : 6} className="px-6 py-8 text-center text-gray-500">
                           No players found. Be the first to win a game!
                         </td>
                       </tr>
@@ -355,9 +409,20 @@ export default function LeaderboardPage() {
                           <td className="px-6 py-4 text-right">
                             <span className={sortBy === "winrate" ? "font-bold" : ""}>{Math.round(entry.win_percentage)}%</span>
                           </td>
-                          <td className="px-6 py-4 text-right">
-                            <span className={sortBy === "playtime" ? "font-bold" : ""}>{formatPlayTime(entry.total_time)}</span>
-                          </td>
+                          {sortBy === "rating" ? (
+                            <>
+                              <td className="px-6 py-4 text-right">
+                                <span className="font-bold">{entry.rating ?? 0}</span>
+                              </td>
+                              <td className={`px-6 py-4 text-right ${getRatingChangeColor(entry.rating_change ?? 0)}`}>
+                                {formatRatingChange(entry.rating_change ?? 0)}
+                              </td>
+                            </>
+                          ) : (
+                            <td className="px-6 py-4 text-right">
+                              <span className={sortBy === "playtime" ? "font-bold" : ""}>{formatPlayTime(entry.total_time)}</span>
+                            </td>
+                          )}
                         </motion.tr>
                       ))
                     )}
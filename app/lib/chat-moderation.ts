@@ -0,0 +1,166 @@
+// Server-side checks for chat messages, shared by /api/chat and the socket.io
+// server in app/server/chat.ts. Nothing here runs in the browser.
+
+import type { createAdminClient } from "@/lib/supabase/admin"
+import type { Message } from "@/app/types/supabase"
+import { MAX_MESSAGE_LENGTH } from "./chat"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// At most RATE_LIMIT_MESSAGES messages per player in any RATE_LIMIT_WINDOW
+export const RATE_LIMIT_MESSAGES = 5
+export const RATE_LIMIT_WINDOW = 10 * 1000
+
+// Used when CHAT_BLOCKED_WORDS isn't set
+const DEFAULT_BLOCKED_WORDS = ["fuck", "shit", "bitch", "cunt", "asshole", "bastard", "dick", "slut", "whore"]
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|gg|dev|xyz|ru|ly|me|co)\b/i
+
+// Words the filter masks, from the comma separated CHAT_BLOCKED_WORDS setting
+export function getBlockedWords(): string[] {
+  const configured = process.env.CHAT_BLOCKED_WORDS
+  if (!configured) return DEFAULT_BLOCKED_WORDS
+
+  return configured
+    .split(",")
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// The message as it should be stored, with blocked words masked, or why it
+// can't be sent at all
+export function checkMessage(text: unknown, blockedWords = getBlockedWords()): { text: string } | { error: string } {
+  if (typeof text !== "string" || !text.trim()) {
+    return { error: "Message is required" }
+  }
+
+  const trimmed = text.trim()
+  if (trimmed.length > MAX_MESSAGE_LENGTH) {
+    return { error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` }
+  }
+
+  if (LINK_PATTERN.test(trimmed)) {
+    return { error: "Links aren't allowed in chat" }
+  }
+
+  if (blockedWords.length === 0) return { text: trimmed }
+
+  const pattern = new RegExp(`\\b(${blockedWords.map(escapeRegExp).join("|")})\\w*`, "gi")
+  return { text: trimmed.replace(pattern, (word) => "*".repeat(word.length)) }
+}
+
+// Whether another message now would go over the limit, given when the player's
+// recent messages were sent
+export function isRateLimited(sentAt: number[], now = Date.now()): boolean {
+  return sentAt.filter((time) => now - time < RATE_LIMIT_WINDOW).length >= RATE_LIMIT_MESSAGES
+}
+
+export async function isChatModerator(admin: AdminClient, playerId: string): Promise<boolean> {
+  const { data } = await admin.from("chat_moderators").select("player_id").eq("player_id", playerId).maybeSingle()
+  return !!data
+}
+
+// When the player's mute runs out, null if they aren't muted
+export async function getMutedUntil(admin: AdminClient, playerId: string): Promise<string | null> {
+  const { data } = await admin
+    .from("chat_mutes")
+    .select("muted_until")
+    .eq("player_id", playerId)
+    .gt("muted_until", new Date().toISOString())
+    .maybeSingle()
+
+  return data?.muted_until ?? null
+}
+
+// Why the player can't post or edit a message right now, null if they can. Edits
+// count towards the rate limit the same as new messages.
+export async function checkCanPost(
+  admin: AdminClient,
+  userId: string,
+): Promise<{ error: string; status: number; mutedUntil?: string } | null> {
+  const mutedUntil = await getMutedUntil(admin, userId)
+  if (mutedUntil) {
+    return { error: `You are muted until ${new Date(mutedUntil).toLocaleString()}`, status: 403, mutedUntil }
+  }
+
+  const since = new Date(Date.now() - RATE_LIMIT_WINDOW).toISOString()
+  const { data: recent } = await admin
+    .from("messages")
+    .select("created_at, edited_at")
+    .eq("user_id", userId)
+    .or(`created_at.gte.${since},edited_at.gte.${since}`)
+
+  const sentAt = (recent || [])
+    .flatMap((row) => [row.created_at, row.edited_at])
+    .filter((time): time is string => !!time)
+    .map((time) => new Date(time).getTime())
+
+  if (isRateLimited(sentAt)) {
+    return { error: "You're sending messages too fast", status: 429 }
+  }
+
+  return null
+}
+
+// Checks and stores a message from a player already known to be allowed in the
+// room. Replies to a reply join the thread of the message it replied to,
+// threads are one level deep. fallbackName is used when the player has no
+// profile yet.
+export async function postChatMessage(
+  admin: AdminClient,
+  {
+    userId,
+    fallbackName,
+    roomId,
+    message,
+    parentId,
+  }: { userId: string; fallbackName: string; roomId: string; message: unknown; parentId?: string | null },
+): Promise<{ message: Message } | { error: string; status: number; mutedUntil?: string }> {
+  const checked = checkMessage(message)
+  if ("error" in checked) {
+    return { error: checked.error, status: 400 }
+  }
+
+  const blocked = await checkCanPost(admin, userId)
+  if (blocked) return blocked
+
+  let threadId: string | null = null
+  if (parentId) {
+    const { data: parent } = await admin
+      .from("messages")
+      .select("id, room_id, parent_id")
+      .eq("id", parentId)
+      .maybeSingle()
+
+    if (!parent || parent.room_id !== roomId) {
+      return { error: "The message you replied to is gone", status: 404 }
+    }
+
+    threadId = parent.parent_id ?? parent.id
+  }
+
+  const { data: profile } = await admin.from("profiles").select("username").eq("id", userId).maybeSingle()
+
+  const { data: saved, error } = await admin
+    .from("messages")
+    .insert({
+      user_id: userId,
+      username: profile?.username || fallbackName,
+      message: checked.text,
+      room_id: roomId,
+      parent_id: threadId,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error sending message:", error)
+    return { error: "Failed to send message", status: 500 }
+  }
+
+  return { message: saved }
+}
@@ -0,0 +1,91 @@
+// Chat rooms kept in messages.room_id. Who may read and post in each room is
+// checked by can_access_chat_room in the database.
+
+// The global feed in the chat widget and on /chat
+export const GENERAL_ROOM = "general"
+
+// How many of a room's latest messages are loaded
+export const ROOM_MESSAGE_LIMIT = 50
+
+// Most results /api/chat/search returns
+export const SEARCH_RESULT_LIMIT = 25
+
+// The host and seated players, on the lobby page
+export function getLobbyRoomId(lobbyId: string): string {
+  return `lobby:${lobbyId}`
+}
+
+// The players of the lobby's game, inside /game/[id]
+export function getGameRoomId(lobbyId: string): string {
+  return `game:${lobbyId}`
+}
+
+// Everyone watching the lobby's game, the players can't read it
+export function getSpectatorRoomId(lobbyId: string): string {
+  return `spectators:${lobbyId}`
+}
+
+// Longest message the chat routes and the socket server accept
+export const MAX_MESSAGE_LENGTH = 500
+
+export const MAX_REPORT_REASON_LENGTH = 200
+
+// How long a moderator can mute a player for
+export const MUTE_DURATIONS: { minutes: number; label: string }[] = [
+  { minutes: 10, label: "10 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 24 * 60, label: "1 day" },
+  { minutes: 7 * 24 * 60, label: "1 week" },
+]
+
+export type ChatReaction = "heart" | "thumbsUp" | "laugh" | "fire"
+
+// Must match the check on message_reactions.reaction
+export const CHAT_REACTIONS: ChatReaction[] = ["heart", "thumbsUp", "laugh", "fire"]
+
+export function isChatReaction(value: unknown): value is ChatReaction {
+  return CHAT_REACTIONS.includes(value as ChatReaction)
+}
+
+export interface ReactionSummary {
+  count: number
+  // Whether the signed in player is one of them
+  mine: boolean
+}
+
+// Reaction counts for one message from its message_reactions rows
+export function summarizeReactions(
+  rows: { message_id: string; user_id: string; reaction: string }[],
+  messageId: string,
+  userId: string | null,
+): Partial<Record<ChatReaction, ReactionSummary>> {
+  const summary: Partial<Record<ChatReaction, ReactionSummary>> = {}
+
+  for (const row of rows) {
+    if (row.message_id !== messageId || !isChatReaction(row.reaction)) continue
+
+    const current = summary[row.reaction] ?? { count: 0, mine: false }
+    summary[row.reaction] = { count: current.count + 1, mine: current.mine || row.user_id === userId }
+  }
+
+  return summary
+}
+
+// Puts every reply straight after the message that started its thread, both in
+// the order they were sent. Replies to a message that isn't loaded stay where
+// they are and don't count as replies.
+export function flattenThreads<T extends { id: string; parent_id: string | null }>(
+  messages: T[],
+): { message: T; isReply: boolean }[] {
+  const loaded = new Set(messages.map((message) => message.id))
+  const isReply = (message: T) => !!message.parent_id && loaded.has(message.parent_id)
+
+  return messages
+    .filter((message) => !isReply(message))
+    .flatMap((message) => [
+      { message, isReply: false },
+      ...messages
+        .filter((reply) => isReply(reply) && reply.parent_id === message.id)
+        .map((reply) => ({ message: reply, isReply: true })),
+    ])
+}
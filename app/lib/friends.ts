@@ -0,0 +1,52 @@
+// Friend requests and friend status used by /api/friends, the friends page and
+// the friends panel in the chat widget
+
+export type FriendshipAction = "request" | "accept" | "decline" | "remove"
+
+export const FRIENDSHIP_ACTIONS: FriendshipAction[] = ["request", "accept", "decline", "remove"]
+
+// Realtime presence channel every signed in page joins, keyed by user id
+export const ONLINE_PRESENCE_CHANNEL = "presence:online"
+
+// A lobby heartbeat newer than this means the player still has the page open,
+// the lobby and game pages send one every PRESENCE_HEARTBEAT_INTERVAL
+export const ACTIVITY_WINDOW = 15 * 1000
+
+// What a friend is doing right now, from their lobby heartbeats
+export interface FriendActivity {
+  lobbyId: string
+  gameTitle: string
+  status: "waiting" | "playing"
+}
+
+export interface FriendSummary {
+  playerId: string
+  username: string | null
+  avatarUrl: string | null
+  activity: FriendActivity | null
+  // Waiting lobby this friend invited the player into, if any
+  invitedTo: { lobbyId: string; gameTitle: string } | null
+}
+
+export interface FriendRequest {
+  playerId: string
+  username: string | null
+  createdAt: string
+}
+
+// What GET /api/friends answers with
+export interface FriendsOverview {
+  friends: FriendSummary[]
+  incoming: FriendRequest[]
+  outgoing: FriendRequest[]
+  // The waiting lobby the player hosts, friends can be invited into it
+  hostedLobby: { lobbyId: string; gameTitle: string } | null
+}
+
+export type FriendStatus = "in-game" | "in-lobby" | "online" | "offline"
+
+export function getFriendStatus(friend: Pick<FriendSummary, "playerId" | "activity">, onlineIds: string[]): FriendStatus {
+  if (friend.activity?.status === "playing") return "in-game"
+  if (friend.activity?.status === "waiting") return "in-lobby"
+  return onlineIds.includes(friend.playerId) ? "online" : "offline"
+}
@@ -0,0 +1,16 @@
+import type { BaseGameState } from "./engine"
+
+// The computer opponent's account. Games against the AI seat it in player2 when
+// they start, so the engines can treat it like any other player.
+export const AI_PLAYER_ID = "00000000-0000-4000-8000-000000000001"
+
+// A strength the lobby host can pick for the computer, stored in game_states.ai_difficulty
+export interface AIDifficulty {
+  value: string
+  label: string
+  description: string
+}
+
+export function isAIPlayer(state: Pick<BaseGameState, "ai_opponent" | "player2">, playerId: string | null): boolean {
+  return !!state.ai_opponent && !!playerId && playerId === state.player2
+}
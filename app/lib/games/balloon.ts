@@ -0,0 +1,112 @@
+import { getNextPlayer, getSeatedPlayers, invalidMove, type BaseGameState, type GameRules } from "./engine"
+
+export const PUMPS_PER_TURN = 3
+const MIN_GROWTH = 4
+const MAX_GROWTH = 12
+export const STARTING_SIZE = 24
+export const TURN_TIMER = 10
+
+// Only ever picked on the server, see /api/balloon
+export function createPopThreshold() {
+  return Math.floor(Math.random() * 100) + 50
+}
+
+export interface BalloonState extends BaseGameState {
+  size: number
+  score: number
+  is_popped: boolean
+  remaining_pumps: number
+  turn_timer: number
+  // Hidden size the balloon pops at, never sent to the players
+  pop_threshold: number
+  // Players who popped a balloon and are out, only used with more than two seats
+  eliminated?: string[] | null
+}
+
+// The row without the pop threshold, which is all players and spectators get
+export function getBalloonView(state: BalloonState): Omit<BalloonState, "pop_threshold"> {
+  const visible: Partial<BalloonState> = { ...state }
+  delete visible.pop_threshold
+  return visible as Omit<BalloonState, "pop_threshold">
+}
+
+// Players still in the game, in turn order
+function getActivePlayers(state: BalloonState) {
+  const eliminated = state.eliminated ?? []
+  return getSeatedPlayers(state).filter((playerId) => !eliminated.includes(playerId))
+}
+
+export const balloonRules: GameRules<BalloonState> = {
+  title: "Balloon Game",
+  stateTable: "balloon_game_states",
+
+  applyMove(state, move, playerId) {
+    if (state.status !== "playing" || state.is_popped) return invalidMove("Game is not in progress")
+    if (state.current_player !== playerId) return invalidMove("It is not your turn")
+
+    const eliminated = state.eliminated ?? []
+    const next = getNextPlayer(state, playerId, eliminated)
+    if (!next) return invalidMove("Waiting for an opponent")
+
+    if (move.type === "pump") {
+      if (state.remaining_pumps <= 0) return invalidMove("No pumps left this turn")
+
+      const growth = MIN_GROWTH + Math.floor(Math.random() * (MAX_GROWTH - MIN_GROWTH + 1))
+      const size = state.size + growth
+      const score = state.score + growth
+
+      // Whoever pops the balloon is out, the last player left wins
+      if (size >= state.pop_threshold) {
+        const remaining = getActivePlayers(state).filter((id) => id !== playerId)
+
+        if (remaining.length === 1) {
+          return {
+            update: { size, score, is_popped: true, status: "finished", winner: remaining[0] },
+          }
+        }
+
+        // Everyone else carries on with a fresh balloon
+        return {
+          update: {
+            size: STARTING_SIZE,
+            score,
+            pop_threshold: createPopThreshold(),
+            eliminated: [...eliminated, playerId],
+            remaining_pumps: PUMPS_PER_TURN,
+            current_player: next,
+          },
+        }
+      }
+
+      const remainingPumps = state.remaining_pumps - 1
+      return {
+        update:
+          remainingPumps === 0
+            ? { size, score, remaining_pumps: PUMPS_PER_TURN, current_player: next }
+            : { size, score, remaining_pumps: remainingPumps },
+      }
+    }
+
+    // Passing is only allowed after pumping at least once
+    if (move.type === "end_turn") {
+      if (state.remaining_pumps >= PUMPS_PER_TURN) return invalidMove("Pump at least once before ending your turn")
+
+      return {
+        update: { current_player: next, remaining_pumps: PUMPS_PER_TURN, status: "playing" },
+      }
+    }
+
+    return invalidMove("Unknown move")
+  },
+
+  // The last balloon only pops on the popping player's turn, so whoever is
+  // left besides them won
+  getOutcome(state) {
+    if (!state.is_popped || state.size < state.pop_threshold) return null
+
+    const remaining = getActivePlayers(state).filter((id) => id !== state.current_player)
+    return remaining.length === 1 ? { winner: remaining[0], isDraw: false } : null
+  },
+
+  view: getBalloonView,
+}
@@ -0,0 +1,189 @@
+import type { AIDifficulty } from "./ai"
+import { BOARD_SIZE, EMPTY, HIT, SHIPS, SUNK, findShips, type Board } from "./battleship"
+
+export const BATTLESHIP_DIFFICULTIES: AIDifficulty[] = [
+  { value: "easy", label: "Easy", description: "Fires at random and sometimes follows up a hit" },
+  { value: "normal", label: "Normal", description: "Hunts on a checkerboard and sinks whatever it hits" },
+  { value: "hard", label: "Hard", description: "Fires where the remaining ships are most likely to be" },
+]
+
+export const DEFAULT_BATTLESHIP_DIFFICULTY = "normal"
+
+// How often the easy AI bothers to follow up a hit instead of firing at random
+const EASY_FOLLOW_UP_CHANCE = 0.5
+
+// Placements that already cover hits are far more likely than ones that don't
+const HIT_WEIGHT = 20
+
+type Cell = [number, number]
+
+const ORTHOGONAL: Cell[] = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+]
+
+function isOnBoard(row: number, col: number) {
+  return row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE
+}
+
+function pickRandom<T>(items: T[]): T | null {
+  return items.length > 0 ? items[Math.floor(Math.random() * items.length)] : null
+}
+
+function getUntriedCells(shots: Board): Cell[] {
+  const cells: Cell[] = []
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (shots[row][col] === EMPTY) cells.push([row, col])
+    }
+  }
+  return cells
+}
+
+// Hits on ships that are still afloat, grouped by ship
+function getWoundedShips(shots: Board): Cell[][] {
+  return findShips(shots).filter((cells) => cells.some(([r, c]) => shots[r][c] === HIT))
+}
+
+// Sizes of the ships still afloat. Sunk ships are marked whole on the shot grid.
+function getRemainingSizes(shots: Board): number[] {
+  const remaining = SHIPS.map((ship) => ship.size)
+
+  for (const cells of findShips(shots)) {
+    if (!cells.every(([r, c]) => shots[r][c] === SUNK)) continue
+    const index = remaining.indexOf(cells.length)
+    if (index !== -1) remaining.splice(index, 1)
+  }
+
+  return remaining
+}
+
+// Cells that can't hold a ship: anything touching a sunk ship, or diagonal to
+// a hit, since ships are straight and never touch
+function isRuledOut(shots: Board, row: number, col: number) {
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const r = row + dr
+      const c = col + dc
+      if ((dr === 0 && dc === 0) || !isOnBoard(r, c)) continue
+      if (shots[r][c] === SUNK) return true
+      if (shots[r][c] === HIT && dr !== 0 && dc !== 0) return true
+    }
+  }
+  return false
+}
+
+// The untried cells next to a wounded ship. Once it has two hits its direction
+// is known, so only the cells at either end are left.
+function getTargetCells(shots: Board, ship: Cell[]): Cell[] {
+  const rows = new Set(ship.map(([r]) => r))
+  const cols = new Set(ship.map(([, c]) => c))
+  let directions = ORTHOGONAL
+  if (ship.length > 1 && rows.size === 1) directions = ORTHOGONAL.slice(2)
+  if (ship.length > 1 && cols.size === 1) directions = ORTHOGONAL.slice(0, 2)
+
+  const targets: Cell[] = []
+  for (const [row, col] of ship) {
+    for (const [dr, dc] of directions) {
+      const r = row + dr
+      const c = col + dc
+      if (isOnBoard(r, c) && shots[r][c] === EMPTY && !isRuledOut(shots, r, c)) targets.push([r, c])
+    }
+  }
+  return targets
+}
+
+// Hunt/target: finishes off any wounded ship, otherwise fires at a random cell
+// on a checkerboard, which every ship of two or more cells has to cross
+function chooseHuntTargetShot(shots: Board): Cell | null {
+  const targets = getWoundedShips(shots).flatMap((ship) => getTargetCells(shots, ship))
+  if (targets.length > 0) return pickRandom(targets)
+
+  const open = getUntriedCells(shots).filter(([r, c]) => !isRuledOut(shots, r, c))
+  const parity = Math.min(...getRemainingSizes(shots)) >= 2 ? open.filter(([r, c]) => (r + c) % 2 === 0) : []
+
+  return pickRandom(parity) ?? pickRandom(open) ?? pickRandom(getUntriedCells(shots))
+}
+
+// A hit right next to a placement has to be part of it, ships never touch
+function touchesOtherHits(shots: Board, cells: Cell[]) {
+  const inPlacement = new Set(cells.map(([r, c]) => `${r},${c}`))
+
+  return cells.some(([row, col]) =>
+    ORTHOGONAL.some(([dr, dc]) => {
+      const r = row + dr
+      const c = col + dc
+      return isOnBoard(r, c) && !inPlacement.has(`${r},${c}`) && shots[r][c] === HIT
+    }),
+  )
+}
+
+// Probability density: counts every way the remaining ships could still lie
+// across the board, and fires at the untried cell the most of them cover.
+// While a ship is wounded, only placements through its hits are counted.
+function chooseDensityShot(shots: Board): Cell | null {
+  const density = shots.map((row) => row.map(() => 0))
+  const hunting = getWoundedShips(shots).length === 0
+
+  for (const size of getRemainingSizes(shots)) {
+    for (let row = 0; row < BOARD_SIZE; row++) {
+      for (let col = 0; col < BOARD_SIZE; col++) {
+        for (const [dr, dc] of [
+          [0, 1],
+          [1, 0],
+        ]) {
+          const cells: Cell[] = []
+          for (let i = 0; i < size; i++) cells.push([row + dr * i, col + dc * i])
+          if (!cells.every(([r, c]) => isOnBoard(r, c))) continue
+
+          const hits = cells.filter(([r, c]) => shots[r][c] === HIT).length
+          if (!hunting && hits === 0) continue
+          if (!cells.every(([r, c]) => shots[r][c] === HIT || (shots[r][c] === EMPTY && !isRuledOut(shots, r, c)))) {
+            continue
+          }
+          if (touchesOtherHits(shots, cells)) continue
+
+          const weight = 1 + hits * HIT_WEIGHT
+          for (const [r, c] of cells) {
+            if (shots[r][c] === EMPTY) density[r][c] += weight
+          }
+        }
+      }
+    }
+  }
+
+  let best: Cell[] = []
+  let bestScore = 0
+  for (const [row, col] of getUntriedCells(shots)) {
+    if (density[row][col] > bestScore) {
+      best = [[row, col]]
+      bestScore = density[row][col]
+    } else if (density[row][col] === bestScore && bestScore > 0) {
+      best.push([row, col])
+    }
+  }
+
+  return pickRandom(best) ?? chooseHuntTargetShot(shots)
+}
+
+// Picks the AI's next shot from its own shot grid, null once nothing is left
+// to fire at. Unknown difficulties play like the default.
+export function chooseBattleshipShot(shots: Board, difficulty?: string | null): { row: number; col: number } | null {
+  let cell: Cell | null
+
+  if (difficulty === "easy") {
+    const targets = getWoundedShips(shots).flatMap((ship) => getTargetCells(shots, ship))
+    cell =
+      targets.length > 0 && Math.random() < EASY_FOLLOW_UP_CHANCE
+        ? pickRandom(targets)
+        : pickRandom(getUntriedCells(shots))
+  } else if (difficulty === "hard") {
+    cell = chooseDensityShot(shots)
+  } else {
+    cell = chooseHuntTargetShot(shots)
+  }
+
+  return cell && { row: cell[0], col: cell[1] }
+}
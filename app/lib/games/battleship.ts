@@ -0,0 +1,461 @@
+// Battleship rules shared by the game component and the server move API.
+// Ship layouts only ever leave the server through getPlayerView.
+
+import {
+  getOpponent,
+  invalidMove,
+  isInteger,
+  type BaseGameState,
+  type ForfeitReason,
+  type GameRules,
+  type ReplayFrame,
+} from "./engine"
+import { chooseBattleshipShot } from "./battleship-bot"
+
+export const BOARD_SIZE = 10
+export const EMPTY = 0
+export const SHIP = 1
+export const MISS = 2
+export const HIT = 3
+export const SUNK = 4
+
+// Ship types and sizes
+export const SHIPS = [
+  { name: "Carrier", size: 5, color: "#6366F1" },
+  { name: "Battleship", size: 4, color: "#8B5CF6" },
+  { name: "Cruiser", size: 3, color: "#EC4899" },
+  { name: "Submarine", size: 3, color: "#F43F5E" },
+  { name: "Destroyer", size: 2, color: "#F97316" },
+]
+
+export type Board = number[][]
+
+export interface BattleshipGameState extends BaseGameState {
+  player1_board: Board
+  player2_board: Board
+  player1_shots: Board
+  player2_shots: Board
+  player1_ready: boolean
+  player2_ready: boolean
+  status: "setup" | "in_progress" | "finished"
+  created_at?: string
+  last_updated?: string
+}
+
+// What a single player is allowed to see. The opponent board only contains
+// the cells this player has fired at, until the game is over.
+export interface BattleshipPlayerView {
+  id: string
+  lobby_id: string
+  player1: string
+  player2: string | null
+  player1_ready: boolean
+  player2_ready: boolean
+  current_player: string
+  status: BattleshipGameState["status"]
+  winner: string | null
+  move_time_limit: number | null
+  game_time_limit: number | null
+  turn_started_at: string | null
+  player1_time_used: number
+  player2_time_used: number
+  forfeited_by: string | null
+  forfeit_reason: ForfeitReason | null
+  ai_opponent: boolean
+  ai_difficulty: string | null
+  // Spectators get player1's waters as my_board and player2's as opponent_board
+  is_spectator: boolean
+  my_board: Board
+  my_shots: Board
+  opponent_shots: Board
+  opponent_board: Board
+}
+
+export type ShotResult = "miss" | "hit" | "sunk"
+
+export type ShipOrientation = "horizontal" | "vertical"
+
+export function createEmptyBoard(): Board {
+  return Array(BOARD_SIZE)
+    .fill(0)
+    .map(() => Array(BOARD_SIZE).fill(EMPTY))
+}
+
+function cloneBoard(board: Board): Board {
+  return board.map((row) => [...row])
+}
+
+function isShipCell(cell: number) {
+  return cell === SHIP || cell === HIT || cell === SUNK
+}
+
+function isBoardShape(board: unknown): board is Board {
+  return (
+    Array.isArray(board) &&
+    board.length === BOARD_SIZE &&
+    board.every((row) => Array.isArray(row) && row.length === BOARD_SIZE && row.every((cell) => Number.isInteger(cell)))
+  )
+}
+
+// Groups ship cells that touch, including diagonally. Since ships may not
+// touch each other, every group is exactly one ship.
+export function findShips(board: Board): [number, number][][] {
+  const seen = new Set<string>()
+  const ships: [number, number][][] = []
+
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (!isShipCell(board[row][col]) || seen.has(`${row},${col}`)) continue
+
+      const cells: [number, number][] = []
+      const stack: [number, number][] = [[row, col]]
+      seen.add(`${row},${col}`)
+
+      while (stack.length > 0) {
+        const [r, c] = stack.pop()!
+        cells.push([r, c])
+
+        for (let dr = -1; dr <= 1; dr++) {
+          for (let dc = -1; dc <= 1; dc++) {
+            const nr = r + dr
+            const nc = c + dc
+            const key = `${nr},${nc}`
+            if (nr < 0 || nr >= BOARD_SIZE || nc < 0 || nc >= BOARD_SIZE) continue
+            if (seen.has(key) || !isShipCell(board[nr][nc])) continue
+            seen.add(key)
+            stack.push([nr, nc])
+          }
+        }
+      }
+
+      ships.push(cells)
+    }
+  }
+
+  return ships
+}
+
+function isStraightLine(cells: [number, number][]) {
+  const rows = new Set(cells.map(([r]) => r))
+  const cols = new Set(cells.map(([, c]) => c))
+
+  if (rows.size === 1) {
+    const sorted = cells.map(([, c]) => c).sort((a, b) => a - b)
+    return sorted[sorted.length - 1] - sorted[0] === cells.length - 1
+  }
+  if (cols.size === 1) {
+    const sorted = cells.map(([r]) => r).sort((a, b) => a - b)
+    return sorted[sorted.length - 1] - sorted[0] === cells.length - 1
+  }
+  return false
+}
+
+// Returns an error message if the board is not a legal fleet placement
+export function validateFleet(board: unknown): string | null {
+  if (!isBoardShape(board)) {
+    return "Board must be a 10x10 grid"
+  }
+
+  if (board.some((row) => row.some((cell) => cell !== EMPTY && cell !== SHIP))) {
+    return "Board may only contain empty and ship cells"
+  }
+
+  const ships = findShips(board)
+  if (ships.some((cells) => !isStraightLine(cells))) {
+    return "Ships must be straight and may not touch each other"
+  }
+
+  const placedSizes = ships.map((cells) => cells.length).sort((a, b) => a - b)
+  const expectedSizes = SHIPS.map((ship) => ship.size).sort((a, b) => a - b)
+  if (placedSizes.length !== expectedSizes.length || placedSizes.some((size, i) => size !== expectedSizes[i])) {
+    return "Board must contain exactly one of each ship"
+  }
+
+  return null
+}
+
+// Whether a ship fits at row and col without overlapping or touching another ship
+export function canPlaceShip(board: Board, row: number, col: number, size: number, orientation: ShipOrientation) {
+  if (orientation === "horizontal" && col + size > BOARD_SIZE) return false
+  if (orientation === "vertical" && row + size > BOARD_SIZE) return false
+
+  const lastRow = row + (orientation === "vertical" ? size - 1 : 0)
+  const lastCol = col + (orientation === "horizontal" ? size - 1 : 0)
+
+  for (let r = Math.max(0, row - 1); r <= Math.min(BOARD_SIZE - 1, lastRow + 1); r++) {
+    for (let c = Math.max(0, col - 1); c <= Math.min(BOARD_SIZE - 1, lastCol + 1); c++) {
+      if (board[r][c] !== EMPTY) return false
+    }
+  }
+
+  return true
+}
+
+// A legal fleet in random positions, largest ship first. Starts over in the
+// rare case the ships placed so far leave no room for the next one.
+export function placeFleetRandomly(): Board {
+  const board = createEmptyBoard()
+  const sizes = SHIPS.map((ship) => ship.size).sort((a, b) => b - a)
+
+  for (const size of sizes) {
+    const options: [number, number, ShipOrientation][] = []
+    for (let row = 0; row < BOARD_SIZE; row++) {
+      for (let col = 0; col < BOARD_SIZE; col++) {
+        if (canPlaceShip(board, row, col, size, "horizontal")) options.push([row, col, "horizontal"])
+        if (canPlaceShip(board, row, col, size, "vertical")) options.push([row, col, "vertical"])
+      }
+    }
+
+    if (options.length === 0) return placeFleetRandomly()
+
+    const [row, col, orientation] = options[Math.floor(Math.random() * options.length)]
+    for (let i = 0; i < size; i++) {
+      if (orientation === "horizontal") board[row][col + i] = SHIP
+      else board[row + i][col] = SHIP
+    }
+  }
+
+  return board
+}
+
+export function isValidShot(shots: Board, row: unknown, col: unknown): boolean {
+  return (
+    Number.isInteger(row) &&
+    Number.isInteger(col) &&
+    (row as number) >= 0 &&
+    (row as number) < BOARD_SIZE &&
+    (col as number) >= 0 &&
+    (col as number) < BOARD_SIZE &&
+    shots[row as number][col as number] === EMPTY
+  )
+}
+
+// Applies a shot to the target board and the shooter's shot grid. When the
+// last cell of a ship is hit, the whole ship is marked as sunk on both.
+export function resolveShot(targetBoard: Board, shots: Board, row: number, col: number) {
+  const board = cloneBoard(targetBoard)
+  const nextShots = cloneBoard(shots)
+
+  if (board[row][col] !== SHIP) {
+    nextShots[row][col] = MISS
+    return { board, shots: nextShots, result: "miss" as ShotResult, fleetDestroyed: false }
+  }
+
+  board[row][col] = HIT
+  nextShots[row][col] = HIT
+
+  let result: ShotResult = "hit"
+  const ship = findShips(board).find((cells) => cells.some(([r, c]) => r === row && c === col))
+  if (ship && ship.every(([r, c]) => board[r][c] !== SHIP)) {
+    for (const [r, c] of ship) {
+      board[r][c] = SUNK
+      nextShots[r][c] = SUNK
+    }
+    result = "sunk"
+  }
+
+  const fleetDestroyed = board.every((boardRow) => boardRow.every((cell) => cell !== SHIP))
+
+  return { board, shots: nextShots, result, fleetDestroyed }
+}
+
+// The fleet as it was placed, before any shots landed
+function getPlacedFleet(board: Board): Board {
+  return board.map((row) => row.map((cell) => (isShipCell(cell) ? SHIP : EMPTY)))
+}
+
+// Replays the shooter's shots against the fleet instead of trusting the board markers
+export function isFleetDestroyed(board: Board, shots: Board): boolean {
+  let shipCells = 0
+
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (!isShipCell(board[row][col])) continue
+      shipCells++
+      if (shots[row][col] !== HIT && shots[row][col] !== SUNK) return false
+    }
+  }
+
+  return shipCells > 0
+}
+
+function describeShot(row: number, col: number, result: ShotResult) {
+  const outcome = result === "sunk" ? "sunk a ship" : result === "hit" ? "hit" : "missed"
+  return `Fired at row ${row + 1}, column ${col + 1} and ${outcome}`
+}
+
+export function getPlayerView(state: BattleshipGameState, playerId: string): BattleshipPlayerView {
+  const isPlayer1 = state.player1 === playerId
+  const myShots = isPlayer1 ? state.player1_shots : state.player2_shots
+  const opponentBoard = isPlayer1 ? state.player2_board : state.player1_board
+
+  return {
+    id: state.id,
+    lobby_id: state.lobby_id,
+    player1: state.player1,
+    player2: state.player2,
+    player1_ready: state.player1_ready,
+    player2_ready: state.player2_ready,
+    current_player: state.current_player,
+    status: state.status,
+    winner: state.winner,
+    move_time_limit: state.move_time_limit ?? null,
+    game_time_limit: state.game_time_limit ?? null,
+    turn_started_at: state.turn_started_at ?? null,
+    player1_time_used: state.player1_time_used ?? 0,
+    player2_time_used: state.player2_time_used ?? 0,
+    forfeited_by: state.forfeited_by ?? null,
+    forfeit_reason: state.forfeit_reason ?? null,
+    ai_opponent: !!state.ai_opponent,
+    ai_difficulty: state.ai_difficulty ?? null,
+    is_spectator: false,
+    my_board: isPlayer1 ? state.player1_board : state.player2_board,
+    my_shots: myShots,
+    opponent_shots: isPlayer1 ? state.player2_shots : state.player1_shots,
+    opponent_board: state.status === "finished" ? opponentBoard : myShots,
+  }
+}
+
+// Spectators see each fleet the way the other player does, so no ship is
+// given away before it is hit. Both fleets are revealed once the game is over.
+export function getSpectatorView(state: BattleshipGameState): BattleshipPlayerView {
+  const isOver = state.status === "finished"
+
+  return {
+    ...getPlayerView(state, state.player1),
+    is_spectator: true,
+    my_board: isOver ? state.player1_board : state.player2_shots,
+    opponent_board: isOver ? state.player2_board : state.player1_shots,
+  }
+}
+
+export const battleshipRules: GameRules<BattleshipGameState> = {
+  title: "Battleship",
+  stateTable: "battleship_game_states",
+  movesTable: "battleship_moves",
+
+  applyMove(state, move, playerId) {
+    const isPlayer1 = state.player1 === playerId
+
+    if (move.type === "place") {
+      if (state.status !== "setup") return invalidMove("Ships can only be placed during setup")
+      if (isPlayer1 ? state.player1_ready : state.player2_ready) return invalidMove("Ships are already placed")
+
+      const placementError = validateFleet(move.board)
+      if (placementError) return invalidMove(placementError)
+
+      return {
+        update: {
+          [isPlayer1 ? "player1_board" : "player2_board"]: move.board as Board,
+          [isPlayer1 ? "player1_ready" : "player2_ready"]: true,
+          last_updated: new Date().toISOString(),
+        },
+      }
+    }
+
+    if (move.type === "shot") {
+      if (state.status !== "in_progress") return invalidMove("Game is not in progress")
+      if (state.current_player !== playerId) return invalidMove("It is not your turn")
+
+      const opponent = getOpponent(state, playerId)
+      if (!opponent) return invalidMove("Waiting for an opponent")
+
+      const myShots = isPlayer1 ? state.player1_shots : state.player2_shots
+      if (!isValidShot(myShots, move.row, move.col)) return invalidMove("Invalid target")
+
+      const row = move.row as number
+      const col = move.col as number
+      const shot = resolveShot(isPlayer1 ? state.player2_board : state.player1_board, myShots, row, col)
+
+      return {
+        update: {
+          [isPlayer1 ? "player2_board" : "player1_board"]: shot.board,
+          [isPlayer1 ? "player1_shots" : "player2_shots"]: shot.shots,
+          current_player: shot.fleetDestroyed ? playerId : opponent,
+          status: shot.fleetDestroyed ? "finished" : "in_progress",
+          winner: shot.fleetDestroyed ? playerId : null,
+          last_updated: new Date().toISOString(),
+        },
+        log: { row, col, is_hit: shot.result !== "miss" },
+      }
+    }
+
+    // The AI plays as player 2, its fleet is placed when the game is created.
+    // The human player asks the server to take its turn, and it aims using only
+    // its own shot grid, so it knows no more than a person would.
+    if (move.type === "ai") {
+      if (!state.ai_opponent) return invalidMove("This game has no AI opponent")
+      if (playerId !== state.player1 || !state.player2 || state.current_player !== state.player2) {
+        return invalidMove("It is not the AI's turn")
+      }
+
+      const target = chooseBattleshipShot(state.player2_shots, state.ai_difficulty)
+      if (!target) return invalidMove("No targets left")
+
+      const outcome = battleshipRules.applyMove(state, { type: "shot", ...target }, state.player2)
+      if ("error" in outcome) return outcome
+
+      return { ...outcome, log: { ...outcome.log, player_id: state.player2 } }
+    }
+
+    return invalidMove("Unknown move")
+  },
+
+  // A player wins once their shots cover every cell of the opponent's fleet
+  getOutcome(state) {
+    if (!state.player2 || !state.player1_ready || !state.player2_ready) return null
+
+    if (isFleetDestroyed(state.player2_board, state.player1_shots)) {
+      return { winner: state.player1, isDraw: false }
+    }
+    if (isFleetDestroyed(state.player1_board, state.player2_shots)) {
+      return { winner: state.player2, isDraw: false }
+    }
+    return null
+  },
+
+  // Both fleets are in, whoever the round was created with fires first
+  settle(state) {
+    if (state.status !== "setup" || !state.player2 || !state.player1_ready || !state.player2_ready) return null
+    const now = new Date().toISOString()
+    return { status: "in_progress", turn_started_at: now, last_updated: now }
+  },
+
+  view: getPlayerView,
+
+  // Fires the logged shots at the fleets as they were placed, so sunk ships show up as they happen
+  replay(state, moves) {
+    let player1Board = getPlacedFleet(state.player1_board)
+    let player2Board = getPlacedFleet(state.player2_board)
+    let player1Shots = createEmptyBoard()
+    let player2Shots = createEmptyBoard()
+
+    const position = (): Partial<BattleshipGameState> => ({
+      player1_board: player1Board,
+      player2_board: player2Board,
+      player1_shots: player1Shots,
+      player2_shots: player2Shots,
+    })
+    const frames: ReplayFrame<BattleshipGameState>[] = [
+      { position: position(), playerId: null, description: "Fleets placed" },
+    ]
+
+    for (const { player_id, row, col } of moves) {
+      if (!isInteger(row, 0, BOARD_SIZE - 1) || !isInteger(col, 0, BOARD_SIZE - 1)) continue
+
+      if (player_id === state.player1) {
+        const shot = resolveShot(player2Board, player1Shots, row, col)
+        player2Board = shot.board
+        player1Shots = shot.shots
+        frames.push({ position: position(), playerId: player_id, description: describeShot(row, col, shot.result) })
+      } else if (player_id === state.player2) {
+        const shot = resolveShot(player1Board, player2Shots, row, col)
+        player1Board = shot.board
+        player2Shots = shot.shots
+        frames.push({ position: position(), playerId: player_id, description: describeShot(row, col, shot.result) })
+      }
+    }
+
+    return frames
+  },
+}
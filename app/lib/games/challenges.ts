@@ -0,0 +1,73 @@
+// Direct challenges used by /api/challenges. Challenges run out on their own,
+// there is no background worker, so a pending challenge past expires_at is
+// treated as expired wherever it is read.
+
+import type { createAdminClient } from "@/lib/supabase/admin"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// How long the challenged player has to answer
+export const CHALLENGE_TIMEOUT = 2 * 60 * 1000
+
+export type ChallengeStatus = "pending" | "accepted" | "declined" | "cancelled" | "expired"
+
+// The challenged player accepts or declines, the challenger can cancel
+export type ChallengeAction = "accept" | "decline" | "cancel"
+
+export const CHALLENGE_ACTIONS: ChallengeAction[] = ["accept", "decline", "cancel"]
+
+export interface Challenge {
+  id: string
+  challenger_id: string
+  challenged_id: string
+  game_id: number
+  lobby_id: string | null
+  status: ChallengeStatus
+  created_at: string
+  expires_at: string
+  responded_at: string | null
+}
+
+export function isChallengeExpired(challenge: Pick<Challenge, "status" | "expires_at">, now = Date.now()): boolean {
+  return challenge.status === "pending" && new Date(challenge.expires_at).getTime() <= now
+}
+
+// Marks the player's pending challenges that ran out, both sent and received,
+// and removes the lobbies they were holding
+export async function expireChallenges(admin: AdminClient, playerId: string) {
+  const { data: expired, error } = await admin
+    .from("challenges")
+    .update({ status: "expired", responded_at: new Date().toISOString() })
+    .or(`challenger_id.eq.${playerId},challenged_id.eq.${playerId}`)
+    .eq("status", "pending")
+    .lte("expires_at", new Date().toISOString())
+    .select("lobby_id")
+
+  if (error) return error
+
+  return deleteChallengeLobbies(admin, (expired || []).map((challenge) => challenge.lobby_id))
+}
+
+// Removes the private lobbies challenges were holding once they can no longer
+// be accepted. Lobbies whose game has started are left alone.
+export async function deleteChallengeLobbies(admin: AdminClient, lobbyIds: (string | null)[]) {
+  const ids = lobbyIds.filter((id): id is string => !!id)
+  if (ids.length === 0) return null
+
+  const { data: started, error: startedError } = await admin
+    .from("game_states")
+    .select("lobby_id")
+    .in("lobby_id", ids)
+    .neq("status", "waiting")
+
+  if (startedError) return startedError
+
+  const unused = ids.filter((id) => !started?.some((state) => state.lobby_id === id))
+  if (unused.length === 0) return null
+
+  const { error: stateError } = await admin.from("game_states").delete().in("lobby_id", unused)
+  if (stateError) return stateError
+
+  const { error } = await admin.from("lobbies").delete().in("id", unused)
+  return error
+}
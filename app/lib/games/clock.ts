@@ -0,0 +1,108 @@
+// Turn clocks for two-player games. Limits are stored in seconds and the time
+// each player has used in milliseconds. A player is charged for their turn
+// when the server applies their move, and whoever is on the clock when either
+// limit runs out forfeits the game.
+
+import type { BaseGameState } from "./engine"
+
+export type ClockState = Pick<
+  BaseGameState,
+  | "player1"
+  | "player2"
+  | "current_player"
+  | "status"
+  | "move_time_limit"
+  | "game_time_limit"
+  | "turn_started_at"
+  | "player1_time_used"
+  | "player2_time_used"
+>
+
+export interface RemainingTime {
+  // Milliseconds left, null when there is no limit
+  move: number | null
+  game: number | null
+}
+
+export interface TimeControl {
+  label: string
+  moveTimeLimit: number | null
+  gameTimeLimit: number | null
+}
+
+export const DEFAULT_MOVE_TIME_LIMIT = 60
+export const DEFAULT_GAME_TIME_LIMIT = 10 * 60
+
+export const MOVE_TIME_LIMIT_RANGE = { min: 10, max: 10 * 60 }
+export const GAME_TIME_LIMIT_RANGE = { min: 60, max: 60 * 60 }
+
+// Presets offered in the lobby, the first one is the default
+export const TIME_CONTROLS: TimeControl[] = [
+  { label: "1 min per move, 10 min total", moveTimeLimit: DEFAULT_MOVE_TIME_LIMIT, gameTimeLimit: DEFAULT_GAME_TIME_LIMIT },
+  { label: "15 sec per move, 3 min total", moveTimeLimit: 15, gameTimeLimit: 3 * 60 },
+  { label: "30 sec per move, 5 min total", moveTimeLimit: 30, gameTimeLimit: 5 * 60 },
+  { label: "2 min per move, 30 min total", moveTimeLimit: 2 * 60, gameTimeLimit: 30 * 60 },
+  { label: "5 min per move, no total limit", moveTimeLimit: 5 * 60, gameTimeLimit: null },
+]
+
+// The in-progress status is "playing" for game_states and "in_progress" for Battleship
+export const RUNNING_STATUSES = ["playing", "in_progress"]
+
+export function isClockRunning(state: ClockState): boolean {
+  return RUNNING_STATUSES.includes(state.status) && !!state.turn_started_at
+}
+
+function getStoredTimeUsed(state: ClockState, playerId: string): number {
+  return (state.player1 === playerId ? state.player1_time_used : state.player2_time_used) ?? 0
+}
+
+function getTurnElapsed(state: ClockState, now: number): number {
+  return isClockRunning(state) ? Math.max(0, now - Date.parse(state.turn_started_at as string)) : 0
+}
+
+// Time left on the given player's clocks, the move clock only counts down on their turn
+export function getRemainingTime(state: ClockState, playerId: string, now = Date.now()): RemainingTime {
+  const elapsed = state.current_player === playerId ? getTurnElapsed(state, now) : 0
+
+  return {
+    move: state.move_time_limit ? state.move_time_limit * 1000 - elapsed : null,
+    game: state.game_time_limit ? state.game_time_limit * 1000 - getStoredTimeUsed(state, playerId) - elapsed : null,
+  }
+}
+
+// The player on the clock if either of their limits has run out
+export function getTimedOutPlayer(state: ClockState, now = Date.now()): string | null {
+  if (!isClockRunning(state)) return null
+
+  const { move, game } = getRemainingTime(state, state.current_player, now)
+  return (move !== null && move <= 0) || (game !== null && game <= 0) ? state.current_player : null
+}
+
+// Columns that charge the mover for their turn and restart the clock for the next one
+export function chargeClock(state: ClockState, playerId: string, now = Date.now()): Partial<BaseGameState> {
+  if (!isClockRunning(state)) return {}
+
+  const column = state.player1 === playerId ? "player1_time_used" : "player2_time_used"
+  return {
+    [column]: getStoredTimeUsed(state, playerId) + getTurnElapsed(state, now),
+    turn_started_at: new Date(now).toISOString(),
+  }
+}
+
+// Checks limits sent by a client, undefined picks the default and null means no limit
+export function parseTimeLimit(
+  value: unknown,
+  range: { min: number; max: number },
+  fallback: number,
+): number | null | "invalid" {
+  if (value === undefined) return fallback
+  if (value === null) return null
+  return Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max
+    ? (value as number)
+    : "invalid"
+}
+
+export function formatClock(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+}
@@ -0,0 +1,52 @@
+import dynamic from "next/dynamic"
+import type { ComponentType } from "react"
+import type { User } from "@supabase/supabase-js"
+
+// Client-only: the game components for each registry key. Kept out of
+// registry.ts so API routes can read game metadata and rules without pulling
+// in React components.
+
+export interface GameComponentProps {
+  lobbyId: string
+  currentUser: User | null
+}
+
+export interface ReplayBoardProps {
+  // One frame's position from the game's rules.replay
+  position: Record<string, unknown>
+  player1: string
+  player2: string | null
+  getPlayerName: (playerId: string | null) => string
+}
+
+// Loaded on demand so a game page only downloads the game it is showing
+const gameComponents: Record<string, ComponentType<GameComponentProps>> = {
+  "connect-four": dynamic(() => import("@/app/components/games/connect-four-game")),
+  "tic-tac-toe": dynamic(() => import("@/app/components/games/tic-tac-toe-game")),
+  balloon: dynamic(() => import("@/app/components/games/balloon-game")),
+  battleship: dynamic(() => import("@/app/components/games/battleship")),
+  minesweeper: dynamic(() => import("@/app/components/games/minesweep")),
+  "sliding-puzzle": dynamic(() => import("@/app/components/games/sliding-puzzle")),
+  corruptle: dynamic<GameComponentProps>(() => import("@/app/components/games/wordle-game")),
+}
+
+// Read-only boards for /replay, only games whose rules can replay their move log
+const replayBoards: Record<string, ComponentType<ReplayBoardProps>> = {
+  "connect-four": dynamic(() =>
+    import("@/app/components/games/connect-four-board").then((mod) => mod.ConnectFourReplayBoard),
+  ),
+  "tic-tac-toe": dynamic(() =>
+    import("@/app/components/games/tic-tac-toe-board").then((mod) => mod.TicTacToeReplayBoard),
+  ),
+  battleship: dynamic(() =>
+    import("@/app/components/games/battleship-board").then((mod) => mod.BattleshipReplayBoard),
+  ),
+}
+
+export function getGameComponent(key: string): ComponentType<GameComponentProps> | null {
+  return gameComponents[key] ?? null
+}
+
+export function getReplayBoard(key: string): ComponentType<ReplayBoardProps> | null {
+  return replayBoards[key] ?? null
+}
@@ -0,0 +1,208 @@
+import type { AIDifficulty } from "./ai"
+import { COLUMNS, ROWS, findWinners, getLandingRow, settleBoard, type ConnectFourState } from "./connect-four"
+
+export type ConnectFourBotMove = { type: "drop"; column: number } | { type: "flip" }
+
+export const CONNECT_FOUR_DIFFICULTIES: AIDifficulty[] = [
+  { value: "random", label: "Random", description: "Drops its pieces anywhere" },
+  { value: "easy", label: "Easy", description: "Looks one move ahead" },
+  { value: "normal", label: "Normal", description: "Looks two moves ahead for each player" },
+  { value: "hard", label: "Hard", description: "Searches deep and rarely misses a threat" },
+]
+
+export const DEFAULT_CONNECT_FOUR_DIFFICULTY = "normal"
+
+// How many moves ahead each difficulty searches, counting both players
+const SEARCH_DEPTHS: Record<string, number> = { easy: 2, normal: 4, hard: 7 }
+
+const WIN_SCORE = 1_000_000
+
+// Centre columns first, alpha-beta cuts off more when good moves come early
+const COLUMN_ORDER = [3, 2, 4, 1, 5, 0, 6]
+
+interface Position {
+  board: number[][]
+  gravityFlipped: boolean
+  // Whether piece 1 and piece 2 can still flip gravity
+  canFlip: [boolean, boolean]
+}
+
+// Every line of four cells on the board, built on first use since this module
+// and connect-four.ts import each other
+let windows: [number, number][][] | null = null
+
+function getWindows(): [number, number][][] {
+  if (windows) return windows
+
+  windows = []
+  const directions = [
+    [0, 1],
+    [1, 0],
+    [1, 1],
+    [-1, 1],
+  ]
+
+  for (let row = 0; row < ROWS; row++) {
+    for (let col = 0; col < COLUMNS; col++) {
+      for (const [dr, dc] of directions) {
+        const cells: [number, number][] = []
+        for (let i = 0; i < 4; i++) cells.push([row + dr * i, col + dc * i])
+        if (cells.every(([r, c]) => r >= 0 && r < ROWS && c >= 0 && c < COLUMNS)) windows.push(cells)
+      }
+    }
+  }
+
+  return windows
+}
+
+function isFourAt(board: number[][], row: number, col: number): boolean {
+  const piece = board[row][col]
+
+  for (const [dr, dc] of [
+    [0, 1],
+    [1, 0],
+    [1, 1],
+    [-1, 1],
+  ]) {
+    let count = 1
+    for (const sign of [1, -1]) {
+      let r = row + dr * sign
+      let c = col + dc * sign
+      while (r >= 0 && r < ROWS && c >= 0 && c < COLUMNS && board[r][c] === piece) {
+        count++
+        r += dr * sign
+        c += dc * sign
+      }
+    }
+    if (count >= 4) return true
+  }
+
+  return false
+}
+
+function getMoves(position: Position, piece: number): ConnectFourBotMove[] {
+  const moves: ConnectFourBotMove[] = COLUMN_ORDER.filter(
+    (column) => getLandingRow(position.board, column, position.gravityFlipped) !== -1,
+  ).map((column) => ({ type: "drop", column }))
+
+  if (position.canFlip[piece - 1]) moves.push({ type: "flip" })
+  return moves
+}
+
+// The position after the move, and its score for the mover if it ends the game
+function play(position: Position, move: ConnectFourBotMove, piece: number): { next: Position; result: number | null } {
+  if (move.type === "drop") {
+    const row = getLandingRow(position.board, move.column, position.gravityFlipped)
+    const board = position.board.map((boardRow) => [...boardRow])
+    board[row][move.column] = piece
+
+    const next = { ...position, board }
+    if (isFourAt(board, row, move.column)) return { next, result: WIN_SCORE }
+    return { next, result: board.every((boardRow) => boardRow.every((cell) => cell !== 0)) ? 0 : null }
+  }
+
+  // A flip can finish lines for either player at once, which is a draw
+  const gravityFlipped = !position.gravityFlipped
+  const canFlip: [boolean, boolean] = [...position.canFlip]
+  canFlip[piece - 1] = false
+  const next = { board: settleBoard(position.board, gravityFlipped), gravityFlipped, canFlip }
+
+  const winners = findWinners(next.board)
+  if (winners.length > 1) return { next, result: 0 }
+  if (winners.length === 1) return { next, result: winners[0] === piece ? WIN_SCORE : -WIN_SCORE }
+  return { next, result: null }
+}
+
+// Open lines of four score for whoever can still complete them, centre pieces a little extra
+function evaluate(board: number[][], piece: number): number {
+  const opponent = 3 - piece
+  let score = 0
+
+  for (const window of getWindows()) {
+    let mine = 0
+    let theirs = 0
+    for (const [row, col] of window) {
+      if (board[row][col] === piece) mine++
+      else if (board[row][col] === opponent) theirs++
+    }
+
+    if (mine > 0 && theirs > 0) continue
+    if (mine === 3) score += 50
+    else if (mine === 2) score += 10
+    else if (theirs === 3) score -= 50
+    else if (theirs === 2) score -= 10
+  }
+
+  for (let row = 0; row < ROWS; row++) {
+    if (board[row][3] === piece) score += 6
+    else if (board[row][3] === opponent) score -= 6
+  }
+
+  return score
+}
+
+// Negamax with alpha-beta pruning, the score is for the player about to move.
+// Quicker wins and slower losses score better.
+function search(position: Position, piece: number, depth: number, alpha: number, beta: number, ply: number): number {
+  if (depth === 0) return evaluate(position.board, piece)
+
+  const moves = getMoves(position, piece)
+  if (moves.length === 0) return 0
+
+  let best = -Infinity
+  for (const move of moves) {
+    const { next, result } = play(position, move, piece)
+    const score =
+      result !== null
+        ? result === 0
+          ? 0
+          : Math.sign(result) * (WIN_SCORE - ply)
+        : -search(next, 3 - piece, depth - 1, -beta, -alpha, ply + 1)
+
+    best = Math.max(best, score)
+    alpha = Math.max(alpha, score)
+    if (alpha >= beta) break
+  }
+
+  return best
+}
+
+// Picks the computer's move for the given piece (1 or 2). Equally good moves
+// are chosen between at random so games don't repeat. Null once nothing fits.
+export function chooseConnectFourMove(
+  state: Pick<ConnectFourState, "board" | "gravity_flipped" | "player1_used_flip" | "player2_used_flip">,
+  piece: number,
+  difficulty: string | null | undefined,
+): ConnectFourBotMove | null {
+  const position: Position = {
+    board: state.board,
+    gravityFlipped: state.gravity_flipped,
+    canFlip: [!state.player1_used_flip, !state.player2_used_flip],
+  }
+
+  const moves = getMoves(position, piece)
+  if (moves.length === 0) return null
+
+  if (difficulty === "random") {
+    const drops = moves.filter((move) => move.type === "drop")
+    return drops[Math.floor(Math.random() * drops.length)] ?? moves[0]
+  }
+
+  const depth = SEARCH_DEPTHS[difficulty ?? ""] ?? SEARCH_DEPTHS[DEFAULT_CONNECT_FOUR_DIFFICULTY]
+  let bestScore = -Infinity
+  let bestMoves: ConnectFourBotMove[] = []
+
+  for (const move of moves) {
+    const { next, result } = play(position, move, piece)
+    const score = result !== null ? result : -search(next, 3 - piece, depth - 1, -Infinity, Infinity, 1)
+
+    if (score > bestScore) {
+      bestScore = score
+      bestMoves = [move]
+    } else if (score === bestScore) {
+      bestMoves.push(move)
+    }
+  }
+
+  return bestMoves[Math.floor(Math.random() * bestMoves.length)]
+}
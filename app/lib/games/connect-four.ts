@@ -0,0 +1,225 @@
+import { chooseConnectFourMove } from "./connect-four-bot"
+import {
+  getOpponent,
+  invalidMove,
+  isInteger,
+  type BaseGameState,
+  type GameOutcome,
+  type GameRules,
+  type ReplayFrame,
+} from "./engine"
+
+export const ROWS = 6
+export const COLUMNS = 7
+
+export interface ConnectFourState extends BaseGameState {
+  board: number[][]
+  gravity_flipped: boolean
+  player1_used_flip: boolean
+  player2_used_flip: boolean
+}
+
+export function createEmptyBoard(): number[][] {
+  return Array(ROWS)
+    .fill(0)
+    .map(() => Array(COLUMNS).fill(0))
+}
+
+// Row a piece dropped into the column lands on, or -1 if the column is full.
+// With normal gravity pieces fall towards the last row, flipped they stack from row 0.
+export function getLandingRow(board: number[][], column: number, gravityFlipped: boolean): number {
+  if (gravityFlipped) {
+    for (let row = 0; row < ROWS; row++) {
+      if (board[row][column] === 0) return row
+    }
+    return -1
+  }
+
+  for (let row = ROWS - 1; row >= 0; row--) {
+    if (board[row][column] === 0) return row
+  }
+  return -1
+}
+
+// Lets every column settle towards the new gravity direction, keeping piece order
+export function settleBoard(board: number[][], gravityFlipped: boolean): number[][] {
+  const settled = createEmptyBoard()
+
+  for (let col = 0; col < COLUMNS; col++) {
+    // Collected from row 0 down, so the pieces slide without changing order
+    const pieces: number[] = []
+    for (let row = 0; row < ROWS; row++) {
+      if (board[row][col] !== 0) pieces.push(board[row][col])
+    }
+
+    pieces.forEach((piece, i) => {
+      if (gravityFlipped) {
+        settled[i][col] = piece
+      } else {
+        settled[ROWS - pieces.length + i][col] = piece
+      }
+    })
+  }
+
+  return settled
+}
+
+// Returns every player number (1 or 2) that has four in a row
+export function findWinners(board: number[][]): number[] {
+  const winners = new Set<number>()
+  const directions = [
+    [0, 1],
+    [1, 0],
+    [1, 1],
+    [-1, 1],
+  ]
+
+  for (let row = 0; row < ROWS; row++) {
+    for (let col = 0; col < COLUMNS; col++) {
+      const piece = board[row][col]
+      if (piece === 0) continue
+
+      for (const [dr, dc] of directions) {
+        let count = 1
+        while (count < 4) {
+          const r = row + dr * count
+          const c = col + dc * count
+          if (r < 0 || r >= ROWS || c < 0 || c >= COLUMNS || board[r][c] !== piece) break
+          count++
+        }
+        if (count === 4) winners.add(piece)
+      }
+    }
+  }
+
+  return Array.from(winners)
+}
+
+function getBoardOutcome(state: ConnectFourState, board: number[][]): GameOutcome | null {
+  const winners = findWinners(board)
+  const isFull = board.every((row) => row.every((cell) => cell !== 0))
+
+  // A flip can complete lines for both players at once, which counts as a draw
+  if (winners.length === 1) {
+    return { winner: winners[0] === 1 ? state.player1 : state.player2, isDraw: false }
+  }
+  if (winners.length > 1 || isFull) {
+    return { winner: null, isDraw: true }
+  }
+  return null
+}
+
+function finishIfOver(state: ConnectFourState, board: number[][]): Partial<ConnectFourState> | null {
+  const outcome = getBoardOutcome(state, board)
+  return outcome ? { status: "finished", winner: outcome.winner } : null
+}
+
+export const connectFourRules: GameRules<ConnectFourState> = {
+  title: "Connect Four",
+  stateTable: "game_states",
+  movesTable: "game_moves",
+
+  applyMove(state, move, playerId) {
+    if (state.status !== "playing") return invalidMove("Game is not in progress")
+    if (state.current_player !== playerId) return invalidMove("It is not your turn")
+
+    const opponent = getOpponent(state, playerId)
+    if (!opponent) return invalidMove("Waiting for an opponent")
+
+    const isPlayer1 = state.player1 === playerId
+
+    if (move.type === "drop") {
+      if (!isInteger(move.column, 0, COLUMNS - 1)) return invalidMove("Invalid column")
+
+      const row = getLandingRow(state.board, move.column, state.gravity_flipped)
+      if (row === -1) return invalidMove("Column is full")
+
+      const board = state.board.map((boardRow) => [...boardRow])
+      board[row][move.column] = isPlayer1 ? 1 : 2
+
+      return {
+        update: { board, current_player: opponent, ...finishIfOver(state, board) },
+        log: { move: { type: "drop", column: move.column, row } },
+      }
+    }
+
+    if (move.type === "flip") {
+      if (isPlayer1 ? state.player1_used_flip : state.player2_used_flip) {
+        return invalidMove("Gravity flip already used")
+      }
+
+      const gravityFlipped = !state.gravity_flipped
+      const board = settleBoard(state.board, gravityFlipped)
+
+      return {
+        update: {
+          board,
+          gravity_flipped: gravityFlipped,
+          [isPlayer1 ? "player1_used_flip" : "player2_used_flip"]: true,
+          current_player: opponent,
+          ...finishIfOver(state, board),
+        },
+        log: { move: { type: "flip" } },
+      }
+    }
+
+    // The AI plays as player 2, the human player asks the server to take its
+    // turn. Its move is checked like anyone else's and logged under its own id.
+    if (move.type === "ai") {
+      if (!state.ai_opponent) return invalidMove("This game has no AI opponent")
+      if (playerId !== state.player1 || !state.player2 || state.current_player !== state.player2) {
+        return invalidMove("It is not the AI's turn")
+      }
+
+      const aiMove = chooseConnectFourMove(state, 2, state.ai_difficulty)
+      if (!aiMove) return invalidMove("No moves left")
+
+      const outcome = connectFourRules.applyMove(state, aiMove, state.player2)
+      if ("error" in outcome) return outcome
+
+      return { ...outcome, log: { ...outcome.log, player_id: state.player2 } }
+    }
+
+    return invalidMove("Unknown move")
+  },
+
+  getOutcome(state) {
+    return getBoardOutcome(state, state.board)
+  },
+
+  createRound() {
+    return { board: createEmptyBoard(), gravity_flipped: false, player1_used_flip: false, player2_used_flip: false }
+  },
+
+  replay(state, moves) {
+    let board = createEmptyBoard()
+    let gravityFlipped = false
+    const frames: ReplayFrame<ConnectFourState>[] = [
+      { position: { board, gravity_flipped: gravityFlipped }, playerId: null, description: "Game started" },
+    ]
+
+    for (const { player_id, move } of moves) {
+      const logged = move as { type?: string; column?: number; row?: number } | null
+
+      if (logged?.type === "drop" && isInteger(logged.row, 0, ROWS - 1) && isInteger(logged.column, 0, COLUMNS - 1)) {
+        board = board.map((boardRow) => [...boardRow])
+        board[logged.row][logged.column] = player_id === state.player1 ? 1 : 2
+        frames.push({
+          position: { board, gravity_flipped: gravityFlipped },
+          playerId: player_id,
+          description: `Dropped a piece in column ${logged.column + 1}`,
+        })
+      } else if (logged?.type === "flip") {
+        gravityFlipped = !gravityFlipped
+        board = settleBoard(board, gravityFlipped)
+        frames.push({
+          position: { board, gravity_flipped: gravityFlipped },
+          playerId: player_id,
+          description: "Flipped gravity",
+        })
+      }
+    }
+
+    return frames
+  },
+}
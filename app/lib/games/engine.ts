@@ -0,0 +1,124 @@
+// Shared shape for the server-side rule engines used by /api/games/[gameStateId]/move.
+// An engine never writes anything itself, it only validates a move against the
+// stored state and describes the columns that should change.
+
+export interface BaseGameState {
+  id: string
+  lobby_id: string
+  player1: string
+  player2: string | null
+  // Turn order for games with more than two seats, player1 and player2 are
+  // always its first two entries. Two-player games leave it null.
+  players?: string[] | null
+  current_player: string
+  status: string
+  winner: string | null
+  // Rematches add rounds to the same lobby, the highest one is being played
+  round?: number
+  // Bumped by the database on every update, see the move API's optimistic lock
+  version?: number
+  // Clock columns, see clock.ts. Tables without clocks leave them undefined
+  move_time_limit?: number | null
+  game_time_limit?: number | null
+  turn_started_at?: string | null
+  player1_time_used?: number
+  player2_time_used?: number
+  // Set when the game ended because this player ran out of time or left
+  forfeited_by?: string | null
+  forfeit_reason?: ForfeitReason | null
+  // Games against the computer, which plays as player2, see ai.ts. Tables
+  // without an AI leave them undefined
+  ai_opponent?: boolean | null
+  ai_difficulty?: string | null
+}
+
+export type ForfeitReason = "timeout" | "disconnect"
+
+export interface GameMove {
+  type: string
+  [key: string]: unknown
+}
+
+export type MoveOutcome<TState extends BaseGameState> =
+  | { error: string }
+  | {
+      update: Partial<TState>
+      // Extra columns for the engine's moves table, if it has one
+      log?: Record<string, unknown>
+    }
+
+// Result derived from the stored board or move log, a draw has no winner
+export interface GameOutcome {
+  winner: string | null
+  isDraw: boolean
+}
+
+// A row from an engine's moves table
+export interface LoggedMove {
+  player_id: string | null
+  [key: string]: unknown
+}
+
+// Board position after one move, the first frame is the position before any move
+export interface ReplayFrame<TState extends BaseGameState = BaseGameState> {
+  position: Partial<TState>
+  playerId: string | null
+  description: string
+}
+
+export interface GameRules<TState extends BaseGameState = BaseGameState> {
+  // Must match games.title for the lobby the state belongs to
+  title: string
+  stateTable: string
+  movesTable?: string
+  applyMove(state: TState, move: GameMove, playerId: string): MoveOutcome<TState>
+  // Replays the authoritative state, null while the game is still undecided
+  getOutcome(state: TState): GameOutcome | null
+  // Starting position for a rematch round, for games whose board lives on game_states
+  createRound?(): Partial<TState>
+  // Transitions that follow from a stored move, e.g. starting once both players are ready
+  settle?(state: TState): Partial<TState> | null
+  // What the given player is allowed to see, defaults to the whole row
+  view?(state: TState, playerId: string): unknown
+  // Rebuilds every position from the move log, oldest move first
+  replay?(state: TState, moves: LoggedMove[]): ReplayFrame<TState>[]
+}
+
+export function invalidMove(error: string): { error: string } {
+  return { error }
+}
+
+export function getOpponent(state: BaseGameState, playerId: string): string | null {
+  return state.player1 === playerId ? state.player2 : state.player1
+}
+
+// Everyone seated in the game, in turn order
+export function getSeatedPlayers(state: Pick<BaseGameState, "player1" | "player2" | "players">): string[] {
+  if (state.players?.length) return state.players
+  return [state.player1, state.player2].filter((id): id is string => !!id)
+}
+
+// Whoever plays after the given player, skipping anyone listed in `skip`
+export function getNextPlayer(state: BaseGameState, playerId: string, skip: string[] = []): string | null {
+  const seated = getSeatedPlayers(state)
+  const index = seated.indexOf(playerId)
+
+  for (let offset = 1; offset < seated.length; offset++) {
+    const next = seated[(index + offset) % seated.length]
+    if (!skip.includes(next)) return next
+  }
+
+  return null
+}
+
+// A forfeit decides the game whatever the board says
+export function getGameOutcome<TState extends BaseGameState>(rules: GameRules<TState>, state: TState): GameOutcome | null {
+  if (state.forfeited_by) {
+    return { winner: getOpponent(state, state.forfeited_by), isDraw: false }
+  }
+  return rules.getOutcome(state)
+}
+
+export function isInteger(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+}
@@ -0,0 +1,95 @@
+import type { GameDefinition } from "./registry"
+
+// A row of lobby_members. Seats start at 1, seats 1 and 2 are mirrored onto
+// game_states.player1 and player2 for the two-player engines.
+export interface LobbyMember {
+  lobby_id: string
+  player_id: string
+  seat: number
+  // Only set in team games, see getTeamForSeat
+  team: number | null
+  is_ready: boolean
+  joined_at: string
+}
+
+export type LobbyMemberAction = "join" | "leave" | "ready" | "unready" | "kick" | "transfer"
+
+export const LOBBY_MEMBER_ACTIONS: LobbyMemberAction[] = ["join", "leave", "ready", "unready", "kick", "transfer"]
+
+type SeatRules = Pick<GameDefinition, "minPlayers" | "maxPlayers" | "teamSize">
+
+// Seats alternate between teams, so in a 2v2 seats 1 and 3 play seats 2 and 4
+// and the turn order goes back and forth between the teams
+export function getTeamForSeat(seat: number, game: SeatRules): number | null {
+  if (!game.teamSize) return null
+
+  const teams = Math.max(1, Math.floor(game.maxPlayers / game.teamSize))
+  return ((seat - 1) % teams) + 1
+}
+
+// Lowest seat nobody sits in, null once the lobby is full
+export function getFreeSeat(members: Pick<LobbyMember, "seat">[], game: SeatRules): number | null {
+  const taken = new Set(members.map((member) => member.seat))
+
+  for (let seat = 1; seat <= game.maxPlayers; seat++) {
+    if (!taken.has(seat)) return seat
+  }
+
+  return null
+}
+
+// Players in seat order, which is also the turn order
+export function getSeatOrder(members: Pick<LobbyMember, "player_id" | "seat">[]): string[] {
+  return [...members].sort((a, b) => a.seat - b.seat).map((member) => member.player_id)
+}
+
+// Why the host can't start yet, or null when the lobby is good to go. The host
+// starting the game counts as them being ready.
+export function getStartBlocker(
+  members: Pick<LobbyMember, "player_id" | "is_ready">[],
+  hostId: string,
+  game: SeatRules,
+  aiOpponent: boolean,
+): string | null {
+  if (!aiOpponent && members.length < game.minPlayers) return "Waiting for more players"
+
+  const notReady = members.filter((member) => member.player_id !== hostId && !member.is_ready)
+  if (notReady.length > 0) return "Waiting for every player to be ready"
+
+  return null
+}
+
+// Public lobbies are listed on the explore page, unlisted ones are only reached
+// through their link or an invite code, private ones only by invited players
+export type LobbyVisibility = "public" | "unlisted" | "private"
+
+export const LOBBY_VISIBILITIES: { value: LobbyVisibility; label: string; description: string }[] = [
+  { value: "public", label: "Public", description: "Listed on the explore page" },
+  { value: "unlisted", label: "Unlisted", description: "Anyone with the link or a code can join" },
+  { value: "private", label: "Private", description: "Only invited players can join" },
+]
+
+export const MAX_LOBBY_PASSWORD_LENGTH = 64
+
+export function isLobbyVisibility(value: unknown): value is LobbyVisibility {
+  return LOBBY_VISIBILITIES.some((visibility) => visibility.value === value)
+}
+
+// How long a new invite code works for, in hours
+export const INVITE_CODE_EXPIRY_HOURS = [1, 24, 24 * 7]
+
+export const DEFAULT_INVITE_CODE_EXPIRY_HOURS = 24
+
+// How many players can redeem one invite code, null for no limit
+export const INVITE_CODE_MAX_USES: (number | null)[] = [1, 5, 10, null]
+
+// A lobby's invite code as listed by /api/lobbies/[lobbyId]/invite-codes
+export interface InviteCodeUsage {
+  id: string
+  code: string
+  createdBy: string | null
+  expiresAt: string
+  maxUses: number | null
+  useCount: number
+  redemptions: { playerId: string; username: string | null; redeemedAt: string }[]
+}
@@ -0,0 +1,164 @@
+// Quick Match pairing used by /api/matchmaking. There is no background worker,
+// so every poll from a queued player also tries to pair them.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { createAdminClient } from "@/lib/supabase/admin"
+import { INITIAL_RATING } from "./ratings"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+// The rating gap two players may have grows the longer they wait
+const BASE_RATING_WINDOW = 100
+const WINDOW_GROWTH_PER_SECOND = 10
+const MAX_RATING_WINDOW = 1000
+
+// Players who stop polling for this long drop out of the pairing pool
+export const QUEUE_HEARTBEAT_TIMEOUT = 15 * 1000
+
+export interface QueueEntry {
+  player_id: string
+  game_id: number
+  rating: number
+  status: "waiting" | "matching" | "matched"
+  lobby_id: string | null
+  created_at: string
+  last_seen_at: string
+}
+
+export function getRatingWindow(waitedMs: number): number {
+  const window = BASE_RATING_WINDOW + Math.floor(waitedMs / 1000) * WINDOW_GROWTH_PER_SECOND
+  return Math.min(window, MAX_RATING_WINDOW)
+}
+
+export async function getPlayerRating(admin: AdminClient, playerId: string, gameId: number): Promise<number> {
+  const { data } = await admin
+    .from("player_ratings")
+    .select("rating")
+    .eq("player_id", playerId)
+    .eq("game_id", gameId)
+    .maybeSingle()
+
+  return data?.rating ?? INITIAL_RATING
+}
+
+// 1-based position among the players still waiting for the same game
+export async function getQueuePosition(admin: AdminClient, entry: QueueEntry): Promise<number> {
+  const { count } = await admin
+    .from("matchmaking_queue")
+    .select("player_id", { count: "exact", head: true })
+    .eq("game_id", entry.game_id)
+    .eq("status", "waiting")
+    .gte("last_seen_at", new Date(Date.now() - QUEUE_HEARTBEAT_TIMEOUT).toISOString())
+    .lt("created_at", entry.created_at)
+
+  return (count ?? 0) + 1
+}
+
+// Picks the closest rated active opponent within either player's window
+function pickOpponent(entry: QueueEntry, candidates: QueueEntry[], now: number): QueueEntry | null {
+  const ownWindow = getRatingWindow(now - new Date(entry.created_at).getTime())
+  let best: QueueEntry | null = null
+
+  for (const candidate of candidates) {
+    const gap = Math.abs(candidate.rating - entry.rating)
+    const window = Math.max(ownWindow, getRatingWindow(now - new Date(candidate.created_at).getTime()))
+    if (gap > window) continue
+    if (!best || gap < Math.abs(best.rating - entry.rating)) best = candidate
+  }
+
+  return best
+}
+
+// Tries to pair the entry with someone waiting for the same game. On success the
+// lobby is created through the queued player's own session, so they become its
+// host exactly as if they had created it from the explore page.
+export async function findMatch(
+  admin: AdminClient,
+  supabase: SupabaseClient,
+  entry: QueueEntry,
+): Promise<string | null> {
+  const now = Date.now()
+
+  const { data: candidates, error: candidatesError } = await admin
+    .from("matchmaking_queue")
+    .select("*")
+    .eq("game_id", entry.game_id)
+    .eq("status", "waiting")
+    .neq("player_id", entry.player_id)
+    .gte("last_seen_at", new Date(now - QUEUE_HEARTBEAT_TIMEOUT).toISOString())
+    .order("created_at", { ascending: true })
+
+  if (candidatesError) throw candidatesError
+
+  const opponent = pickOpponent(entry, (candidates || []) as QueueEntry[], now)
+  if (!opponent) return null
+
+  // Claim both players at once, someone else's poll may be pairing one of them
+  const { data: claimed, error: claimError } = await admin
+    .from("matchmaking_queue")
+    .update({ status: "matching" })
+    .in("player_id", [entry.player_id, opponent.player_id])
+    .eq("status", "waiting")
+    .select("player_id")
+
+  if (claimError) throw claimError
+
+  const releaseClaim = () =>
+    admin
+      .from("matchmaking_queue")
+      .update({ status: "waiting" })
+      .in("player_id", (claimed || []).map((row) => row.player_id))
+      .eq("status", "matching")
+
+  if (claimed?.length !== 2) {
+    await releaseClaim()
+    return null
+  }
+
+  const { data: lobbyId, error: lobbyError } = await supabase.rpc("create_lobby_with_game_state", {
+    game_id: entry.game_id,
+  })
+
+  if (lobbyError || !lobbyId) {
+    await releaseClaim()
+    throw lobbyError ?? new Error("Failed to create lobby")
+  }
+
+  // The lobby trigger seats its host, the opponent takes the second seat
+  const { error: seatError } = await admin
+    .from("lobby_members")
+    .insert({ lobby_id: lobbyId, player_id: opponent.player_id, seat: 2, is_ready: true })
+
+  if (seatError) {
+    await releaseClaim()
+    throw seatError
+  }
+
+  const startedAt = new Date().toISOString()
+
+  // Quick Match games use the default clocks from the column defaults
+  const { error: startError } = await admin
+    .from("game_states")
+    .update({
+      player2: opponent.player_id,
+      current_player: entry.player_id,
+      status: "playing",
+      started_at: startedAt,
+      turn_started_at: startedAt,
+    })
+    .eq("lobby_id", lobbyId)
+
+  if (startError) {
+    await releaseClaim()
+    throw startError
+  }
+
+  const { error: matchedError } = await admin
+    .from("matchmaking_queue")
+    .update({ status: "matched", lobby_id: lobbyId, matched_at: new Date().toISOString() })
+    .in("player_id", [entry.player_id, opponent.player_id])
+
+  if (matchedError) throw matchedError
+
+  return lobbyId
+}
@@ -0,0 +1,39 @@
+// Connection tracking for lobbies and games. Realtime presence drives what
+// players see, while the heartbeats stored in lobby_presence are what the
+// server trusts when a player claims their opponent has left.
+
+export const PRESENCE_HEARTBEAT_INTERVAL = 5000
+
+// Seconds an absent player has to come back before they can be forfeited
+export const DEFAULT_DISCONNECT_GRACE_PERIOD = 60
+export const DISCONNECT_GRACE_PERIOD_RANGE = { min: 15, max: 10 * 60 }
+
+// Presets offered in the lobby, the first one is the default
+export const GRACE_PERIODS = [
+  { label: "1 min to reconnect", seconds: DEFAULT_DISCONNECT_GRACE_PERIOD },
+  { label: "30 sec to reconnect", seconds: 30 },
+  { label: "2 min to reconnect", seconds: 2 * 60 },
+  { label: "5 min to reconnect", seconds: 5 * 60 },
+]
+
+export interface PlayerPresence {
+  playerId: string
+  // How long ago the server last heard from the player, in milliseconds
+  absentMs: number
+}
+
+// What /api/lobbies/[lobbyId]/presence answers every heartbeat with
+export interface PresenceSnapshot {
+  status: string | null
+  gracePeriod: number | null
+  players: PlayerPresence[]
+}
+
+export function getPresenceChannelName(lobbyId: string): string {
+  return `presence:lobby:${lobbyId}`
+}
+
+// Milliseconds left before a player who was last seen absentMs ago can be forfeited
+export function getGraceRemaining(absentMs: number, gracePeriod: number): number {
+  return gracePeriod * 1000 - absentMs
+}
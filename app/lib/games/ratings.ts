@@ -0,0 +1,13 @@
+// Standard Elo, every player starts at INITIAL_RATING in each game
+
+export const INITIAL_RATING = 1200
+export const K_FACTOR = 32
+
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400))
+}
+
+// score is 1 for a win, 0.5 for a draw and 0 for a loss
+export function getRatingChange(rating: number, opponentRating: number, score: number): number {
+  return Math.round(K_FACTOR * (score - getExpectedScore(rating, opponentRating)))
+}
@@ -0,0 +1,172 @@
+import type { GameRules } from "./engine"
+import type { AIDifficulty } from "./ai"
+import { balloonRules } from "./balloon"
+import { battleshipRules } from "./battleship"
+import { BATTLESHIP_DIFFICULTIES, DEFAULT_BATTLESHIP_DIFFICULTY } from "./battleship-bot"
+import { connectFourRules } from "./connect-four"
+import { CONNECT_FOUR_DIFFICULTIES, DEFAULT_CONNECT_FOUR_DIFFICULTY } from "./connect-four-bot"
+import { ticTacToeRules } from "./tic-tac-toe"
+import { DEFAULT_TIC_TAC_TOE_DIFFICULTY, TIC_TAC_TOE_DIFFICULTIES } from "./tic-tac-toe-bot"
+
+export interface GameDefinition {
+  // games.id in the database
+  id: number
+  // Key clients send to the move API, e.g. "connect-four". components.ts maps it
+  // to the game's client components
+  key: string
+  // Must match games.title
+  title: string
+  description: string
+  image: string
+  // Seats in a lobby, the host can start once minPlayers are seated
+  minPlayers: number
+  maxPlayers: number
+  // Players per team in team games, e.g. 2 for 2v2. Seats alternate between teams
+  teamSize?: number
+  singlePlayer: boolean
+  supportsAI: boolean
+  // Strengths the host can pick for the AI, and the one a new AI game starts on
+  aiDifficulties?: AIDifficulty[]
+  defaultAIDifficulty?: string
+  // Whether the lobby host picks move and game clocks, see clock.ts
+  timed: boolean
+  stateTable: string
+  // Server-side rule engine, single player games run entirely on the client
+  rules: GameRules | null
+}
+
+// Listed in the order the explore page shows them
+export const gameRegistry: GameDefinition[] = [
+  {
+    id: 3,
+    key: "connect-four",
+    title: connectFourRules.title,
+    description: "Vertical strategy game where players drop colored discs.",
+    image: "/connect.svg?height=200&width=300",
+    minPlayers: 2,
+    maxPlayers: 2,
+    singlePlayer: false,
+    supportsAI: true,
+    aiDifficulties: CONNECT_FOUR_DIFFICULTIES,
+    defaultAIDifficulty: DEFAULT_CONNECT_FOUR_DIFFICULTY,
+    timed: true,
+    stateTable: connectFourRules.stateTable,
+    rules: connectFourRules,
+  },
+  {
+    id: 2,
+    key: "tic-tac-toe",
+    title: ticTacToeRules.title,
+    description: "Simple game of X's and O's on a 3x3 grid.",
+    image: "/tictac.svg?height=200&width=300",
+    minPlayers: 2,
+    maxPlayers: 2,
+    singlePlayer: false,
+    supportsAI: true,
+    aiDifficulties: TIC_TAC_TOE_DIFFICULTIES,
+    defaultAIDifficulty: DEFAULT_TIC_TAC_TOE_DIFFICULTY,
+    timed: true,
+    stateTable: ticTacToeRules.stateTable,
+    rules: ticTacToeRules,
+  },
+  {
+    id: 7,
+    key: "balloon",
+    title: balloonRules.title,
+    description: "Take turns pumping a balloon - but don't let it pop!",
+    image: "/balloon.svg?height=200&width=300",
+    minPlayers: 2,
+    maxPlayers: 4,
+    singlePlayer: false,
+    supportsAI: false,
+    timed: false,
+    stateTable: balloonRules.stateTable,
+    rules: balloonRules,
+  },
+  {
+    id: 4,
+    key: "battleship",
+    title: battleshipRules.title,
+    description: "Naval combat strategy game with hidden ship placement.",
+    image: "/battleship.svg?height=200&width=300",
+    minPlayers: 2,
+    maxPlayers: 2,
+    singlePlayer: false,
+    supportsAI: true,
+    aiDifficulties: BATTLESHIP_DIFFICULTIES,
+    defaultAIDifficulty: DEFAULT_BATTLESHIP_DIFFICULTY,
+    timed: true,
+    stateTable: battleshipRules.stateTable,
+    rules: battleshipRules,
+  },
+  {
+    id: 5,
+    key: "minesweeper",
+    title: "Minesweeper",
+    description: "Classic puzzle game where you clear a minefield without detonating any mines.",
+    image: "/minesweeper.svg?height=200&width=300",
+    minPlayers: 1,
+    maxPlayers: 1,
+    singlePlayer: true,
+    supportsAI: false,
+    timed: false,
+    stateTable: "game_states",
+    rules: null,
+  },
+  {
+    id: 6,
+    key: "sliding-puzzle",
+    title: "Sliding Puzzle",
+    description: "Classic sliding tile puzzle. Rearrange the tiles to solve the puzzle.",
+    image: "/sliding.svg?height=200&width=300",
+    minPlayers: 1,
+    maxPlayers: 1,
+    singlePlayer: true,
+    supportsAI: false,
+    timed: false,
+    stateTable: "game_states",
+    rules: null,
+  },
+  {
+    id: 8,
+    key: "corruptle",
+    title: "Corruptle",
+    description: "Guess the daily five-letter word in six tries. Each guess gives you hints!",
+    image: "/corrupt.svg?height=200&width=300",
+    minPlayers: 1,
+    maxPlayers: 1,
+    singlePlayer: true,
+    supportsAI: false,
+    timed: false,
+    stateTable: "game_states",
+    rules: null,
+  },
+]
+
+export function getGameById(id: unknown): GameDefinition | null {
+  return gameRegistry.find((game) => game.id === Number(id)) ?? null
+}
+
+export function getGameByKey(key: unknown): GameDefinition | null {
+  return gameRegistry.find((game) => game.key === key) ?? null
+}
+
+export function getGameByTitle(title: unknown): GameDefinition | null {
+  return gameRegistry.find((game) => game.title === title) ?? null
+}
+
+// Rule engines by the game key clients send to the move API
+export function getGameRules(game: unknown): GameRules | null {
+  return getGameByKey(game)?.rules ?? null
+}
+
+export function getGameRulesByTitle(title: unknown): GameRules | null {
+  return getGameByTitle(title)?.rules ?? null
+}
+
+export function formatPlayerCount(game: GameDefinition): string {
+  if (game.minPlayers === game.maxPlayers) {
+    return `${game.maxPlayers} ${game.maxPlayers === 1 ? "player" : "players"}`
+  }
+  return `${game.minPlayers}-${game.maxPlayers} players`
+}
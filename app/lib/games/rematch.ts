@@ -0,0 +1,41 @@
+// Series bookkeeping for lobbies that play several rounds through rematches
+
+export interface RoundSummary {
+  round: number
+  status: string
+  winner: string | null
+  is_draw: boolean
+  player1: string
+  player2: string | null
+  players?: string[] | null
+  ai_opponent?: boolean
+  rematch_requested_by: string | null
+  rematch_declined: boolean
+}
+
+export interface SeriesScore {
+  wins: Record<string, number>
+  draws: number
+}
+
+export function getSeriesScore(rounds: RoundSummary[]): SeriesScore {
+  const score: SeriesScore = { wins: {}, draws: 0 }
+
+  for (const round of rounds) {
+    if (round.status !== "finished") continue
+
+    if (round.winner) {
+      score.wins[round.winner] = (score.wins[round.winner] ?? 0) + 1
+    } else if (round.is_draw) {
+      score.draws++
+    }
+  }
+
+  return score
+}
+
+// The lobby's players take turns going first in seat order, so with two
+// players player 1 starts the odd rounds
+export function getStartingPlayer(round: number, players: string[]): string {
+  return players[(round - 1) % players.length]
+}
@@ -0,0 +1,276 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto"
+import type { createAdminClient } from "@/lib/supabase/admin"
+import {
+  getOpponent,
+  getSeatedPlayers,
+  type BaseGameState,
+  type ForfeitReason,
+  type GameOutcome,
+  type GameRules,
+} from "./engine"
+import { INITIAL_RATING, getRatingChange } from "./ratings"
+import { isAIPlayer } from "./ai"
+import { getSeatOrder, type LobbyVisibility } from "./lobby"
+import { notifyPlayers } from "../notifications"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+export async function getLobbyGameTitle(admin: AdminClient, lobbyId: string): Promise<string | null> {
+  const { data: lobby } = await admin.from("lobbies").select("game_id").eq("id", lobbyId).single()
+  if (!lobby) return null
+
+  const { data: game } = await admin.from("games").select("title").eq("id", lobby.game_id).single()
+  return game?.title ?? null
+}
+
+// Copies the lobby's seats onto its waiting game_states row, which is what the
+// game pages and rule engines read the players from
+export async function syncLobbySeats(admin: AdminClient, lobbyId: string) {
+  const { data: members, error: membersError } = await admin
+    .from("lobby_members")
+    .select("player_id, seat")
+    .eq("lobby_id", lobbyId)
+
+  if (membersError) return membersError
+
+  const players = getSeatOrder(members ?? [])
+  if (players.length === 0) return null
+
+  const { error } = await admin
+    .from("game_states")
+    .update({
+      player1: players[0],
+      player2: players[1] ?? null,
+      players: players.length > 2 ? players : null,
+      current_player: players[0],
+    })
+    .eq("lobby_id", lobbyId)
+    .eq("status", "waiting")
+
+  return error
+}
+
+// Lobby passwords are kept as "salt:hash" in lobby_passwords, both hex
+export function hashLobbyPassword(password: string): string {
+  const salt = randomBytes(16).toString("hex")
+  const hash = scryptSync(password, salt, 32).toString("hex")
+  return `${salt}:${hash}`
+}
+
+export function verifyLobbyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(":")
+  if (!salt || !hash) return false
+
+  const expected = Buffer.from(hash, "hex")
+  const actual = scryptSync(password, salt, expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+interface LobbyAccess {
+  id: string
+  visibility: LobbyVisibility
+  has_password: boolean
+}
+
+// Why a player can't take a seat in the lobby, or null when they can. Invited
+// players get into private lobbies and skip the password.
+export async function getLobbyAccessDenial(
+  admin: AdminClient,
+  lobby: LobbyAccess,
+  playerId: string,
+  password?: string,
+): Promise<{ error: string; passwordRequired?: boolean } | null> {
+  if (lobby.visibility !== "private" && !lobby.has_password) return null
+
+  const { data: invite } = await admin
+    .from("lobby_invites")
+    .select("player_id")
+    .eq("lobby_id", lobby.id)
+    .eq("player_id", playerId)
+    .maybeSingle()
+
+  if (invite) return null
+  if (lobby.visibility === "private") return { error: "This lobby is invite-only" }
+  if (!password) return { error: "This lobby needs a password", passwordRequired: true }
+
+  const { data: stored } = await admin
+    .from("lobby_passwords")
+    .select("password_hash")
+    .eq("lobby_id", lobby.id)
+    .maybeSingle()
+
+  // has_password without a stored hash means it was just removed
+  if (stored && !verifyLobbyPassword(password, stored.password_hash)) {
+    return { error: "Wrong password", passwordRequired: true }
+  }
+
+  return null
+}
+
+// Writes a verified result onto the game_states row of the state's lobby and
+// round, which is what the leaderboard reads
+export async function recordOutcome(
+  admin: AdminClient,
+  state: Pick<BaseGameState, "lobby_id" | "round">,
+  outcome: GameOutcome,
+) {
+  const round = state.round ?? 1
+
+  const { error } = await admin
+    .from("game_states")
+    .update({ status: "finished", winner: outcome.winner, is_draw: outcome.isDraw })
+    .eq("lobby_id", state.lobby_id)
+    .eq("round", round)
+
+  if (error) return error
+
+  // Keep the first end time if the result is recorded twice
+  const { data: ended, error: endedError } = await admin
+    .from("game_states")
+    .update({ ended_at: new Date().toISOString() })
+    .eq("lobby_id", state.lobby_id)
+    .eq("round", round)
+    .is("ended_at", null)
+    .select("id, lobby_id, player1, player2, players, ai_opponent")
+
+  if (endedError) return endedError
+
+  // Only the call that ended the game rates it and tells the players
+  for (const gameState of ended ?? []) {
+    const ratingError = await updateRatings(admin, gameState, outcome)
+    if (ratingError) console.error("Error updating ratings:", ratingError)
+
+    const notifyError = await notifyResult(admin, gameState, outcome)
+    if (notifyError) console.error("Error sending result notifications:", notifyError)
+  }
+
+  return null
+}
+
+// Ends the game in the opponent's favour, e.g. when the player's clock ran out.
+// Returns null if the turn or status changed since the state was read.
+export async function forfeitGame<TState extends BaseGameState>(
+  admin: AdminClient,
+  rules: GameRules<TState>,
+  state: TState,
+  playerId: string,
+  reason: ForfeitReason,
+): Promise<TState | null> {
+  const winner = getOpponent(state, playerId)
+
+  const { data: forfeited, error } = await admin
+    .from(rules.stateTable)
+    .update({ status: "finished", winner, forfeited_by: playerId, forfeit_reason: reason })
+    .eq("id", state.id)
+    .eq("current_player", state.current_player)
+    .eq("status", state.status)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!forfeited) return null
+
+  const recordError = await recordOutcome(admin, state, { winner, isDraw: false })
+  if (recordError) {
+    console.error("Error recording result:", recordError)
+  }
+
+  return forfeited as TState
+}
+
+interface RatedGameState {
+  id: string
+  lobby_id: string
+  player1: string
+  player2: string | null
+  players: string[] | null
+  ai_opponent: boolean | null
+}
+
+// Applies an Elo update for both players of a finished two-player game. Games
+// against the AI are not rated, nor are games with more than two seats.
+async function updateRatings(admin: AdminClient, gameState: RatedGameState, outcome: GameOutcome) {
+  const { player1, player2 } = gameState
+  if (!player2 || gameState.ai_opponent || (gameState.players?.length ?? 0) > 2) return null
+
+  const { data: lobby, error: lobbyError } = await admin
+    .from("lobbies")
+    .select("game_id")
+    .eq("id", gameState.lobby_id)
+    .single()
+
+  if (lobbyError || !lobby) return lobbyError
+
+  const { data: current, error: currentError } = await admin
+    .from("player_ratings")
+    .select("*")
+    .eq("game_id", lobby.game_id)
+    .in("player_id", [player1, player2])
+
+  if (currentError) return currentError
+
+  const getRow = (playerId: string) => current?.find((row) => row.player_id === playerId)
+  const rating1: number = getRow(player1)?.rating ?? INITIAL_RATING
+  const rating2: number = getRow(player2)?.rating ?? INITIAL_RATING
+  const score1 = outcome.isDraw ? 0.5 : outcome.winner === player1 ? 1 : 0
+
+  const results = [
+    { playerId: player1, before: rating1, delta: getRatingChange(rating1, rating2, score1), score: score1 },
+    { playerId: player2, before: rating2, delta: getRatingChange(rating2, rating1, 1 - score1), score: 1 - score1 },
+  ]
+
+  // The unique (game_state_id, player_id) key stops a game from being rated twice
+  const { error: historyError } = await admin.from("rating_history").insert(
+    results.map((result) => ({
+      player_id: result.playerId,
+      game_id: lobby.game_id,
+      game_state_id: gameState.id,
+      rating_before: result.before,
+      rating_after: result.before + result.delta,
+      delta: result.delta,
+    })),
+  )
+
+  if (historyError) return historyError.code === "23505" ? null : historyError
+
+  const { error: ratingError } = await admin.from("player_ratings").upsert(
+    results.map((result) => {
+      const row = getRow(result.playerId)
+      return {
+        player_id: result.playerId,
+        game_id: lobby.game_id,
+        rating: result.before + result.delta,
+        games_played: (row?.games_played ?? 0) + 1,
+        wins: (row?.wins ?? 0) + (result.score === 1 ? 1 : 0),
+        losses: (row?.losses ?? 0) + (result.score === 0 ? 1 : 0),
+        draws: (row?.draws ?? 0) + (result.score === 0.5 ? 1 : 0),
+        updated_at: new Date().toISOString(),
+      }
+    }),
+  )
+
+  return ratingError
+}
+
+// Tells everyone seated how the game went, games against the AI only tell the player
+async function notifyResult(admin: AdminClient, gameState: RatedGameState, outcome: GameOutcome) {
+  const title = (await getLobbyGameTitle(admin, gameState.lobby_id)) ?? "Your game"
+  const seated = getSeatedPlayers(gameState).filter((playerId) => !isAIPlayer(gameState, playerId))
+  const notification = {
+    type: "game-result" as const,
+    link: `/game/${gameState.lobby_id}`,
+    lobby_id: gameState.lobby_id,
+  }
+
+  if (outcome.isDraw || !outcome.winner) {
+    return notifyPlayers(admin, seated, { ...notification, title: `${title} ended in a draw` })
+  }
+
+  const winners = seated.filter((playerId) => playerId === outcome.winner)
+  const losers = seated.filter((playerId) => playerId !== outcome.winner)
+
+  const winError = await notifyPlayers(admin, winners, { ...notification, title: `You won at ${title}!` })
+  const lossError = await notifyPlayers(admin, losers, { ...notification, title: `You lost at ${title}` })
+
+  return winError ?? lossError
+}
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { chooseTicTacToeMove, evaluateSquares } from "./tic-tac-toe-bot"
+import { createEmptyBoard, findLineWinner } from "./tic-tac-toe"
+
+type Board = (string | null)[][]
+
+const AI = "ai"
+const HUMAN = "human"
+
+const _ = null
+const A = AI
+const H = HUMAN
+
+// The AI can win at [0, 2], blocking at [1, 2] only draws and anything else loses
+const WIN_OR_BLOCK: Board = [
+  [A, A, _],
+  [H, H, _],
+  [_, _, H],
+]
+
+// The human wins at [0, 2] unless the AI takes it
+const MUST_BLOCK: Board = [
+  [H, H, _],
+  [A, _, _],
+  [_, _, _],
+]
+
+// Blocking at [2, 1] draws, [2, 2] lets the human finish the middle column
+const DRAW_OR_LOSE: Board = [
+  [A, H, A],
+  [A, H, H],
+  [H, _, _],
+]
+
+const DIFFICULTIES = ["easy", "medium", "impossible"]
+
+function getEmptySquares(board: Board): [number, number][] {
+  return board.flatMap((row, r) => row.flatMap((cell, c) => (cell ? [] : [[r, c] as [number, number]])))
+}
+
+// Plays every reply the human has against the AI and returns the first board
+// the human wins, null if the AI never loses
+function findHumanWin(board: Board, aiToMove: boolean): Board | null {
+  const winner = findLineWinner(board)
+  if (winner) return winner === HUMAN ? board : null
+  if (getEmptySquares(board).length === 0) return null
+
+  if (aiToMove) {
+    const move = chooseTicTacToeMove(board, AI, HUMAN, "impossible")
+    if (!move) throw new Error("AI passed with squares left")
+    const next = board.map((row) => [...row])
+    next[move[0]][move[1]] = AI
+    return findHumanWin(next, false)
+  }
+
+  for (const [row, col] of getEmptySquares(board)) {
+    const next = board.map((boardRow) => [...boardRow])
+    next[row][col] = HUMAN
+    const lost = findHumanWin(next, true)
+    if (lost) return lost
+  }
+  return null
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("evaluateSquares", () => {
+  it("scores a forced win above everything else", () => {
+    const scores = evaluateSquares(WIN_OR_BLOCK, AI, HUMAN)
+
+    expect(scores[0][2]).toBe(9)
+    expect(scores[1][2]).toBeCloseTo(0)
+    expect(scores[2][0]).toBeLessThan(0)
+    expect(scores[0][0]).toBeNull()
+  })
+
+  it("scores every square on an empty board as a draw", () => {
+    expect(evaluateSquares(createEmptyBoard(), AI, HUMAN)).toEqual([
+      [0, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+    ])
+  })
+
+  it("tells the drawing square apart from the losing one", () => {
+    const scores = evaluateSquares(DRAW_OR_LOSE, AI, HUMAN)
+
+    expect(scores[2][1]).toBeCloseTo(0)
+    expect(scores[2][2]).toBeLessThan(0)
+  })
+
+  it("returns no scores once the game is won", () => {
+    const board: Board = [
+      [A, A, A],
+      [H, H, _],
+      [_, _, _],
+    ]
+
+    expect(evaluateSquares(board, HUMAN, AI).flat().every((score) => score === null)).toBe(true)
+  })
+})
+
+describe("chooseTicTacToeMove", () => {
+  it.each(DIFFICULTIES)("returns null on a full board on %s", (difficulty) => {
+    const board: Board = [
+      [A, H, A],
+      [A, H, H],
+      [H, A, H],
+    ]
+
+    expect(chooseTicTacToeMove(board, AI, HUMAN, difficulty)).toBeNull()
+  })
+
+  it.each(["medium", "impossible"])("takes a forced win over a block on %s", (difficulty) => {
+    expect(chooseTicTacToeMove(WIN_OR_BLOCK, AI, HUMAN, difficulty)).toEqual([0, 2])
+  })
+
+  it.each(["medium", "impossible"])("blocks a forced loss on %s", (difficulty) => {
+    expect(chooseTicTacToeMove(MUST_BLOCK, AI, HUMAN, difficulty)).toEqual([0, 2])
+  })
+
+  it.each(["medium", "impossible"])("takes the draw when it can't win on %s", (difficulty) => {
+    expect(chooseTicTacToeMove(DRAW_OR_LOSE, AI, HUMAN, difficulty)).toEqual([2, 1])
+  })
+
+  it("takes a win or a block on easy when it doesn't blunder", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5)
+
+    expect(chooseTicTacToeMove(WIN_OR_BLOCK, AI, HUMAN, "easy")).toEqual([0, 2])
+    expect(chooseTicTacToeMove(MUST_BLOCK, AI, HUMAN, "easy")).toEqual([0, 2])
+  })
+
+  it("plays a random square on easy when it blunders", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.3)
+
+    expect(chooseTicTacToeMove(MUST_BLOCK, AI, HUMAN, "easy")).toEqual([1, 1])
+  })
+
+  it("plays like medium for unknown or missing difficulties", () => {
+    expect(chooseTicTacToeMove(MUST_BLOCK, AI, HUMAN, "unbeatable")).toEqual([0, 2])
+    expect(chooseTicTacToeMove(MUST_BLOCK, AI, HUMAN, null)).toEqual([0, 2])
+  })
+
+  it("never loses on impossible, moving first or second", () => {
+    expect(findHumanWin(createEmptyBoard(), true)).toBeNull()
+    expect(findHumanWin(createEmptyBoard(), false)).toBeNull()
+  })
+})
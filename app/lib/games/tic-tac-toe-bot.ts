@@ -0,0 +1,132 @@
+import { makeAIMove } from "./tic-tac-toe-heuristic"
+import type { AIDifficulty } from "./ai"
+import { findLineWinner } from "./tic-tac-toe"
+
+type Board = (string | null)[][]
+
+export const TIC_TAC_TOE_DIFFICULTIES: AIDifficulty[] = [
+  { value: "easy", label: "Easy", description: "Plays at random and misses some wins and blocks" },
+  { value: "medium", label: "Medium", description: "Wins, blocks and sets up forks when it sees them" },
+  { value: "impossible", label: "Impossible", description: "Searches every game to the end and never loses" },
+]
+
+export const DEFAULT_TIC_TAC_TOE_DIFFICULTY = "medium"
+
+// How often the easy AI overlooks a square that wins or blocks on the spot
+const EASY_BLUNDER_CHANCE = 0.4
+
+// A win scores this minus the number of moves it takes, so sooner is better
+const WIN_SCORE = 10
+
+function getEmptySquares(board: Board): [number, number][] {
+  const squares: [number, number][] = []
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      if (!board[row][col]) squares.push([row, col])
+    }
+  }
+  return squares
+}
+
+function pickRandom<T>(items: T[]): T | null {
+  return items.length > 0 ? items[Math.floor(Math.random() * items.length)] : null
+}
+
+// Best score the player to move can force, from their side of the board
+function minimax(board: Board, toMove: string, waiting: string, depth: number): number {
+  let best = -Infinity
+
+  for (const [row, col] of getEmptySquares(board)) {
+    board[row][col] = toMove
+    const score =
+      findLineWinner(board) === toMove
+        ? WIN_SCORE - depth
+        : getEmptySquares(board).length === 0
+          ? 0
+          : -minimax(board, waiting, toMove, depth + 1)
+    board[row][col] = null
+    best = Math.max(best, score)
+  }
+
+  return best === -Infinity ? 0 : best
+}
+
+// What each square is worth to `player` if they take it now and both sides play
+// perfectly afterwards: positive wins, 0 draws, negative loses, and the further
+// from 0 the sooner it happens. Taken squares are null, as are all squares once
+// the game is over.
+export function evaluateSquares(board: Board, player: string, opponent: string): (number | null)[][] {
+  const scratch = board.map((row) => row.map((cell) => cell || null))
+  const isOver = !!findLineWinner(scratch)
+
+  return scratch.map((row, rowIndex) =>
+    row.map((cell, colIndex) => {
+      if (cell || isOver) return null
+
+      scratch[rowIndex][colIndex] = player
+      const score =
+        findLineWinner(scratch) === player
+          ? WIN_SCORE - 1
+          : getEmptySquares(scratch).length === 0
+            ? 0
+            : -minimax(scratch, opponent, player, 2)
+      scratch[rowIndex][colIndex] = null
+
+      return score
+    }),
+  )
+}
+
+// A square that completes one of `player`'s lines, if there is one
+function findWinningSquare(board: Board, player: string): [number, number] | null {
+  for (const [row, col] of getEmptySquares(board)) {
+    const next = board.map((boardRow) => [...boardRow])
+    next[row][col] = player
+    if (findLineWinner(next) === player) return [row, col]
+  }
+  return null
+}
+
+// Random squares, but it usually takes a win or blocks one when it is right there
+function chooseEasyMove(board: Board, aiPlayer: string, humanPlayer: string): [number, number] | null {
+  const sharp = findWinningSquare(board, aiPlayer) ?? findWinningSquare(board, humanPlayer)
+  if (sharp && Math.random() >= EASY_BLUNDER_CHANCE) return sharp
+
+  return pickRandom(getEmptySquares(board))
+}
+
+// One of the best squares by evaluateSquares, ties broken at random
+function chooseImpossibleMove(board: Board, aiPlayer: string, humanPlayer: string): [number, number] | null {
+  const scores = evaluateSquares(board, aiPlayer, humanPlayer)
+  let best: [number, number][] = []
+  let bestScore = -Infinity
+
+  scores.forEach((row, rowIndex) =>
+    row.forEach((score, colIndex) => {
+      if (score === null) return
+      if (score > bestScore) {
+        best = [[rowIndex, colIndex]]
+        bestScore = score
+      } else if (score === bestScore) {
+        best.push([rowIndex, colIndex])
+      }
+    }),
+  )
+
+  return pickRandom(best)
+}
+
+// Picks the AI's square, null if the board is full. Unknown difficulties, and
+// games from before difficulties existed, play like the default.
+export function chooseTicTacToeMove(
+  board: Board,
+  aiPlayer: string,
+  humanPlayer: string,
+  difficulty?: string | null,
+): [number, number] | null {
+  const cleaned = board.map((row) => row.map((cell) => cell || null))
+
+  if (difficulty === "easy") return chooseEasyMove(cleaned, aiPlayer, humanPlayer)
+  if (difficulty === "impossible") return chooseImpossibleMove(cleaned, aiPlayer, humanPlayer)
+  return makeAIMove(cleaned, aiPlayer, humanPlayer)
+}
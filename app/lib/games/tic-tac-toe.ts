@@ -0,0 +1,128 @@
+import { chooseTicTacToeMove } from "./tic-tac-toe-bot"
+import {
+  getOpponent,
+  invalidMove,
+  isInteger,
+  type BaseGameState,
+  type GameRules,
+  type ReplayFrame,
+} from "./engine"
+
+export interface TicTacToeState extends BaseGameState {
+  // Cells hold the id of the player who took them, empty cells are "" or null
+  board: (string | null)[][]
+}
+
+const LINES = [
+  [[0, 0], [0, 1], [0, 2]],
+  [[1, 0], [1, 1], [1, 2]],
+  [[2, 0], [2, 1], [2, 2]],
+  [[0, 0], [1, 0], [2, 0]],
+  [[0, 1], [1, 1], [2, 1]],
+  [[0, 2], [1, 2], [2, 2]],
+  [[0, 0], [1, 1], [2, 2]],
+  [[0, 2], [1, 1], [2, 0]],
+]
+
+export function findLineWinner(board: (string | null)[][]): string | null {
+  for (const [[r1, c1], [r2, c2], [r3, c3]] of LINES) {
+    const cell = board[r1][c1]
+    if (cell && cell === board[r2][c2] && cell === board[r3][c3]) return cell
+  }
+  return null
+}
+
+export function createEmptyBoard(): (string | null)[][] {
+  return Array(3)
+    .fill(null)
+    .map(() => Array(3).fill(null))
+}
+
+function placeMark(state: TicTacToeState, row: number, col: number, playerId: string, nextPlayer: string) {
+  const board = state.board.map((boardRow) => [...boardRow])
+  board[row][col] = playerId
+
+  const winner = findLineWinner(board)
+  const isFull = board.every((boardRow) => boardRow.every((cell) => !!cell))
+
+  return {
+    update: {
+      board,
+      current_player: nextPlayer,
+      ...(winner || isFull ? { status: "finished", winner } : {}),
+    },
+    log: { move: { type: "place", row, col, player: playerId } },
+  }
+}
+
+export const ticTacToeRules: GameRules<TicTacToeState> = {
+  title: "Tic Tac Toe",
+  stateTable: "game_states",
+  movesTable: "game_moves",
+
+  applyMove(state, move, playerId) {
+    if (state.status !== "playing") return invalidMove("Game is not in progress")
+
+    const opponent = getOpponent(state, playerId)
+    if (!opponent) return invalidMove("Waiting for an opponent")
+
+    if (move.type === "place") {
+      if (state.current_player !== playerId) return invalidMove("It is not your turn")
+      if (!isInteger(move.row, 0, 2) || !isInteger(move.col, 0, 2)) return invalidMove("Invalid cell")
+      if (state.board[move.row][move.col]) return invalidMove("Cell is already taken")
+
+      return placeMark(state, move.row, move.col, playerId, opponent)
+    }
+
+    // The AI plays as player 2, the human player asks the server to take its turn.
+    // How well it plays depends on the difficulty the host picked in the lobby.
+    if (move.type === "ai") {
+      if (!state.ai_opponent) return invalidMove("This game has no AI opponent")
+      if (playerId !== state.player1 || state.current_player !== state.player2) {
+        return invalidMove("It is not the AI's turn")
+      }
+
+      const aiMove = chooseTicTacToeMove(state.board, state.player2, state.player1, state.ai_difficulty)
+      if (!aiMove) return invalidMove("No moves left")
+
+      const [row, col] = aiMove
+      return placeMark(state, row, col, state.player2, state.player1)
+    }
+
+    return invalidMove("Unknown move")
+  },
+
+  getOutcome(state) {
+    const winner = findLineWinner(state.board)
+    if (winner) return { winner, isDraw: false }
+
+    const isFull = state.board.every((boardRow) => boardRow.every((cell) => !!cell))
+    return isFull ? { winner: null, isDraw: true } : null
+  },
+
+  createRound() {
+    return { board: createEmptyBoard() }
+  },
+
+  // Logged places carry the mark's owner, which is player 2 for AI moves
+  replay(state, moves) {
+    let board = createEmptyBoard()
+    const frames: ReplayFrame<TicTacToeState>[] = [{ position: { board }, playerId: null, description: "Game started" }]
+
+    for (const { move } of moves) {
+      const logged = move as { type?: string; row?: number; col?: number; player?: string } | null
+      if (logged?.type !== "place" || !logged.player) continue
+      if (!isInteger(logged.row, 0, 2) || !isInteger(logged.col, 0, 2)) continue
+
+      board = board.map((boardRow) => [...boardRow])
+      board[logged.row][logged.col] = logged.player
+      frames.push({
+        position: { board },
+        playerId: logged.player,
+        description: `Placed ${logged.player === state.player1 ? "X" : "O"} at row ${logged.row + 1}, column ${logged.col + 1}`,
+      })
+    }
+
+    return frames
+  },
+}
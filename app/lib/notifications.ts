@@ -0,0 +1,82 @@
+// Notifications used by /api/notifications, the bell in ClientLayout and the
+// settings page. Routes call notifyPlayers next to whatever they notify about,
+// a notification that fails to send never fails the request itself.
+
+import type { createAdminClient } from "@/lib/supabase/admin"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+export type NotificationType = "invite" | "challenge" | "rematch" | "your-turn" | "game-result"
+
+export const NOTIFICATION_TYPES: { value: NotificationType; label: string; description: string }[] = [
+  { value: "invite", label: "Lobby invites", description: "A host invites you into their lobby" },
+  { value: "challenge", label: "Challenges", description: "Someone challenges you to a game" },
+  { value: "rematch", label: "Rematch requests", description: "Your opponent wants to play again" },
+  { value: "your-turn", label: "Your turn", description: "It's your move in a game" },
+  { value: "game-result", label: "Game results", description: "A game you played has ended" },
+]
+
+// How many notifications the bell shows
+export const NOTIFICATION_LIMIT = 20
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return NOTIFICATION_TYPES.some((type) => type.value === value)
+}
+
+export interface Notification {
+  id: string
+  player_id: string
+  type: NotificationType
+  title: string
+  body: string | null
+  // Page the notification opens, e.g. the lobby it is about
+  link: string | null
+  lobby_id: string | null
+  created_at: string
+  read_at: string | null
+}
+
+export type NewNotification = Pick<Notification, "type" | "title"> &
+  Partial<Pick<Notification, "body" | "link" | "lobby_id">>
+
+// Sends the notification to every player who hasn't turned its type off. Turn
+// notifications replace the player's unread one for the same lobby, so a long
+// game leaves one of them behind rather than one per move.
+export async function notifyPlayers(admin: AdminClient, playerIds: string[], notification: NewNotification) {
+  if (playerIds.length === 0) return null
+
+  const { data: muted, error: mutedError } = await admin
+    .from("notification_preferences")
+    .select("player_id")
+    .in("player_id", playerIds)
+    .eq("type", notification.type)
+    .eq("enabled", false)
+
+  if (mutedError) return mutedError
+
+  const recipients = playerIds.filter((playerId) => !muted?.some((row) => row.player_id === playerId))
+  if (recipients.length === 0) return null
+
+  if (notification.type === "your-turn" && notification.lobby_id) {
+    const { error } = await admin
+      .from("notifications")
+      .delete()
+      .in("player_id", recipients)
+      .eq("type", "your-turn")
+      .eq("lobby_id", notification.lobby_id)
+      .is("read_at", null)
+
+    if (error) return error
+  }
+
+  const { error } = await admin
+    .from("notifications")
+    .insert(recipients.map((playerId) => ({ player_id: playerId, ...notification })))
+
+  return error
+}
+
+export async function getUsername(admin: AdminClient, playerId: string): Promise<string> {
+  const { data } = await admin.from("profiles").select("username").eq("id", playerId).maybeSingle()
+  return data?.username || "Someone"
+}
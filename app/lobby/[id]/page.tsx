@@ -3,18 +3,42 @@
 import { useEffect, useState, useRef } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { FaArrowLeft, FaPlay, FaSync, FaGamepad } from "react-icons/fa";
+import { FaArrowLeft, FaPlay, FaSync, FaGamepad, FaCrown, FaCheck } from "react-icons/fa";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import type { RealtimeChannel } from "@supabase/supabase-js";
 import React from "react";
-import GenerateCodeButton from "../../components/GenerateCodeButton";
+import InviteModal from "../../components/InviteModal";
+import LobbyAccessSettings from "../../components/LobbyAccessSettings";
+import LobbyAISettings from "../../components/LobbyAISettings";
 import LobbyMiniGame from "../../components/MiniGame";
+import RoomChat from "../../components/RoomChat";
 import type { User } from "@supabase/supabase-js";
+import { getGameById, type GameDefinition } from "@/app/lib/games/registry";
+import { TIME_CONTROLS } from "@/app/lib/games/clock";
+import { GRACE_PERIODS } from "@/app/lib/games/presence";
+import { usePresence } from "@/app/components/games/use-presence";
+import { getLobbyRoomId } from "@/app/lib/chat";
+import {
+  LOBBY_VISIBILITIES,
+  getFreeSeat,
+  getStartBlocker,
+  type LobbyMember,
+  type LobbyMemberAction,
+  type LobbyVisibility,
+} from "@/app/lib/games/lobby";
 
 const supabase = createClientComponentClient();
 
 const POLLING_INTERVAL = 3000;
 
+// Colour of each seat, in seat order
+const SEAT_COLORS = [
+  { dot: "bg-red-500", glow: "from-red-500/20" },
+  { dot: "bg-yellow-500", glow: "from-yellow-500/20" },
+  { dot: "bg-blue-500", glow: "from-blue-500/20" },
+  { dot: "bg-green-500", glow: "from-green-500/20" },
+];
+
 interface SupabaseError {
   message: string;
   code?: string;
@@ -25,19 +49,15 @@ interface SupabaseError {
 interface Lobby {
   id: string;
   created_by: string;
+  host_id: string | null;
   game_id: string | null;
+  visibility: LobbyVisibility;
+  has_password: boolean;
   status: string;
   created_at: string;
   [key: string]: unknown;
 }
 
-interface Game {
-  id: string;
-  title: string;
-  [key: string]: unknown;
-  singlePlayer?: boolean;
-}
-
 interface Player {
   id: string;
   username: string;
@@ -53,6 +73,7 @@ interface GameState {
   created_at?: string;
   updated_at?: string;
   ai_opponent?: boolean;
+  ai_difficulty?: string | null;
   [key: string]: unknown;
 }
 
@@ -65,23 +86,31 @@ interface RealtimePayload {
 export default function LobbyPage({ params }: { params: Promise<{ id: string }> }) {
   const router = useRouter();
   const [lobby, setLobby] = useState<Lobby | null>(null);
-  const [game, setGame] = useState<Game | null>(null);
+  const [game, setGame] = useState<GameDefinition | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
+  const [members, setMembers] = useState<LobbyMember[]>([]);
+  const [pendingAction, setPendingAction] = useState<LobbyMemberAction | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [joining, setJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [joinPassword, setJoinPassword] = useState("");
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showMiniGame, setShowMiniGame] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
   const [hasShownShareModal, setHasShownShareModal] = useState(false);
+  const [timeControl, setTimeControl] = useState(0);
+  const [gracePeriod, setGracePeriod] = useState(0);
 
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const subscriptionRef = useRef<RealtimeChannel | null>(null);
   const gameStateIdRef = useRef<string | null>(null);
 
   const resolvedParams = React.use(params);
+  const { onlineIds } = usePresence(resolvedParams.id, currentUser?.id);
 
   useEffect(() => {
     let isActive = true;
@@ -118,21 +147,13 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
           setHasShownShareModal(true);
         }
 
-        // Fetch game data
-        let gameData: Game | null = null;
-        if (lobbyData?.game_id) {
-          const { data: fetchedGameData, error: gameError } = await supabase
-            .from("games")
-            .select("*")
-            .eq("id", lobbyData.game_id)
-            .single();
-
-          if (gameError) throw gameError;
-          gameData = fetchedGameData;
+        // Look up the game this lobby is for
+        const gameData = getGameById(lobbyData?.game_id);
+        if (gameData) {
           if (isActive) setGame(gameData);
 
           // If it's a single-player game, redirect directly to the game page
-          if (gameData?.singlePlayer) {
+          if (gameData.singlePlayer) {
             router.push(`/game/${resolvedParams.id}`);
             return;
           }
@@ -143,6 +164,8 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
           .from("game_states")
           .select("*")
           .eq("lobby_id", resolvedParams.id)
+          .order("round", { ascending: false })
+          .limit(1)
           .maybeSingle();
 
         if (gameStateError && gameStateError.code !== "PGRST116") {
@@ -153,39 +176,13 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
           if (isActive) {
             setGameState(gameStateData);
             gameStateIdRef.current = gameStateData.id;
-
-            // If this is a Tic Tac Toe game and the creator just created it (status is pending),
-            // show the AI option
-            if (
-              gameData?.title === "Tic Tac Toe" &&
-              gameStateData.status === "waiting" &&
-              gameStateData.player1 === session.user.id &&
-              !gameStateData.ai_opponent
-            ) {
-
-            }
           }
 
-          // Fetch player profiles
-          const playerIds = [gameStateData.player1, gameStateData.player2].filter((id): id is string => id !== null);
-
-          if (playerIds.length > 0) {
-            const { data: playerData, error: playerError } = await supabase
-              .from("profiles")
-              .select("*")
-              .in("id", playerIds);
-
-            if (playerError) {
-              console.error("Error fetching players:", playerError);
-            } else if (isActive) {
-              setPlayers(playerData || []);
-            }
-          }
-        } else {
-          // If no game state exists yet, try to create one
-          await joinGame(true);
         }
 
+        // Seats and the profiles of whoever sits in them
+        fetchMembers();
+
         // Set up real-time subscription for game state changes
         if (subscriptionRef.current) {
           subscriptionRef.current.unsubscribe();
@@ -213,10 +210,32 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
                 router.push(`/game/${resolvedParams.id}`);
               }
 
-              const playerIds = [payload.new.player1, payload.new.player2].filter((id): id is string => id !== null);
-              if (playerIds.length > 0) {
-                fetchPlayerProfiles(playerIds);
-              }
+              fetchMembers();
+            },
+          )
+          .on(
+            "postgres_changes" as unknown as "system",
+            {
+              event: "*",
+              schema: "public",
+              table: "lobby_members",
+              filter: `lobby_id=eq.${resolvedParams.id}`,
+            },
+            () => {
+              if (isActive) fetchMembers();
+            },
+          )
+          .on(
+            "postgres_changes" as unknown as "system",
+            {
+              event: "UPDATE",
+              schema: "public",
+              table: "lobbies",
+              filter: `id=eq.${resolvedParams.id}`,
+            },
+            (payload: { new: Lobby }) => {
+              // The host may have handed the lobby to someone else
+              if (isActive) setLobby(payload.new);
             },
           )
           .subscribe((status) => {
@@ -281,6 +300,31 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
     }
   }
 
+  // Load the lobby's seats and the profiles of whoever sits in them
+  async function fetchMembers() {
+    try {
+      const { data, error } = await supabase
+        .from("lobby_members")
+        .select("*")
+        .eq("lobby_id", resolvedParams.id)
+        .order("seat", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching lobby members:", error);
+        return;
+      }
+
+      setMembers(data || []);
+
+      const playerIds = (data || []).map((member: LobbyMember) => member.player_id);
+      if (playerIds.length > 0) {
+        fetchPlayerProfiles(playerIds);
+      }
+    } catch (err: unknown) {
+      console.error("Error in fetchMembers:", err);
+    }
+  }
+
   async function refreshLobbyData() {
     try {
       // Check if the game is single-player
@@ -289,10 +333,15 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
         return;
       }
 
+      const { data: lobbyData } = await supabase.from("lobbies").select("*").eq("id", resolvedParams.id).maybeSingle();
+      if (lobbyData) setLobby(lobbyData);
+
       const { data: gameStateData, error: gameStateError } = await supabase
         .from("game_states")
         .select("*")
         .eq("lobby_id", resolvedParams.id)
+        .order("round", { ascending: false })
+        .limit(1)
         .maybeSingle();
 
       if (gameStateError && gameStateError.code !== "PGRST116") {
@@ -308,12 +357,9 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
           router.push(`/game/${resolvedParams.id}`);
           return;
         }
-
-        const playerIds = [gameStateData.player1, gameStateData.player2].filter((id): id is string => id !== null);
-        if (playerIds.length > 0) {
-          fetchPlayerProfiles(playerIds);
-        }
       }
+
+      await fetchMembers();
     } catch (err: unknown) {
       console.error("Error in refreshLobbyData:", err);
     }
@@ -321,15 +367,22 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
 
   async function startGame() {
     try {
-      // Update game state to playing
-      const { error } = await supabase
-        .from('game_states')
-        .update({ status: 'playing' })
-        .eq('lobby_id', resolvedParams.id);
+      // The server checks that we are the host and the lobby is full
+      const { moveTimeLimit, gameTimeLimit } = TIME_CONTROLS[timeControl];
+      const response = await fetch(`/api/lobbies/${resolvedParams.id}/start`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          moveTimeLimit,
+          gameTimeLimit,
+          disconnectGracePeriod: GRACE_PERIODS[gracePeriod].seconds,
+        }),
+      });
 
-      if (error) {
-        console.error("Error starting game:", error);
-        setError("Failed to start game");
+      if (!response.ok) {
+        const errorData = await response.json();
+        console.error("Error starting game:", errorData.error);
+        setActionError(errorData.error || "Failed to start game");
         return;
       }
 
@@ -337,7 +390,7 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
       router.push(`/game/${resolvedParams.id}`);
     } catch (err) {
       console.error("Error in startGame:", err);
-      setError("Failed to start game");
+      setActionError("Failed to start game");
     }
   }
 
@@ -347,30 +400,48 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
     setTimeout(() => setIsRefreshing(false), 500);
   }
 
-  async function joinGame(silent = false) {
+  // Joining, leaving, ready checks and the host's kick and transfer all go
+  // through the members API, which keeps game_states in step with the seats
+  async function updateMembership(action: LobbyMemberAction, playerId?: string, password?: string) {
     try {
-      if (!silent) setJoining(true);
+      setPendingAction(action);
+      setActionError(null);
 
-      const { data, error } = await supabase.rpc("join_lobby_simple", {
-        p_id: resolvedParams.id,
+      const response = await fetch(`/api/lobbies/${resolvedParams.id}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, playerId, password }),
       });
 
-      if (error) {
-        console.error("Error joining game:", error);
-        if (!silent) setError(error.message || "Failed to join game");
-        return;
+      const data = await response.json();
+      if (!response.ok) {
+        console.error(`Error on lobby ${action}:`, data.error);
+        setActionError(data.error || "Failed to update the lobby");
+        return false;
       }
 
-      console.log("Joined game:", data);
-
-      // Refresh state data
       await refreshLobbyData();
+      return true;
     } catch (err: unknown) {
-      const error = err as SupabaseError;
-      console.error("Error joining game:", error);
-      if (!silent) setError(error.message || "Failed to join game");
+      console.error(`Error on lobby ${action}:`, err);
+      setActionError("Failed to update the lobby");
+      return false;
     } finally {
-      if (!silent) setJoining(false);
+      setPendingAction(null);
+    }
+  }
+
+  async function joinGame() {
+    setJoining(true);
+    if (await updateMembership("join", undefined, joinPassword || undefined)) {
+      setJoinPassword("");
+    }
+    setJoining(false);
+  }
+
+  async function leaveLobby() {
+    if (await updateMembership("leave")) {
+      router.push("/explore");
     }
   }
 
@@ -484,15 +555,22 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
     );
   }
 
-  const isCreator = lobby.created_by === currentUser?.id;
-  const isInGame = gameState && (gameState.player1 === currentUser?.id || gameState.player2 === currentUser?.id);
-  const canJoin = gameState && gameState.player2 === null && !isInGame && !isCreator && gameState.status === "waiting";
-  const isGameFull = gameState && gameState.player1 && gameState.player2;
-  const isWaiting = gameState && gameState.status === "waiting";
+  const hostId = lobby.host_id ?? lobby.created_by;
+  const isHost = hostId === currentUser?.id;
+  const me = members.find((member) => member.player_id === currentUser?.id);
+  const isInGame = !!me;
+  const isWaiting = gameState?.status === "waiting";
+  const seatCount = game?.maxPlayers ?? 2;
+  const canJoin =
+    !!gameState && isWaiting && !isInGame && !gameState.ai_opponent && !!game && getFreeSeat(members, game) !== null;
+  const startBlocker = game ? getStartBlocker(members, hostId, game, !!gameState?.ai_opponent) : "Waiting for players";
+  const isGameReady = !startBlocker;
 
   return (
     <div className="bg-white min-h-screen p-4 sm:p-8 font-[family-name:var(--font-geist-sans)]">
       {/* Share Modal */}
+      {showInviteModal && <InviteModal lobbyId={resolvedParams.id} onClose={() => setShowInviteModal(false)} />}
+
       {showShareModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
           <div className="relative bg-white border-2 border-black rounded-2xl shadow-2xl p-6 sm:p-8 max-w-md w-full">
@@ -556,7 +634,7 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
       <main className="text-black max-w-4xl mx-auto">
         <div className="border-2 border-black rounded-lg p-4 sm:p-6">
           <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-4">
-            <h2 className="text-2xl sm:text-3xl font-bold text-black">{game?.title || "Connect Four"} Lobby</h2>
+            <h2 className="text-2xl sm:text-3xl font-bold text-black">{game?.title || "Game"} Lobby</h2>
 
             <div className="flex space-x-2">
               <button
@@ -595,76 +673,173 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
                 <strong>Status:</strong> {gameState?.status || "Waiting for players"}
               </p>
               <p className="text-black">
-                <strong>Created by:</strong> {getPlayerName(gameState?.player1)}
+                <strong>Host:</strong> {getPlayerName(hostId)}
+              </p>
+              <p className="text-black">
+                <strong>Access:</strong>{" "}
+                {LOBBY_VISIBILITIES.find((option) => option.value === lobby.visibility)?.label ?? "Public"}
+                {lobby.has_password && lobby.visibility !== "private" && ", password protected"}
               </p>
             </div>
 
-            {isCreator && (
+            {(isHost || (isInGame && lobby.visibility !== "private")) && (
               <div className="mt-4 p-3 sm:p-4 border-2 border-black rounded-lg bg-gray-50">
                 <h3 className="text-base sm:text-lg font-bold mb-2">Invitation Code</h3>
-                <p className="text-xs sm:text-sm mb-3">Generate a short code that others can use to join this lobby.</p>
-                <GenerateCodeButton lobbyId={resolvedParams.id} />
+                <p className="text-xs sm:text-sm mb-3">
+                  Generate a short code that others can use to join this lobby, and see who used your codes.
+                </p>
+                <button onClick={() => setShowInviteModal(true)} className="bg-black text-white px-4 py-2 rounded-lg">
+                  Manage Invite Codes
+                </button>
               </div>
             )}
 
+            {isHost && isWaiting && (
+              <LobbyAccessSettings
+                lobbyId={resolvedParams.id}
+                visibility={lobby.visibility ?? "public"}
+                hasPassword={!!lobby.has_password}
+                onChange={refreshLobbyData}
+              />
+            )}
+
+            {isHost && isWaiting && game?.supportsAI && (
+              <LobbyAISettings
+                lobbyId={resolvedParams.id}
+                aiOpponent={!!gameState?.ai_opponent}
+                aiDifficulty={gameState?.ai_difficulty ?? null}
+                difficulties={game.aiDifficulties ?? []}
+                defaultDifficulty={game.defaultAIDifficulty}
+                canPlayAI={members.every((member) => member.player_id === hostId)}
+                onChange={refreshLobbyData}
+              />
+            )}
+
             <div className="mt-6">
-              <h3 className="text-lg sm:text-xl font-bold text-black mb-4">Players</h3>
+              <h3 className="text-lg sm:text-xl font-bold text-black mb-4">
+                Players ({members.length}/{seatCount})
+              </h3>
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                <div className="border-2 border-black rounded-lg p-4 relative overflow-hidden transition-all duration-300 hover:shadow-lg group">
-                  <div className="absolute inset-0 bg-gradient-to-r from-red-500/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
-                  <div className="absolute -bottom-2 -left-2 w-12 h-12 rounded-full bg-red-500 opacity-20"></div>
-                  <p className="font-bold mb-2 flex items-center">
-                    Player 1{" "}
-                    <span className="ml-2 inline-block w-4 h-4 rounded-full bg-red-500"></span>
-                  </p>
-                  <p className="relative z-10">{getPlayerName(gameState?.player1)}</p>
-                  {gameState?.player1 === currentUser?.id && (
-                    <div className="flex items-center mt-2 text-xs text-gray-600">
-                      <span className="inline-block w-2 h-2 rounded-full bg-green-500 mr-1"></span>
-                      <p>That&apos;s you!</p>
-                    </div>
-                  )}
-                </div>
-
-                <div className="border-2 border-black rounded-lg p-4 relative overflow-hidden transition-all duration-300 hover:shadow-lg group">
-                  <div className="absolute inset-0 bg-gradient-to-r from-yellow-500/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
-                  <div className="absolute -bottom-2 -left-2 w-12 h-12 rounded-full bg-yellow-500 opacity-20"></div>
-                  <p className="font-bold mb-2 flex items-center">
-                    Player 2
-                    <span className="ml-2 inline-block w-4 h-4 rounded-full bg-yellow-500"></span>
-                  </p>
-                  <p className="relative z-10">
-                    {gameState?.ai_opponent ? (
-                      <span className="flex items-center">
-                        <svg
-                          className="w-5 h-5 mr-1"
-                          xmlns="http://www.w3.org/2000/svg"
-                          viewBox="0 0 24 24"
-                          fill="none"
-                          stroke="currentColor"
-                          strokeWidth="2"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                        >
-                          <rect x="3" y="4" width="18" height="16" rx="2" ry="2"></rect>
-                          <circle cx="9" cy="10" r="2"></circle>
-                          <circle cx="15" cy="10" r="2"></circle>
-                          <path d="M9 16h6"></path>
-                        </svg>
-                        AI Opponent
-                      </span>
-                    ) : (
-                      getPlayerName(gameState?.player2)
-                    )}
-                  </p>
-                  {gameState?.player2 === currentUser?.id && (
-                    <div className="flex items-center mt-2 text-xs text-gray-600">
-                      <span className="inline-block w-2 h-2 rounded-full bg-green-500 mr-1"></span>
-                      <p>That&apos;s you!</p>
+                {Array.from({ length: seatCount }, (_, index) => {
+                  const seat = index + 1;
+                  const member = members.find((m) => m.seat === seat);
+                  const color = SEAT_COLORS[index % SEAT_COLORS.length];
+                  const isAISeat = seat === 2 && !member && !!gameState?.ai_opponent;
+
+                  return (
+                    <div
+                      key={seat}
+                      className="border-2 border-black rounded-lg p-4 relative overflow-hidden transition-all duration-300 hover:shadow-lg group"
+                    >
+                      <div className={`absolute inset-0 bg-gradient-to-r ${color.glow} to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300`}></div>
+                      <div className={`absolute -bottom-2 -left-2 w-12 h-12 rounded-full ${color.dot} opacity-20`}></div>
+                      <p className="font-bold mb-2 flex items-center">
+                        Player {seat}
+                        <span className={`ml-2 inline-block w-4 h-4 rounded-full ${color.dot}`}></span>
+                        {member?.team && <span className="ml-2 text-xs font-normal text-gray-600">Team {member.team}</span>}
+                        {member?.player_id === hostId && <FaCrown className="ml-2 text-yellow-500" title="Host" />}
+                      </p>
+                      <p className="relative z-10">
+                        {isAISeat ? (
+                          <span className="flex items-center">
+                            <svg
+                              className="w-5 h-5 mr-1"
+                              xmlns="http://www.w3.org/2000/svg"
+                              viewBox="0 0 24 24"
+                              fill="none"
+                              stroke="currentColor"
+                              strokeWidth="2"
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                            >
+                              <rect x="3" y="4" width="18" height="16" rx="2" ry="2"></rect>
+                              <circle cx="9" cy="10" r="2"></circle>
+                              <circle cx="15" cy="10" r="2"></circle>
+                              <path d="M9 16h6"></path>
+                            </svg>
+                            AI Opponent
+                            {gameState?.ai_difficulty && (
+                              <span className="ml-1 text-sm text-gray-600">
+                                ({game?.aiDifficulties?.find((option) => option.value === gameState.ai_difficulty)?.label ?? gameState.ai_difficulty})
+                              </span>
+                            )}
+                          </span>
+                        ) : (
+                          getPlayerName(member?.player_id)
+                        )}
+                      </p>
+                      {member && (
+                        <div className="relative z-10 flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-gray-600">
+                          {member.player_id === currentUser?.id ? (
+                            <div className="flex items-center">
+                              <span className="inline-block w-2 h-2 rounded-full bg-green-500 mr-1"></span>
+                              <p>That&apos;s you!</p>
+                            </div>
+                          ) : (
+                            <div className="flex items-center">
+                              <span
+                                className={`inline-block w-2 h-2 rounded-full mr-1 ${
+                                  onlineIds.includes(member.player_id) ? "bg-green-500" : "bg-gray-400"
+                                }`}
+                              ></span>
+                              <p>{onlineIds.includes(member.player_id) ? "Online" : "Offline"}</p>
+                            </div>
+                          )}
+                          {isWaiting && member.player_id !== hostId && (
+                            <p className={`flex items-center ${member.is_ready ? "text-green-600" : ""}`}>
+                              {member.is_ready && <FaCheck className="mr-1" />}
+                              {member.is_ready ? "Ready" : "Not ready"}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {member && isWaiting && (
+                        <div className="relative z-10 flex flex-wrap gap-2 mt-3">
+                          {member.player_id === currentUser?.id && !isHost && (
+                            <>
+                              <button
+                                onClick={() => updateMembership(member.is_ready ? "unready" : "ready")}
+                                disabled={!!pendingAction}
+                                className={`px-3 py-1 rounded-md text-xs font-semibold transition-colors disabled:opacity-50 ${
+                                  member.is_ready ? "bg-gray-200 hover:bg-gray-300" : "bg-green-600 text-white hover:bg-green-700"
+                                }`}
+                              >
+                                {member.is_ready ? "Not Ready" : "Ready"}
+                              </button>
+                              <button
+                                onClick={leaveLobby}
+                                disabled={!!pendingAction}
+                                className="px-3 py-1 rounded-md text-xs border border-gray-300 hover:bg-gray-100 transition-colors disabled:opacity-50"
+                              >
+                                Leave
+                              </button>
+                            </>
+                          )}
+                          {isHost && member.player_id !== currentUser?.id && (
+                            <>
+                              <button
+                                onClick={() => updateMembership("transfer", member.player_id)}
+                                disabled={!!pendingAction}
+                                className="px-3 py-1 rounded-md text-xs border border-gray-300 hover:bg-gray-100 transition-colors disabled:opacity-50"
+                              >
+                                Make Host
+                              </button>
+                              <button
+                                onClick={() => updateMembership("kick", member.player_id)}
+                                disabled={!!pendingAction}
+                                className="px-3 py-1 rounded-md text-xs border border-red-300 text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                              >
+                                Kick
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
+                  );
+                })}
               </div>
+              {actionError && <p className="text-sm text-red-600 mt-3">{actionError}</p>}
             </div>
 
             <div className="bg-gray-50 rounded-lg p-3 sm:p-4 border border-gray-200">
@@ -675,7 +850,7 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
                     className={`h-2.5 rounded-full transition-all duration-500 ${
                       gameState?.status === "playing"
                         ? "bg-green-600 w-full"
-                        : gameState?.status === "waiting" && isGameFull
+                        : isWaiting && isGameReady
                         ? "bg-yellow-500 w-3/4"
                         : "bg-blue-500 w-1/4"
                     }`}
@@ -684,16 +859,48 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
                 <span className="ml-3 text-sm font-medium">
                   {gameState?.status === "playing"
                     ? "In Progress"
-                    : gameState?.status === "waiting" && isGameFull
+                    : isWaiting && isGameReady
                     ? "Ready to Start"
-                    : "Waiting for Players"}
+                    : startBlocker || "Waiting for Players"}
                 </span>
               </div>
-              {isGameFull && isWaiting && isCreator && (
+              {isGameReady && isWaiting && isHost && (
                 <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                   <p className="text-sm text-yellow-700 mb-2">
-                    All players are ready! As the creator of this lobby, you can start the game.
+                    All players are ready! As the host of this lobby, you can start the game.
                   </p>
+                  {!gameState?.ai_opponent && (
+                    <label className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3 text-sm text-yellow-800">
+                      <span className="font-medium">If a player disconnects</span>
+                      <select
+                        value={gracePeriod}
+                        onChange={(e) => setGracePeriod(Number(e.target.value))}
+                        className="border border-yellow-300 rounded-md px-2 py-1 bg-white text-black"
+                      >
+                        {GRACE_PERIODS.map((period, index) => (
+                          <option key={period.label} value={index}>
+                            {period.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  {game?.timed && !gameState?.ai_opponent && (
+                    <label className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3 text-sm text-yellow-800">
+                      <span className="font-medium">Time control</span>
+                      <select
+                        value={timeControl}
+                        onChange={(e) => setTimeControl(Number(e.target.value))}
+                        className="border border-yellow-300 rounded-md px-2 py-1 bg-white text-black"
+                      >
+                        {TIME_CONTROLS.map((control, index) => (
+                          <option key={control.label} value={index}>
+                            {control.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
                   <button
                     onClick={startGame}
                     className="bg-gradient-to-r from-yellow-500 to-orange-500 text-white px-6 py-2 rounded-lg flex items-center hover:from-yellow-600 hover:to-orange-600 transition-all duration-300 transform hover:scale-105 shadow-md"
@@ -704,7 +911,7 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
                 </div>
               )}
 
-              {isGameFull && isWaiting && !isCreator && (
+              {isGameReady && isWaiting && !isHost && isInGame && (
                 <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg animate-pulse">
                   <div className="flex items-center">
                     <svg
@@ -726,7 +933,7 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
 
             <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
               <div className="flex-grow w-full sm:w-auto">
-                {!isInGame && !canJoin && !isCreator && gameState?.status !== "waiting" && (
+                {!isInGame && !canJoin && !isHost && gameState?.status !== "waiting" && (
                   <div className="p-3 bg-gray-100 rounded-lg border border-gray-200">
                     <p className="text-gray-600 text-sm">This game is already in progress.</p>
                   </div>
@@ -741,6 +948,17 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
                   </Link>
                 )}
 
+                {canJoin && lobby.has_password && lobby.visibility !== "private" && (
+                  <input
+                    type="password"
+                    value={joinPassword}
+                    onChange={(e) => setJoinPassword(e.target.value)}
+                    placeholder="Lobby password"
+                    aria-label="Lobby password"
+                    className="w-full sm:w-48 border-2 border-black rounded-lg px-3 py-2 text-black"
+                  />
+                )}
+
                 {canJoin && (
                 <button
                   onClick={() => joinGame()}
@@ -776,6 +994,12 @@ export default function LobbyPage({ params }: { params: Promise<{ id: string }>
             </div>
           </div>
         </div>
+
+        {(isInGame || isHost) && (
+          <div className="mt-6">
+            <RoomChat roomId={getLobbyRoomId(resolvedParams.id)} title="Lobby Chat" userId={currentUser?.id ?? null} />
+          </div>
+        )}
       </main>
     </div>
   );
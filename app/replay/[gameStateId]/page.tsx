@@ -0,0 +1,214 @@
+"use client"
+
+import { use, useEffect, useState } from "react"
+import Link from "next/link"
+import { FaArrowLeft, FaPause, FaPlay, FaStepBackward, FaStepForward } from "react-icons/fa"
+import GameLoading from "@/app/components/games/game-loading"
+import GameError from "@/app/components/games/game-error"
+import { getGameByKey } from "@/app/lib/games/registry"
+import { getReplayBoard } from "@/app/lib/games/components"
+import type { ReplayFrame } from "@/app/lib/games/engine"
+
+interface Replay {
+  game: string
+  title: string
+  player1: string
+  player2: string | null
+  winner: string | null
+  isDraw: boolean
+  players: { id: string; username: string | null }[]
+  frames: ReplayFrame[]
+}
+
+const AUTOPLAY_INTERVAL = 1000
+
+export default function ReplayPage({ params: paramsPromise }: { params: Promise<{ gameStateId: string }> }) {
+  const params = use(paramsPromise)
+  const [replay, setReplay] = useState<Replay | null>(null)
+  const [frameIndex, setFrameIndex] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isActive = true
+
+    async function loadReplay() {
+      try {
+        const response = await fetch(`/api/replay/${params.gameStateId}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load replay")
+        }
+
+        if (isActive) setReplay(data)
+      } catch (err: unknown) {
+        console.error("Error loading replay:", err)
+        if (isActive) setError(err instanceof Error ? err.message : "Failed to load replay")
+      } finally {
+        if (isActive) setLoading(false)
+      }
+    }
+
+    loadReplay()
+
+    return () => {
+      isActive = false
+    }
+  }, [params.gameStateId])
+
+  const lastFrame = replay ? replay.frames.length - 1 : 0
+
+  // Autoplay steps forward until the final position
+  useEffect(() => {
+    if (!isPlaying) return
+
+    if (frameIndex >= lastFrame) {
+      setIsPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => setFrameIndex((index) => Math.min(index + 1, lastFrame)), AUTOPLAY_INTERVAL)
+    return () => clearTimeout(timer)
+  }, [isPlaying, frameIndex, lastFrame])
+
+  function getPlayerName(playerId: string | null) {
+    if (!playerId) return "Unknown"
+
+    const player = replay?.players.find((p) => p.id === playerId)
+    return player?.username || "Unknown player"
+  }
+
+  function togglePlaying() {
+    // Start over when autoplay is pressed at the end of the game
+    if (!isPlaying && frameIndex >= lastFrame) setFrameIndex(0)
+    setIsPlaying(!isPlaying)
+  }
+
+  function goToFrame(index: number) {
+    setIsPlaying(false)
+    setFrameIndex(Math.max(0, Math.min(index, lastFrame)))
+  }
+
+  if (loading) {
+    return <GameLoading />
+  }
+
+  const game = replay ? getGameByKey(replay.game) : null
+  const ReplayBoard = game ? getReplayBoard(game.key) : null
+
+  if (error || !replay || !ReplayBoard) {
+    return <GameError error={error || "Replays are not available for this game"} />
+  }
+
+  const frame = replay.frames[frameIndex]
+
+  return (
+    <div className="bg-white min-h-screen p-4 md:p-8 font-[family-name:var(--font-geist-sans)]">
+      <header className="max-w-4xl mx-auto mb-4 md:mb-8">
+        <div className="flex justify-between items-center">
+          <Link href="/profile" className="flex items-center text-black">
+            <FaArrowLeft className="mr-2" />
+            <span>Back to Profile</span>
+          </Link>
+          <div className="flex items-center">
+            <h1 className="text-2xl font-bold text-black">CSGames</h1>
+            <span className="text-black text-2xl">.dev</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="text-black max-w-4xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl md:text-3xl font-bold">{replay.title} Replay</h2>
+          <p className="text-gray-600">
+            {getPlayerName(replay.player1)} vs {getPlayerName(replay.player2)} &middot;{" "}
+            {replay.isDraw ? "Draw" : replay.winner ? `${getPlayerName(replay.winner)} won` : "No result"}
+          </p>
+        </div>
+
+        <div className="mb-6">
+          <ReplayBoard
+            position={frame.position as Record<string, unknown>}
+            player1={replay.player1}
+            player2={replay.player2}
+            getPlayerName={getPlayerName}
+          />
+        </div>
+
+        <div className="border-2 border-black rounded-lg p-4 mb-6">
+          <p className="text-sm text-gray-600 mb-3">
+            Move {frameIndex} of {lastFrame}
+            {frame.playerId ? ` · ${getPlayerName(frame.playerId)}: ` : " · "}
+            {frame.description}
+          </p>
+
+          <input
+            type="range"
+            min={0}
+            max={lastFrame}
+            value={frameIndex}
+            onChange={(e) => goToFrame(Number(e.target.value))}
+            className="w-full mb-4"
+            aria-label="Scrub through moves"
+          />
+
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={() => goToFrame(frameIndex - 1)}
+              disabled={frameIndex === 0}
+              className="p-3 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50"
+              aria-label="Previous move"
+            >
+              <FaStepBackward />
+            </button>
+            <button
+              onClick={togglePlaying}
+              disabled={lastFrame === 0}
+              className="p-3 rounded-full bg-black text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+              aria-label={isPlaying ? "Pause" : "Play"}
+            >
+              {isPlaying ? <FaPause /> : <FaPlay />}
+            </button>
+            <button
+              onClick={() => goToFrame(frameIndex + 1)}
+              disabled={frameIndex >= lastFrame}
+              className="p-3 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50"
+              aria-label="Next move"
+            >
+              <FaStepForward />
+            </button>
+          </div>
+        </div>
+
+        <div className="border-2 border-black rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 border-b-2 border-black">
+              <tr>
+                <th className="px-4 py-2 text-left">#</th>
+                <th className="px-4 py-2 text-left">Player</th>
+                <th className="px-4 py-2 text-left">Move</th>
+              </tr>
+            </thead>
+            <tbody>
+              {replay.frames.map((moveFrame, index) => (
+                <tr
+                  key={index}
+                  onClick={() => goToFrame(index)}
+                  className={`border-b border-gray-200 cursor-pointer ${
+                    index === frameIndex ? "bg-black text-white" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <td className="px-4 py-2">{index}</td>
+                  <td className="px-4 py-2">{moveFrame.playerId ? getPlayerName(moveFrame.playerId) : "-"}</td>
+                  <td className="px-4 py-2">{moveFrame.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { motion } from "framer-motion"
 import { FaArrowLeft, FaClock, FaGamepad, FaSearch } from "react-icons/fa"
 import Link from "next/link"
 import { useRouter, useSearchParams } from "next/navigation"
+import ChallengeModal from "@/comps/ChallengeModal"
 
 interface SearchResults {
   users: {
@@ -32,6 +33,7 @@ export default function SearchPageClient() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [page, setPage] = useState(0)
+  const [challengeTarget, setChallengeTarget] = useState<{ id: string; username: string } | null>(null)
 
   const performSearch = async (newPage?: number) => {
     if (!searchQuery.trim()) return
@@ -148,44 +150,51 @@ export default function SearchPageClient() {
                 <p className="text-gray-500">Found {results.pagination.total} users</p>
                 <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
                   {results.users.map((user) => (
-                    <Link
-                      key={user.id}
-                      href={`/profile?userId=${user.id}`}
-                      className="block"
-                    >
-                      <motion.div
-                        whileHover={{ scale: 1.02 }}
-                        className="p-4 rounded-xl border-2 border-black hover:bg-gray-50"
+                    <div key={user.id} className="relative">
+                      <Link
+                        href={`/profile?userId=${user.id}`}
+                        className="block"
                       >
-                        <div className="flex items-center space-x-4">
-                          <div className="w-16 h-16 rounded-lg overflow-hidden border-2 border-black">
-                            <img
-                              src={user.avatar_url || `https://api.dicebear.com/7.x/pixel-art/svg?seed=${user.username}`}
-                              alt={user.username}
-                              className="w-full h-full object-cover"
-                            />
-                          </div>
-                          <div className="flex-1">
-                            <h3 className="font-bold text-lg">{user.username}</h3>
-                            {user.bio && (
-                              <p className="text-gray-600 text-sm line-clamp-2">{user.bio}</p>
-                            )}
-                            <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
-                              {user.favorite_game && (
+                        <motion.div
+                          whileHover={{ scale: 1.02 }}
+                          className="p-4 rounded-xl border-2 border-black hover:bg-gray-50"
+                        >
+                          <div className="flex items-center space-x-4">
+                            <div className="w-16 h-16 rounded-lg overflow-hidden border-2 border-black">
+                              <img
+                                src={user.avatar_url || `https://api.dicebear.com/7.x/pixel-art/svg?seed=${user.username}`}
+                                alt={user.username}
+                                className="w-full h-full object-cover"
+                              />
+                            </div>
+                            <div className="flex-1">
+                              <h3 className="font-bold text-lg">{user.username}</h3>
+                              {user.bio && (
+                                <p className="text-gray-600 text-sm line-clamp-2">{user.bio}</p>
+                              )}
+                              <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
+                                {user.favorite_game && (
+                                  <div className="flex items-center gap-1">
+                                    <FaGamepad className="text-gray-400" />
+                                    <span>{user.favorite_game}</span>
+                                  </div>
+                                )}
                                 <div className="flex items-center gap-1">
-                                  <FaGamepad className="text-gray-400" />
-                                  <span>{user.favorite_game}</span>
+                                  <FaClock className="text-gray-400" />
+                                  <span>{user.hours_played || 0} hours</span>
                                 </div>
-                              )}
-                              <div className="flex items-center gap-1">
-                                <FaClock className="text-gray-400" />
-                                <span>{user.hours_played || 0} hours</span>
                               </div>
                             </div>
                           </div>
-                        </div>
-                      </motion.div>
-                    </Link>
+                        </motion.div>
+                      </Link>
+                      <button
+                        onClick={() => setChallengeTarget({ id: user.id, username: user.username })}
+                        className="absolute top-4 right-4 px-3 py-1 rounded-lg bg-black text-white text-sm hover:bg-gray-800"
+                      >
+                        Challenge
+                      </button>
+                    </div>
                   ))}
                 </div>
 
@@ -205,6 +214,8 @@ export default function SearchPageClient() {
           </motion.div>
         </main>
       </div>
+
+      <ChallengeModal player={challengeTarget} onClose={() => setChallengeTarget(null)} />
     </div>
   )
 }
@@ -1,7 +1,16 @@
 import express from 'express';
 import http from 'http';
-import { Server } from 'socket.io';
+import { Server, type Socket } from 'socket.io';
 import cors from 'cors';
+import { createClient } from '@supabase/supabase-js';
+import { createAdminClient } from '../../lib/supabase/admin';
+import { ROOM_MESSAGE_LIMIT } from '../lib/chat';
+import { postChatMessage } from '../lib/chat-moderation';
+import type { Message } from '../types/supabase';
+
+// Socket.IO transport for the chat rooms in messages.room_id. Sockets sign in
+// with the player's Supabase access token, and messages go through the same
+// checks and storage as /api/chat/messages.
 
 // Create an Express application
 const app = express();
@@ -9,98 +18,280 @@ app.use(cors());
 
 // Create HTTP server and Socket.IO instance
 const server = http.createServer(app);
-const io = new Server(server, {
-  cors: {
-    origin: "*", // In production, specify your client's URL
-    methods: ["GET", "POST"]
-  }
-});
 
-// Store connected users
-interface ChatUser {
+interface RoomUser {
   id: string;
   username: string;
 }
 
-interface ChatMessage {
-  id: string;
+type Ack<T> = (response: T | { error: string }) => void;
+
+interface ClientToServerEvents {
+  // Swap in a refreshed access token, before the old one runs out
+  authenticate: (token: string, ack?: Ack<{ success: true }>) => void;
+  join_room: (roomId: string, ack?: Ack<{ messages: Message[]; hasMore: boolean }>) => void;
+  leave_room: (roomId: string, ack?: Ack<{ success: true }>) => void;
+  // Messages sent before `before`, oldest first
+  load_history: (data: { roomId: string; before: string }, ack: Ack<{ messages: Message[]; hasMore: boolean }>) => void;
+  send_message: (data: { roomId: string; text: string; parentId?: string | null }, ack?: Ack<{ message: Message }>) => void;
+  typing: (data: { roomId: string; isTyping: boolean }) => void;
+}
+
+interface ServerToClientEvents {
+  receive_message: (message: Message) => void;
+  room_users: (data: { roomId: string; users: RoomUser[] }) => void;
+  typing: (data: { roomId: string; userId: string; username: string; isTyping: boolean }) => void;
+}
+
+interface SocketData {
   userId: string;
   username: string;
-  text: string;
-  timestamp: number;
+  token: string;
 }
 
-const users: ChatUser[] = [];
-const messages: ChatMessage[] = [];
+type ChatSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(server, {
+  cors: {
+    origin: process.env.CHAT_CLIENT_ORIGIN || "*",
+    methods: ["GET", "POST"]
+  }
+});
+
+const admin = createAdminClient();
+
+// Acts as the player, so can_access_chat_room sees who they are
+function createPlayerClient(token: string) {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
+
+// The player the token belongs to, null if it isn't a valid session
+async function getPlayer(token: unknown): Promise<RoomUser | null> {
+  if (typeof token !== 'string' || !token) return null;
+
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  const { data: profile } = await admin.from('profiles').select('username').eq('id', data.user.id).maybeSingle();
+
+  return {
+    id: data.user.id,
+    username: profile?.username || data.user.email?.split('@')[0] || 'Player'
+  };
+}
+
+async function canAccessRoom(socket: ChatSocket, roomId: string): Promise<boolean> {
+  const { data, error } = await createPlayerClient(socket.data.token).rpc('can_access_chat_room', { p_room_id: roomId });
+
+  if (error) {
+    console.error('Error checking chat room access:', error);
+    return false;
+  }
+
+  return !!data;
+}
+
+// A page of the room's messages older than `before`, or the latest ones
+async function loadMessages(roomId: string, before?: string): Promise<{ messages: Message[]; hasMore: boolean } | { error: string }> {
+  let query = admin
+    .from('messages')
+    .select('*')
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: false })
+    .limit(ROOM_MESSAGE_LIMIT + 1);
+  if (before) query = query.lt('created_at', before);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error loading messages:', error);
+    return { error: 'Failed to load messages' };
+  }
+
+  const rows = data || [];
+  return { messages: rows.slice(0, ROOM_MESSAGE_LIMIT).reverse(), hasMore: rows.length > ROOM_MESSAGE_LIMIT };
+}
+
+// Everyone with a socket in the room, once each
+async function sendRoomUsers(roomId: string) {
+  const sockets = await io.in(roomId).fetchSockets();
+  const users = new Map<string, RoomUser>();
+  for (const socket of sockets) {
+    users.set(socket.data.userId, { id: socket.data.userId, username: socket.data.username });
+  }
+
+  io.to(roomId).emit('room_users', { roomId, users: [...users.values()] });
+}
+
+// Chat rooms this socket joined, socket.io also puts it in a room named after its id
+function getChatRooms(socket: ChatSocket): string[] {
+  return [...socket.rooms].filter(room => room !== socket.id);
+}
+
+io.use(async (socket, next) => {
+  try {
+    const token = socket.handshake.auth?.token;
+    const player = await getPlayer(token);
+    if (!player) {
+      next(new Error('Sign in to chat'));
+      return;
+    }
+
+    socket.data.userId = player.id;
+    socket.data.username = player.username;
+    socket.data.token = token;
+    next();
+  } catch (error) {
+    console.error('Error authenticating socket:', error);
+    next(new Error('Failed to connect to chat'));
+  }
+});
 
 // Socket.IO connection handling
 io.on('connection', (socket) => {
-  console.log(`User connected: ${socket.id}`);
-  
-  // Handle user joining
-  socket.on('join_chat', (username: string) => {
-    const user: ChatUser = {
-      id: socket.id,
-      username
-    };
-    users.push(user);
-    
-    // Send existing messages to new user
-    socket.emit('receive_messages', messages);
-    
-    // Broadcast user joined message
-    const joinMessage: ChatMessage = {
-      id: Date.now().toString(),
-      userId: 'system',
-      username: 'System',
-      text: `${username} has joined the chat`,
-      timestamp: Date.now()
-    };
-    messages.push(joinMessage);
-    io.emit('receive_message', joinMessage);
-    
-    // Send updated user list to all clients
-    io.emit('users_update', users);
+  console.log(`User connected: ${socket.data.username} (${socket.id})`);
+
+  socket.on('authenticate', async (token, ack) => {
+    try {
+      const player = await getPlayer(token);
+      if (!player || player.id !== socket.data.userId) {
+        ack?.({ error: 'Invalid session' });
+        return;
+      }
+
+      socket.data.token = token;
+      ack?.({ success: true });
+    } catch (error) {
+      console.error('Error refreshing session:', error);
+      ack?.({ error: 'Failed to refresh session' });
+    }
+  });
+
+  socket.on('join_room', async (roomId, ack) => {
+    try {
+      if (typeof roomId !== 'string' || !roomId) {
+        ack?.({ error: 'Room ID is required' });
+        return;
+      }
+
+      if (!(await canAccessRoom(socket, roomId))) {
+        ack?.({ error: "You can't join this chat" });
+        return;
+      }
+
+      const history = await loadMessages(roomId);
+      if ('error' in history) {
+        ack?.(history);
+        return;
+      }
+
+      await socket.join(roomId);
+      ack?.(history);
+      await sendRoomUsers(roomId);
+    } catch (error) {
+      console.error('Error joining room:', error);
+      ack?.({ error: 'Failed to join chat' });
+    }
+  });
+
+  socket.on('leave_room', async (roomId, ack) => {
+    try {
+      if (!socket.rooms.has(roomId) || roomId === socket.id) {
+        ack?.({ success: true });
+        return;
+      }
+
+      socket.to(roomId).emit('typing', { roomId, userId: socket.data.userId, username: socket.data.username, isTyping: false });
+      await socket.leave(roomId);
+      await sendRoomUsers(roomId);
+      ack?.({ success: true });
+    } catch (error) {
+      console.error('Error leaving room:', error);
+      ack?.({ error: 'Failed to leave chat' });
+    }
   });
-  
-  // Handle new messages
-  socket.on('send_message', (messageData: { text: string }) => {
-    const user = users.find(u => u.id === socket.id);
-    if (user) {
-      const message: ChatMessage = {
-        id: Date.now().toString(),
-        userId: socket.id,
-        username: user.username,
-        text: messageData.text,
-        timestamp: Date.now()
-      };
-      messages.push(message);
-      io.emit('receive_message', message);
+
+  socket.on('load_history', async (data, ack) => {
+    if (typeof ack !== 'function') return;
+
+    try {
+      if (!data?.roomId || !socket.rooms.has(data.roomId) || typeof data.before !== 'string') {
+        ack({ error: 'Join the room before loading its history' });
+        return;
+      }
+
+      ack(await loadMessages(data.roomId, data.before));
+    } catch (error) {
+      console.error('Error loading history:', error);
+      ack({ error: 'Failed to load messages' });
     }
   });
-  
-  // Handle disconnections
+
+  // Only the sender hears about a rejected message
+  socket.on('send_message', async (data, ack) => {
+    try {
+      if (!data?.roomId || !socket.rooms.has(data.roomId)) {
+        ack?.({ error: 'Join the room before posting in it' });
+        return;
+      }
+
+      // Membership can change while the socket sits in the room, e.g. a player
+      // taking a seat leaves the spectator chat
+      if (!(await canAccessRoom(socket, data.roomId))) {
+        ack?.({ error: "You can't post in this chat" });
+        return;
+      }
+
+      const result = await postChatMessage(admin, {
+        userId: socket.data.userId,
+        fallbackName: socket.data.username,
+        roomId: data.roomId,
+        message: data.text,
+        parentId: typeof data.parentId === 'string' ? data.parentId : null
+      });
+
+      if ('error' in result) {
+        ack?.({ error: result.error });
+        return;
+      }
+
+      socket.to(data.roomId).emit('typing', { roomId: data.roomId, userId: socket.data.userId, username: socket.data.username, isTyping: false });
+      io.to(data.roomId).emit('receive_message', result.message);
+      ack?.({ message: result.message });
+    } catch (error) {
+      console.error('Error sending message:', error);
+      ack?.({ error: 'Failed to send message' });
+    }
+  });
+
+  socket.on('typing', (data) => {
+    if (!data?.roomId || !socket.rooms.has(data.roomId) || data.roomId === socket.id) return;
+
+    socket.to(data.roomId).emit('typing', {
+      roomId: data.roomId,
+      userId: socket.data.userId,
+      username: socket.data.username,
+      isTyping: !!data.isTyping
+    });
+  });
+
+  // socket.rooms is still filled in here, unlike in 'disconnect'
+  let leftRooms: string[] = [];
+  socket.on('disconnecting', () => {
+    leftRooms = getChatRooms(socket);
+    for (const roomId of leftRooms) {
+      socket.to(roomId).emit('typing', { roomId, userId: socket.data.userId, username: socket.data.username, isTyping: false });
+    }
+  });
+
   socket.on('disconnect', () => {
-    const userIndex = users.findIndex(u => u.id === socket.id);
-    if (userIndex !== -1) {
-      const user = users[userIndex];
-      users.splice(userIndex, 1);
-      
-      // Broadcast user left message
-      const leaveMessage: ChatMessage = {
-        id: Date.now().toString(),
-        userId: 'system',
-        username: 'System',
-        text: `${user.username} has left the chat`,
-        timestamp: Date.now()
-      };
-      messages.push(leaveMessage);
-      io.emit('receive_message', leaveMessage);
-      
-      // Send updated user list to all clients
-      io.emit('users_update', users);
+    for (const roomId of leftRooms) {
+      sendRoomUsers(roomId).catch(error => console.error('Error sending room users:', error));
     }
-    console.log(`User disconnected: ${socket.id}`);
+    console.log(`User disconnected: ${socket.data.username} (${socket.id})`);
   });
 });
 
@@ -110,4 +301,4 @@ server.listen(PORT, () => {
   console.log(`Chat server running on port: ${PORT}`);
 });
 
-export default server;
\ No newline at end of file
+export default server;
@@ -6,6 +6,7 @@ import { FaArrowLeft, FaClock } from "react-icons/fa"
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import UsernameModal from "@/comps/set-username"
 import { User } from "@supabase/auth-helpers-nextjs"
+import { NOTIFICATION_TYPES, type NotificationType } from "@/app/lib/notifications"
 
 const supabase = createClientComponentClient()
 
@@ -24,6 +25,8 @@ export default function SettingsPage() {
   const [bio, setBio] = useState("")
   const [bioSaving, setBioSaving] = useState(false)
   const [bioError, setBioError] = useState<string | null>(null)
+  const [notificationPreferences, setNotificationPreferences] = useState<Record<NotificationType, boolean> | null>(null)
+  const [preferencesError, setPreferencesError] = useState<string | null>(null)
 
   useEffect(() => {
     async function loadUserData() {
@@ -58,6 +61,12 @@ export default function SettingsPage() {
         setProfile(profileData)
         setBio(profileData.bio || "")
 
+        const preferencesResponse = await fetch("/api/notifications/preferences")
+        if (preferencesResponse.ok) {
+          const { preferences } = await preferencesResponse.json()
+          setNotificationPreferences(preferences)
+        }
+
         // Calculate cooldown if username was recently changed
         if (profileData.username_updated_at) {
           const lastUpdate = new Date(profileData.username_updated_at)
@@ -104,6 +113,26 @@ export default function SettingsPage() {
     }
   }
 
+  async function handleNotificationToggle(type: NotificationType, enabled: boolean) {
+    setPreferencesError(null)
+    setNotificationPreferences((current) => current && { ...current, [type]: enabled })
+
+    try {
+      const response = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, enabled }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to save notification preference")
+      }
+    } catch (err) {
+      setNotificationPreferences((current) => current && { ...current, [type]: !enabled })
+      setPreferencesError(err instanceof Error ? err.message : "Failed to save notification preference")
+    }
+  }
+
   async function handleSignOut() {
     try {
       await supabase.auth.signOut()
@@ -208,6 +237,32 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          <div className="bg-white border-2 border-black rounded-lg p-6 mb-6">
+            <h3 className="text-xl font-bold text-black mb-4">Notifications</h3>
+
+            {notificationPreferences ? (
+              <div className="space-y-3">
+                {NOTIFICATION_TYPES.map((type) => (
+                  <label key={type.value} className="flex justify-between items-center cursor-pointer">
+                    <div>
+                      <p className="text-black">{type.label}</p>
+                      <p className="text-sm text-gray-500">{type.description}</p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={notificationPreferences[type.value]}
+                      onChange={(e) => handleNotificationToggle(type.value, e.target.checked)}
+                      className="w-5 h-5 accent-black"
+                    />
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Couldn&apos;t load your notification settings.</p>
+            )}
+            {preferencesError && <div className="text-red-500 text-sm mt-2">{preferencesError}</div>}
+          </div>
+
           <div className="bg-white border-2 border-black rounded-lg p-6 mb-6">
             <h3 className="text-xl font-bold text-black mb-4">Account</h3>
 
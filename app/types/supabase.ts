@@ -17,6 +17,9 @@ export interface Database {
           username: string
           message: string
           room_id: string
+          parent_id: string | null
+          edited_at: string | null
+          deleted_at: string | null
         }
         Insert: {
           id?: string
@@ -25,6 +28,9 @@ export interface Database {
           username: string
           message: string
           room_id: string
+          parent_id?: string | null
+          edited_at?: string | null
+          deleted_at?: string | null
         }
         Update: {
           id?: string
@@ -33,6 +39,9 @@ export interface Database {
           username?: string
           message?: string
           room_id?: string
+          parent_id?: string | null
+          edited_at?: string | null
+          deleted_at?: string | null
         }
         Relationships: [
           {
@@ -40,6 +49,44 @@ export interface Database {
             columns: ["user_id"]
             referencedRelation: "users"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          }
+        ]
+      },
+
+      message_reactions: {
+        Row: {
+          message_id: string
+          user_id: string
+          reaction: string
+          room_id: string
+          created_at: string
+        }
+        Insert: {
+          message_id: string
+          user_id: string
+          reaction: string
+          room_id: string
+          created_at?: string
+        }
+        Update: {
+          message_id?: string
+          user_id?: string
+          reaction?: string
+          room_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
           }
         ]
       },
@@ -54,6 +101,10 @@ export interface Database {
           expires_at: string
           used_by?: string[]
           is_active: boolean
+          created_by: string | null
+          max_uses: number | null
+          use_count: number
+          revoked_at: string | null
         }
         Insert: {
           id?: string
@@ -63,6 +114,10 @@ export interface Database {
           expires_at: string
           used_by?: string[]
           is_active?: boolean
+          created_by?: string | null
+          max_uses?: number | null
+          use_count?: number
+          revoked_at?: string | null
         }
         Update: {
           id?: string
@@ -72,6 +127,10 @@ export interface Database {
           expires_at?: string
           used_by?: string[]
           is_active?: boolean
+          created_by?: string | null
+          max_uses?: number | null
+          use_count?: number
+          revoked_at?: string | null
         }
         Relationships: [
           {
@@ -184,4 +243,5 @@ export type TablesUpdate<T extends keyof Database['public']['Tables']> = Databas
 export type InviteCode = Tables<'invite_codes'>
 export type Lobby = Tables<'lobbies'>
 export type Message = Tables<'messages'>
+export type MessageReaction = Tables<'message_reactions'>
 export type UserProfile = Tables<'user_profiles'>
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { FaTimes } from 'react-icons/fa'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import { gameRegistry } from '@/app/lib/games/registry'
+import type { Challenge } from '@/app/lib/games/challenges'
+
+interface ChallengeModalProps {
+  player: { id: string; username: string } | null
+  onClose: () => void
+}
+
+const POLL_INTERVAL = 2000
+
+// Games that can be played head to head on the server
+const challengeGames = gameRegistry.filter((game) => !game.singlePlayer && game.rules)
+
+export default function ChallengeModal({ player, onClose }: ChallengeModalProps) {
+  const [challenge, setChallenge] = useState<Challenge | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+
+  const challengeId = challenge?.id
+  const expiresAt = challenge?.expires_at
+  const isPending = challenge?.status === 'pending'
+
+  // Follow the challenge until it is answered, realtime with polling as backup
+  useEffect(() => {
+    if (!challengeId || !isPending) return
+
+    const supabase = createClientComponentClient()
+    let isActive = true
+
+    function handleUpdate(updated: Challenge) {
+      if (!isActive) return
+      setChallenge(updated)
+      if (updated.status === 'accepted' && updated.lobby_id) {
+        window.location.href = `/game/${updated.lobby_id}`
+      }
+    }
+
+    async function poll() {
+      try {
+        const response = await fetch(`/api/challenges/${challengeId}`)
+        const data = await response.json()
+        if (response.ok) handleUpdate(data.challenge)
+      } catch (err) {
+        console.error('Error polling challenge:', err)
+      }
+    }
+
+    const channel = supabase
+      .channel(`challenge:${challengeId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'challenges', filter: `id=eq.${challengeId}` },
+        (payload) => handleUpdate(payload.new as Challenge)
+      )
+      .subscribe()
+
+    const interval = setInterval(poll, POLL_INTERVAL)
+
+    return () => {
+      isActive = false
+      clearInterval(interval)
+      supabase.removeChannel(channel)
+    }
+  }, [challengeId, isPending])
+
+  useEffect(() => {
+    if (!expiresAt || !isPending) return
+
+    const update = () => setSecondsLeft(Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 1000)))
+    update()
+
+    const interval = setInterval(update, 1000)
+    return () => clearInterval(interval)
+  }, [expiresAt, isPending])
+
+  async function sendChallenge(gameKey: string) {
+    if (!player) return
+
+    setIsSending(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/challenges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId: player.id, game: gameKey })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to send the challenge')
+
+      setChallenge(data.challenge)
+    } catch (err) {
+      console.error('Error sending challenge:', err)
+      setError(err instanceof Error ? err.message : 'Failed to send the challenge')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  async function handleClose() {
+    if (challenge?.status === 'pending') {
+      try {
+        await fetch(`/api/challenges/${challenge.id}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'cancel' })
+        })
+      } catch (err) {
+        console.error('Error cancelling challenge:', err)
+      }
+    }
+
+    setChallenge(null)
+    setError(null)
+    onClose()
+  }
+
+  if (!player) return null
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="text-black fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <motion.div
+          className="bg-white rounded-lg p-6 max-w-md w-full"
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+        >
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold">Challenge {player.username}</h2>
+            <button onClick={handleClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+              <FaTimes />
+            </button>
+          </div>
+
+          {!challenge ? (
+            <div className="grid grid-cols-2 gap-2">
+              {challengeGames.map((game) => (
+                <button
+                  key={game.key}
+                  onClick={() => sendChallenge(game.key)}
+                  disabled={isSending}
+                  className="border-2 border-black rounded-lg py-3 px-2 font-medium hover:bg-gray-100 transition-colors disabled:opacity-50"
+                >
+                  {game.title}
+                </button>
+              ))}
+            </div>
+          ) : challenge.status === 'pending' ? (
+            <div className="text-center py-4">
+              <div className="w-12 h-12 border-4 border-black border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+              <p className="font-medium mb-1">Waiting for {player.username} to answer...</p>
+              <p className="text-sm text-gray-600">The challenge runs out in {secondsLeft}s</p>
+            </div>
+          ) : challenge.status === 'accepted' ? (
+            <p className="text-center text-green-600 py-8">Challenge accepted! Starting the game...</p>
+          ) : (
+            <p className="text-center text-gray-600 py-8">
+              {challenge.status === 'declined'
+                ? `${player.username} declined the challenge.`
+                : challenge.status === 'expired'
+                  ? `${player.username} didn't answer in time.`
+                  : 'The challenge was cancelled.'}
+            </p>
+          )}
+
+          {error && <p className="text-red-600 pt-4">{error}</p>}
+
+          <button
+            onClick={handleClose}
+            className="w-full mt-4 bg-black text-white py-2 rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            {challenge?.status === 'pending' ? 'Cancel Challenge' : 'Close'}
+          </button>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { FaTimes } from 'react-icons/fa'
+import type { GameDefinition } from '@/app/lib/games/registry'
+
+interface QuickMatchModalProps {
+  game: GameDefinition | null
+  onClose: () => void
+}
+
+interface QueueStatus {
+  status: 'idle' | 'waiting' | 'matched'
+  lobbyId?: string
+  position?: number
+  waitedSeconds?: number
+  ratingWindow?: number
+}
+
+const POLL_INTERVAL = 2000
+
+export default function QuickMatchModal({ game, onClose }: QuickMatchModalProps) {
+  const [queue, setQueue] = useState<QueueStatus | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isCancelling, setIsCancelling] = useState(false)
+
+  // Join the queue when opened, then keep polling so the server can pair us
+  useEffect(() => {
+    if (!game) return
+
+    let isActive = true
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    async function handleResponse(response: Response) {
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Quick Match failed')
+      if (!isActive) return
+
+      setQueue(data)
+      if (data.status === 'matched') {
+        window.location.href = `/game/${data.lobbyId}`
+      } else if (data.status === 'waiting') {
+        timer = setTimeout(poll, POLL_INTERVAL)
+      }
+    }
+
+    async function poll() {
+      try {
+        await handleResponse(await fetch('/api/matchmaking'))
+      } catch (err) {
+        console.error('Error polling queue:', err)
+        if (isActive) setError(err instanceof Error ? err.message : 'Quick Match failed')
+      }
+    }
+
+    async function joinQueue() {
+      try {
+        setError(null)
+        setQueue(null)
+        await handleResponse(
+          await fetch('/api/matchmaking', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ game: game?.key })
+          })
+        )
+      } catch (err) {
+        console.error('Error joining queue:', err)
+        if (isActive) setError(err instanceof Error ? err.message : 'Quick Match failed')
+      }
+    }
+
+    joinQueue()
+
+    return () => {
+      isActive = false
+      if (timer) clearTimeout(timer)
+    }
+  }, [game])
+
+  async function handleCancel() {
+    setIsCancelling(true)
+    try {
+      const response = await fetch('/api/matchmaking', { method: 'DELETE' })
+      const data = await response.json()
+
+      // A match may have landed just before the cancel did
+      if (response.ok && data.status === 'matched') {
+        window.location.href = `/game/${data.lobbyId}`
+        return
+      }
+    } catch (err) {
+      console.error('Error leaving queue:', err)
+    } finally {
+      setIsCancelling(false)
+    }
+    onClose()
+  }
+
+  if (!game) return null
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="text-black fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <motion.div
+          className="bg-white rounded-lg p-6 max-w-md w-full"
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+        >
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold">Quick Match: {game.title}</h2>
+            <button onClick={handleCancel} className="text-gray-500 hover:text-gray-700" aria-label="Cancel">
+              <FaTimes />
+            </button>
+          </div>
+
+          {error ? (
+            <p className="text-red-600 py-4">{error}</p>
+          ) : queue?.status === 'matched' ? (
+            <p className="text-center text-green-600 py-8">Opponent found! Starting the game...</p>
+          ) : (
+            <div className="text-center py-4">
+              <div className="w-12 h-12 border-4 border-black border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+              <p className="font-medium mb-1">Looking for an opponent...</p>
+              {queue?.status === 'waiting' && (
+                <>
+                  <p className="text-sm text-gray-600">Position in queue: {queue.position}</p>
+                  <p className="text-sm text-gray-600">
+                    Waiting {queue.waitedSeconds}s · matching within ±{queue.ratingWindow} rating
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={handleCancel}
+            disabled={isCancelling}
+            className="w-full mt-4 bg-black text-white py-2 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
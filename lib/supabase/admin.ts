@@ -0,0 +1,9 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Service role client for route handlers that write state players must not touch directly
+export function createAdminClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
@@ -0,0 +1,41 @@
+-- Battleship moves are resolved by /api/battleship with the service role.
+-- Players may no longer read ship layouts or write game state themselves.
+
+revoke insert, update, delete on public.battleship_game_states from anon, authenticated;
+revoke select on public.battleship_game_states from anon, authenticated;
+
+-- Everything except the two boards stays readable so realtime can still
+-- notify clients that the row changed
+grant select (
+  id,
+  lobby_id,
+  player1,
+  player2,
+  player1_shots,
+  player2_shots,
+  player1_ready,
+  player2_ready,
+  current_player,
+  status,
+  winner,
+  created_at,
+  last_updated
+) on public.battleship_game_states to authenticated;
+
+revoke insert, update, delete on public.battleship_moves from anon, authenticated;
+
+-- The old RPCs took the player id as an argument and trusted it
+do $$
+declare
+  fn record;
+begin
+  for fn in
+    select p.oid::regprocedure as signature
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public'
+      and p.proname in ('battleship_make_move', 'battleship_mark_player_ready')
+  loop
+    execute format('drop function %s', fn.signature);
+  end loop;
+end $$;
@@ -0,0 +1,26 @@
+-- All moves now go through /api/games/[gameStateId]/move, which applies them
+-- with the service role after running the game's rule engine.
+
+revoke update, delete on public.game_states from anon, authenticated;
+revoke update, delete on public.balloon_game_states from anon, authenticated;
+revoke insert, update, delete on public.game_moves from anon, authenticated;
+
+-- Move log written by the rule engines
+alter table public.game_moves add column if not exists player_id uuid references auth.users(id);
+alter table public.game_moves add column if not exists move jsonb;
+
+-- Replaced by the TypeScript rule engines
+do $$
+declare
+  fn record;
+begin
+  for fn in
+    select p.oid::regprocedure as signature
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public'
+      and p.proname in ('make_move', 'make_tic_tac_toe_move', 'make_ai_tic_tac_toe_move', 'pump_balloon')
+  loop
+    execute format('drop function %s', fn.signature);
+  end loop;
+end $$;
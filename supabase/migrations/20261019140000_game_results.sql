@@ -0,0 +1,4 @@
+-- Results are derived on the server from the stored board or move log.
+-- A finished game without a winner is a draw.
+
+alter table public.game_states add column if not exists is_draw boolean not null default false;
@@ -0,0 +1,9 @@
+-- /api/replay/[gameStateId] reads the move logs in the order they were played
+
+alter table public.game_moves add column if not exists created_at timestamptz not null default now();
+alter table public.battleship_moves add column if not exists created_at timestamptz not null default now();
+
+create index if not exists game_moves_game_state_id_created_at_idx
+  on public.game_moves (game_state_id, created_at);
+create index if not exists battleship_moves_game_state_id_created_at_idx
+  on public.battleship_moves (game_state_id, created_at);
@@ -0,0 +1,39 @@
+-- Per-game Elo ratings, updated by recordOutcome when a two-player game finishes.
+-- Only the service role writes here.
+
+create table if not exists public.player_ratings (
+  player_id uuid not null references auth.users(id) on delete cascade,
+  game_id integer not null references public.games(id) on delete cascade,
+  rating integer not null default 1200,
+  games_played integer not null default 0,
+  wins integer not null default 0,
+  losses integer not null default 0,
+  draws integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (player_id, game_id)
+);
+
+-- One row per player per rated game, so a result can never be rated twice
+create table if not exists public.rating_history (
+  id bigserial primary key,
+  player_id uuid not null references auth.users(id) on delete cascade,
+  game_id integer not null references public.games(id) on delete cascade,
+  game_state_id uuid not null references public.game_states(id) on delete cascade,
+  rating_before integer not null,
+  rating_after integer not null,
+  delta integer not null,
+  created_at timestamptz not null default now(),
+  unique (game_state_id, player_id)
+);
+
+create index if not exists player_ratings_game_id_rating_idx on public.player_ratings (game_id, rating desc);
+create index if not exists rating_history_game_id_created_at_idx on public.rating_history (game_id, created_at);
+
+alter table public.player_ratings enable row level security;
+alter table public.rating_history enable row level security;
+
+create policy "Ratings are public" on public.player_ratings for select using (true);
+create policy "Rating history is public" on public.rating_history for select using (true);
+
+revoke insert, update, delete on public.player_ratings from anon, authenticated;
+revoke insert, update, delete on public.rating_history from anon, authenticated;
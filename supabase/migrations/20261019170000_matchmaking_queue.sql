@@ -0,0 +1,25 @@
+-- Quick Match queue, managed by /api/matchmaking with the service role.
+-- A player is in at most one queue at a time.
+
+create table if not exists public.matchmaking_queue (
+  player_id uuid primary key references auth.users(id) on delete cascade,
+  game_id integer not null references public.games(id) on delete cascade,
+  rating integer not null default 1200,
+  -- waiting -> matching while the lobby is being created -> matched
+  status text not null default 'waiting' check (status in ('waiting', 'matching', 'matched')),
+  lobby_id uuid references public.lobbies(id) on delete set null,
+  created_at timestamptz not null default now(),
+  -- Bumped on every poll, players who stop polling are never paired
+  last_seen_at timestamptz not null default now(),
+  matched_at timestamptz
+);
+
+create index if not exists matchmaking_queue_game_id_status_created_at_idx
+  on public.matchmaking_queue (game_id, status, created_at);
+
+alter table public.matchmaking_queue enable row level security;
+
+create policy "Players can view their own queue entry" on public.matchmaking_queue
+  for select using (auth.uid() = player_id);
+
+revoke insert, update, delete on public.matchmaking_queue from anon, authenticated;
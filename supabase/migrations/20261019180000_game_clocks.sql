@@ -0,0 +1,28 @@
+-- Per-move and total-game clocks, enforced by /api/games/[gameStateId]/move and
+-- /api/games/[gameStateId]/timeout. Limits are in seconds (null means no limit)
+-- and time used is in milliseconds.
+
+alter table public.game_states add column if not exists move_time_limit integer default 60;
+alter table public.game_states add column if not exists game_time_limit integer default 600;
+-- Set when a turn starts, null until the game does
+alter table public.game_states add column if not exists turn_started_at timestamptz;
+alter table public.game_states add column if not exists player1_time_used integer not null default 0;
+alter table public.game_states add column if not exists player2_time_used integer not null default 0;
+alter table public.game_states add column if not exists forfeited_by uuid references auth.users(id);
+
+-- Battleship copies the limits from the lobby's game_states row when it is created
+alter table public.battleship_game_states add column if not exists move_time_limit integer default 60;
+alter table public.battleship_game_states add column if not exists game_time_limit integer default 600;
+alter table public.battleship_game_states add column if not exists turn_started_at timestamptz;
+alter table public.battleship_game_states add column if not exists player1_time_used integer not null default 0;
+alter table public.battleship_game_states add column if not exists player2_time_used integer not null default 0;
+alter table public.battleship_game_states add column if not exists forfeited_by uuid references auth.users(id);
+
+grant select (
+  move_time_limit,
+  game_time_limit,
+  turn_started_at,
+  player1_time_used,
+  player2_time_used,
+  forfeited_by
+) on public.battleship_game_states to authenticated;
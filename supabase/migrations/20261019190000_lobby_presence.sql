@@ -0,0 +1,33 @@
+-- Heartbeats from players on the lobby and game pages, written by
+-- /api/lobbies/[lobbyId]/presence with the service role. A player who stops
+-- sending them for longer than the grace period can be forfeited.
+
+create table if not exists public.lobby_presence (
+  lobby_id uuid not null references public.lobbies(id) on delete cascade,
+  player_id uuid not null references auth.users(id) on delete cascade,
+  last_seen_at timestamptz not null default now(),
+  primary key (lobby_id, player_id)
+);
+
+alter table public.lobby_presence enable row level security;
+
+create policy "Anyone can view lobby presence" on public.lobby_presence
+  for select using (true);
+
+revoke insert, update, delete on public.lobby_presence from anon, authenticated;
+
+-- Seconds a disconnected player has to rejoin, null turns auto-forfeits off
+alter table public.game_states add column if not exists disconnect_grace_period integer default 60;
+
+-- Why forfeited_by lost: 'timeout' or 'disconnect'
+alter table public.game_states add column if not exists forfeit_reason text
+  check (forfeit_reason in ('timeout', 'disconnect'));
+alter table public.battleship_game_states add column if not exists forfeit_reason text
+  check (forfeit_reason in ('timeout', 'disconnect'));
+
+-- Balloon has no clocks but can still be abandoned
+alter table public.balloon_game_states add column if not exists forfeited_by uuid references auth.users(id);
+alter table public.balloon_game_states add column if not exists forfeit_reason text
+  check (forfeit_reason in ('timeout', 'disconnect'));
+
+grant select (forfeit_reason) on public.battleship_game_states to authenticated;
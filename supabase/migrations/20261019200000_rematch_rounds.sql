@@ -0,0 +1,23 @@
+-- Rematches add another round to the same lobby instead of a new lobby, so a
+-- lobby now has one game_states row per round. Games with their own state
+-- table follow the round of the lobby's current game_states row.
+
+alter table public.game_states add column if not exists round integer not null default 1;
+alter table public.game_states drop constraint if exists game_states_lobby_id_key;
+create unique index if not exists game_states_lobby_id_round_key on public.game_states (lobby_id, round);
+
+alter table public.battleship_game_states add column if not exists round integer not null default 1;
+alter table public.battleship_game_states drop constraint if exists battleship_game_states_lobby_id_key;
+create unique index if not exists battleship_game_states_lobby_id_round_key
+  on public.battleship_game_states (lobby_id, round);
+
+alter table public.balloon_game_states add column if not exists round integer not null default 1;
+alter table public.balloon_game_states drop constraint if exists balloon_game_states_lobby_id_key;
+create unique index if not exists balloon_game_states_lobby_id_round_key
+  on public.balloon_game_states (lobby_id, round);
+
+-- Pending rematch for a finished round, written by /api/lobbies/[lobbyId]/rematch
+alter table public.game_states add column if not exists rematch_requested_by uuid references auth.users(id);
+alter table public.game_states add column if not exists rematch_declined boolean not null default false;
+
+grant select (round) on public.battleship_game_states to authenticated;
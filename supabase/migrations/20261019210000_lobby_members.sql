@@ -0,0 +1,89 @@
+-- Lobby membership with any number of seats, written by
+-- /api/lobbies/[lobbyId]/members with the service role. Seats 1 and 2 are
+-- still copied onto game_states.player1 and player2, games with more seats
+-- read the whole turn order from game_states.players.
+
+create table if not exists public.lobby_members (
+  lobby_id uuid not null references public.lobbies(id) on delete cascade,
+  player_id uuid not null references auth.users(id) on delete cascade,
+  seat integer not null check (seat >= 1),
+  -- Only set in team games, seats alternate between teams
+  team integer,
+  is_ready boolean not null default false,
+  joined_at timestamptz not null default now(),
+  primary key (lobby_id, player_id),
+  unique (lobby_id, seat)
+);
+
+alter table public.lobby_members enable row level security;
+
+create policy "Anyone can view lobby members" on public.lobby_members
+  for select using (true);
+
+revoke insert, update, delete on public.lobby_members from anon, authenticated;
+
+-- The host can hand the lobby over, created_by keeps who made it
+alter table public.lobbies add column if not exists host_id uuid references auth.users(id);
+update public.lobbies set host_id = created_by where host_id is null;
+
+-- Whoever creates a lobby hosts it from the first seat
+create or replace function public.set_lobby_host()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.host_id is null then
+    new.host_id := new.created_by;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.seat_lobby_host()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.created_by is not null then
+    insert into public.lobby_members (lobby_id, player_id, seat, is_ready)
+    values (new.id, new.created_by, 1, true)
+    on conflict do nothing;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists lobbies_set_host on public.lobbies;
+create trigger lobbies_set_host
+  before insert on public.lobbies
+  for each row execute function public.set_lobby_host();
+
+drop trigger if exists lobbies_seat_host on public.lobbies;
+create trigger lobbies_seat_host
+  after insert on public.lobbies
+  for each row execute function public.seat_lobby_host();
+
+-- Existing lobbies keep the two players they already have
+insert into public.lobby_members (lobby_id, player_id, seat, is_ready)
+select lobby_id, player1, 1, true from public.game_states where round = 1 and player1 is not null
+on conflict do nothing;
+
+insert into public.lobby_members (lobby_id, player_id, seat, is_ready)
+select lobby_id, player2, 2, true from public.game_states where round = 1 and player2 is not null
+on conflict do nothing;
+
+-- Turn order for games with more than two seats, null for two-player games
+alter table public.game_states add column if not exists players uuid[];
+alter table public.balloon_game_states add column if not exists players uuid[];
+
+-- Balloon players knocked out by popping a balloon while others are left
+alter table public.balloon_game_states add column if not exists eliminated uuid[] not null default '{}';
+
+-- Seats are taken through the members API now
+drop function if exists public.join_lobby_simple(uuid);
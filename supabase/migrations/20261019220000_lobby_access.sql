@@ -0,0 +1,82 @@
+-- Who can find and join a lobby. Public lobbies are listed on the explore
+-- page, unlisted ones can only be joined through their link or a code, and
+-- private ones only by players the host invited.
+
+alter table public.lobbies add column if not exists visibility text not null default 'public'
+  check (visibility in ('public', 'unlisted', 'private'));
+
+-- Lets the lobby page ask for the password up front, the hash itself is never readable
+alter table public.lobbies add column if not exists has_password boolean not null default false;
+
+create table if not exists public.lobby_passwords (
+  lobby_id uuid primary key references public.lobbies(id) on delete cascade,
+  password_hash text not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Only the service role reads or writes password hashes
+alter table public.lobby_passwords enable row level security;
+revoke all on public.lobby_passwords from anon, authenticated;
+
+-- Allow-list of players the host invited, written by /api/lobbies/[lobbyId]/invites
+-- and by redeeming an invite code. Invited players skip the password.
+create table if not exists public.lobby_invites (
+  lobby_id uuid not null references public.lobbies(id) on delete cascade,
+  player_id uuid not null references auth.users(id) on delete cascade,
+  invited_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (lobby_id, player_id)
+);
+
+alter table public.lobby_invites enable row level security;
+
+create policy "Players can view their own invites" on public.lobby_invites
+  for select using (auth.uid() = player_id);
+
+create policy "Hosts can view their lobby's invites" on public.lobby_invites
+  for select using (
+    exists (select 1 from public.lobbies where lobbies.id = lobby_id and lobbies.host_id = auth.uid())
+  );
+
+revoke insert, update, delete on public.lobby_invites from anon, authenticated;
+
+-- Only public lobbies are listed on the explore page
+drop function if exists public.get_active_multiplayer_lobbies();
+
+create function public.get_active_multiplayer_lobbies()
+returns table (
+  lobby_id uuid,
+  game_state_id uuid,
+  game_id integer,
+  game_title text,
+  player1_username text,
+  player1_id uuid,
+  player2_id uuid,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    l.id,
+    gs.id,
+    g.id::integer,
+    g.title,
+    p.username,
+    gs.player1,
+    gs.player2,
+    l.created_at
+  from public.lobbies l
+  join public.game_states gs on gs.lobby_id = l.id and gs.round = 1
+  join public.games g on g.id = l.game_id
+  left join public.profiles p on p.id = gs.player1
+  where gs.status = 'waiting'
+    and not coalesce(g."singlePlayer", false)
+    and l.visibility = 'public'
+  order by l.created_at desc
+  limit 20;
+$$;
+
+grant execute on function public.get_active_multiplayer_lobbies() to anon, authenticated;
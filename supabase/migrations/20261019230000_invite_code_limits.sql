@@ -0,0 +1,61 @@
+-- Invite codes with a chosen expiry and an optional cap on how many players
+-- can redeem them, plus a record of who redeemed each code and when.
+
+alter table public.invite_codes add column if not exists created_by uuid references auth.users(id) on delete set null;
+-- Null means the code works until it expires
+alter table public.invite_codes add column if not exists max_uses integer check (max_uses is null or max_uses > 0);
+alter table public.invite_codes add column if not exists use_count integer not null default 0;
+alter table public.invite_codes add column if not exists used_by uuid[] not null default '{}';
+alter table public.invite_codes add column if not exists revoked_at timestamptz;
+
+-- Codes are looked up by their text, only one live code can have it
+update public.invite_codes set is_active = false where is_active and expires_at < now();
+create unique index if not exists invite_codes_active_code_key on public.invite_codes (code) where is_active;
+
+create table if not exists public.invite_code_redemptions (
+  invite_code_id uuid not null references public.invite_codes(id) on delete cascade,
+  player_id uuid not null references auth.users(id) on delete cascade,
+  redeemed_at timestamptz not null default now(),
+  primary key (invite_code_id, player_id)
+);
+
+alter table public.invite_code_redemptions enable row level security;
+revoke all on public.invite_code_redemptions from anon, authenticated;
+
+-- Counts a redemption unless the code ran out in the meantime. Redeeming the
+-- same code again is free, so players can follow the link more than once.
+create or replace function public.redeem_invite_code(p_invite_code_id uuid, p_player_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.invite_code_redemptions
+    where invite_code_id = p_invite_code_id and player_id = p_player_id
+  ) then
+    return true;
+  end if;
+
+  update public.invite_codes
+  set use_count = use_count + 1,
+      used_by = array_append(used_by, p_player_id)
+  where id = p_invite_code_id
+    and is_active
+    and expires_at > now()
+    and (max_uses is null or use_count < max_uses);
+
+  if not found then
+    return false;
+  end if;
+
+  insert into public.invite_code_redemptions (invite_code_id, player_id)
+  values (p_invite_code_id, p_player_id)
+  on conflict do nothing;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.redeem_invite_code(uuid, uuid) from public, anon, authenticated;
@@ -0,0 +1,33 @@
+-- Direct challenges from one player to another, managed by /api/challenges
+-- with the service role. The challenger's private lobby is created with the
+-- challenge and starts once the challenged player accepts.
+
+create table if not exists public.challenges (
+  id uuid primary key default gen_random_uuid(),
+  challenger_id uuid not null references auth.users(id) on delete cascade,
+  challenged_id uuid not null references auth.users(id) on delete cascade,
+  game_id integer not null references public.games(id) on delete cascade,
+  lobby_id uuid references public.lobbies(id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'cancelled', 'expired')),
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  responded_at timestamptz,
+  check (challenger_id <> challenged_id)
+);
+
+-- One open challenge between the same two players at a time
+create unique index if not exists challenges_pending_pair_key
+  on public.challenges (challenger_id, challenged_id) where status = 'pending';
+
+create index if not exists challenges_challenged_id_status_idx on public.challenges (challenged_id, status);
+
+alter table public.challenges enable row level security;
+
+create policy "Players can view their own challenges" on public.challenges
+  for select using (auth.uid() = challenger_id or auth.uid() = challenged_id);
+
+revoke insert, update, delete on public.challenges from anon, authenticated;
+
+-- The challenged player hears about new challenges without polling
+alter publication supabase_realtime add table public.challenges;
@@ -0,0 +1,29 @@
+-- Friend requests and friendships, managed by /api/friends with the service
+-- role. A request is a pending row from requester to addressee, accepting it
+-- keeps the row, declining or removing a friend deletes it.
+
+create table if not exists public.friendships (
+  requester_id uuid not null references auth.users(id) on delete cascade,
+  addressee_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'accepted')),
+  created_at timestamptz not null default now(),
+  responded_at timestamptz,
+  primary key (requester_id, addressee_id),
+  check (requester_id <> addressee_id)
+);
+
+-- Only one row per pair, whichever of the two sent the request
+create unique index if not exists friendships_pair_key
+  on public.friendships (least(requester_id, addressee_id), greatest(requester_id, addressee_id));
+
+create index if not exists friendships_addressee_id_idx on public.friendships (addressee_id);
+
+alter table public.friendships enable row level security;
+
+create policy "Players can view their own friendships" on public.friendships
+  for select using (auth.uid() = requester_id or auth.uid() = addressee_id);
+
+revoke insert, update, delete on public.friendships from anon, authenticated;
+
+-- Friend requests show up without a reload
+alter publication supabase_realtime add table public.friendships;
@@ -0,0 +1,49 @@
+-- Persistent notifications for invites, challenges, rematch requests, turns and
+-- game results. The API routes write them with the service role, players only
+-- read their own and mark them read through /api/notifications/read.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  player_id uuid not null references auth.users(id) on delete cascade,
+  type text not null
+    check (type in ('invite', 'challenge', 'rematch', 'your-turn', 'game-result')),
+  title text not null,
+  body text,
+  link text,
+  lobby_id uuid references public.lobbies(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists notifications_player_id_created_at_idx
+  on public.notifications (player_id, created_at desc);
+
+create index if not exists notifications_player_id_unread_idx
+  on public.notifications (player_id) where read_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "Players can view their own notifications" on public.notifications
+  for select using (auth.uid() = player_id);
+
+revoke insert, update, delete on public.notifications from anon, authenticated;
+
+-- Types a player turned off on the settings page, every type is on without a row
+create table if not exists public.notification_preferences (
+  player_id uuid not null references auth.users(id) on delete cascade,
+  type text not null
+    check (type in ('invite', 'challenge', 'rematch', 'your-turn', 'game-result')),
+  enabled boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (player_id, type)
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Players can view their own notification preferences" on public.notification_preferences
+  for select using (auth.uid() = player_id);
+
+revoke insert, update, delete on public.notification_preferences from anon, authenticated;
+
+-- The bell hears about new notifications without polling
+alter publication supabase_realtime add table public.notifications;
@@ -0,0 +1,88 @@
+-- Scoped chat rooms on top of messages.room_id. Besides the global "general"
+-- room every lobby gets three rooms, see app/lib/chat.ts:
+--   lobby:<lobby id>       the host and seated players on the lobby page
+--   game:<lobby id>        the players of the running game
+--   spectators:<lobby id>  everyone watching the game, but not its players
+--
+-- messages predates the migrations folder, so the room checks are added both
+-- as permissive policies (in case row level security was off) and as
+-- restrictive ones (in case older permissive policies already let everyone in).
+
+create or replace function public.can_access_chat_room(p_room_id text)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_kind text := split_part(p_room_id, ':', 1);
+  v_lobby_id uuid;
+  v_is_player boolean;
+begin
+  if p_room_id = 'general' then
+    return true;
+  end if;
+
+  if auth.uid() is null
+    or p_room_id !~ '^(lobby|game|spectators):[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+    return false;
+  end if;
+
+  v_lobby_id := split_part(p_room_id, ':', 2)::uuid;
+
+  if v_kind = 'lobby' then
+    return exists (
+      select 1 from public.lobby_members where lobby_id = v_lobby_id and player_id = auth.uid()
+    ) or exists (
+      select 1 from public.lobbies where id = v_lobby_id and host_id = auth.uid()
+    );
+  end if;
+
+  -- Seated in any round of the lobby's game
+  select exists (
+    select 1 from public.game_states
+    where lobby_id = v_lobby_id
+      and (player1 = auth.uid() or player2 = auth.uid() or auth.uid() = any(players))
+  ) into v_is_player;
+
+  if v_kind = 'game' then
+    return v_is_player;
+  end if;
+
+  -- Spectators can't whisper to the players, and private games are only
+  -- watched by the players' invitees
+  return not v_is_player and exists (
+    select 1 from public.lobbies l
+    where l.id = v_lobby_id
+      and (
+        l.visibility <> 'private'
+        or l.host_id = auth.uid()
+        or exists (select 1 from public.lobby_invites i where i.lobby_id = l.id and i.player_id = auth.uid())
+      )
+  );
+end;
+$$;
+
+alter table public.messages enable row level security;
+
+create index if not exists messages_room_id_created_at_idx on public.messages (room_id, created_at);
+
+create policy "Room members can read chat" on public.messages
+  for select using (public.can_access_chat_room(room_id));
+
+create policy "Room members can post in chat" on public.messages
+  for insert with check (
+    room_id = 'general' or (user_id = auth.uid() and public.can_access_chat_room(room_id))
+  );
+
+create policy "Only room members read chat" on public.messages
+  as restrictive for select using (public.can_access_chat_room(room_id));
+
+create policy "Only room members post in chat" on public.messages
+  as restrictive for insert with check (
+    room_id = 'general' or (user_id = auth.uid() and public.can_access_chat_room(room_id))
+  );
+
+-- Day-old messages are cleared by the server, see /api/chat/cleanup
+revoke delete on public.messages from anon, authenticated;
@@ -0,0 +1,61 @@
+-- Chat moderation. Messages are now posted through /api/chat/messages, which
+-- checks length, rate limits, the word filter, links and mutes before writing
+-- them with the service role, so players can no longer insert directly.
+
+drop policy if exists "Room members can post in chat" on public.messages;
+drop policy if exists "Only room members post in chat" on public.messages;
+
+revoke insert, update on public.messages from anon, authenticated;
+
+create index if not exists messages_user_id_created_at_idx on public.messages (user_id, created_at);
+
+-- Players who can see reports, delete messages and mute people at /admin/chat
+create table if not exists public.chat_moderators (
+  player_id uuid primary key references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.chat_moderators enable row level security;
+
+revoke insert, update, delete on public.chat_moderators from anon, authenticated;
+
+-- One row per muted player, a mute is over once muted_until has passed
+create table if not exists public.chat_mutes (
+  player_id uuid primary key references auth.users(id) on delete cascade,
+  muted_until timestamptz not null,
+  reason text,
+  muted_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.chat_mutes enable row level security;
+
+create policy "Players can view their own mute" on public.chat_mutes
+  for select using (auth.uid() = player_id);
+
+revoke insert, update, delete on public.chat_mutes from anon, authenticated;
+
+-- Reports keep a copy of the message, so they still make sense after a
+-- moderator deletes it
+create table if not exists public.message_reports (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid references public.messages(id) on delete set null,
+  message_text text not null,
+  message_user_id uuid references auth.users(id) on delete cascade,
+  room_id text not null,
+  reported_by uuid not null references auth.users(id) on delete cascade,
+  reason text,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users(id) on delete set null
+);
+
+-- A player reports a message once
+create unique index if not exists message_reports_message_id_reported_by_key
+  on public.message_reports (message_id, reported_by);
+
+create index if not exists message_reports_open_idx on public.message_reports (created_at) where resolved_at is null;
+
+alter table public.message_reports enable row level security;
+
+revoke insert, update, delete on public.message_reports from anon, authenticated;
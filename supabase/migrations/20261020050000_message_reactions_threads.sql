@@ -0,0 +1,32 @@
+-- Reply threads, edits and reactions for chat messages, all written through
+-- /api/chat/messages with the service role. Players delete their own messages
+-- by blanking them, so the replies underneath still have something to hang off.
+
+alter table public.messages add column if not exists parent_id uuid references public.messages(id) on delete cascade;
+alter table public.messages add column if not exists edited_at timestamptz;
+alter table public.messages add column if not exists deleted_at timestamptz;
+
+create index if not exists messages_parent_id_idx on public.messages (parent_id) where parent_id is not null;
+
+-- One row per player and reaction, room_id is copied from the message so
+-- clients can listen to a single room's reactions
+create table if not exists public.message_reactions (
+  message_id uuid not null references public.messages(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  reaction text not null check (reaction in ('heart', 'thumbsUp', 'laugh', 'fire')),
+  room_id text not null,
+  created_at timestamptz not null default now(),
+  primary key (message_id, user_id, reaction)
+);
+
+create index if not exists message_reactions_room_id_idx on public.message_reactions (room_id);
+
+alter table public.message_reactions enable row level security;
+
+create policy "Room members can see reactions" on public.message_reactions
+  for select using (public.can_access_chat_room(room_id));
+
+revoke insert, update, delete on public.message_reactions from anon, authenticated;
+
+-- Edits, deletes and reactions reach the chat over the same realtime channel as new messages
+alter publication supabase_realtime add table public.message_reactions;
@@ -0,0 +1,85 @@
+-- Chat retention and search. Old messages used to be cleared whenever a chat
+-- widget was open, now prune_chat_messages removes them on a schedule (see
+-- supabase/config.toml) following chat_retention_rules.
+
+-- How long each kind of room keeps its messages. room_kind is the part of
+-- room_id before the ':', or the whole id for rooms like 'general'. Rooms
+-- without a rule keep everything.
+create table if not exists public.chat_retention_rules (
+  room_kind text primary key,
+  keep_for interval not null check (keep_for > interval '0')
+);
+
+alter table public.chat_retention_rules enable row level security;
+
+revoke insert, update, delete on public.chat_retention_rules from anon, authenticated;
+
+insert into public.chat_retention_rules (room_kind, keep_for) values
+  ('general', interval '14 days'),
+  ('lobby', interval '7 days'),
+  ('game', interval '30 days'),
+  ('spectators', interval '7 days')
+on conflict (room_kind) do nothing;
+
+-- Deletes messages past their room's retention and returns how many went.
+-- Messages with open reports wait for a moderator, and a thread stays until
+-- its last reply is old too, since deleting a message deletes its replies.
+create or replace function public.prune_chat_messages()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_deleted integer;
+begin
+  delete from public.messages m
+  using public.chat_retention_rules r
+  where r.room_kind = split_part(m.room_id, ':', 1)
+    and m.created_at < now() - r.keep_for
+    and not exists (
+      select 1 from public.message_reports mr
+      where mr.message_id = m.id and mr.resolved_at is null
+    )
+    and not exists (
+      select 1 from public.messages reply
+      where reply.parent_id = m.id and reply.created_at >= now() - r.keep_for
+    );
+
+  get diagnostics v_deleted = row_count;
+  return v_deleted;
+end;
+$$;
+
+revoke execute on function public.prune_chat_messages() from public, anon, authenticated;
+
+create index if not exists messages_room_id_created_at_idx on public.messages (room_id, created_at);
+
+create index if not exists messages_search_idx on public.messages using gin (to_tsvector('english', message));
+
+-- Full text search over the messages the caller can read. It runs as the
+-- caller, so the messages select policies keep other rooms out.
+create or replace function public.search_chat_messages(
+  p_query text,
+  p_room_id text default null,
+  p_user_id uuid default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_limit integer default 25
+)
+returns setof public.messages
+language sql
+stable
+set search_path = public
+as $$
+  select *
+  from public.messages
+  where deleted_at is null
+    and to_tsvector('english', message) @@ websearch_to_tsquery('english', p_query)
+    and (p_room_id is null or room_id = p_room_id)
+    and (p_user_id is null or user_id = p_user_id)
+    and (p_from is null or created_at >= p_from)
+    and (p_to is null or created_at < p_to)
+  order by created_at desc
+  limit least(greatest(p_limit, 1), 50);
+$$;
@@ -0,0 +1,36 @@
+-- Games against the computer. The host picks a difficulty in the lobby, and
+-- when the game starts the computer's account takes player2, so its moves are
+-- checked and logged like a person's (see app/lib/games/ai.ts).
+
+alter table public.game_states add column if not exists ai_difficulty text;
+
+-- The computer's account has no password, nobody can sign in as it
+insert into auth.users (
+  id,
+  instance_id,
+  aud,
+  role,
+  email,
+  encrypted_password,
+  raw_app_meta_data,
+  raw_user_meta_data,
+  created_at,
+  updated_at
+)
+values (
+  '00000000-0000-4000-8000-000000000001',
+  '00000000-0000-0000-0000-000000000000',
+  'authenticated',
+  'authenticated',
+  'computer@csgames.invalid',
+  '',
+  '{}'::jsonb,
+  '{}'::jsonb,
+  now(),
+  now()
+)
+on conflict (id) do nothing;
+
+insert into public.profiles (id, username)
+values ('00000000-0000-4000-8000-000000000001', 'Computer')
+on conflict (id) do nothing;
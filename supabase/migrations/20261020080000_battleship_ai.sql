@@ -0,0 +1,8 @@
+-- Battleship against the computer. /api/battleship copies the choice from the
+-- lobby's game_states row when it creates the board, and places the
+-- computer's fleet there and then.
+
+alter table public.battleship_game_states add column if not exists ai_opponent boolean not null default false;
+alter table public.battleship_game_states add column if not exists ai_difficulty text;
+
+grant select (ai_opponent, ai_difficulty) on public.battleship_game_states to authenticated;
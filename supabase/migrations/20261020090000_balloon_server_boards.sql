@@ -0,0 +1,43 @@
+-- Balloon boards are created and seated by /api/balloon with the service role.
+-- The pop threshold stays on the server, players read the rest of the row.
+
+revoke select on public.balloon_game_states from anon, authenticated;
+
+-- Everything except pop_threshold stays readable so realtime can still
+-- notify clients that the row changed
+grant select (
+  id,
+  lobby_id,
+  round,
+  player1,
+  player2,
+  players,
+  eliminated,
+  current_player,
+  size,
+  score,
+  is_popped,
+  remaining_pumps,
+  turn_timer,
+  status,
+  winner,
+  forfeited_by,
+  forfeit_reason,
+  created_at
+) on public.balloon_game_states to authenticated;
+
+-- Seats now come from the lobby, players no longer join a board themselves
+do $$
+declare
+  fn record;
+begin
+  for fn in
+    select p.oid::regprocedure as signature
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public'
+      and p.proname = 'join_balloon_game'
+  loop
+    execute format('drop function %s', fn.signature);
+  end loop;
+end $$;
@@ -0,0 +1,24 @@
+-- Game state rows are only created by the server. Lobbies get their first
+-- round from create_lobby_with_game_state, rematch rounds and boards come from
+-- the API with the service role, so players can't insert a finished game or a
+-- round with someone else seated in it.
+
+revoke insert on public.game_states from anon, authenticated;
+revoke insert on public.balloon_game_states from anon, authenticated;
+
+-- The lobby function only takes a game id and seats the caller, so it keeps
+-- creating the first round on their behalf
+do $$
+declare
+  fn record;
+begin
+  for fn in
+    select p.oid::regprocedure as signature
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public'
+      and p.proname = 'create_lobby_with_game_state'
+  loop
+    execute format('alter function %s security definer set search_path = public', fn.signature);
+  end loop;
+end $$;
@@ -0,0 +1,36 @@
+-- Every write to a game state bumps its version, so the move API can tell
+-- when the row changed since it was read, even if the turn and status didn't
+-- (a Balloon pump or a Battleship placement keeps the turn).
+
+alter table public.game_states add column if not exists version integer not null default 0;
+alter table public.balloon_game_states add column if not exists version integer not null default 0;
+alter table public.battleship_game_states add column if not exists version integer not null default 0;
+
+create or replace function public.bump_game_state_version()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.version := old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists game_states_bump_version on public.game_states;
+create trigger game_states_bump_version
+  before update on public.game_states
+  for each row execute function public.bump_game_state_version();
+
+drop trigger if exists balloon_game_states_bump_version on public.balloon_game_states;
+create trigger balloon_game_states_bump_version
+  before update on public.balloon_game_states
+  for each row execute function public.bump_game_state_version();
+
+drop trigger if exists battleship_game_states_bump_version on public.battleship_game_states;
+create trigger battleship_game_states_bump_version
+  before update on public.battleship_game_states
+  for each row execute function public.bump_game_state_version();
+
+grant select (version) on public.balloon_game_states to authenticated;
+grant select (version) on public.battleship_game_states to authenticated;
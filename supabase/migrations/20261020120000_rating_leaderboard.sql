@@ -0,0 +1,74 @@
+-- Per-game rating leaderboard, summed, sorted and paged in the database so
+-- games with more rated players than one API response holds still rank
+-- everyone. rating_change sums the deltas inside the last p_days, and with
+-- p_days set only players who played in that window are listed. rank is the
+-- player's place on the whole board, also when p_player_id picks one player.
+
+create or replace function public.get_rating_leaderboard(
+  p_game_id integer,
+  p_days integer default null,
+  p_sort text default 'rating',
+  p_player_id uuid default null,
+  p_limit integer default 100,
+  p_offset integer default 0
+)
+returns table (
+  player_id uuid,
+  username text,
+  rating integer,
+  games_played integer,
+  wins integer,
+  win_percentage double precision,
+  rating_change bigint,
+  rank bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  with changes as (
+    select h.player_id, sum(h.delta) as rating_change
+    from public.rating_history h
+    where h.game_id = p_game_id
+      and (p_days is null or h.created_at >= now() - make_interval(days => p_days))
+    group by h.player_id
+  ),
+  entries as (
+    select
+      r.player_id,
+      coalesce(p.username, 'Unknown player') as username,
+      r.rating,
+      r.games_played,
+      r.wins,
+      case when r.games_played > 0 then r.wins * 100.0 / r.games_played else 0 end::double precision as win_percentage,
+      coalesce(c.rating_change, 0) as rating_change
+    from public.player_ratings r
+    left join changes c on c.player_id = r.player_id
+    left join public.profiles p on p.id = r.player_id
+    where r.game_id = p_game_id
+      and (p_days is null or c.player_id is not null)
+  ),
+  ranked as (
+    select
+      entries.*,
+      row_number() over (
+        order by
+          case p_sort
+            when 'wins' then entries.wins::double precision
+            when 'games' then entries.games_played::double precision
+            when 'winrate' then entries.win_percentage
+            else entries.rating::double precision
+          end desc,
+          entries.player_id
+      ) as rank
+    from entries
+  )
+  select *
+  from ranked
+  where p_player_id is null or ranked.player_id = p_player_id
+  order by ranked.rank
+  limit least(greatest(p_limit, 1), 100)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.get_rating_leaderboard(integer, integer, text, uuid, integer, integer) to anon, authenticated;